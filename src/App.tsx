@@ -1,12 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
-import WebsiteInput from './components/WebsiteInput';
+import WebsiteInput, { EvaluationOptions } from './components/WebsiteInput';
 import EvaluationResults from './components/EvaluationResults';
 import Auth from './components/Auth';
-import { evaluateWebsite } from './services/evaluator';
+import { evaluateWebsite, DeviceType } from './services/evaluator';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { auth } from './services/firebase';
 import { signOut } from 'firebase/auth';
-import { getUserBalance, decrementUserBalance, SERVICE_COSTS, checkCreditsAndShowError } from './services/points';
+import { getUserBalance, decrementUserBalance, SERVICE_COSTS, checkCreditsAndShowError, BillingAccount } from './services/points';
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import ProfilePage from './components/ProfilePage';
@@ -22,7 +22,7 @@ import PaymentMethodSuccess from './components/PaymentMethodSuccess';
 import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import { paymentService, UserData } from './services/paymentService';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faBolt, faDollarSign, faCreditCard } from '@fortawesome/free-solid-svg-icons';
+import { faBolt, faDollarSign, faCreditCard, faBell } from '@fortawesome/free-solid-svg-icons';
 import { useNavigate } from 'react-router-dom';
 import { db } from './services/firebase';
 import { getFirestore, collection, doc, onSnapshot, DocumentSnapshot, updateDoc } from 'firebase/firestore';
@@ -30,6 +30,17 @@ import { Message } from './components/ChatInterface';
 import Footer from './components/Footer';
 import TermsOfService from './pages/TermsOfService';
 import PrivacyPolicy from './pages/PrivacyPolicy';
+import SharedReportPage from './pages/SharedReportPage';
+import SiteCrawlSummary from './components/SiteCrawlSummary';
+import { siteCrawler, CrawlOptions, SiteCrawlResult } from './services/siteCrawler';
+import BenchmarkSummary from './components/BenchmarkSummary';
+import { benchmarkService, BenchmarkResult } from './services/benchmark';
+import { deviceProfileService } from './services/deviceProfiles';
+import MonitorsPage from './components/MonitorsPage';
+import { monitorService, getAlertTitle } from './services/monitorService';
+import { scoringProfileService, ScoringProfile, DEFAULT_SCORING_PROFILE } from './services/scoringProfiles';
+import { workspaceService, Workspace } from './services/workspaces';
+import { PHASES } from './services/phaseMetrics';
 
 console.log('App loaded');
 
@@ -43,6 +54,13 @@ interface ErrorBoundaryProps {
   children: React.ReactNode;
 }
 
+interface EvaluationCharge {
+  // Gives back part of the charge, e.g. for pages or competitors that couldn't be evaluated; false if nothing was returned
+  refund: (amount: number) => Promise<boolean>;
+  // Gives back whatever is still charged and tells the user
+  refundAll: () => Promise<void>;
+}
+
 // Add this new Error Boundary component
 class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
   constructor(props: ErrorBoundaryProps) {
@@ -119,6 +137,16 @@ const AppContent: React.FC = () => {
   const [metricsSearchTerm, setMetricsSearchTerm] = useState<string>('');
   const [isPayAsYouGo, setIsPayAsYouGo] = useState(false);
   const [userData, setUserData] = useState<UserData | null>(null);
+  const [siteCrawlResult, setSiteCrawlResult] = useState<SiteCrawlResult | null>(null);
+  const [benchmarkResult, setBenchmarkResult] = useState<BenchmarkResult | null>(null);
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfile[]>([DEFAULT_SCORING_PROFILE]);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE);
+  const [targetKeyword, setTargetKeyword] = useState('');
+  const [phasePlan, setPhasePlan] = useState<string[]>(PHASES);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(() => localStorage.getItem('activeWorkspaceId'));
+  const [workspaceBalance, setWorkspaceBalance] = useState<number | null>(null);
   const navigate = useNavigate();
 
   // Add chat state
@@ -126,6 +154,7 @@ const AppContent: React.FC = () => {
     messages: Message[];
     currentPhase: string | null;
     phaseScores: { [key: string]: number };
+    completedPhases: string[];
     overallScore: number | null;
     userInput: string;
     isThinking: boolean;
@@ -133,6 +162,7 @@ const AppContent: React.FC = () => {
     messages: [],
     currentPhase: null,
     phaseScores: {},
+    completedPhases: [],
     overallScore: null,
     userInput: '',
     isThinking: false
@@ -233,6 +263,173 @@ const AppContent: React.FC = () => {
     return () => unsubscribe();
   }, [user]);
 
+  useEffect(() => {
+    if (!user) {
+      setUnreadAlerts(0);
+      return;
+    }
+
+    const MONITOR_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+    const refreshUnreadAlerts = async () => {
+      try {
+        const alerts = await monitorService.getAlerts(user.uid);
+        setUnreadAlerts(alerts.filter(alert => !alert.read).length);
+      } catch (error) {
+        console.error('Error loading monitor alerts:', error);
+      }
+    };
+
+    const runDueMonitors = async () => {
+      try {
+        const newAlerts = await monitorService.runDueMonitors(user.uid);
+        newAlerts.forEach(alert => {
+          toast.warning(getAlertTitle(alert), {
+            onClick: () => setCurrentPage('monitors')
+          });
+        });
+        if (newAlerts.length > 0) {
+          window.dispatchEvent(new CustomEvent('monitorAlertsUpdated'));
+        }
+      } catch (error) {
+        console.error('Error running scheduled monitors:', error);
+      }
+    };
+
+    refreshUnreadAlerts();
+    runDueMonitors();
+    const intervalId = setInterval(runDueMonitors, MONITOR_CHECK_INTERVAL);
+    window.addEventListener('monitorAlertsUpdated', refreshUnreadAlerts);
+
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('monitorAlertsUpdated', refreshUnreadAlerts);
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setScoringProfiles([DEFAULT_SCORING_PROFILE]);
+      return;
+    }
+
+    const loadScoringProfiles = async () => {
+      try {
+        setScoringProfiles(await scoringProfileService.getProfiles(user.uid));
+      } catch (error) {
+        console.error('Error loading scoring profiles:', error);
+      }
+    };
+
+    loadScoringProfiles();
+    window.addEventListener('scoringProfilesUpdated', loadScoringProfiles);
+    return () => window.removeEventListener('scoringProfilesUpdated', loadScoringProfiles);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setWorkspaces([]);
+      return;
+    }
+
+    const loadWorkspaces = async () => {
+      try {
+        setWorkspaces(await workspaceService.getWorkspaces(user.uid));
+      } catch (error) {
+        console.error('Error loading workspaces:', error);
+      }
+    };
+
+    loadWorkspaces();
+    window.addEventListener('workspacesUpdated', loadWorkspaces);
+    return () => window.removeEventListener('workspacesUpdated', loadWorkspaces);
+  }, [user]);
+
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId) || null;
+  const billedWorkspaceId = activeWorkspace?.id;
+
+  useEffect(() => {
+    if (activeWorkspaceId) {
+      localStorage.setItem('activeWorkspaceId', activeWorkspaceId);
+    } else {
+      localStorage.removeItem('activeWorkspaceId');
+    }
+  }, [activeWorkspaceId]);
+
+  useEffect(() => {
+    if (!billedWorkspaceId) {
+      setWorkspaceBalance(null);
+      return;
+    }
+
+    // The pooled balance is maintained by the backend on the workspace document
+    const unsubscribe = onSnapshot(
+      doc(db, 'workspaces', billedWorkspaceId),
+      (doc) => setWorkspaceBalance(doc.exists() ? doc.data().balance || 0 : null),
+      (error) => console.error('Error in workspace listener:', error)
+    );
+
+    return () => unsubscribe();
+  }, [billedWorkspaceId]);
+
+  // Evaluations run inside the active workspace are charged to its pooled balance
+  const getBillingAccount = (userId: string): string | BillingAccount =>
+    activeWorkspace ? workspaceService.getBillingAccount(activeWorkspace) : userId;
+
+  // Charges an evaluation up front and runs it; if it throws, whatever is still charged is refunded.
+  // Refunds are capped at the amount charged, so overlapping failure paths can't refund twice.
+  const runChargedEvaluation = async (userId: string, cost: number, run: (charge: EvaluationCharge) => Promise<void>) => {
+    const account = getBillingAccount(userId);
+    let charged = 0;
+
+    // userPoints is the personal balance; the workspace balance follows its own document listener
+    const adjustPoints = (amount: number) => {
+      if (typeof account === 'string') {
+        setUserPoints(prevPoints => (prevPoints !== null ? prevPoints + amount : null));
+      }
+    };
+
+    const refund = async (amount: number): Promise<boolean> => {
+      const refundable = Math.min(amount, charged);
+      if (refundable <= 0) return false;
+      try {
+        await decrementUserBalance(account, -refundable);
+        charged -= refundable;
+        adjustPoints(refundable);
+        return true;
+      } catch (error) {
+        console.error('Error refunding credits:', error);
+        return false;
+      }
+    };
+
+    const refundAll = async () => {
+      if (await refund(charged)) {
+        toast.info('Credits have been refunded.');
+      }
+    };
+
+    await checkCreditsAndShowError(
+      account,
+      cost,
+      () => {
+        // Not enrolled in pay-as-you-go, or the payment failed; checkCreditsAndShowError shows the message
+      },
+      async () => {
+        try {
+          await decrementUserBalance(account, cost);
+          charged = cost;
+          adjustPoints(-cost);
+          await run({ refund, refundAll });
+        } catch (error) {
+          await refundAll();
+          handleError(`Error: ${error instanceof Error ? error.message : 'An unknown error occurred'}`);
+          setStatusMessage('');
+        }
+      }
+    );
+  };
+
   // Keep only this check, but enhance it
   useEffect(() => {
     const returnPath = localStorage.getItem('returnPath');
@@ -262,7 +459,93 @@ const AppContent: React.FC = () => {
     setError(message);
   };
 
-  const handleEvaluation = async (website: string, rawInput?: string) => {
+  const handleCrawlEvaluation = async (userId: string, website: string, crawlOptions: CrawlOptions) => {
+    // Reserve the cost of every page up front and refund whatever the crawl didn't use
+    await runChargedEvaluation(userId, SERVICE_COSTS.EVALUATION * crawlOptions.maxPages, async ({ refund }) => {
+      setIsGenerating(true);
+      setIsLoading(true);
+      setError(null);
+      setStatusMessage('Discovering pages...');
+      setEvaluationResults(null);
+      setSiteCrawlResult(null);
+
+      try {
+        const result = await siteCrawler.crawl(website, userId, crawlOptions, setStatusMessage);
+        await refund(SERVICE_COSTS.EVALUATION * (crawlOptions.maxPages - result.pages.length));
+
+        if (result.pages.length === 0) {
+          throw new Error('None of the discovered pages could be evaluated.');
+        }
+
+        setSiteCrawlResult(result);
+        // The chat phases walk through the start page; the site summary covers the rest
+        setEvaluationResults(result.pages[0].result);
+        setStatusMessage('Evaluation complete!');
+        setTimeout(() => setStatusMessage(''), 2000);
+      } finally {
+        setIsLoading(false);
+        setIsGenerating(false);
+      }
+    });
+  };
+
+  const handleBenchmarkEvaluation = async (userId: string, website: string, competitorUrls: string[]) => {
+    // Every site is a full evaluation; failed competitors are refunded individually
+    const siteCount = competitorUrls.length + 1;
+    await runChargedEvaluation(userId, SERVICE_COSTS.EVALUATION * siteCount, async ({ refund }) => {
+      setIsGenerating(true);
+      setIsLoading(true);
+      setError(null);
+      setStatusMessage('Job in queue...');
+      setEvaluationResults(null);
+      setBenchmarkResult(null);
+
+      try {
+        const { siteResult, benchmark } = await benchmarkService.run(website, competitorUrls, userId, setStatusMessage);
+        const failedCount = benchmark.sites.filter(site => site.error).length;
+        await refund(SERVICE_COSTS.EVALUATION * failedCount);
+
+        if (failedCount > 0) {
+          toast.warning(`${failedCount} competitor${failedCount === 1 ? '' : 's'} could not be evaluated and ${failedCount === 1 ? 'was' : 'were'} refunded.`);
+        }
+
+        setBenchmarkResult(benchmark);
+        setEvaluationResults(siteResult);
+        setStatusMessage('Evaluation complete!');
+        setTimeout(() => setStatusMessage(''), 2000);
+      } finally {
+        setIsLoading(false);
+        setIsGenerating(false);
+      }
+    });
+  };
+
+  const handleDualProfileEvaluation = async (
+    userId: string,
+    website: string,
+    deviceThrottling: { [device in DeviceType]: string }
+  ) => {
+    // A mobile and a desktop pass are two full evaluations
+    await runChargedEvaluation(userId, SERVICE_COSTS.EVALUATION * 2, async () => {
+      setIsGenerating(true);
+      setIsLoading(true);
+      setError(null);
+      setStatusMessage('Job in queue...');
+      setEvaluationResults(null);
+
+      try {
+        const result = await deviceProfileService.run(website, userId, deviceThrottling, setStatusMessage);
+        setEvaluationResults(result);
+        setStatusMessage('Evaluation complete!');
+        setTimeout(() => setStatusMessage(''), 2000);
+      } finally {
+        setIsLoading(false);
+        setIsGenerating(false);
+      }
+    });
+  };
+
+  const handleEvaluation = async (website: string, rawInput?: string, options: EvaluationOptions = {}) => {
     setAnalysisState('post');
     setWebsiteUrl(website);
     if (rawInput) {
@@ -274,6 +557,7 @@ const AppContent: React.FC = () => {
       messages: [],
       currentPhase: null,
       phaseScores: {},
+      completedPhases: [],
       overallScore: null,
       userInput: '',
       isThinking: false
@@ -289,162 +573,157 @@ const AppContent: React.FC = () => {
       return;
     }
 
-    // Define cleanup function outside the success callback
-    const cleanupAndRefund = async () => {
-      if (user) {
-        try {
-          // Add credits back to user's balance
-          await decrementUserBalance(user.uid, -SERVICE_COSTS.EVALUATION);
-          setUserPoints(prevPoints => (prevPoints !== null ? prevPoints + SERVICE_COSTS.EVALUATION : null));
-          toast.info('Credits have been refunded.');
-        } catch (error) {
-          console.error('Error refunding credits:', error);
-        }
-      }
-    };
+    setSiteCrawlResult(null);
+    setBenchmarkResult(null);
+    if (activeWorkspace && !workspaceService.canEdit(activeWorkspace, user.uid)) {
+      handleError(`You have view-only access to ${activeWorkspace.name}. Switch workspace to run an evaluation.`);
+      return;
+    }
 
-    await checkCreditsAndShowError(
-      user.uid,
-      SERVICE_COSTS.EVALUATION,
-      () => {
-        // If we get here, it means either:
-        // 1. User is not enrolled in pay-as-you-go
-        // 2. User is enrolled but payment failed in production mode
-        // We don't need to show any additional messages as they are handled in checkCreditsAndShowError
-      },
-      async () => {
-        setIsGenerating(true);
-        setIsLoading(true);
-        setError(null);
-        setStatusMessage('Job in queue...');
-        setEvaluationResults(null);
+    setScoringProfile(
+      scoringProfiles.find(profile => profile.id === options.scoringProfileId) || DEFAULT_SCORING_PROFILE
+    );
+    setTargetKeyword(options.targetKeyword || '');
+    setPhasePlan(options.phases || PHASES);
+    if (options.crawl) {
+      await handleCrawlEvaluation(user.uid, website, options.crawl);
+      return;
+    }
+
+    if (options.deviceThrottling) {
+      await handleDualProfileEvaluation(user.uid, website, options.deviceThrottling);
+      return;
+    }
+
+    const competitors = options.competitorUrls
+      ? benchmarkService.normalizeCompetitorUrls(website, options.competitorUrls)
+      : [];
+    if (competitors.length > 0) {
+      await handleBenchmarkEvaluation(user.uid, website, competitors);
+      return;
+    }
+
+    await runChargedEvaluation(user.uid, SERVICE_COSTS.EVALUATION, async ({ refundAll }) => {
+      setIsGenerating(true);
+      setIsLoading(true);
+      setError(null);
+      setStatusMessage('Job in queue...');
+      setEvaluationResults(null);
 
+      const eventSource = new EventSource(
+        `${process.env.REACT_APP_API_URL}/api/evaluate?url=${encodeURIComponent(website)}&userId=${encodeURIComponent(user.uid)}`
+      );
+
+      // Track connection state and retry attempts
+      let isFirstConnect = true;
+      let retryCount = 0;
+      const MAX_RETRIES = 3;
+      const RETRY_DELAY = 2000;
+      let hasResults = false;
+      let lastStatus = '';
+
+      // Increased timeout to 2 minutes to match Lighthouse's typical analysis time
+      let timeoutId = setTimeout(() => {
+        eventSource.close();
+        refundAll();
+        handleError('Website analysis timed out after 2 minutes. The website might be blocking automated access or is too slow to respond.');
+      }, 120000);
+
+      eventSource.onmessage = async (event) => {
         try {
-          // Deduct credits only once
-          await decrementUserBalance(user.uid, SERVICE_COSTS.EVALUATION);
-          setUserPoints(prevPoints => (prevPoints !== null ? prevPoints - SERVICE_COSTS.EVALUATION : null));
-
-          const eventSource = new EventSource(
-            `${process.env.REACT_APP_API_URL}/api/evaluate?url=${encodeURIComponent(website)}&userId=${encodeURIComponent(user.uid)}`
-          );
-
-          // Track connection state and retry attempts
-          let isFirstConnect = true;
-          let retryCount = 0;
-          const MAX_RETRIES = 3;
-          const RETRY_DELAY = 2000;
-          let hasResults = false;
-          let lastStatus = '';
-
-          // Increased timeout to 2 minutes to match Lighthouse's typical analysis time
-          let timeoutId = setTimeout(() => {
+          clearTimeout(timeoutId);
+          timeoutId = setTimeout(() => {
             eventSource.close();
-            cleanupAndRefund();
-            handleError('Website analysis timed out after 2 minutes. The website might be blocking automated access or is too slow to respond.');
+            refundAll();
+            handleError('Website analysis timed out waiting for the next update. The process might have stalled.');
           }, 120000);
 
-          eventSource.onmessage = async (event) => {
-            try {
-              clearTimeout(timeoutId);
-              timeoutId = setTimeout(() => {
-                eventSource.close();
-                cleanupAndRefund();
-                handleError('Website analysis timed out waiting for the next update. The process might have stalled.');
-              }, 120000);
-
-              console.log('Received EventSource message:', event.data);
-              const data = JSON.parse(event.data);
-              console.log('Parsed server response:', data);
-
-              if (data.status) {
-                console.log('Status update:', data.status);
-                // Don't show "Connecting to existing analysis" if we're already showing progress
-                if (!(data.status === 'Connecting to existing analysis...' && lastStatus !== '')) {
-                  setStatusMessage(data.status);
-                  lastStatus = data.status;
-                }
+          console.log('Received EventSource message:', event.data);
+          const data = JSON.parse(event.data);
+          console.log('Parsed server response:', data);
 
-                // If we get a completion status, close the connection properly
-                if (data.status === 'completed' && data.result) {
-                  hasResults = true;
-                  console.log('Evaluation results received:', data.result);
-                  setEvaluationResults(data.result);
-                  setStatusMessage('Evaluation complete!');
-                  clearTimeout(timeoutId);
-                  eventSource.close();
-                  setIsLoading(false);
-                  setIsGenerating(false);
-                  setTimeout(() => setStatusMessage(''), 2000);
-                }
-              } else if (data.error) {
-                console.error('Server reported error:', data.error);
-                clearTimeout(timeoutId);
-                eventSource.close();
-                await cleanupAndRefund();
-                handleError(data.error);
-              } else {
-                console.log('Received unknown message type:', data);
-              }
-            } catch (error) {
-              console.error('Error processing message:', error, 'Raw event data:', event.data);
-              clearTimeout(timeoutId);
-              eventSource.close();
-              await cleanupAndRefund();
-              handleError(`Error processing evaluation data: ${error instanceof Error ? error.message : 'An unknown error occurred'}`);
+          if (data.status) {
+            console.log('Status update:', data.status);
+            // Don't show "Connecting to existing analysis" if we're already showing progress
+            if (!(data.status === 'Connecting to existing analysis...' && lastStatus !== '')) {
+              setStatusMessage(data.status);
+              lastStatus = data.status;
             }
-          };
-
-          eventSource.onerror = async (error) => {
-            console.error('EventSource error:', error);
-            console.log('EventSource readyState:', eventSource.readyState, {
-              CONNECTING: EventSource.CONNECTING,
-              OPEN: EventSource.OPEN,
-              CLOSED: EventSource.CLOSED
-            });
-
-            // Only handle errors if we haven't received results yet
-            if (!hasResults) {
-              if (eventSource.readyState === EventSource.CLOSED) {
-                // If this is the first connection attempt, or we've exceeded retries, treat as error
-                if (isFirstConnect || retryCount >= MAX_RETRIES) {
-                  console.log('Connection closed without results - treating as error');
-                  clearTimeout(timeoutId);
-                  eventSource.close();
-                  await cleanupAndRefund();
-                  handleError('Lost connection to the evaluation server. Please try again.');
-                } else {
-                  // Otherwise, increment retry count and wait for reconnect
-                  retryCount++;
-                  console.log(`Retry attempt ${retryCount}/${MAX_RETRIES}`);
-                  await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
-                }
-              } else if (eventSource.readyState === EventSource.CONNECTING) {
-                // Connection is attempting to reconnect - log but don't take action yet
-                console.log('EventSource is attempting to reconnect...');
-                isFirstConnect = false;
-              } else {
-                console.error('EventSource in unexpected state:', eventSource.readyState);
-                clearTimeout(timeoutId);
-                eventSource.close();
-                await cleanupAndRefund();
-                handleError('Connection error. Please try again.');
-              }
-            } else {
-              // We have results, so just close quietly
-              console.log('Connection closed after receiving results - normal completion');
+
+            // If we get a completion status, close the connection properly
+            if (data.status === 'completed' && data.result) {
+              hasResults = true;
+              console.log('Evaluation results received:', data.result);
+              setEvaluationResults(data.result);
+              setStatusMessage('Evaluation complete!');
+              clearTimeout(timeoutId);
               eventSource.close();
               setIsLoading(false);
               setIsGenerating(false);
+              setTimeout(() => setStatusMessage(''), 2000);
             }
-          };
-
+          } else if (data.error) {
+            console.error('Server reported error:', data.error);
+            clearTimeout(timeoutId);
+            eventSource.close();
+            await refundAll();
+            handleError(data.error);
+          } else {
+            console.log('Received unknown message type:', data);
+          }
         } catch (error) {
-          await cleanupAndRefund();
-          handleError(`Error: ${error instanceof Error ? error.message : 'An unknown error occurred'}`);
-          setStatusMessage('');
+          console.error('Error processing message:', error, 'Raw event data:', event.data);
+          clearTimeout(timeoutId);
+          eventSource.close();
+          await refundAll();
+          handleError(`Error processing evaluation data: ${error instanceof Error ? error.message : 'An unknown error occurred'}`);
         }
-      }
-    );
+      };
+
+      eventSource.onerror = async (error) => {
+        console.error('EventSource error:', error);
+        console.log('EventSource readyState:', eventSource.readyState, {
+          CONNECTING: EventSource.CONNECTING,
+          OPEN: EventSource.OPEN,
+          CLOSED: EventSource.CLOSED
+        });
+
+        // Only handle errors if we haven't received results yet
+        if (!hasResults) {
+          if (eventSource.readyState === EventSource.CLOSED) {
+            // If this is the first connection attempt, or we've exceeded retries, treat as error
+            if (isFirstConnect || retryCount >= MAX_RETRIES) {
+              console.log('Connection closed without results - treating as error');
+              clearTimeout(timeoutId);
+              eventSource.close();
+              await refundAll();
+              handleError('Lost connection to the evaluation server. Please try again.');
+            } else {
+              // Otherwise, increment retry count and wait for reconnect
+              retryCount++;
+              console.log(`Retry attempt ${retryCount}/${MAX_RETRIES}`);
+              await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
+            }
+          } else if (eventSource.readyState === EventSource.CONNECTING) {
+            // Connection is attempting to reconnect - log but don't take action yet
+            console.log('EventSource is attempting to reconnect...');
+            isFirstConnect = false;
+          } else {
+            console.error('EventSource in unexpected state:', eventSource.readyState);
+            clearTimeout(timeoutId);
+            eventSource.close();
+            await refundAll();
+            handleError('Connection error. Please try again.');
+          }
+        } else {
+          // We have results, so just close quietly
+          console.log('Connection closed after receiving results - normal completion');
+          eventSource.close();
+          setIsLoading(false);
+          setIsGenerating(false);
+        }
+      };
+    });
   };
 
   const handlePurchase = (amount: number) => {
@@ -510,6 +789,7 @@ const AppContent: React.FC = () => {
               isLoading={isLoading}
               isLoggedIn={!!user}
               onSignInRequired={handleSignInRequired}
+              scoringProfiles={scoringProfiles}
             />
             {error && <p className="error-message">{error}</p>}
           </div>
@@ -527,6 +807,8 @@ const AppContent: React.FC = () => {
                       />
                     </div>
                     <div className="metrics-scrollable">
+                      {siteCrawlResult && <SiteCrawlSummary result={siteCrawlResult} />}
+                      {benchmarkResult && <BenchmarkSummary result={benchmarkResult} />}
                       {evaluationResults.screenshot && (
                         <div className="screenshot-preview">
                           <img
@@ -585,6 +867,7 @@ const AppContent: React.FC = () => {
                     variant="compact"
                     initialUrl={websiteUrl}
                     initialRawInput={rawInput}
+                    scoringProfiles={scoringProfiles}
                   />
                 </div>
                 <div className="chat-container">
@@ -594,6 +877,11 @@ const AppContent: React.FC = () => {
                     websiteUrl={websiteUrl}
                     onStartEvaluation={handleEvaluation}
                     evaluationResults={evaluationResults}
+                    benchmarkResult={benchmarkResult}
+                    scoringProfile={scoringProfile}
+                    targetKeyword={targetKeyword}
+                    phasePlan={phasePlan}
+                    workspace={activeWorkspace}
                     isLoading={isLoading}
                     statusMessage={statusMessage}
                     onPointsUpdated={(points) => setUserPoints(points)}
@@ -604,7 +892,7 @@ const AppContent: React.FC = () => {
           </div>
         </div>
 
-        {currentPage === 'profile' && <ProfilePage />}
+        {currentPage === 'profile' && <ProfilePage activeWorkspace={activeWorkspace} />}
         {currentPage === 'points' && <PointsManagementPage />}
       </>
     );
@@ -620,7 +908,9 @@ const AppContent: React.FC = () => {
       case 'points':
         return <PointsManagementPage />;
       case 'profile':
-        return <ProfilePage />;
+        return <ProfilePage activeWorkspace={activeWorkspace} />;
+      case 'monitors':
+        return <MonitorsPage />;
       case 'home':
       default:
         return renderPage();
@@ -639,9 +929,24 @@ const AppContent: React.FC = () => {
         </div>
         {user ? (
           <div className="user-menu-container">
+            {workspaces.length > 0 && (
+              <select
+                className="workspace-switcher"
+                value={activeWorkspace?.id || ''}
+                onChange={(e) => setActiveWorkspaceId(e.target.value || null)}
+                title="Workspace"
+              >
+                <option value="">Personal</option>
+                {workspaces.map(workspace => (
+                  <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                ))}
+              </select>
+            )}
             <div className="points-counter" onClick={() => goToPage('points')}>
-              <span>${userData?.balance?.toFixed(2) || '0.00'}</span>
-              {userData?.isPayAsYouGo && (
+              <span>
+                ${(activeWorkspace ? workspaceBalance : userData?.balance)?.toFixed(2) || '0.00'}
+              </span>
+              {(activeWorkspace ? Boolean(activeWorkspace.payAsYouGoUserId) : userData?.isPayAsYouGo) && (
                 <FontAwesomeIcon 
                   icon={faBolt} 
                   className="pay-as-you-go-icon" 
@@ -649,6 +954,14 @@ const AppContent: React.FC = () => {
                 />
               )}
             </div>
+            <button
+              className="alerts-button"
+              onClick={() => goToPage('monitors')}
+              title="Monitors & Alerts"
+            >
+              <FontAwesomeIcon icon={faBell} />
+              {unreadAlerts > 0 && <span className="alerts-badge">{unreadAlerts}</span>}
+            </button>
             <button 
               className="user-menu-button" 
               onClick={() => goToPage('profile')}
@@ -724,6 +1037,14 @@ const App: React.FC = () => {
               </LegalLayout>
             }
           />
+          <Route
+            path="/shared/:shareId"
+            element={
+              <LegalLayout>
+                <SharedReportPage />
+              </LegalLayout>
+            }
+          />
         </Routes>
       </Router>
     </ErrorBoundary>
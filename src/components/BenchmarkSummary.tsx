@@ -0,0 +1,83 @@
+import React from 'react';
+import { BenchmarkResult, benchmarkService } from '../services/benchmark';
+
+interface BenchmarkSummaryProps {
+  result: BenchmarkResult;
+}
+
+const formatHost = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+
+const BenchmarkSummary: React.FC<BenchmarkSummaryProps> = ({ result }) => {
+  const evaluatedUrls = result.standings.map(standing => standing.url);
+  const failedSites = result.sites.filter(site => site.error);
+  const categories = Array.from(new Set(result.dimensions.map(dimension => dimension.category)));
+
+  return (
+    <div className="metric-box site-crawl-summary benchmark-summary">
+      <h4>Competitor Benchmark</h4>
+      <div className="metric-value">
+        <h5>Standings</h5>
+        <ul className="site-crawl-list">
+          {result.standings.map(standing => (
+            <li key={standing.url} className={standing.isUserSite ? 'benchmark-user-site' : ''}>
+              <span className="site-crawl-path">#{standing.overallRank} {formatHost(standing.url)}</span>
+              <span>avg rank {standing.averageRank.toFixed(1)} · {standing.firstPlaces} firsts</span>
+            </li>
+          ))}
+        </ul>
+
+        <table className="site-crawl-table benchmark-table">
+          <thead>
+            <tr>
+              <th>Dimension</th>
+              {evaluatedUrls.map(url => (
+                <th key={url} className={url === result.siteUrl ? 'benchmark-user-site' : ''}>{formatHost(url)}</th>
+              ))}
+            </tr>
+          </thead>
+          {categories.map(category => (
+            <tbody key={category}>
+              <tr className="benchmark-category">
+                <td colSpan={evaluatedUrls.length + 1}>{category}</td>
+              </tr>
+              {result.dimensions
+                .filter(dimension => dimension.category === category)
+                .map(dimension => (
+                  <tr key={dimension.key}>
+                    <td>{dimension.label}</td>
+                    {evaluatedUrls.map(url => {
+                      const entry = dimension.entries.find(item => item.url === url);
+                      return (
+                        <td
+                          key={url}
+                          className={`${entry?.rank === 1 ? 'benchmark-leader' : ''} ${url === result.siteUrl ? 'benchmark-user-site' : ''}`}
+                        >
+                          {benchmarkService.formatValue(dimension, entry?.value ?? null)}
+                          {entry?.rank ? ` (#${entry.rank})` : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+            </tbody>
+          ))}
+        </table>
+
+        {failedSites.length > 0 && (
+          <>
+            <h5>Competitors Not Evaluated</h5>
+            <ul className="site-crawl-list">
+              {failedSites.map(site => (
+                <li key={site.url} title={site.error}>
+                  <span className="site-crawl-path">{site.url}</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkSummary;
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner, faTrash } from '@fortawesome/free-solid-svg-icons';
+import {
+  brandingService,
+  BrandSettings,
+  DEFAULT_BRAND_SETTINGS,
+  BRANDING_LIMITS,
+  LOGO_MIME_TYPES
+} from '../services/branding';
+
+interface BrandingSettingsPanelProps {
+  userId: string;
+}
+
+const BrandingSettingsPanel: React.FC<BrandingSettingsPanelProps> = ({ userId }) => {
+  const [settings, setSettings] = useState<BrandSettings>(DEFAULT_BRAND_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchBranding = async () => {
+      setIsLoading(true);
+      setSettings(await brandingService.getBranding(userId));
+      setIsLoading(false);
+    };
+
+    fetchBranding();
+  }, [userId]);
+
+  const update = (updates: Partial<BrandSettings>) => setSettings(prev => ({ ...prev, ...updates }));
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!LOGO_MIME_TYPES.includes(file.type)) {
+      toast.error('Logos must be PNG or JPEG images');
+      return;
+    }
+
+    try {
+      update({ logoDataUrl: await brandingService.readFile(file, BRANDING_LIMITS.MAX_LOGO_BYTES, true) });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read logo');
+    }
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>, variant: 'normal' | 'bold') => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.name.toLowerCase().endsWith('.ttf')) {
+      toast.error('Fonts must be TrueType (.ttf) files');
+      return;
+    }
+    if (variant === 'bold' && !settings.font) {
+      toast.error('Upload the regular font first');
+      return;
+    }
+
+    try {
+      const data = await brandingService.readFile(file, BRANDING_LIMITS.MAX_FONT_BYTES);
+      update({
+        font: variant === 'normal'
+          ? { name: file.name.replace(/\.ttf$/i, ''), normal: data, bold: settings.font?.bold }
+          : { ...settings.font!, bold: data }
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read font');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await brandingService.saveBranding(userId, settings);
+      toast.success('Report branding saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save report branding');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div className="branding-settings">
+      <h3>Report Branding</h3>
+      <form className="monitor-form" onSubmit={handleSave}>
+        <div className="form-group">
+          <label>Company name</label>
+          <input
+            type="text"
+            value={settings.companyName}
+            onChange={(e) => update({ companyName: e.target.value })}
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Logo (PNG or JPEG, max {BRANDING_LIMITS.MAX_LOGO_BYTES / 1024} KB)</label>
+          {settings.logoDataUrl && (
+            <div className="branding-logo-preview">
+              <img src={settings.logoDataUrl} alt="Brand logo" />
+              <button
+                type="button"
+                className="delete-report-button"
+                onClick={() => update({ logoDataUrl: undefined })}
+                title="Remove logo"
+              >
+                <FontAwesomeIcon icon={faTrash} />
+              </button>
+            </div>
+          )}
+          <input type="file" accept={LOGO_MIME_TYPES.join(',')} onChange={handleLogoUpload} />
+        </div>
+
+        <div className="branding-colors">
+          <label>
+            Primary
+            <input type="color" value={settings.primaryColor} onChange={(e) => update({ primaryColor: e.target.value })} />
+          </label>
+          <label>
+            Secondary
+            <input type="color" value={settings.secondaryColor} onChange={(e) => update({ secondaryColor: e.target.value })} />
+          </label>
+        </div>
+
+        <div className="form-group">
+          <label>Font (.ttf, max {BRANDING_LIMITS.MAX_FONT_BYTES / 1024} KB per file)</label>
+          {settings.font ? (
+            <div className="branding-font">
+              <span>{settings.font.name}{settings.font.bold ? ' (regular + bold)' : ' (regular)'}</span>
+              <button
+                type="button"
+                className="delete-report-button"
+                onClick={() => update({ font: undefined })}
+                title="Use the default font"
+              >
+                <FontAwesomeIcon icon={faTrash} />
+              </button>
+            </div>
+          ) : (
+            <p className="monitor-cost-note">Reports use Times by default.</p>
+          )}
+          <label className="branding-font-upload">
+            Regular
+            <input type="file" accept=".ttf" onChange={(e) => handleFontUpload(e, 'normal')} />
+          </label>
+          <label className="branding-font-upload">
+            Bold
+            <input type="file" accept=".ttf" onChange={(e) => handleFontUpload(e, 'bold')} disabled={!settings.font} />
+          </label>
+        </div>
+
+        <div className="form-group">
+          <label>Cover title</label>
+          <input
+            type="text"
+            value={settings.coverTitle}
+            onChange={(e) => update({ coverTitle: e.target.value })}
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Cover text</label>
+          <textarea
+            value={settings.coverText || ''}
+            onChange={(e) => update({ coverText: e.target.value })}
+            placeholder="Prepared for ... by ..."
+            rows={3}
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Footer contact details</label>
+          <input
+            type="text"
+            value={settings.footerContact || ''}
+            onChange={(e) => update({ footerContact: e.target.value })}
+            placeholder="Agency name · hello@agency.com · +1 555 0100"
+          />
+        </div>
+
+        <label className="crawl-toggle">
+          <input
+            type="checkbox"
+            checked={settings.showAttribution}
+            onChange={(e) => update({ showAttribution: e.target.checked })}
+          />
+          Include "Generated by Olive" in the footer
+        </label>
+
+        <button type="submit" className="bulk-action-button" disabled={isSaving}>
+          {isSaving ? <FontAwesomeIcon icon={faSpinner} spin /> : 'Save Branding'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default BrandingSettingsPanel;
@@ -3,10 +3,24 @@ import axios from 'axios';
 import ReactMarkdown from 'react-markdown';
 import TypewriterText from './TypewriterText';
 import DOMPurify from 'dompurify';
-import { reportGenerator, ReportData } from '../services/reportGenerator';
+import { reportGenerator, ReportData, buildReportMetrics } from '../services/reportGenerator';
+import { getPhaseMetrics, getOverallScore, PHASES, SCORED_PHASES } from '../services/phaseMetrics';
+import { getLinkInventory } from '../services/linkInventory';
+import { getResourceBreakdown } from '../services/resourceBreakdown';
+import { indexabilityService } from '../services/indexability';
+import { socialPreviewService } from '../services/socialPreview';
+import { benchmarkService, BenchmarkResult } from '../services/benchmark';
+import { scoringProfileService, ScoringProfile } from '../services/scoringProfiles';
+import { workspaceService, Workspace } from '../services/workspaces';
+import DeviceDeltaTable from './DeviceDeltaTable';
+import LinkInventoryTable from './LinkInventoryTable';
+import ResourceBreakdownTable from './ResourceBreakdownTable';
+import IndexabilityVerdictTile from './IndexabilityVerdictTile';
+import SocialPreviewCards from './SocialPreviewCards';
 import { saveAs } from 'file-saver';
 import { toast } from 'react-toastify';
 import { reportStorage } from '../services/reportStorage';
+import { reportExporter, ExportFormat, EXPORT_FORMATS } from '../services/reportExporters';
 import { auth } from '../services/firebase';
 import { SERVICE_COSTS, checkCreditsAndShowError, decrementUserBalance, getUserBalance } from '../services/points';
 
@@ -44,6 +58,13 @@ interface ChatInterfaceProps {
   websiteUrl: string;
   onStartEvaluation: (url: string) => void;
   evaluationResults: any;
+  benchmarkResult?: BenchmarkResult | null;
+  scoringProfile?: ScoringProfile | null;
+  // Optional keyword for the Content phase's density and placement checks
+  targetKeyword?: string;
+  // Phases to run, in order; defaults to every phase
+  phasePlan?: string[];
+  workspace?: Workspace | null;
   isLoading: boolean;
   onGenerateReport?: (data: ReportData) => void;
   statusMessage?: string;
@@ -52,6 +73,7 @@ interface ChatInterfaceProps {
     messages: Message[];
     currentPhase: string | null;
     phaseScores: { [key: string]: number };
+    completedPhases: string[];
     overallScore: number | null;
     userInput: string;
     isThinking: boolean;
@@ -60,6 +82,7 @@ interface ChatInterfaceProps {
     messages: Message[];
     currentPhase: string | null;
     phaseScores: { [key: string]: number };
+    completedPhases: string[];
     overallScore: number | null;
     userInput: string;
     isThinking: boolean;
@@ -74,6 +97,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   websiteUrl, 
   onStartEvaluation, 
   evaluationResults, 
+  benchmarkResult,
+  scoringProfile,
+  targetKeyword,
+  phasePlan,
+  workspace,
   isLoading,
   onGenerateReport,
   statusMessage,
@@ -107,7 +135,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     return () => clearInterval(interval);
   }, []);
 
-  const { messages, currentPhase, phaseScores, overallScore, userInput, isThinking } = chatState;
+  const { messages, currentPhase, phaseScores, completedPhases, overallScore, userInput, isThinking } = chatState;
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const updateChatState = (updates: Partial<typeof chatState>) => {
@@ -126,12 +154,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     updateChatState({ currentPhase: phase });
   };
 
-  const setPhaseScores = (scores: typeof chatState.phaseScores) => {
-    updateChatState({ phaseScores: scores });
-  };
-
-  const setOverallScore = (score: number | null) => {
-    updateChatState({ overallScore: score });
+  // Records a finished phase; a re-run replaces the phase's earlier score so the overall average stays one score per phase
+  const completePhase = (phase: string, score?: number | null) => {
+    setChatState(prev => {
+      const newPhaseScores = SCORED_PHASES.includes(phase) && typeof score === 'number'
+        ? { ...prev.phaseScores, [phase]: score }
+        : prev.phaseScores;
+      return {
+        ...prev,
+        phaseScores: newPhaseScores,
+        overallScore: getOverallScore(newPhaseScores) ?? prev.overallScore,
+        completedPhases: prev.completedPhases.includes(phase) ? prev.completedPhases : [...prev.completedPhases, phase]
+      };
+    });
   };
 
   const setUserInput = (input: string) => {
@@ -144,9 +179,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   const [isMessageLoading, setIsMessageLoading] = useState(false);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [reportFormat, setReportFormat] = useState<ExportFormat>('pdf');
   const SCREENSHOT_TIMEOUT = 45000; // 45 seconds
 
-  const phases = ['Vision', 'UI', 'Functionality', 'Performance', 'SEO', 'Overall', 'Recommendations'];
+  const phases = phasePlan || PHASES;
 
   const roundMetrics = (metrics: any) => {
     if (!metrics) return {};
@@ -165,8 +201,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   useEffect(() => {
     if (evaluationResults && !messages.length) {
-      setIsThinking(true);
-      startVisionAnalysis();
+      runPhase(phases[0]);
     }
   }, [evaluationResults]);
 
@@ -176,14 +211,6 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const updateOverallScore = (newPhaseScores: { [key: string]: number }) => {
-    const scores = Object.values(newPhaseScores);
-    if (scores.length > 0) {
-      const average = scores.reduce((a, b) => a + b, 0) / scores.length;
-      setOverallScore(Math.round(average));
-    }
-  };
-
   const getPhaseScore = async (phase: string, metrics: any): Promise<number> => {
     try {
       const response = await axios.post(`${process.env.REACT_APP_API_URL}/api/score`, {
@@ -199,118 +226,6 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
-  const startVisionAnalysis = async () => {
-    if (messages.length === 0) {
-      try {
-        const response = await axios.post(`${process.env.REACT_APP_API_URL}/api/analyze`, {
-          url: websiteUrl,
-          phase: 'Vision',
-          metrics: {}, // Send empty metrics for Vision phase
-          history: JSON.stringify([]),
-          screenshot: evaluationResults.screenshot
-        });
-
-        const { score, analysis } = response.data;
-
-        const initialMessage: Message = {
-          role: 'assistant' as const,
-          content: analysis,
-          screenshot: evaluationResults.screenshot,
-          phase: 'Vision',
-          metrics: {},
-          score: score
-        };
-        addMessage(initialMessage);
-        setCurrentPhase('Vision');
-
-        const newPhaseScores = { ...phaseScores, Vision: score };
-        setPhaseScores(newPhaseScores);
-        updateOverallScore(newPhaseScores);
-
-        // Turn off the thinking indicator now that the vision analysis is complete
-        setIsThinking(false);
-      } catch (error) {
-        console.error('error starting vision analysis:', error);
-        addMessage({
-          role: 'assistant' as const,
-          content: 'an error occurred while starting the vision analysis. please try again.'
-        });
-        setIsThinking(false);
-      }
-    }
-  };
-
-  const getPhaseMetrics = (phase: string, allMetrics: any) => {
-    let phaseMetrics;
-    switch (phase) {
-      case 'Vision':
-        phaseMetrics = {}; // Remove all metrics for Vision phase, we only want to analyze the screenshot
-        break;
-      case 'UI':
-        phaseMetrics = {
-          fontSizes: allMetrics.fontSizes,
-          responsiveness: allMetrics.responsiveness,
-          accessibility: allMetrics.accessibility,
-          lighthouse: allMetrics.lighthouse
-        };
-        break;
-      case 'Functionality':
-        phaseMetrics = {
-          brokenLinks: allMetrics.brokenLinks,
-          formFunctionality: allMetrics.formFunctionality,
-          bestPractices: allMetrics.bestPractices
-        };
-        break;
-      case 'Performance':
-        phaseMetrics = {
-          loadTime: allMetrics.loadTime,
-          domContentLoaded: allMetrics.domContentLoaded,
-          firstPaint: allMetrics.firstPaint,
-          firstContentfulPaint: allMetrics.firstContentfulPaint,
-          timeToInteractive: allMetrics.timeToInteractive,
-          largestContentfulPaint: allMetrics.largestContentfulPaint,
-          cumulativeLayoutShift: allMetrics.cumulativeLayoutShift,
-          ttfb: allMetrics.ttfb,
-          tbt: allMetrics.tbt,
-          estimatedFid: allMetrics.estimatedFid,
-          domElements: allMetrics.domElements,
-          pageSize: allMetrics.pageSize,
-          requests: allMetrics.requests,
-          security: allMetrics.security,
-          lighthouse: allMetrics.lighthouse
-        };
-        break;
-      case 'SEO':
-        phaseMetrics = {
-          seo: allMetrics.seo,
-          lighthouse: allMetrics.lighthouse
-        };
-        break;
-      case 'Recommendations':
-      case 'Overall':
-        phaseMetrics = {};
-        break;
-      default:
-        phaseMetrics = {};
-    }
-    return optimizeMetrics(phaseMetrics);
-  };
-
-  const optimizeMetrics = (metrics: any): any => {
-    const optimized: any = {};
-    for (const [key, value] of Object.entries(metrics)) {
-      const shortKey = key.replace(/([A-Z])/g, '_$1').toLowerCase();
-      if (typeof value === 'number') {
-        optimized[shortKey] = Number(value.toFixed(2));
-      } else if (typeof value === 'object' && value !== null) {
-        optimized[shortKey] = optimizeMetrics(value);
-      } else {
-        optimized[shortKey] = value;
-      }
-    }
-    return optimized;
-  };
-
   const getSelectiveHistory = (currentPhase: string | null): Message[] => {
     // Map over all messages and, for messages from past phases (non-system, where phase exists and is not the current phase), drop the metrics
     const processed = messages.map(msg => {
@@ -329,8 +244,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     if (!userInput.trim() || !auth.currentUser?.uid) return;
 
     const userId = auth.currentUser.uid;
+    const account = workspace ? workspaceService.getBillingAccount(workspace) : userId;
     await checkCreditsAndShowError(
-      userId,
+      account,
       SERVICE_COSTS.CHAT_MESSAGE,
       () => {
         toast.error(`This action requires ${SERVICE_COSTS.CHAT_MESSAGE} credits. Please purchase more credits to continue.`, {
@@ -351,10 +267,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
         try {
           // First deduct credits
-          await decrementUserBalance(userId, SERVICE_COSTS.CHAT_MESSAGE);
-          // Update points in parent component
-          if (onPointsUpdated) {
-            const currentPoints = await getUserBalance(userId);
+          await decrementUserBalance(account, SERVICE_COSTS.CHAT_MESSAGE);
+          // Update points in parent component; workspace charges leave the personal balance alone
+          if (onPointsUpdated && !workspace) {
+            const currentPoints = await getUserBalance(account);
             onPointsUpdated(currentPoints);
           }
           
@@ -406,172 +322,202 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     );
   };
 
-  const handleContinue = async () => {
-    const currentIndex = phases.indexOf(currentPhase!);
-    if (currentIndex < phases.length - 1) {
-      const nextPhase = phases[currentIndex + 1];
-      setCurrentPhase(nextPhase);
-      setIsThinking(true);
-      setIsMessageLoading(true);
-
-      try {
-        const phaseMetrics = nextPhase === 'Overall' || nextPhase === 'Recommendations' ? {} : getPhaseMetrics(nextPhase, evaluationResults);
-
-        if (nextPhase === 'Recommendations') {
-          // Send the POST request to initialize the analysis
-          const response = await axios.post(`${process.env.REACT_APP_API_URL}/api/analyze`, {
-            url: websiteUrl,
-            phase: nextPhase,
-            metrics: phaseMetrics,
-            history: JSON.stringify(messages.slice(-MAX_HISTORY_LENGTH).map(({ role, content }) => ({ role, content }))),
-            screenshot: undefined
-          });
+  // robots.txt, sitemaps and the share image are fetched once per evaluation; the SEO phase and the report read the results
+  const runSeoChecks = async () => {
+    const [indexabilityCheck, socialPreviewCheck] = await Promise.allSettled([
+      indexabilityService.check(websiteUrl, evaluationResults),
+      socialPreviewService.check(websiteUrl, evaluationResults)
+    ]);
+    if (indexabilityCheck.status === 'rejected') console.warn('Indexability check failed:', indexabilityCheck.reason);
+    if (socialPreviewCheck.status === 'rejected') console.warn('Social preview check failed:', socialPreviewCheck.reason);
+  };
 
-          // Create EventSource for SSE using the job ID from the response
-          const eventSource = new EventSource(`${process.env.REACT_APP_API_URL}/api/analyze/stream/${response.data.jobId}`);
+  // Runs one phase, whether it's the next one, a phase picked in the navigator or a re-run
+  const runPhase = async (nextPhase: string) => {
+    setCurrentPhase(nextPhase);
+    setIsThinking(true);
+    setIsMessageLoading(true);
 
-          eventSource.onmessage = async (event) => {
-            debugLog('Received EventSource message:', event.data);
-            try {
-              const data = JSON.parse(event.data);
+    try {
+      // Overall and Recommendations have no metrics of their own, but a competitor benchmark informs both
+      const summaryMetrics = benchmarkResult ? { benchmark: benchmarkService.summarize(benchmarkResult) } : {};
+      if (nextPhase === 'SEO') {
+        await runSeoChecks();
+      }
+      const phaseMetrics = nextPhase === 'Overall' || nextPhase === 'Recommendations' ? summaryMetrics : getPhaseMetrics(nextPhase, evaluationResults, websiteUrl, targetKeyword);
+
+      if (nextPhase === 'Recommendations') {
+        // Send the POST request to initialize the analysis
+        const response = await axios.post(`${process.env.REACT_APP_API_URL}/api/analyze`, {
+          url: websiteUrl,
+          phase: nextPhase,
+          metrics: phaseMetrics,
+          history: JSON.stringify(messages.slice(-MAX_HISTORY_LENGTH).map(({ role, content }) => ({ role, content }))),
+          screenshot: undefined
+        });
+
+        // Create EventSource for SSE using the job ID from the response
+        const eventSource = new EventSource(`${process.env.REACT_APP_API_URL}/api/analyze/stream/${response.data.jobId}`);
+
+        eventSource.onmessage = async (event) => {
+          debugLog('Received EventSource message:', event.data);
+          try {
+            const data = JSON.parse(event.data);
               
-              if (data.type === 'analysis') {
-                const newMessage: Message = {
-                  role: 'assistant' as const,
-                  content: data.analysis,
-                  phase: 'Recommendations',
-                  competitorScreenshots: data.competitorScreenshots
-                };
-                setIsThinking(false);
-                setIsMessageLoading(false);
-                addMessage(newMessage);
-              } else if (data.type === 'screenshot') {
-                setMessages(prevMessages => 
-                  prevMessages.map(msg => {
-                    if (msg.phase === 'Recommendations') {
-                      const updatedScreenshots = {
-                        ...msg.competitorScreenshots,
-                        [data.url]: {
-                          status: 'loaded',
-                          data: data.screenshot
-                        }
-                      };
-                      return { ...msg, competitorScreenshots: updatedScreenshots };
-                    }
-                    return msg;
-                  })
-                );
-              } else if (data.type === 'screenshot_error') {
-                setMessages(prevMessages => 
-                  prevMessages.map(msg => {
-                    if (msg.phase === 'Recommendations') {
-                      const updatedScreenshots = {
-                        ...msg.competitorScreenshots,
-                        [data.url]: {
-                          status: 'error',
-                          error: data.error
-                        }
-                      };
-                      return { ...msg, competitorScreenshots: updatedScreenshots };
-                    }
-                    return msg;
-                  })
-                );
-              } else if (data.type === 'complete') {
-                eventSource.close();
-              } else if (data.type === 'error') {
-                console.error('Error in recommendations phase:', data.error);
-                eventSource.close();
-                setIsThinking(false);
-                setIsMessageLoading(false);
-                addMessage({
-                  role: 'assistant' as const,
-                  content: `An error occurred during the recommendations phase: ${data.error}`,
-                  phase: 'Recommendations'
-                });
-              }
-            } catch (error) {
-              debugLog('Error processing message:', {
-                error,
-                rawData: event.data
-              });
+            if (data.type === 'analysis') {
+              const newMessage: Message = {
+                role: 'assistant' as const,
+                content: data.analysis,
+                phase: 'Recommendations',
+                competitorScreenshots: data.competitorScreenshots
+              };
+              setIsThinking(false);
+              setIsMessageLoading(false);
+              addMessage(newMessage);
+              completePhase('Recommendations');
+            } else if (data.type === 'screenshot') {
+              setMessages(prevMessages => 
+                prevMessages.map(msg => {
+                  if (msg.phase === 'Recommendations') {
+                    const updatedScreenshots = {
+                      ...msg.competitorScreenshots,
+                      [data.url]: {
+                        status: 'loaded',
+                        data: data.screenshot
+                      }
+                    };
+                    return { ...msg, competitorScreenshots: updatedScreenshots };
+                  }
+                  return msg;
+                })
+              );
+            } else if (data.type === 'screenshot_error') {
+              setMessages(prevMessages => 
+                prevMessages.map(msg => {
+                  if (msg.phase === 'Recommendations') {
+                    const updatedScreenshots = {
+                      ...msg.competitorScreenshots,
+                      [data.url]: {
+                        status: 'error',
+                        error: data.error
+                      }
+                    };
+                    return { ...msg, competitorScreenshots: updatedScreenshots };
+                  }
+                  return msg;
+                })
+              );
+            } else if (data.type === 'complete') {
+              eventSource.close();
+            } else if (data.type === 'error') {
+              console.error('Error in recommendations phase:', data.error);
               eventSource.close();
               setIsThinking(false);
               setIsMessageLoading(false);
               addMessage({
                 role: 'assistant' as const,
-                content: `An error occurred during the recommendations phase. Please try again.`,
+                content: `An error occurred during the recommendations phase: ${data.error}`,
                 phase: 'Recommendations'
               });
             }
-          };
-
-          eventSource.onerror = async (error) => {
-            debugLog('EventSource error:', {
+          } catch (error) {
+            debugLog('Error processing message:', {
               error,
-              readyState: eventSource.readyState,
-              CONNECTING: EventSource.CONNECTING,
-              OPEN: EventSource.OPEN,
-              CLOSED: EventSource.CLOSED
+              rawData: event.data
             });
-
-            console.error('EventSource error:', error);
             eventSource.close();
             setIsThinking(false);
             setIsMessageLoading(false);
             addMessage({
               role: 'assistant' as const,
-              content: 'An error occurred during the recommendations phase. Please try again.',
+              content: `An error occurred during the recommendations phase. Please try again.`,
               phase: 'Recommendations'
             });
-          };
-        } else {
-          // Handle non-recommendations phases as before
-          const response = await axios.post(`${process.env.REACT_APP_API_URL}/api/analyze`, {
-            url: websiteUrl,
-            phase: nextPhase,
-            metrics: phaseMetrics,
-            history: JSON.stringify(messages.slice(-MAX_HISTORY_LENGTH).map(({ role, content }) => ({ role, content }))),
-            screenshot: nextPhase === 'Vision' ? evaluationResults.screenshot : undefined
-          });
-
-          const { score, analysis } = response.data;
+          }
+        };
 
-          const newMessage: Message = {
-            role: 'assistant' as const,
-            content: analysis,
-            metrics: nextPhase === 'Recommendations' ? undefined : phaseMetrics,
-            screenshot: nextPhase === 'Recommendations' ? undefined : evaluationResults.screenshot,
-            phase: nextPhase,
-            score: score,
-            isLoading: false
-          };
+        eventSource.onerror = async (error) => {
+          debugLog('EventSource error:', {
+            error,
+            readyState: eventSource.readyState,
+            CONNECTING: EventSource.CONNECTING,
+            OPEN: EventSource.OPEN,
+            CLOSED: EventSource.CLOSED
+          });
 
+          console.error('EventSource error:', error);
+          eventSource.close();
           setIsThinking(false);
           setIsMessageLoading(false);
-          addMessage(newMessage);
+          addMessage({
+            role: 'assistant' as const,
+            content: 'An error occurred during the recommendations phase. Please try again.',
+            phase: 'Recommendations'
+          });
+        };
+      } else {
+        // Handle non-recommendations phases as before
+        const response = await axios.post(`${process.env.REACT_APP_API_URL}/api/analyze`, {
+          url: websiteUrl,
+          phase: nextPhase,
+          metrics: phaseMetrics,
+          history: JSON.stringify(messages.slice(-MAX_HISTORY_LENGTH).map(({ role, content }) => ({ role, content }))),
+          screenshot: nextPhase === 'Vision' ? evaluationResults.screenshot : undefined
+        });
 
-          if (nextPhase !== 'Overall' && nextPhase !== 'Recommendations' && score !== null) {
-            const newPhaseScores = { ...phaseScores, [nextPhase]: score };
-            setPhaseScores(newPhaseScores);
-            updateOverallScore(newPhaseScores);
-          }
-        }
-      } catch (error) {
-        setIsThinking(false);
-        setIsMessageLoading(false);
-        console.error(`Error starting ${nextPhase} analysis:`, error);
-        addMessage({
+        const { score, analysis } = response.data;
+
+        const newMessage: Message = {
           role: 'assistant' as const,
-          content: `An error occurred while starting the ${nextPhase} analysis. Please try again.`,
+          content: analysis,
+          metrics: nextPhase === 'Recommendations' ? undefined : phaseMetrics,
+          screenshot: nextPhase === 'Recommendations' ? undefined : evaluationResults.screenshot,
+          phase: nextPhase,
+          score: score,
           isLoading: false
-        });
+        };
+
+        setIsThinking(false);
+        setIsMessageLoading(false);
+        addMessage(newMessage);
+        completePhase(nextPhase, score);
       }
+    } catch (error) {
+      setIsThinking(false);
+      setIsMessageLoading(false);
+      console.error(`Error starting ${nextPhase} analysis:`, error);
+      addMessage({
+        role: 'assistant' as const,
+        content: `An error occurred while starting the ${nextPhase} analysis. Please try again.`,
+        isLoading: false
+      });
+    }
+  };
+
+  // After jumping back to a completed phase, Next skips ahead to the first phase still to run
+  const nextPhase = currentPhase
+    ? phases.slice(phases.indexOf(currentPhase) + 1).find(phase => !completedPhases.includes(phase))
+    : undefined;
+
+  const handleContinue = async () => {
+    if (nextPhase) {
+      await runPhase(nextPhase);
     } else {
       setCurrentPhase(null); // evaluation complete
     }
   };
 
+  // Completed phases scroll to their latest message and continue from there; others run now
+  const handleSelectPhase = (phase: string) => {
+    if (!completedPhases.includes(phase)) {
+      runPhase(phase);
+      return;
+    }
+    setCurrentPhase(phase);
+    const phaseMessages = document.querySelectorAll(`.message[data-phase="${phase}"]`);
+    phaseMessages[phaseMessages.length - 1]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
   const toggleMetricsCollapse = useCallback((messageIndex: number) => {
     // Capture current scroll position before state update
     const chatMessages = document.querySelector('.chat-messages');
@@ -597,6 +543,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     });
   }, []);
 
+  const linkInventory = evaluationResults ? getLinkInventory(evaluationResults, websiteUrl) : undefined;
+  const resourceBreakdown = evaluationResults ? getResourceBreakdown(evaluationResults, websiteUrl) : undefined;
+  const indexability = indexabilityService.get(evaluationResults);
+  const socialPreview = socialPreviewService.get(evaluationResults);
+
   const renderMetrics = useCallback((metrics: { [key: string]: any }, messageIndex: number, isCollapsed: boolean) => (
     <div 
       className={`metrics-wrapper fade-in ${isCollapsed ? 'collapsed' : ''}`} 
@@ -612,7 +563,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         <i className={`fas fa-chevron-${isCollapsed ? 'down' : 'up'}`}></i>
       </button>
       {Object.entries(metrics || {}).map(([key, value]) => {
-        if (key !== 'screenshot' && key !== 'htmlContent') {
+        // Device profiles, the resource breakdown, indexability and social previews get their own tiles below instead of a raw tile
+        if (!['screenshot', 'htmlContent', 'resources', 'deviceProfiles', 'device_profiles', 'resource_breakdown', 'indexability', 'social_preview'].includes(key)) {
           return (
             <div 
               key={key} 
@@ -625,8 +577,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         }
         return null;
       })}
+      {evaluationResults?.deviceProfiles && (metrics?.deviceProfiles || metrics?.device_profiles) && (
+        <DeviceDeltaTable profiles={evaluationResults.deviceProfiles} scoringProfile={scoringProfile} />
+      )}
+      {metrics?.broken_links && linkInventory && <LinkInventoryTable links={linkInventory} />}
+      {metrics?.resource_breakdown && resourceBreakdown && <ResourceBreakdownTable breakdown={resourceBreakdown} />}
+      {metrics?.indexability && indexability && <IndexabilityVerdictTile report={indexability} />}
+      {metrics?.social_preview && socialPreview && <SocialPreviewCards audit={socialPreview} />}
     </div>
-  ), [toggleMetricsCollapse]);
+  ), [toggleMetricsCollapse, evaluationResults, linkInventory, resourceBreakdown, indexability, socialPreview, scoringProfile]);
 
   const renderMetricValue = (value: any, depth: number = 0): React.ReactNode => {
     if (value === null || value === undefined) {
@@ -724,7 +683,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         {message.role === 'assistant' && message.metrics && message.phase && 
          message.phase !== 'Overall' && message.phase !== 'Recommendations' && (
           <div className="message-score">
-            {message.phase}: {phaseScores[message.phase] || 'n/a'}
+            {message.phase}: {message.score ?? phaseScores[message.phase] ?? 'n/a'}
           </div>
         )}
         <div className="message-content">
@@ -839,8 +798,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
 
     const userId = auth.currentUser.uid;
+    const account = workspace ? workspaceService.getBillingAccount(workspace) : userId;
     await checkCreditsAndShowError(
-      userId,
+      account,
       SERVICE_COSTS.REPORT_GENERATION,
       () => {
         toast.error(`Generating a report requires ${SERVICE_COSTS.REPORT_GENERATION} credits. Please purchase more credits to continue.`, {
@@ -853,111 +813,36 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
         try {
           // First deduct credits
-          await decrementUserBalance(userId, SERVICE_COSTS.REPORT_GENERATION);
+          await decrementUserBalance(account, SERVICE_COSTS.REPORT_GENERATION);
           creditsDeducted = true;
           
           // Update points in parent component
-          if (onPointsUpdated) {
-            const currentPoints = await getUserBalance(userId);
+          if (onPointsUpdated && !workspace) {
+            const currentPoints = await getUserBalance(account);
             onPointsUpdated(currentPoints);
           }
           
-          // Create a clean version of metrics without HTML content
-          const cleanMetrics = {
-            performance: {
-              loadTime: evaluationResults.loadTime || 0,
-              firstContentfulPaint: evaluationResults.firstContentfulPaint || 0,
-              timeToInteractive: evaluationResults.timeToInteractive || 0,
-              largestContentfulPaint: evaluationResults.largestContentfulPaint || 0,
-              cumulativeLayoutShift: evaluationResults.cumulativeLayoutShift || 0,
-              ttfb: evaluationResults.ttfb || 0,
-              tbt: evaluationResults.tbt || 0,
-              estimatedFid: evaluationResults.estimatedFid || 0,
-              speedIndex: evaluationResults.speedIndex,
-              totalBlockingTime: evaluationResults.totalBlockingTime
-            },
-            seo: {
-              score: evaluationResults.lighthouse?.seo || 0,
-              title: evaluationResults.seo?.title || '',
-              metaDescription: evaluationResults.seo?.metaDescription || '',
-              headings: evaluationResults.seo?.headings,
-              robotsTxt: evaluationResults.seo?.robotsTxt,
-              sitemapXml: evaluationResults.seo?.sitemapXml,
-              canonicalUrl: evaluationResults.seo?.canonicalUrl,
-              mobileResponsive: evaluationResults.seo?.mobileResponsive
-            },
-            accessibility: {
-              score: evaluationResults.lighthouse?.accessibility || 0,
-              imagesWithAltText: evaluationResults.accessibility?.imagesWithAltText || 0,
-              totalImages: evaluationResults.accessibility?.totalImages || 0,
-              ariaAttributesCount: evaluationResults.accessibility?.ariaAttributesCount || 0,
-              keyboardNavigable: evaluationResults.accessibility?.keyboardNavigable || false,
-              contrastRatio: evaluationResults.accessibility?.contrastRatio,
-              formLabels: evaluationResults.accessibility?.formLabels
-            },
-            lighthouse: {
-              performance: evaluationResults.lighthouse?.performance || 0,
-              accessibility: evaluationResults.lighthouse?.accessibility || 0,
-              seo: evaluationResults.lighthouse?.seo || 0,
-              bestPractices: evaluationResults.lighthouse?.bestPractices || 0,
-              pwa: evaluationResults.lighthouse?.pwa
-            },
-            security: {
-              isHttps: evaluationResults.security?.isHttps || false,
-              protocol: evaluationResults.security?.protocol || '',
-              securityHeaders: {
-                'Strict-Transport-Security': evaluationResults.security?.securityHeaders?.['Strict-Transport-Security'] || false,
-                'Content-Security-Policy': evaluationResults.security?.securityHeaders?.['Content-Security-Policy'] || false,
-                'X-Frame-Options': evaluationResults.security?.securityHeaders?.['X-Frame-Options'] || false,
-                'X-Content-Type-Options': evaluationResults.security?.securityHeaders?.['X-Content-Type-Options'] || false,
-                'X-XSS-Protection': evaluationResults.security?.securityHeaders?.['X-XSS-Protection'] || false,
-                'Referrer-Policy': evaluationResults.security?.securityHeaders?.['Referrer-Policy'] || false
-              },
-              tlsVersion: evaluationResults.security?.tlsVersion || '',
-              certificateExpiry: evaluationResults.security?.certificateExpiry,
-              mixedContent: evaluationResults.security?.mixedContent,
-              vulnerabilities: evaluationResults.security?.vulnerabilities
-            },
-            formFunctionality: {
-              totalForms: evaluationResults.formFunctionality?.totalForms || 0,
-              formsWithSubmitButton: evaluationResults.formFunctionality?.formsWithSubmitButton || 0,
-              interactiveElementsCount: evaluationResults.formFunctionality?.interactiveElementsCount || 0,
-              inputFieldsCount: evaluationResults.formFunctionality?.inputFieldsCount || 0,
-              javascriptEnabled: evaluationResults.formFunctionality?.javascriptEnabled || false
-            },
-            brokenLinks: {
-              totalLinks: evaluationResults.brokenLinks?.totalLinks || 0,
-              brokenLinks: evaluationResults.brokenLinks?.brokenLinks || 0
-            },
-            responsiveness: {
-              isResponsive: evaluationResults.responsiveness?.isResponsive || false,
-              viewportWidth: evaluationResults.responsiveness?.viewportWidth || 0,
-              pageWidth: evaluationResults.responsiveness?.pageWidth || 0
-            },
-            bestPractices: {
-              semanticUsage: evaluationResults.bestPractices?.semanticUsage || {},
-              optimizedImages: evaluationResults.bestPractices?.optimizedImages || 0,
-              totalImages: evaluationResults.bestPractices?.totalImages || 0
-            }
-          };
-
+          await runSeoChecks();
           const reportData: ReportData = {
             websiteUrl,
             timestamp: new Date(),
             overallScore: overallScore || 0,
             phaseScores,
-            metrics: cleanMetrics
+            completedPhases,
+            metrics: buildReportMetrics(evaluationResults, websiteUrl, targetKeyword),
+            benchmark: benchmarkResult || undefined,
+            scoringProfile: scoringProfile ? scoringProfileService.toSnapshot(scoringProfile) : undefined
           };
 
-          // Generate PDF
-          const pdfBuffer = await reportGenerator.generatePDF(reportData);
+          // Generate the analysis once, then render it in the chosen format
+          await reportGenerator.prepareReport(reportData, workspace?.id);
+          const blob = await reportExporter.createBlob(reportData, reportFormat);
           
           // Save metadata to Firestore
-          await reportStorage.saveReport(userId, reportData);
+          await reportStorage.saveReport(userId, reportData, workspace?.id);
           
           // Download locally
-          const blob = new Blob([pdfBuffer], { type: 'application/pdf' });
-          saveAs(blob, `${websiteUrl.replace(/[^a-z0-9]/gi, '_')}_report.pdf`);
+          saveAs(blob, reportExporter.getFileName(websiteUrl, reportFormat));
 
           toast.success('Report generated and saved successfully!');
         } catch (error) {
@@ -966,9 +851,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           // If credits were deducted but report failed, refund them
           if (creditsDeducted) {
             try {
-              await decrementUserBalance(userId, -SERVICE_COSTS.REPORT_GENERATION); // Negative amount for refund
-              if (onPointsUpdated) {
-                const currentPoints = await getUserBalance(userId);
+              await decrementUserBalance(account, -SERVICE_COSTS.REPORT_GENERATION); // Negative amount for refund
+              if (onPointsUpdated && !workspace) {
+                const currentPoints = await getUserBalance(account);
                 onPointsUpdated(currentPoints);
               }
               toast.info('Credits have been refunded due to the error');
@@ -1057,14 +942,37 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     <div className="chat-interface">
       <div className="chat-phase-indicator-wrapper">
         <div className="chat-phase-indicator">
-          {phases.map((phase, index) => (
-            <div 
-              key={phase} 
-              className={`phase-item ${currentPhase === phase ? 'active' : ''} ${index < phases.indexOf(currentPhase!) ? 'completed' : ''}`}
-            >
-              {phase}
-            </div>
-          ))}
+          {phases.map(phase => {
+            const isCompleted = completedPhases.includes(phase);
+            const isBusy = isLoading || isMessageLoading || !evaluationResults;
+            return (
+              <div
+                key={phase}
+                className={`phase-item ${currentPhase === phase ? 'active' : ''} ${isCompleted ? 'completed' : ''}`}
+              >
+                <button
+                  type="button"
+                  className="phase-item-select"
+                  onClick={() => handleSelectPhase(phase)}
+                  disabled={isBusy}
+                  title={isCompleted ? `Go to ${phase}` : `Run ${phase}`}
+                >
+                  {phase}
+                </button>
+                {isCompleted && (
+                  <button
+                    type="button"
+                    className="phase-item-rerun"
+                    onClick={() => runPhase(phase)}
+                    disabled={isBusy}
+                    title={`Run ${phase} again`}
+                  >
+                    <i className="fas fa-redo" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
       {overallScore !== null && (
@@ -1074,7 +982,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       )}
       {currentPhase && (
         <div className="floating-action-container">
-          {currentPhase !== 'Recommendations' ? (
+          {nextPhase && (
             <button 
               type="button" 
               onClick={handleContinue} 
@@ -1083,15 +991,29 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             >
               Next
             </button>
-          ) : (
-            <button
-              type="button"
-              onClick={handleGenerateReport}
-              disabled={isLoading || isMessageLoading || isGeneratingReport}
-              className={`floating-action-button ${isGeneratingReport ? 'generating' : ''}`}
-            >
-              {isGeneratingReport ? 'Generating...' : 'Download Report'}
-            </button>
+          )}
+          {(currentPhase === 'Recommendations' || completedPhases.includes('Recommendations')) && (
+            <>
+              <select
+                className="report-format-select"
+                value={reportFormat}
+                onChange={(e) => setReportFormat(e.target.value as ExportFormat)}
+                disabled={isGeneratingReport}
+                title="Report format"
+              >
+                {EXPORT_FORMATS.map(info => (
+                  <option key={info.format} value={info.format}>{info.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleGenerateReport}
+                disabled={isLoading || isMessageLoading || isGeneratingReport}
+                className={`floating-action-button ${isGeneratingReport ? 'generating' : ''}`}
+              >
+                {isGeneratingReport ? 'Generating...' : 'Download Report'}
+              </button>
+            </>
           )}
         </div>
       )}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { DeviceProfiles } from '../services/evaluator';
+import { deviceProfileService, DeviceDelta } from '../services/deviceProfiles';
+import { getMetricValidator, MetricValidator } from '../services/metricValidator';
+import { ScoringProfile } from '../services/scoringProfiles';
+
+interface DeviceDeltaTableProps {
+  profiles: DeviceProfiles;
+  scoringProfile?: ScoringProfile | null;
+}
+
+const getRatingClass = (validator: MetricValidator, delta: DeviceDelta, value: number) => {
+  const ratingKey = deviceProfileService.getRatingKey(delta);
+  const rating = ratingKey ? validator.rateMetric(ratingKey, value) : null;
+  return rating ? `rating-${rating}` : '';
+};
+
+const getDeltaClass = (delta: DeviceDelta) => {
+  if (delta.delta === 0) return '';
+  const mobileIsWorse = delta.higherIsBetter ? delta.delta < 0 : delta.delta > 0;
+  return mobileIsWorse ? 'trend-regressed' : 'trend-improved';
+};
+
+const DeviceDeltaTable: React.FC<DeviceDeltaTableProps> = ({ profiles, scoringProfile }) => {
+  const deltas = deviceProfileService.getDeltas(profiles);
+  const validator = getMetricValidator(scoringProfile);
+
+  return (
+    <div className="metric-tile device-delta-tile">
+      <div className="metric-title">Mobile vs Desktop</div>
+      <table className="drift-table comparison-table device-delta-table">
+        <thead>
+          <tr>
+            <th>Metric</th>
+            <th title={deviceProfileService.getSettingsLabel(profiles.mobile.settings)}>Mobile</th>
+            <th title={deviceProfileService.getSettingsLabel(profiles.desktop.settings)}>Desktop</th>
+            <th>Delta</th>
+          </tr>
+        </thead>
+        <tbody>
+          {deltas.map(delta => (
+            <tr key={delta.key}>
+              <td>{delta.label}</td>
+              <td className={getRatingClass(validator, delta, delta.mobile)}>{deviceProfileService.formatValue(delta, delta.mobile)}</td>
+              <td className={getRatingClass(validator, delta, delta.desktop)}>{deviceProfileService.formatValue(delta, delta.desktop)}</td>
+              <td className={getDeltaClass(delta)}>{deviceProfileService.formatValue(delta, delta.delta, true)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="device-delta-settings">
+        {deviceProfileService.getSettingsLabel(profiles.mobile.settings)} vs {deviceProfileService.getSettingsLabel(profiles.desktop.settings)}
+      </div>
+    </div>
+  );
+};
+
+export default DeviceDeltaTable;
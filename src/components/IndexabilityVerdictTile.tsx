@@ -0,0 +1,74 @@
+import React from 'react';
+import {
+  IndexabilityReport,
+  IndexabilityVerdict,
+  INDEXABILITY_VERDICT_LABELS,
+  isSitemapUnchecked
+} from '../services/indexability';
+
+interface IndexabilityVerdictTileProps {
+  report: IndexabilityReport;
+}
+
+const VERDICT_CLASSES: { [verdict in IndexabilityVerdict]: string } = {
+  'indexable': 'rating-good',
+  'indexable-with-warnings': 'rating-needs-improvement',
+  'not-indexable': 'rating-poor',
+  'unknown': 'rating-needs-improvement'
+};
+
+const IndexabilityVerdictTile: React.FC<IndexabilityVerdictTileProps> = ({ report }) => {
+  const readSitemaps = report.sitemaps.filter(sitemap => sitemap.status !== null && sitemap.status < 400);
+
+  return (
+    <div className="metric-tile indexability-tile" onClick={(e) => e.stopPropagation()}>
+      <div className="metric-title">Indexability</div>
+      <div className={`indexability-verdict ${VERDICT_CLASSES[report.verdict]}`}>
+        {INDEXABILITY_VERDICT_LABELS[report.verdict]}
+      </div>
+      {report.issues.length > 0 && (
+        <ul className="indexability-issues">
+          {report.issues.map(issue => (
+            <li key={issue.message} className={issue.severity === 'error' ? 'rating-poor' : 'rating-needs-improvement'}>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <table className="drift-table">
+        <tbody>
+          <tr>
+            <td>robots.txt</td>
+            <td>
+              {report.robotsTxt.found
+                ? report.robotsTxt.allowed === false ? 'Blocks this URL' : 'Allows this URL'
+                : report.robotsTxt.status === null ? 'Not checked' : 'Not found'}
+            </td>
+          </tr>
+          <tr>
+            <td>Sitemap</td>
+            <td>
+              {readSitemaps.length === 0
+                ? isSitemapUnchecked(report.sitemaps) ? 'Not checked' : 'Not found'
+                : `${report.inSitemap ? 'Lists' : 'Does not list'} this URL (${readSitemaps.map(sitemap => sitemap.url).join(', ')})`}
+            </td>
+          </tr>
+          <tr>
+            <td>Robots directives</td>
+            <td>{report.robotsDirectives.length > 0 ? report.robotsDirectives.join('; ') : 'None'}</td>
+          </tr>
+          <tr>
+            <td>Canonical URL</td>
+            <td className="link-inventory-url" title={report.canonicalUrl || undefined}>{report.canonicalUrl || 'None'}</td>
+          </tr>
+          <tr>
+            <td>Mobile responsive</td>
+            <td>{report.mobileResponsive ? 'Yes' : 'No'}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default IndexabilityVerdictTile;
@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner, faSquare, faCheckSquare, faCog } from '@fortawesome/free-solid-svg-icons';
+import { StoredReport, reportStorage } from '../services/reportStorage';
+import { reportSharingService } from '../services/reportSharing';
+import { issueExportService, ExportedIssue, IssueTrackerConfig, IssueTrackerType } from '../services/issueExporters';
+import { getRecommendationItems, RecommendationPriority, RECOMMENDATION_PRIORITIES } from '../services/recommendations';
+
+interface IssueExportDialogProps {
+  userId: string;
+  report: StoredReport;
+  onExported: (report: StoredReport) => void;
+  onClose: () => void;
+}
+
+const defaultConfig = (type: IssueTrackerType): IssueTrackerConfig => ({
+  type,
+  baseUrl: issueExportService.getExporter(type).defaultBaseUrl,
+  labels: []
+});
+
+const IssueExportDialog: React.FC<IssueExportDialogProps> = ({ userId, report, onExported, onClose }) => {
+  const [config, setConfig] = useState<IssueTrackerConfig>(defaultConfig('github'));
+  const [showSettings, setShowSettings] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const items = getRecommendationItems(report);
+  const exportedIssues = report.exportedIssues || {};
+
+  useEffect(() => {
+    issueExportService.getConfig(userId)
+      .then(savedConfig => {
+        if (savedConfig) {
+          setConfig(savedConfig);
+        } else {
+          setShowSettings(true);
+        }
+      })
+      .catch(() => toast.error('Failed to load issue tracker settings'));
+  }, [userId]);
+
+  const updateConfig = (changes: Partial<IssueTrackerConfig>) => setConfig(prev => ({ ...prev, ...changes }));
+
+  const toggleItem = (itemId: string) => {
+    const newSelected = new Set(selected);
+    if (newSelected.has(itemId)) {
+      newSelected.delete(itemId);
+    } else {
+      newSelected.add(itemId);
+    }
+    setSelected(newSelected);
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await issueExportService.saveConfig(userId, config);
+      updateConfig({ token: undefined, hasToken: Boolean(config.token || config.hasToken) });
+      setShowSettings(false);
+      toast.success('Issue tracker settings saved');
+    } catch (error) {
+      toast.error('Failed to save issue tracker settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    const toExport = items.filter(item => selected.has(item.id) && !exportedIssues[item.id]);
+    if (toExport.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      const reportUrl = await reportSharingService.getOrCreateReportLink(userId, report);
+
+      // Each ticket is recorded as soon as it is created; writes that fail are retried once at the end
+      const unrecorded: { [recommendationId: string]: ExportedIssue } = {};
+      const { exported, failed } = await issueExportService.exportRecommendations(
+        report,
+        toExport,
+        config,
+        reportUrl,
+        async (recommendationId, issue) => {
+          try {
+            await reportStorage.markIssuesExported(userId, report.id, { [recommendationId]: issue }, report.workspaceId);
+          } catch (error) {
+            unrecorded[recommendationId] = issue;
+          }
+        }
+      );
+
+      onExported({ ...report, exportedIssues: { ...exportedIssues, ...exported } });
+      setSelected(new Set());
+
+      if (Object.keys(unrecorded).length > 0) {
+        try {
+          await reportStorage.markIssuesExported(userId, report.id, unrecorded, report.workspaceId);
+        } catch (error) {
+          const keys = Object.values(unrecorded).map(issue => issue.key);
+          toast.error(`Created ${keys.join(', ')} but could not record ${keys.length === 1 ? 'it' : 'them'} on this report. Don't export ${keys.length === 1 ? 'it' : 'them'} again.`, { autoClose: false });
+        }
+      }
+
+      const exportedCount = Object.keys(exported).length;
+      if (failed.length > 0) {
+        toast.error(`${failed.length} ticket${failed.length === 1 ? '' : 's'} failed: ${failed[0].error}`);
+      }
+      if (exportedCount > 0) {
+        toast.success(`Created ${exportedCount} ticket${exportedCount === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      console.error('Error exporting recommendations:', error);
+      toast.error('Failed to export recommendations');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const pendingCount = items.filter(item => selected.has(item.id) && !exportedIssues[item.id]).length;
+
+  return (
+    <div className="delete-confirmation-overlay">
+      <div className="delete-confirmation-dialog report-comparison-dialog issue-export-dialog">
+        <div className="issue-export-header">
+          <h3>Export to {issueExportService.getExporter(config.type).label}</h3>
+          <button className="download-report-button" onClick={() => setShowSettings(!showSettings)} title="Tracker Settings">
+            <FontAwesomeIcon icon={faCog} />
+          </button>
+        </div>
+        <p className="report-date">{report.websiteUrl}</p>
+
+        {showSettings && (
+          <form className="monitor-form" onSubmit={handleSaveSettings}>
+            <div className="form-group">
+              <label>Tracker</label>
+              <select
+                value={config.type}
+                onChange={(e) => setConfig({ ...defaultConfig(e.target.value as IssueTrackerType), labels: config.labels })}
+              >
+                {issueExportService.getExporters().map(exporter => (
+                  <option key={exporter.type} value={exporter.type}>{exporter.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>{config.type === 'webhook' ? 'Webhook URL' : config.type === 'jira' ? 'Jira site URL' : 'API base URL'}</label>
+              <input
+                type="url"
+                value={config.baseUrl}
+                onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+                placeholder={config.type === 'jira' ? 'https://your-team.atlassian.net' : 'https://'}
+              />
+            </div>
+            {config.type === 'github' && (
+              <div className="form-group">
+                <label>Repository</label>
+                <input
+                  type="text"
+                  value={config.repository || ''}
+                  onChange={(e) => updateConfig({ repository: e.target.value })}
+                  placeholder="owner/repo"
+                />
+              </div>
+            )}
+            {config.type === 'jira' && (
+              <>
+                <div className="form-group">
+                  <label>Project key</label>
+                  <input type="text" value={config.projectKey || ''} onChange={(e) => updateConfig({ projectKey: e.target.value })} placeholder="WEB" />
+                </div>
+                <div className="form-group">
+                  <label>Issue type</label>
+                  <input type="text" value={config.issueType || ''} onChange={(e) => updateConfig({ issueType: e.target.value })} placeholder="Task" />
+                </div>
+                <div className="form-group">
+                  <label>Account email</label>
+                  <input type="email" value={config.email || ''} onChange={(e) => updateConfig({ email: e.target.value })} />
+                </div>
+              </>
+            )}
+            <div className="form-group">
+              <label>{config.type === 'jira' ? 'API token' : 'Access token'}</label>
+              <input
+                type="password"
+                value={config.token || ''}
+                onChange={(e) => updateConfig({ token: e.target.value })}
+                placeholder={config.hasToken ? 'Saved; leave blank to keep it' : undefined}
+                autoComplete="off"
+              />
+            </div>
+            <div className="form-group">
+              <label>Extra labels (comma separated)</label>
+              <input
+                type="text"
+                value={(config.labels || []).join(', ')}
+                onChange={(e) => updateConfig({ labels: e.target.value.split(',').map(label => label.trim()).filter(Boolean) })}
+              />
+            </div>
+            <button type="submit" className="bulk-action-button" disabled={isSaving}>
+              {isSaving ? <FontAwesomeIcon icon={faSpinner} spin /> : 'Save Settings'}
+            </button>
+          </form>
+        )}
+
+        {items.length === 0 ? (
+          <p className="no-reports">This report has no recommendations to export.</p>
+        ) : (
+          (Object.keys(RECOMMENDATION_PRIORITIES) as RecommendationPriority[]).map(priority => {
+            const priorityItems = items.filter(item => item.priority === priority);
+            if (priorityItems.length === 0) return null;
+
+            return (
+              <div key={priority} className="issue-export-group">
+                <h4>{RECOMMENDATION_PRIORITIES[priority]}</h4>
+                {priorityItems.map(item => {
+                  const exportedIssue = exportedIssues[item.id];
+                  return (
+                    <div key={item.id} className={`issue-export-item ${exportedIssue ? 'exported' : ''}`}>
+                      <button
+                        className={`checkbox-button ${selected.has(item.id) ? 'selected' : ''}`}
+                        onClick={() => toggleItem(item.id)}
+                        disabled={Boolean(exportedIssue) || isExporting}
+                      >
+                        <FontAwesomeIcon icon={selected.has(item.id) || exportedIssue ? faCheckSquare : faSquare} />
+                      </button>
+                      <div>
+                        <p>{item.text}</p>
+                        <span className="report-date">
+                          {item.phase}
+                          {exportedIssue && (
+                            <>
+                              {' · Exported as '}
+                              {exportedIssue.url ? (
+                                <a href={exportedIssue.url} target="_blank" rel="noopener noreferrer">{exportedIssue.key}</a>
+                              ) : (
+                                exportedIssue.key
+                              )}
+                            </>
+                          )}
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })
+        )}
+
+        <p className="monitor-cost-note">Each ticket links to a read-only share link for this report.</p>
+        <div className="confirmation-buttons">
+          <button className="confirm-button" onClick={handleExport} disabled={isExporting || pendingCount === 0 || showSettings}>
+            {isExporting ? <FontAwesomeIcon icon={faSpinner} spin /> : `Export ${pendingCount || ''} Ticket${pendingCount === 1 ? '' : 's'}`}
+          </button>
+          <button className="cancel-button" onClick={onClose} disabled={isExporting}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IssueExportDialog;
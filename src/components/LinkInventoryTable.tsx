@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import {
+  CheckedLink,
+  LinkFilter,
+  LinkSortKey,
+  LINK_FILTERS,
+  filterLinks,
+  sortLinks,
+  getLinkType,
+  formatLinkStatus
+} from '../services/linkInventory';
+
+interface LinkInventoryTableProps {
+  links: CheckedLink[];
+}
+
+const COLUMNS: { key: LinkSortKey; label: string }[] = [
+  { key: 'url', label: 'URL' },
+  { key: 'status', label: 'Status' },
+  { key: 'type', label: 'Type' },
+  { key: 'anchorText', label: 'Anchor Text' },
+  { key: 'redirects', label: 'Redirects' }
+];
+
+const getStatusClass = (link: CheckedLink) => {
+  if (link.broken) return 'rating-poor';
+  if (link.redirectChain.length > 0) return 'rating-needs-improvement';
+  return 'rating-good';
+};
+
+const LinkInventoryTable: React.FC<LinkInventoryTableProps> = ({ links }) => {
+  const brokenCount = links.filter(link => link.broken).length;
+  const [filter, setFilter] = useState<LinkFilter>(brokenCount > 0 ? 'broken' : 'all');
+  const [search, setSearch] = useState('');
+  const [sortKey, setSortKey] = useState<LinkSortKey>('status');
+  const [ascending, setAscending] = useState(false);
+
+  const visibleLinks = sortLinks(filterLinks(links, filter, search), sortKey, ascending);
+
+  const handleSort = (key: LinkSortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  return (
+    // Clicks inside the table shouldn't collapse the surrounding metrics wrapper
+    <div className="metric-tile link-inventory-tile" onClick={(e) => e.stopPropagation()}>
+      <div className="metric-title">Link Inventory ({brokenCount} broken of {links.length})</div>
+      <div className="link-inventory-controls">
+        <select value={filter} onChange={(e) => setFilter(e.target.value as LinkFilter)}>
+          {(Object.keys(LINK_FILTERS) as LinkFilter[]).map(option => (
+            <option key={option} value={option}>{LINK_FILTERS[option]}</option>
+          ))}
+        </select>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter by URL or anchor text"
+        />
+      </div>
+      <div className="link-inventory-scroll">
+        <table className="drift-table link-inventory-table">
+          <thead>
+            <tr>
+              {COLUMNS.map(column => (
+                <th key={column.key} onClick={() => handleSort(column.key)} className="sortable">
+                  {column.label}
+                  {sortKey === column.key && <i className={`fas fa-caret-${ascending ? 'up' : 'down'}`}></i>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleLinks.map(link => (
+              <tr key={`${link.url}-${link.selector}`}>
+                <td className="link-inventory-url">
+                  <a href={link.url} target="_blank" rel="noopener noreferrer">{link.url}</a>
+                </td>
+                <td className={getStatusClass(link)}>{formatLinkStatus(link)}</td>
+                <td>{getLinkType(link)}</td>
+                <td title={link.selector}>{link.anchorText || <em>none</em>}</td>
+                <td title={link.redirectChain.join(' → ')}>{link.redirectChain.length || ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleLinks.length === 0 && <p className="no-reports">No links match this filter.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default LinkInventoryTable;
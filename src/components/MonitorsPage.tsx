@@ -0,0 +1,376 @@
+import React, { useState, useEffect } from 'react';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { toast } from 'react-toastify';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner, faTrash, faPlay, faPause, faCheck } from '@fortawesome/free-solid-svg-icons';
+import { auth } from '../services/firebase';
+import { SERVICE_COSTS } from '../services/points';
+import {
+  monitorService,
+  Monitor,
+  MonitorAlert,
+  MonitorSchedule,
+  DriftThresholds,
+  DEFAULT_DRIFT_THRESHOLDS,
+  getAlertTitle
+} from '../services/monitorService';
+
+const THRESHOLD_FIELDS: { key: keyof DriftThresholds; label: string; step: number }[] = [
+  { key: 'overallScore', label: 'Overall score drop (points)', step: 1 },
+  { key: 'phaseScore', label: 'Phase score drop (points)', step: 1 },
+  { key: 'largestContentfulPaint', label: 'LCP increase (ms)', step: 50 },
+  { key: 'cumulativeLayoutShift', label: 'CLS increase', step: 0.01 },
+  { key: 'ttfb', label: 'TTFB increase (ms)', step: 50 }
+];
+
+const formatDate = (date?: Date) => {
+  if (!date) return 'Never';
+  return new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const formatChangeValue = (metric: string, value: number) => {
+  if (metric === 'CLS') return value.toFixed(3);
+  if (metric === 'LCP' || metric === 'TTFB') return `${Math.round(value)} ms`;
+  return `${Math.round(value)}%`;
+};
+
+const MonitorsPage: React.FC = () => {
+  const [user, loading] = useAuthState(auth);
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [alerts, setAlerts] = useState<MonitorAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [websiteUrl, setWebsiteUrl] = useState('');
+  const [schedule, setSchedule] = useState<MonitorSchedule>('weekly');
+  const [thresholds, setThresholds] = useState<DriftThresholds>(DEFAULT_DRIFT_THRESHOLDS);
+  const [isCreating, setIsCreating] = useState(false);
+  const [runningMonitorId, setRunningMonitorId] = useState<string | null>(null);
+
+  const loadData = async (userId: string) => {
+    const [userMonitors, userAlerts] = await Promise.all([
+      monitorService.getMonitors(userId),
+      monitorService.getAlerts(userId)
+    ]);
+    setMonitors(userMonitors.sort((a, b) => a.websiteUrl.localeCompare(b.websiteUrl)));
+    setAlerts(userAlerts);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!user) return;
+
+      setIsLoading(true);
+      try {
+        await loadData(user.uid);
+      } catch (error) {
+        console.error('Error fetching monitors:', error);
+        toast.error('Failed to load monitors. Please try refreshing the page.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (!loading) {
+      fetchData();
+    }
+  }, [user, loading]);
+
+  useEffect(() => {
+    // The background runner in App dispatches this after raising new alerts
+    const handleAlertsUpdated = () => {
+      if (user) {
+        loadData(user.uid).catch(error => console.error('Error refreshing monitors:', error));
+      }
+    };
+
+    window.addEventListener('monitorAlertsUpdated', handleAlertsUpdated);
+    return () => window.removeEventListener('monitorAlertsUpdated', handleAlertsUpdated);
+  }, [user]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !websiteUrl.trim()) return;
+
+    const url = websiteUrl.trim().match(/^https?:\/\//i) ? websiteUrl.trim() : `https://${websiteUrl.trim()}`;
+    setIsCreating(true);
+    try {
+      await monitorService.createMonitor(user.uid, url, schedule, thresholds);
+      await loadData(user.uid);
+      setWebsiteUrl('');
+      toast.success('Monitor created. The first run will start shortly.');
+    } catch (error) {
+      console.error('Error creating monitor:', error);
+      toast.error('Failed to create monitor');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (monitor: Monitor) => {
+    if (!user) return;
+
+    try {
+      await monitorService.updateMonitor(user.uid, monitor.id, { active: !monitor.active });
+      setMonitors(prev => prev.map(m => m.id === monitor.id ? { ...m, active: !m.active } : m));
+    } catch (error) {
+      toast.error('Failed to update monitor');
+    }
+  };
+
+  const handleScheduleChange = async (monitor: Monitor, newSchedule: MonitorSchedule) => {
+    if (!user) return;
+
+    try {
+      await monitorService.updateMonitor(user.uid, monitor.id, { schedule: newSchedule });
+      await loadData(user.uid);
+    } catch (error) {
+      toast.error('Failed to update monitor');
+    }
+  };
+
+  const handleRunNow = async (monitor: Monitor) => {
+    if (!user) return;
+
+    setRunningMonitorId(monitor.id);
+    try {
+      const alert = await monitorService.runMonitor(user.uid, monitor);
+      await loadData(user.uid);
+      if (alert) {
+        toast.warning(getAlertTitle(alert));
+      } else {
+        toast.success('Monitor run complete');
+      }
+    } catch (error) {
+      console.error('Error running monitor:', error);
+      toast.error('Failed to run monitor');
+    } finally {
+      setRunningMonitorId(null);
+    }
+  };
+
+  const handleDeleteMonitor = async (monitorId: string) => {
+    if (!user) return;
+
+    try {
+      await monitorService.deleteMonitor(user.uid, monitorId);
+      setMonitors(prev => prev.filter(m => m.id !== monitorId));
+      toast.success('Monitor deleted');
+    } catch (error) {
+      toast.error('Failed to delete monitor');
+    }
+  };
+
+  const handleMarkRead = async (alertId: string) => {
+    if (!user) return;
+
+    try {
+      await monitorService.markAlertRead(user.uid, alertId);
+      setAlerts(prev => prev.map(a => a.id === alertId ? { ...a, read: true } : a));
+      window.dispatchEvent(new CustomEvent('monitorAlertsUpdated'));
+    } catch (error) {
+      toast.error('Failed to update alert');
+    }
+  };
+
+  if (loading) {
+    return <div className="profile-page">Loading monitors...</div>;
+  }
+
+  if (!user) {
+    return <div className="profile-page">Please sign in to manage monitors.</div>;
+  }
+
+  return (
+    <div className="profile-page">
+      <div className="profile-layout">
+        <div className="profile-column">
+          <h3>New Monitor</h3>
+          <form className="monitor-form" onSubmit={handleCreate}>
+            <div className="form-group">
+              <label>Website URL</label>
+              <input
+                type="text"
+                value={websiteUrl}
+                onChange={(e) => setWebsiteUrl(e.target.value)}
+                placeholder="example.com"
+              />
+            </div>
+            <div className="form-group">
+              <label>Schedule</label>
+              <select value={schedule} onChange={(e) => setSchedule(e.target.value as MonitorSchedule)}>
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            {THRESHOLD_FIELDS.map(field => (
+              <div key={field.key} className="form-group">
+                <label>{field.label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={field.step}
+                  value={thresholds[field.key]}
+                  onChange={(e) => setThresholds(prev => ({ ...prev, [field.key]: Number(e.target.value) || 0 }))}
+                />
+              </div>
+            ))}
+            <p className="monitor-cost-note">
+              Each run costs ${SERVICE_COSTS.EVALUATION.toFixed(2)} and is charged to your balance or pay-as-you-go method.
+              Monitors only run while Olive is open in your browser: runs that came due while it was closed start,
+              and are charged, the next time you open it. Several open tabs share a run, so it is charged once.
+            </p>
+            <button type="submit" className="bulk-action-button" disabled={isCreating || !websiteUrl.trim()}>
+              {isCreating ? <FontAwesomeIcon icon={faSpinner} spin /> : 'Create Monitor'}
+            </button>
+          </form>
+        </div>
+
+        <div className="reports-column">
+          <div className="reports-header">
+            <h2>Alerts</h2>
+          </div>
+          {isLoading ? (
+            <div className="loading-state">
+              <FontAwesomeIcon icon={faSpinner} spin />
+              <p>Loading monitors...</p>
+            </div>
+          ) : (
+            <>
+              {alerts.length > 0 ? (
+                <div className="reports-list">
+                  {alerts.map(alert => (
+                    <div key={alert.id} className={`report-item monitor-alert ${alert.read ? '' : 'unread'}`}>
+                      <div className="report-info">
+                        <h4>{alert.websiteUrl}</h4>
+                        <p className="report-date">Detected on {formatDate(alert.createdAt)}</p>
+                        {alert.certificate && (
+                          <p className={alert.certificate.daysToExpiry < 0 ? 'rating-poor' : 'rating-needs-improvement'}>
+                            {alert.certificate.daysToExpiry < 0
+                              ? `TLS certificate expired on ${new Date(alert.certificate.validTo).toLocaleDateString()}`
+                              : `TLS certificate expires in ${alert.certificate.daysToExpiry} days (${new Date(alert.certificate.validTo).toLocaleDateString()})`}
+                          </p>
+                        )}
+                        {alert.changes.length > 0 && (
+                          <table className="drift-table">
+                            <thead>
+                              <tr>
+                                <th>Metric</th>
+                                <th>Previous</th>
+                                <th>Current</th>
+                                <th>Change</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {alert.changes.map(change => (
+                                <tr key={change.metric}>
+                                  <td>{change.metric}</td>
+                                  <td>{formatChangeValue(change.metric, change.previous)}</td>
+                                  <td>{formatChangeValue(change.metric, change.current)}</td>
+                                  <td className="drift-delta">
+                                    {change.delta > 0 ? '+' : ''}{formatChangeValue(change.metric, change.delta)}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </div>
+                      {!alert.read && (
+                        <div className="report-actions">
+                          <button
+                            onClick={() => handleMarkRead(alert.id)}
+                            className="download-report-button"
+                            title="Mark as Read"
+                          >
+                            <FontAwesomeIcon icon={faCheck} />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="no-reports">No score drift or certificate warnings yet.</p>
+              )}
+
+              <div className="reports-header monitors-header">
+                <h2>Monitors</h2>
+              </div>
+              {monitors.length > 0 ? (
+                <div className="reports-list">
+                  {monitors.map(monitor => (
+                    <div key={monitor.id} className={`report-item ${monitor.active ? '' : 'paused'}`}>
+                      <div className="report-info">
+                        <h4>{monitor.websiteUrl}</h4>
+                        <p className="report-date">
+                          Last run: {formatDate(monitor.lastRunAt)} · Next run: {monitor.active ? formatDate(monitor.nextRunAt) : 'Paused'}
+                        </p>
+                        <div className="report-metrics">
+                          <span className="metric">
+                            <strong>Schedule:</strong>
+                            <select
+                              value={monitor.schedule}
+                              onChange={(e) => handleScheduleChange(monitor, e.target.value as MonitorSchedule)}
+                            >
+                              <option value="daily">Daily</option>
+                              <option value="weekly">Weekly</option>
+                              <option value="monthly">Monthly</option>
+                            </select>
+                          </span>
+                          {monitor.lastSnapshot && (
+                            <span className="metric">
+                              <strong>Last Score:</strong> {monitor.lastSnapshot.overallScore}%
+                            </span>
+                          )}
+                        </div>
+                        {monitor.lastError && <p className="error-message">{monitor.lastError}</p>}
+                      </div>
+                      <div className="report-actions">
+                        <button
+                          onClick={() => handleRunNow(monitor)}
+                          className="download-report-button"
+                          disabled={runningMonitorId !== null}
+                          title="Run Now"
+                        >
+                          {runningMonitorId === monitor.id ? (
+                            <FontAwesomeIcon icon={faSpinner} spin />
+                          ) : (
+                            <FontAwesomeIcon icon={faPlay} />
+                          )}
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(monitor)}
+                          className="download-report-button"
+                          title={monitor.active ? 'Pause Monitor' : 'Resume Monitor'}
+                        >
+                          <FontAwesomeIcon icon={monitor.active ? faPause : faPlay} />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteMonitor(monitor.id)}
+                          className="delete-report-button"
+                          title="Delete Monitor"
+                        >
+                          <FontAwesomeIcon icon={faTrash} />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="no-reports">No monitors yet.</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MonitorsPage;
@@ -0,0 +1,62 @@
+import React from 'react';
+
+export interface PhaseSelection {
+  phase: string;
+  enabled: boolean;
+}
+
+interface PhaseSelectorProps {
+  selection: PhaseSelection[];
+  onChange: (selection: PhaseSelection[]) => void;
+  disabled?: boolean;
+}
+
+// Checkbox list of the scored phases; the arrows set the order they run in
+const PhaseSelector: React.FC<PhaseSelectorProps> = ({ selection, onChange, disabled }) => {
+  const enabledCount = selection.filter(item => item.enabled).length;
+
+  const toggle = (index: number) => {
+    onChange(selection.map((item, i) => (i === index ? { ...item, enabled: !item.enabled } : item)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= selection.length) return;
+    const reordered = [...selection];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <details className="phase-selector">
+      <summary>Phases ({enabledCount}/{selection.length})</summary>
+      <div className="phase-selector-menu">
+        <ol>
+          {selection.map((item, index) => (
+            <li key={item.phase} className={item.enabled ? '' : 'disabled'}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={item.enabled}
+                  onChange={() => toggle(index)}
+                  // At least one phase has to run
+                  disabled={disabled || (item.enabled && enabledCount === 1)}
+                />
+                {item.phase}
+              </label>
+              <button type="button" onClick={() => move(index, -1)} disabled={disabled || index === 0} title="Run earlier">
+                <i className="fas fa-chevron-up" />
+              </button>
+              <button type="button" onClick={() => move(index, 1)} disabled={disabled || index === selection.length - 1} title="Run later">
+                <i className="fas fa-chevron-down" />
+              </button>
+            </li>
+          ))}
+        </ol>
+        <div className="phase-selector-note">Overall and Recommendations always run last.</div>
+      </div>
+    </details>
+  );
+};
+
+export default PhaseSelector;
@@ -2,11 +2,24 @@ import React, { useState, useEffect } from 'react';
 import { auth, deleteUserAccount } from '../services/firebase';
 import { signOut, updatePassword, EmailAuthProvider, reauthenticateWithCredential } from 'firebase/auth';
 import { getUserBalance } from '../services/points';
-import { reportStorage, StoredReport } from '../services/reportStorage';
+import { reportStorage, StoredReport, BulkDownloadStatus } from '../services/reportStorage';
+import { reportComparison, ReportComparison } from '../services/reportComparison';
+import { reportExporter, ExportFormat, EXPORT_FORMATS } from '../services/reportExporters';
+import ReportComparisonView from './ReportComparisonView';
+import SiteHistoryView from './SiteHistoryView';
+import ScoringProfilesPanel from './ScoringProfilesPanel';
+import BrandingSettingsPanel from './BrandingSettingsPanel';
+import WorkspacesPanel from './WorkspacesPanel';
+import ShareReportDialog, { copyShareLink } from './ShareReportDialog';
+import IssueExportDialog from './IssueExportDialog';
+import RemediationDialog from './RemediationDialog';
+import { reportSharingService, ReportShare } from '../services/reportSharing';
+import { workspaceService, Workspace } from '../services/workspaces';
+import { getCertificateWarnings } from '../services/tlsInspection';
 import defaultUserIcon from '../assets/default-user-icon.png';
 import { toast } from 'react-toastify';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faDownload, faSpinner, faTrash, faSquare, faCheckSquare, faSignOutAlt, faKey, faBolt } from '@fortawesome/free-solid-svg-icons';
+import { faDownload, faSpinner, faTrash, faSquare, faCheckSquare, faSignOutAlt, faKey, faBolt, faColumns, faChartLine, faShareAlt, faCopy, faLock, faCheck, faExclamationTriangle, faTicketAlt, faTasks } from '@fortawesome/free-solid-svg-icons';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { paymentService } from '../services/paymentService';
 
@@ -16,7 +29,12 @@ interface UserData {
   hasAddedPayment: boolean;
 }
 
-const ProfilePage: React.FC = () => {
+interface ProfilePageProps {
+  // Reports are listed for this workspace instead of the user's personal reports
+  activeWorkspace?: Workspace | null;
+}
+
+const ProfilePage: React.FC<ProfilePageProps> = ({ activeWorkspace = null }) => {
   const [user, loading] = useAuthState(auth);
   const [userPoints, setUserPoints] = useState<number | null>(null);
   const [userData, setUserData] = useState<UserData | null>(null);
@@ -29,14 +47,25 @@ const ProfilePage: React.FC = () => {
   const [isAllSelected, setIsAllSelected] = useState(false);
   const [isDeletingReports, setIsDeletingReports] = useState(false);
   const [isDownloadingMultiple, setIsDownloadingMultiple] = useState(false);
+  const [showBulkDownload, setShowBulkDownload] = useState(false);
+  const [includeJsonInZip, setIncludeJsonInZip] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ [reportId: string]: { status: BulkDownloadStatus; error?: string } }>({});
   const [showDeleteReportConfirm, setShowDeleteReportConfirm] = useState<string | null>(null);
   const [showDeleteSelectedConfirm, setShowDeleteSelectedConfirm] = useState(false);
+  const [comparison, setComparison] = useState<ReportComparison | null>(null);
+  const [historyWebsiteUrl, setHistoryWebsiteUrl] = useState<string | null>(null);
+  const [shareReport, setShareReport] = useState<StoredReport | null>(null);
+  const [issueExportReport, setIssueExportReport] = useState<StoredReport | null>(null);
+  const [remediationReport, setRemediationReport] = useState<StoredReport | null>(null);
+  const [shares, setShares] = useState<ReportShare[]>([]);
   const [showChangePassword, setShowChangePassword] = useState(false);
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isChangingPassword, setIsChangingPassword] = useState(false);
 
+  const workspaceId = activeWorkspace?.id;
+
   useEffect(() => {
     const fetchUserData = async () => {
       if (!user) return;
@@ -51,10 +80,13 @@ const ProfilePage: React.FC = () => {
         setUserPoints(points);
         setUserData(userDataResponse);
 
-        const userReports = await reportStorage.getUserReports(user.uid);
+        const userReports = workspaceId
+          ? await reportStorage.getWorkspaceReports(workspaceId)
+          : await reportStorage.getUserReports(user.uid);
         setReports(userReports.sort((a, b) => 
           new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
         ));
+        setShares(await reportSharingService.getShares(user.uid));
       } catch (error) {
         console.error('Error fetching user data:', error);
         toast.error('Failed to load user data. Please try refreshing the page.');
@@ -66,7 +98,12 @@ const ProfilePage: React.FC = () => {
     if (!loading) {
       fetchUserData();
     }
-  }, [user, loading]);
+  }, [user, loading, workspaceId]);
+
+  const certificateWarnings = getCertificateWarnings(reports);
+
+  // Viewers can open and download workspace reports but not delete them
+  const canManageReports = !activeWorkspace || (user ? workspaceService.canEdit(activeWorkspace, user.uid) : false);
 
   const handleDownload = async (report: StoredReport) => {
     if (!user) {
@@ -86,6 +123,18 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleExport = async (report: StoredReport, format: ExportFormat) => {
+    setDownloadingReportId(report.id);
+    try {
+      await reportExporter.download(reportStorage.toReportData(report), format);
+      toast.success(`${reportExporter.getFormatInfo(format).label} report downloaded`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export report');
+    } finally {
+      setDownloadingReportId(null);
+    }
+  };
+
   const handleDelete = async (reportId: string) => {
     if (!user) return;
 
@@ -96,8 +145,10 @@ const ProfilePage: React.FC = () => {
     if (!user) return;
 
     try {
-      await reportStorage.deleteReport(user.uid, reportId);
+      await reportStorage.deleteReport(user.uid, reportId, workspaceId);
+      await reportSharingService.revokeSharesForReport(user.uid, reportId);
       setReports(prevReports => prevReports.filter(report => report.id !== reportId));
+      setShares(prevShares => prevShares.filter(share => share.reportId !== reportId));
       toast.success('Report deleted successfully');
     } catch (error) {
       console.error('Error deleting report:', error);
@@ -107,6 +158,16 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleRevokeShare = async (shareId: string) => {
+    try {
+      await reportSharingService.revokeShare(shareId);
+      setShares(prevShares => prevShares.filter(share => share.id !== shareId));
+      toast.success('Link revoked');
+    } catch (error) {
+      toast.error('Failed to revoke link');
+    }
+  };
+
   const handleDeleteSelected = async () => {
     if (!user || selectedReports.size === 0) return;
     setShowDeleteSelectedConfirm(true);
@@ -117,8 +178,10 @@ const ProfilePage: React.FC = () => {
 
     setIsDeletingReports(true);
     try {
-      await reportStorage.deleteMultipleReports(user.uid, Array.from(selectedReports));
+      await reportStorage.deleteMultipleReports(user.uid, Array.from(selectedReports), workspaceId);
+      await Promise.all(Array.from(selectedReports).map(reportId => reportSharingService.revokeSharesForReport(user.uid, reportId)));
       setReports(prevReports => prevReports.filter(report => !selectedReports.has(report.id)));
+      setShares(prevShares => prevShares.filter(share => !selectedReports.has(share.reportId)));
       setSelectedReports(new Set());
       setIsAllSelected(false);
       toast.success('Selected reports deleted successfully');
@@ -131,14 +194,29 @@ const ProfilePage: React.FC = () => {
     }
   };
 
-  const handleDownloadSelected = async () => {
+  const handleDownloadSelected = () => {
     if (!user || selectedReports.size === 0) return;
 
+    setBulkProgress({});
+    setShowBulkDownload(true);
+  };
+
+  const confirmDownloadSelected = async () => {
+    const selectedReportObjects = reports.filter(report => selectedReports.has(report.id));
+    setBulkProgress(Object.fromEntries(selectedReportObjects.map(report => [report.id, { status: 'pending' as const }])));
     setIsDownloadingMultiple(true);
     try {
-      const selectedReportObjects = reports.filter(report => selectedReports.has(report.id));
-      await reportStorage.downloadMultipleReports(selectedReportObjects);
-      toast.success('Selected reports downloaded successfully');
+      const result = await reportStorage.downloadMultipleReports(selectedReportObjects, {
+        includeJson: includeJsonInZip,
+        onProgress: (reportId, status, error) =>
+          setBulkProgress(prevProgress => ({ ...prevProgress, [reportId]: { status, error } }))
+      });
+      if (result.failed.length > 0) {
+        toast.warning(`Downloaded ${result.succeeded} reports; ${result.failed.length} could not be generated`);
+      } else {
+        toast.success('Selected reports downloaded successfully');
+        setShowBulkDownload(false);
+      }
     } catch (error) {
       console.error('Error downloading reports:', error);
       toast.error('Failed to download selected reports');
@@ -147,6 +225,16 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleCompareSelected = () => {
+    const selectedReportObjects = reports.filter(report => selectedReports.has(report.id));
+    if (selectedReportObjects.length !== 2) {
+      toast.error('Select exactly two reports to compare');
+      return;
+    }
+
+    setComparison(reportComparison.compare(selectedReportObjects[0], selectedReportObjects[1]));
+  };
+
   const toggleSelectAll = () => {
     if (isAllSelected) {
       setSelectedReports(new Set());
@@ -299,6 +387,12 @@ const ProfilePage: React.FC = () => {
             </button>
           </div>
 
+          <ScoringProfilesPanel userId={user.uid} />
+
+          <BrandingSettingsPanel userId={user.uid} />
+
+          {user.email && <WorkspacesPanel userId={user.uid} email={user.email} />}
+
           <div className="danger-zone">
             <h3>Danger Zone</h3>
             <div className="delete-account-section">
@@ -341,7 +435,7 @@ const ProfilePage: React.FC = () => {
         
         <div className="reports-column">
           <div className="reports-header">
-            <h2>Your Reports</h2>
+            <h2>{activeWorkspace ? `${activeWorkspace.name} Reports` : 'Your Reports'}</h2>
             {reports.length > 0 && (
               <div className="reports-actions">
                 <button 
@@ -353,6 +447,15 @@ const ProfilePage: React.FC = () => {
                 </button>
                 {selectedReports.size > 0 && (
                   <>
+                    <button
+                      className="bulk-action-button"
+                      onClick={handleCompareSelected}
+                      disabled={selectedReports.size !== 2}
+                      title={selectedReports.size === 2 ? 'Compare Reports' : 'Select exactly two reports to compare'}
+                    >
+                      <FontAwesomeIcon icon={faColumns} />
+                      {' Compare'}
+                    </button>
                     <button
                       className="bulk-action-button"
                       onClick={handleDownloadSelected}
@@ -365,23 +468,39 @@ const ProfilePage: React.FC = () => {
                       )}
                       {' Download Selected'}
                     </button>
-                    <button
-                      className="bulk-action-button delete"
-                      onClick={handleDeleteSelected}
-                      disabled={isDeletingReports}
-                    >
-                      {isDeletingReports ? (
-                        <FontAwesomeIcon icon={faSpinner} spin />
-                      ) : (
-                        <FontAwesomeIcon icon={faTrash} />
-                      )}
-                      {' Delete Selected'}
-                    </button>
+                    {canManageReports && (
+                      <button
+                        className="bulk-action-button delete"
+                        onClick={handleDeleteSelected}
+                        disabled={isDeletingReports}
+                      >
+                        {isDeletingReports ? (
+                          <FontAwesomeIcon icon={faSpinner} spin />
+                        ) : (
+                          <FontAwesomeIcon icon={faTrash} />
+                        )}
+                        {' Delete Selected'}
+                      </button>
+                    )}
                   </>
                 )}
               </div>
             )}
           </div>
+          {!isLoading && certificateWarnings.length > 0 && (
+            <div className="certificate-warnings">
+              <h4><FontAwesomeIcon icon={faExclamationTriangle} /> TLS certificates need renewal</h4>
+              <ul>
+                {certificateWarnings.map(warning => (
+                  <li key={warning.reportId} className={`rating-${warning.rating}`}>
+                    {warning.websiteUrl}: {warning.daysToExpiry < 0
+                      ? `expired on ${new Date(warning.validTo).toLocaleDateString()}`
+                      : `expires in ${warning.daysToExpiry} days (${new Date(warning.validTo).toLocaleDateString()})`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           {isLoading ? (
             <div className="loading-state">
               <FontAwesomeIcon icon={faSpinner} spin />
@@ -403,7 +522,11 @@ const ProfilePage: React.FC = () => {
                   </div>
                   <div className="report-info">
                     <h4>{report.websiteUrl}</h4>
-                    <p className="report-date">Generated on {formatDate(report.timestamp)}</p>
+                    <p className="report-date">
+                      Generated on {formatDate(report.timestamp)}
+                      {activeWorkspace && report.createdBy && activeWorkspace.members[report.createdBy] &&
+                        ` by ${activeWorkspace.members[report.createdBy].email}`}
+                    </p>
                     <div className="report-metrics">
                       <span className="metric">
                         <strong>Overall Score:</strong> {report.overallScore}%
@@ -416,6 +539,36 @@ const ProfilePage: React.FC = () => {
                     </div>
                   </div>
                   <div className="report-actions">
+                    <button
+                      onClick={() => setHistoryWebsiteUrl(report.websiteUrl)}
+                      className="download-report-button"
+                      title="View Site History"
+                    >
+                      <FontAwesomeIcon icon={faChartLine} />
+                    </button>
+                    <button
+                      onClick={() => setShareReport(report)}
+                      className="download-report-button"
+                      title="Share Report"
+                    >
+                      <FontAwesomeIcon icon={faShareAlt} />
+                    </button>
+                    <button
+                      onClick={() => setRemediationReport(report)}
+                      className="download-report-button"
+                      title="Track Remediation"
+                    >
+                      <FontAwesomeIcon icon={faTasks} />
+                    </button>
+                    {canManageReports && (
+                      <button
+                        onClick={() => setIssueExportReport(report)}
+                        className="download-report-button"
+                        title="Export Recommendations to Issue Tracker"
+                      >
+                        <FontAwesomeIcon icon={faTicketAlt} />
+                      </button>
+                    )}
                     <button 
                       onClick={() => handleDownload(report)}
                       className="download-report-button"
@@ -428,13 +581,27 @@ const ProfilePage: React.FC = () => {
                         <FontAwesomeIcon icon={faDownload} />
                       )}
                     </button>
-                    <button
-                      onClick={() => handleDelete(report.id)}
-                      className="delete-report-button"
-                      title="Delete Report"
+                    <select
+                      className="report-export-select"
+                      value=""
+                      onChange={(e) => handleExport(report, e.target.value as ExportFormat)}
+                      disabled={downloadingReportId === report.id}
+                      title="Export Report"
                     >
-                      <FontAwesomeIcon icon={faTrash} />
-                    </button>
+                      <option value="" disabled>Export as...</option>
+                      {EXPORT_FORMATS.filter(info => info.format !== 'pdf').map(info => (
+                        <option key={info.format} value={info.format}>{info.label}</option>
+                      ))}
+                    </select>
+                    {canManageReports && (
+                      <button
+                        onClick={() => handleDelete(report.id)}
+                        className="delete-report-button"
+                        title="Delete Report"
+                      >
+                        <FontAwesomeIcon icon={faTrash} />
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -442,6 +609,47 @@ const ProfilePage: React.FC = () => {
           ) : (
             <p className="no-reports">No reports generated yet.</p>
           )}
+
+          {shares.length > 0 && (
+            <>
+              <div className="reports-header monitors-header">
+                <h3>Shared Links</h3>
+              </div>
+              <div className="reports-list">
+                {shares.map(share => (
+                  <div key={share.id} className={`report-item ${reportSharingService.isExpired(share) ? 'paused' : ''}`}>
+                    <div className="report-info">
+                      <h4>
+                        {share.passwordProtected && <FontAwesomeIcon icon={faLock} title="Password protected" />} {share.websiteUrl}
+                      </h4>
+                      <p className="report-date">
+                        Shared on {formatDate(share.createdAt)} ·{' '}
+                        {share.expiresAt
+                          ? `${reportSharingService.isExpired(share) ? 'Expired' : 'Expires'} ${formatDate(share.expiresAt)}`
+                          : 'Never expires'}
+                      </p>
+                    </div>
+                    <div className="report-actions">
+                      <button
+                        onClick={() => copyShareLink(share.id)}
+                        className="download-report-button"
+                        title="Copy Link"
+                      >
+                        <FontAwesomeIcon icon={faCopy} />
+                      </button>
+                      <button
+                        onClick={() => handleRevokeShare(share.id)}
+                        className="delete-report-button"
+                        title="Revoke Link"
+                      >
+                        <FontAwesomeIcon icon={faTrash} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -495,6 +703,115 @@ const ProfilePage: React.FC = () => {
         </div>
       )}
 
+      {showBulkDownload && (
+        <div className="delete-confirmation-overlay">
+          <div className="delete-confirmation-dialog bulk-download-dialog">
+            <h3>Download {selectedReports.size} Reports</h3>
+            <p className="monitor-cost-note">
+              The reports are bundled into one ZIP with a manifest listing each site, date and score.
+            </p>
+            <label className="bulk-download-option">
+              <input
+                type="checkbox"
+                checked={includeJsonInZip}
+                onChange={(e) => setIncludeJsonInZip(e.target.checked)}
+                disabled={isDownloadingMultiple}
+              />
+              Include JSON exports
+            </label>
+            {Object.keys(bulkProgress).length > 0 && (
+              <ul className="bulk-download-progress">
+                {reports.filter(report => bulkProgress[report.id]).map(report => {
+                  const { status, error } = bulkProgress[report.id];
+                  return (
+                    <li key={report.id} className={`bulk-download-${status}`} title={error}>
+                      <span>{report.websiteUrl} · {formatDate(report.timestamp)}</span>
+                      <span>
+                        {status === 'generating' ? (
+                          <FontAwesomeIcon icon={faSpinner} spin />
+                        ) : status === 'done' ? (
+                          <FontAwesomeIcon icon={faCheck} />
+                        ) : status === 'failed' ? (
+                          <FontAwesomeIcon icon={faExclamationTriangle} />
+                        ) : (
+                          'Waiting'
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            <div className="confirmation-buttons">
+              <button
+                className="confirm-button"
+                onClick={confirmDownloadSelected}
+                disabled={isDownloadingMultiple}
+              >
+                {isDownloadingMultiple ? <FontAwesomeIcon icon={faSpinner} spin /> : 'Download ZIP'}
+              </button>
+              <button
+                className="cancel-button"
+                onClick={() => setShowBulkDownload(false)}
+                disabled={isDownloadingMultiple}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {comparison && (
+        <ReportComparisonView
+          comparison={comparison}
+          onClose={() => setComparison(null)}
+        />
+      )}
+
+      {shareReport && (
+        <ShareReportDialog
+          userId={user.uid}
+          report={shareReport}
+          onCreated={share => setShares(prevShares => [share, ...prevShares])}
+          onClose={() => setShareReport(null)}
+        />
+      )}
+
+      {issueExportReport && (
+        <IssueExportDialog
+          userId={user.uid}
+          report={issueExportReport}
+          onExported={updated => {
+            setIssueExportReport(updated);
+            setReports(prevReports => prevReports.map(report => (report.id === updated.id ? updated : report)));
+          }}
+          onClose={() => setIssueExportReport(null)}
+        />
+      )}
+
+      {remediationReport && (
+        <RemediationDialog
+          userId={user.uid}
+          report={remediationReport}
+          account={activeWorkspace ? workspaceService.getBillingAccount(activeWorkspace) : user.uid}
+          readOnly={!canManageReports}
+          onUpdated={updated => {
+            setRemediationReport(updated);
+            setReports(prevReports => prevReports.map(report => (report.id === updated.id ? updated : report)));
+          }}
+          onClose={() => setRemediationReport(null)}
+        />
+      )}
+
+      {historyWebsiteUrl && (
+        <SiteHistoryView
+          reports={reports}
+          websiteUrl={historyWebsiteUrl}
+          onClose={() => setHistoryWebsiteUrl(null)}
+        />
+      )}
+
       {showChangePassword && (
         <div className="delete-confirmation-overlay">
           <div className="change-password-dialog">
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { StoredReport, reportStorage } from '../services/reportStorage';
+import { getRecommendationItems, RecommendationPriority, RECOMMENDATION_PRIORITIES } from '../services/recommendations';
+import {
+  remediationService,
+  RemediationEntry,
+  RemediationStatus,
+  REMEDIATION_STATUSES,
+  VerificationResult
+} from '../services/remediation';
+import { SERVICE_COSTS, BillingAccount } from '../services/points';
+
+interface RemediationDialogProps {
+  userId: string;
+  report: StoredReport;
+  account: string | BillingAccount;
+  // Viewers can see progress but not change it
+  readOnly?: boolean;
+  onUpdated: (report: StoredReport) => void;
+  onClose: () => void;
+}
+
+const VERIFICATION_LABELS: { [result in VerificationResult]: string } = {
+  'confirmed-fixed': 'Confirmed fixed',
+  'still-failing': 'Still failing',
+  unverifiable: 'Not verifiable automatically'
+};
+
+const VERIFICATION_CLASSES: { [result in VerificationResult]: string } = {
+  'confirmed-fixed': 'rating-good',
+  'still-failing': 'rating-poor',
+  unverifiable: 'rating-needs-improvement'
+};
+
+const RemediationDialog: React.FC<RemediationDialogProps> = ({ userId, report, account, readOnly, onUpdated, onClose }) => {
+  const [drafts, setDrafts] = useState<{ [recommendationId: string]: RemediationEntry }>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verifyStatus, setVerifyStatus] = useState('');
+
+  const items = getRecommendationItems(report);
+  const getEntry = (itemId: string) => drafts[itemId] || remediationService.getEntry(report, itemId);
+
+  const hasChanges = Object.keys(drafts).length > 0;
+
+  const updateDraft = (itemId: string, changes: Partial<RemediationEntry>) => {
+    setDrafts(prev => ({ ...prev, [itemId]: { ...getEntry(itemId), ...changes, updatedAt: new Date() } }));
+  };
+
+  const applyUpdates = (entries: { [recommendationId: string]: RemediationEntry }) => {
+    onUpdated({ ...report, remediation: { ...report.remediation, ...entries } });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await reportStorage.updateRemediation(userId, report.id, drafts, report.workspaceId);
+      applyUpdates(drafts);
+      setDrafts({});
+      toast.success('Remediation progress saved');
+    } catch (error) {
+      toast.error('Failed to save remediation progress');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      // Unsaved edits are stored first so the verification works from the current statuses
+      const current = { ...report, remediation: { ...report.remediation, ...drafts } };
+      if (hasChanges) {
+        await reportStorage.updateRemediation(userId, report.id, drafts, report.workspaceId);
+        applyUpdates(drafts);
+        setDrafts({});
+      }
+
+      const updates = await remediationService.verifyFixes(userId, current, account, setVerifyStatus);
+      if (!updates) return;
+
+      onUpdated({ ...current, remediation: { ...current.remediation, ...updates } });
+      const results = Object.values(updates).map(entry => entry.verification?.result);
+      const fixedCount = results.filter(result => result === 'confirmed-fixed').length;
+      const failingCount = results.filter(result => result === 'still-failing').length;
+      toast.success(`Verification complete: ${fixedCount} confirmed fixed, ${failingCount} still failing`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to verify fixes');
+    } finally {
+      setIsVerifying(false);
+      setVerifyStatus('');
+    }
+  };
+
+  const isBusy = isSaving || isVerifying;
+
+  return (
+    <div className="delete-confirmation-overlay">
+      <div className="delete-confirmation-dialog report-comparison-dialog issue-export-dialog">
+        <h3>Remediation Tracking</h3>
+        <p className="report-date">{report.websiteUrl}</p>
+
+        {items.length === 0 ? (
+          <p className="no-reports">This report has no recommendations to track.</p>
+        ) : (
+          (Object.keys(RECOMMENDATION_PRIORITIES) as RecommendationPriority[]).map(priority => {
+            const priorityItems = items.filter(item => item.priority === priority);
+            if (priorityItems.length === 0) return null;
+
+            return (
+              <div key={priority} className="issue-export-group">
+                <h4>{RECOMMENDATION_PRIORITIES[priority]}</h4>
+                {priorityItems.map(item => {
+                  const entry = getEntry(item.id);
+                  return (
+                    <div key={item.id} className={`remediation-item status-${entry.status}`}>
+                      <p>{item.text}</p>
+                      <span className="report-date">
+                        {item.phase} · Updated {entry.updatedAt.toLocaleDateString()}
+                      </span>
+                      <div className="remediation-fields">
+                        <select
+                          value={entry.status}
+                          onChange={(e) => updateDraft(item.id, { status: e.target.value as RemediationStatus })}
+                          disabled={readOnly || isBusy}
+                        >
+                          {(Object.keys(REMEDIATION_STATUSES) as RemediationStatus[]).map(status => (
+                            <option key={status} value={status}>{REMEDIATION_STATUSES[status]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={entry.assignee || ''}
+                          onChange={(e) => updateDraft(item.id, { assignee: e.target.value })}
+                          placeholder="Assignee"
+                          disabled={readOnly || isBusy}
+                        />
+                      </div>
+                      <textarea
+                        value={entry.notes || ''}
+                        onChange={(e) => updateDraft(item.id, { notes: e.target.value })}
+                        placeholder="Notes"
+                        rows={2}
+                        disabled={readOnly || isBusy}
+                      />
+                      {entry.verification && (
+                        <div className="remediation-verification">
+                          <span className={VERIFICATION_CLASSES[entry.verification.result]}>
+                            {VERIFICATION_LABELS[entry.verification.result]}
+                          </span>
+                          <span className="report-date"> · {entry.verification.checkedAt.toLocaleString()}</span>
+                          {entry.verification.details.length > 0 && (
+                            <ul>
+                              {entry.verification.details.map(detail => <li key={detail}>{detail}</li>)}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })
+        )}
+
+        {!readOnly && items.length > 0 && (
+          <p className="monitor-cost-note">
+            {isVerifying && verifyStatus
+              ? verifyStatus
+              : `Verifying fixes re-runs the evaluation for $${SERVICE_COSTS.EVALUATION.toFixed(2)}. Items marked won't fix are skipped.`}
+          </p>
+        )}
+        <div className="confirmation-buttons">
+          {!readOnly && (
+            <>
+              <button className="confirm-button" onClick={handleSave} disabled={isBusy || !hasChanges}>
+                {isSaving ? <FontAwesomeIcon icon={faSpinner} spin /> : 'Save Changes'}
+              </button>
+              <button className="confirm-button" onClick={handleVerify} disabled={isBusy || items.length === 0}>
+                {isVerifying ? <FontAwesomeIcon icon={faSpinner} spin /> : 'Verify Fixes'}
+              </button>
+            </>
+          )}
+          <button className="cancel-button" onClick={onClose} disabled={isBusy}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RemediationDialog;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { saveAs } from 'file-saver';
+import { toast } from 'react-toastify';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner, faFilePdf } from '@fortawesome/free-solid-svg-icons';
+import { reportComparison, ReportComparison } from '../services/reportComparison';
+import { reportGenerator } from '../services/reportGenerator';
+import { MetricRating } from '../services/metricValidator';
+
+interface ReportComparisonViewProps {
+  comparison: ReportComparison;
+  onClose: () => void;
+}
+
+const PRIORITIES = ['critical', 'important', 'optional'] as const;
+
+const getRatingClass = (rating: MetricRating | null) => (rating ? `rating-${rating}` : '');
+
+const formatDate = (date: Date) => {
+  return new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const ReportComparisonView: React.FC<ReportComparisonViewProps> = ({ comparison, onClose }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const { baseline, current } = comparison;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const pdfBuffer = await reportGenerator.generateComparisonPDF(comparison);
+      const blob = new Blob([pdfBuffer], { type: 'application/pdf' });
+      const name = `${baseline.websiteUrl}_vs_${current.websiteUrl}`.replace(/[^a-z0-9]/gi, '_');
+      saveAs(blob, `${name}_comparison.pdf`);
+    } catch (error) {
+      console.error('Error exporting comparison:', error);
+      toast.error('Failed to export comparison');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="delete-confirmation-overlay">
+      <div className="report-comparison-dialog">
+        <div className="report-comparison-header">
+          <div className="report-comparison-sources">
+            <div>
+              <h4>Baseline</h4>
+              <p>{baseline.websiteUrl}</p>
+              <p className="report-date">{formatDate(baseline.timestamp)}</p>
+            </div>
+            <div>
+              <h4>Compared</h4>
+              <p>{current.websiteUrl}</p>
+              <p className="report-date">{formatDate(current.timestamp)}</p>
+            </div>
+          </div>
+          <button className="bulk-action-button" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <FontAwesomeIcon icon={faSpinner} spin /> : <FontAwesomeIcon icon={faFilePdf} />}
+            {' Export PDF'}
+          </button>
+        </div>
+
+        <div className="report-comparison-body">
+          {comparison.sections.map(section => (
+            <div key={section.title} className="report-comparison-section">
+              <h3>{section.title}</h3>
+              <table className="drift-table comparison-table">
+                <thead>
+                  <tr>
+                    <th>Metric</th>
+                    <th>Baseline</th>
+                    <th>Compared</th>
+                    <th>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {section.rows.map(row => (
+                    <tr key={row.label}>
+                      <td>{row.label}</td>
+                      <td className={getRatingClass(row.baselineRating)}>
+                        {reportComparison.formatValue(row, row.baseline)}
+                      </td>
+                      <td className={getRatingClass(row.currentRating)}>
+                        {reportComparison.formatValue(row, row.current)}
+                      </td>
+                      <td className={row.trend ? `trend-${row.trend}` : ''}>
+                        {reportComparison.formatDelta(row)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+
+          <div className="report-comparison-section">
+            <h3>Recommendations</h3>
+            {PRIORITIES.map(priority => {
+              const items = comparison.recommendations[priority];
+              if (items.baseline.length === 0 && items.current.length === 0) return null;
+
+              return (
+                <div key={priority} className="comparison-recommendations">
+                  <h4 className={`priority-${priority}`}>{priority}</h4>
+                  <div className="comparison-columns">
+                    <ul>
+                      {items.baseline.map((item, index) => <li key={index}>{item}</li>)}
+                    </ul>
+                    <ul>
+                      {items.current.map((item, index) => <li key={index}>{item}</li>)}
+                    </ul>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="confirmation-buttons">
+          <button className="cancel-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportComparisonView;
@@ -0,0 +1,204 @@
+import React from 'react';
+import { StoredReport } from '../services/reportStorage';
+import { getMetricValidator, MetricRating } from '../services/metricValidator';
+import { toPercentScore } from '../utils/scores';
+import { FindingSeverity, getHeaderName, getWorstFinding } from '../services/securityAnalysis';
+
+interface ReportHtmlViewProps {
+  report: StoredReport;
+}
+
+const ratingClass = (rating: MetricRating | null) => (rating ? `rating-${rating}` : '');
+
+const FINDING_CLASSES: { [severity in FindingSeverity]: string } = {
+  pass: 'rating-good',
+  info: '',
+  warning: 'rating-needs-improvement',
+  critical: 'rating-poor'
+};
+
+const formatMs = (value?: number) => (typeof value === 'number' ? `${Math.round(value)} ms` : 'N/A');
+
+const ListSection: React.FC<{ title: string; items?: string[] }> = ({ title, items }) =>
+  items && items.length > 0 ? (
+    <>
+      <h4>{title}</h4>
+      <ul>
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </>
+  ) : null;
+
+// Read-only HTML rendering of a stored report, used where the PDF isn't available (e.g. shared links)
+const ReportHtmlView: React.FC<ReportHtmlViewProps> = ({ report }) => {
+  const validator = getMetricValidator(report.scoringProfile);
+  const { performance, seo, accessibility, security, lighthouse } = report.essentialMetrics;
+  const analysis = report.professionalAnalysis;
+
+  const vitals = [
+    { label: 'First Contentful Paint', key: 'firstContentfulPaint', value: performance.firstContentfulPaint, display: formatMs(performance.firstContentfulPaint) },
+    { label: 'Largest Contentful Paint', key: 'largestContentfulPaint', value: performance.largestContentfulPaint, display: formatMs(performance.largestContentfulPaint) },
+    { label: 'Cumulative Layout Shift', key: 'cumulativeLayoutShift', value: performance.cumulativeLayoutShift, display: typeof performance.cumulativeLayoutShift === 'number' ? performance.cumulativeLayoutShift.toFixed(3) : 'N/A' },
+    { label: 'Time to First Byte', key: 'ttfb', value: performance.ttfb, display: formatMs(performance.ttfb) },
+    { label: 'Time to Interactive', key: 'timeToInteractive', value: performance.timeToInteractive, display: formatMs(performance.timeToInteractive) },
+    { label: 'Total Blocking Time', key: 'tbt', value: performance.tbt, display: formatMs(performance.tbt) }
+  ];
+
+  const lighthouseScores = lighthouse
+    ? [
+        ['Performance', lighthouse.performance],
+        ['Accessibility', lighthouse.accessibility],
+        ['Best Practices', lighthouse.bestPractices],
+        ['SEO', lighthouse.seo]
+      ] as [string, number][]
+    : [];
+
+  return (
+    <div className="report-html-view">
+      <header className="report-html-header">
+        <h2>Website Evaluation Report</h2>
+        <p className="report-html-url">{report.websiteUrl}</p>
+        <p className="report-date">
+          Generated on {report.timestamp.toLocaleDateString()} at {report.timestamp.toLocaleTimeString()}
+          {report.scoringProfile && ` · Scoring profile: ${report.scoringProfile.name}`}
+        </p>
+        <p className={`report-html-score ${ratingClass(validator.rateMetric('score', report.overallScore))}`}>
+          Overall Score: {report.overallScore}%
+        </p>
+      </header>
+
+      {analysis && (
+        <section>
+          <h3>Executive Summary</h3>
+          <p>{analysis.executiveSummary.overallAssessment}</p>
+          <ListSection title="Key Strengths" items={analysis.executiveSummary.keyStrengths} />
+          <ListSection title="Critical Issues" items={analysis.executiveSummary.criticalIssues} />
+          {analysis.executiveSummary.coreWebVitalsAssessment && (
+            <>
+              <h4>Core Web Vitals Assessment</h4>
+              <p>{analysis.executiveSummary.coreWebVitalsAssessment}</p>
+            </>
+          )}
+        </section>
+      )}
+
+      <section>
+        <h3>Phase Scores</h3>
+        <table className="comparison-table">
+          <tbody>
+            {Object.entries(report.phaseScores).map(([phase, score]) => (
+              <tr key={phase}>
+                <td>{phase}</td>
+                <td className={ratingClass(validator.rateMetric('score', score))}>{score}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <h3>Core Web Vitals</h3>
+        <table className="comparison-table">
+          <tbody>
+            {vitals.map(vital => (
+              <tr key={vital.key}>
+                <td>{vital.label}</td>
+                <td className={ratingClass(validator.rateMetric(vital.key, vital.value))}>{vital.display}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {lighthouseScores.length > 0 && (
+        <section>
+          <h3>Lighthouse</h3>
+          <table className="comparison-table">
+            <tbody>
+              {lighthouseScores.map(([label, value]) => {
+                const score = Math.round(toPercentScore(value) || 0);
+                return (
+                  <tr key={label}>
+                    <td>{label}</td>
+                    <td className={ratingClass(validator.rateMetric('score', score))}>{score}%</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <section>
+        <h3>SEO &amp; Accessibility</h3>
+        <table className="comparison-table">
+          <tbody>
+            <tr>
+              <td>Title</td>
+              <td className={ratingClass(validator.rateMetric('titleLength', seo.title?.length || 0))}>{seo.title || 'Missing'}</td>
+            </tr>
+            <tr>
+              <td>Meta Description</td>
+              <td className={ratingClass(validator.rateMetric('descriptionLength', seo.metaDescription?.length || 0))}>
+                {seo.metaDescription || 'Missing'}
+              </td>
+            </tr>
+            <tr>
+              <td>Images with Alt Text</td>
+              <td>{accessibility.imagesWithAltText} / {accessibility.totalImages}</td>
+            </tr>
+            <tr>
+              <td>Keyboard Navigation</td>
+              <td className={accessibility.keyboardNavigable ? 'rating-good' : 'rating-poor'}>
+                {accessibility.keyboardNavigable ? 'Supported' : 'Not Supported'}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      {security && (
+        <section>
+          <h3>Security</h3>
+          <table className="comparison-table">
+            <tbody>
+              <tr>
+                <td>HTTPS</td>
+                <td className={security.isHttps ? 'rating-good' : 'rating-poor'}>{security.isHttps ? 'Present' : 'Missing'}</td>
+              </tr>
+              {security.analysis
+                ? security.analysis.headers.map(item => {
+                  const finding = getWorstFinding(item.findings);
+                  return (
+                    <tr key={item.header}>
+                      <td>{getHeaderName(item.header)}</td>
+                      <td className={finding ? FINDING_CLASSES[finding.severity] : ''}>{finding ? finding.message : 'Present'}</td>
+                    </tr>
+                  );
+                })
+                : Object.entries(security.securityHeaders || {}).map(([header, present]) => (
+                  <tr key={header}>
+                    <td>{header}</td>
+                    <td className={present ? 'rating-good' : 'rating-poor'}>{present ? 'Present' : 'Missing'}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {analysis && (
+        <section>
+          <h3>Recommendations</h3>
+          <ListSection title="Critical" items={analysis.recommendations.critical} />
+          <ListSection title="Important" items={analysis.recommendations.important} />
+          <ListSection title="Optional" items={analysis.recommendations.optional} />
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ReportHtmlView;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import {
+  ResourceBreakdown,
+  ResourceGrouping,
+  RESOURCE_GROUPINGS,
+  RESOURCE_TYPE_LABELS,
+  formatBytes
+} from '../services/resourceBreakdown';
+
+interface ResourceBreakdownTableProps {
+  breakdown: ResourceBreakdown;
+}
+
+const ResourceBreakdownTable: React.FC<ResourceBreakdownTableProps> = ({ breakdown }) => {
+  const [grouping, setGrouping] = useState<ResourceGrouping>('byType');
+  const [showResources, setShowResources] = useState(false);
+  const groups = breakdown[grouping];
+
+  return (
+    // Clicks inside the table shouldn't collapse the surrounding metrics wrapper
+    <div className="metric-tile resource-breakdown-tile" onClick={(e) => e.stopPropagation()}>
+      <div className="metric-title">
+        Resource Weight ({breakdown.totals.count} requests, {formatBytes(breakdown.totals.transferSize)})
+      </div>
+      <div className="link-inventory-controls">
+        <select value={grouping} onChange={(e) => setGrouping(e.target.value as ResourceGrouping)}>
+          {(Object.keys(RESOURCE_GROUPINGS) as ResourceGrouping[]).map(option => (
+            <option key={option} value={option}>{RESOURCE_GROUPINGS[option]}</option>
+          ))}
+        </select>
+        <label>
+          <input type="checkbox" checked={showResources} onChange={(e) => setShowResources(e.target.checked)} />
+          {' Largest resources'}
+        </label>
+      </div>
+      <div className="link-inventory-scroll">
+        {showResources ? (
+          <table className="drift-table">
+            <thead>
+              <tr>
+                <th>URL</th>
+                <th>Type</th>
+                <th>Transfer</th>
+                <th>Decoded</th>
+                <th>Blocking</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.topResources.map(resource => (
+                <tr key={resource.url}>
+                  <td className="link-inventory-url" title={resource.url}>{resource.url}</td>
+                  <td>{RESOURCE_TYPE_LABELS[resource.type]}</td>
+                  <td>{formatBytes(resource.transferSize)}</td>
+                  <td>{formatBytes(resource.decodedSize)}</td>
+                  <td>{resource.blockingTime > 0 ? `${Math.round(resource.blockingTime)} ms` : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="drift-table resource-breakdown-table">
+            <thead>
+              <tr>
+                <th>Group</th>
+                <th>Share of transfer</th>
+                <th>Requests</th>
+                <th>Transfer</th>
+                <th>Decoded</th>
+                <th>Blocking</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <tr key={group.key}>
+                  <td>{group.label}</td>
+                  <td className="resource-share">
+                    <div className="resource-share-bar" style={{ width: `${Math.max(1, group.share * 100)}%` }}></div>
+                    <span>{Math.round(group.share * 100)}%</span>
+                  </td>
+                  <td>{group.count}</td>
+                  <td>{formatBytes(group.transferSize)}</td>
+                  <td>{formatBytes(group.decodedSize)}</td>
+                  <td>{group.blockingTime > 0 ? `${group.blockingTime} ms` : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {!showResources && groups.length === 0 && <p className="no-reports">No third-party requests.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ResourceBreakdownTable;
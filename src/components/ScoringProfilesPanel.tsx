@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner, faTrash, faPlus } from '@fortawesome/free-solid-svg-icons';
+import {
+  scoringProfileService,
+  ScoringProfile,
+  ScoringThresholds,
+  HeaderImportance,
+  DEFAULT_SCORING_PROFILE_ID
+} from '../services/scoringProfiles';
+
+interface ScoringProfilesPanelProps {
+  userId: string;
+}
+
+interface ThresholdField {
+  path: string[];
+  label: string;
+  step: number;
+}
+
+const band = (path: string[], label: string, step: number, unit: string = ''): ThresholdField[] => [
+  { path: [...path, 'good'], label: `${label} good${unit}`, step },
+  { path: [...path, 'poor'], label: `${label} poor${unit}`, step }
+];
+
+const THRESHOLD_GROUPS: { title: string; fields: ThresholdField[] }[] = [
+  {
+    title: 'Performance',
+    fields: [
+      ...band(['PERFORMANCE', 'FCP'], 'FCP', 100, ' (ms)'),
+      ...band(['PERFORMANCE', 'LCP'], 'LCP', 100, ' (ms)'),
+      ...band(['PERFORMANCE', 'CLS'], 'CLS', 0.01),
+      ...band(['PERFORMANCE', 'TTFB'], 'TTFB', 50, ' (ms)'),
+      ...band(['PERFORMANCE', 'TTI'], 'TTI', 100, ' (ms)'),
+      ...band(['PERFORMANCE', 'TBT'], 'TBT', 50, ' (ms)'),
+      ...band(['PERFORMANCE', 'FID'], 'FID', 10, ' (ms)')
+    ]
+  },
+  {
+    title: 'Scores',
+    fields: band(['SCORE'], 'Phase / Lighthouse score', 1)
+  },
+  {
+    title: 'SEO',
+    fields: [
+      { path: ['SEO', 'titleLength', 'min'], label: 'Title length min', step: 1 },
+      { path: ['SEO', 'titleLength', 'max'], label: 'Title length max', step: 1 },
+      { path: ['SEO', 'descriptionLength', 'min'], label: 'Description length min', step: 1 },
+      { path: ['SEO', 'descriptionLength', 'max'], label: 'Description length max', step: 1 }
+    ]
+  },
+  {
+    title: 'Accessibility',
+    fields: [
+      ...band(['ACCESSIBILITY', 'altTextRatio'], 'Alt text ratio', 0.05),
+      { path: ['ACCESSIBILITY', 'ariaAttributesMinimum'], label: 'Minimum ARIA attributes', step: 1 }
+    ]
+  },
+  {
+    title: 'Security',
+    fields: [
+      ...band(['SECURITY', 'headerScore'], 'Header score', 0.05),
+      ...band(['SECURITY', 'certificateExpiryDays'], 'Certificate expiry', 1, ' (days)')
+    ]
+  },
+  {
+    title: 'Report confidence',
+    fields: [
+      { path: ['CONFIDENCE', 'poorRating'], label: 'Multiplier per poor rating', step: 0.05 },
+      { path: ['CONFIDENCE', 'missingData'], label: 'Multiplier per warning', step: 0.05 }
+    ]
+  }
+];
+
+const getAt = (thresholds: ScoringThresholds, path: string[]): number =>
+  path.reduce((value: any, key) => value?.[key], thresholds);
+
+const setAt = (thresholds: ScoringThresholds, path: string[], value: number): ScoringThresholds => {
+  const updated = JSON.parse(JSON.stringify(thresholds));
+  const parent = path.slice(0, -1).reduce((node: any, key) => node[key], updated);
+  parent[path[path.length - 1]] = value;
+  return updated;
+};
+
+const ScoringProfilesPanel: React.FC<ScoringProfilesPanelProps> = ({ userId }) => {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [selectedId, setSelectedId] = useState(DEFAULT_SCORING_PROFILE_ID);
+  const [draft, setDraft] = useState<ScoringProfile | null>(null);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadProfiles = useCallback(async (selectId: string) => {
+    const userProfiles = await scoringProfileService.getProfiles(userId);
+    setProfiles(userProfiles);
+    const selected = userProfiles.find(profile => profile.id === selectId) || userProfiles[0];
+    setSelectedId(selected.id);
+    setDraft(selected);
+  }, [userId]);
+
+  useEffect(() => {
+    loadProfiles(DEFAULT_SCORING_PROFILE_ID).catch(error => {
+      console.error('Error fetching scoring profiles:', error);
+      toast.error('Failed to load scoring profiles');
+    });
+  }, [loadProfiles]);
+
+  const notifyUpdated = () => window.dispatchEvent(new CustomEvent('scoringProfilesUpdated'));
+
+  const handleSelect = (profileId: string) => {
+    setSelectedId(profileId);
+    setDraft(profiles.find(profile => profile.id === profileId) || null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newProfileName.trim() || !draft) return;
+
+    setIsSaving(true);
+    try {
+      // New profiles start as a copy of the profile currently shown
+      const profileId = await scoringProfileService.createProfile(userId, newProfileName, draft.thresholds);
+      await loadProfiles(profileId);
+      setNewProfileName('');
+      notifyUpdated();
+      toast.success('Scoring profile created');
+    } catch (error) {
+      toast.error('Failed to create scoring profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    try {
+      await scoringProfileService.updateProfile(userId, draft.id, {
+        name: draft.name,
+        thresholds: draft.thresholds
+      });
+      await loadProfiles(draft.id);
+      notifyUpdated();
+      toast.success('Scoring profile saved');
+    } catch (error) {
+      toast.error('Failed to save scoring profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    try {
+      await scoringProfileService.deleteProfile(userId, draft.id);
+      await loadProfiles(DEFAULT_SCORING_PROFILE_ID);
+      notifyUpdated();
+      toast.success('Scoring profile deleted');
+    } catch (error) {
+      toast.error('Failed to delete scoring profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDefault = selectedId === DEFAULT_SCORING_PROFILE_ID;
+
+  const renderField = (path: string[], label: string, step: number) => (
+    <div key={path.join('.')} className="form-group">
+      <label>{label}</label>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={draft ? getAt(draft.thresholds, path) : 0}
+        disabled={isDefault || isSaving}
+        onChange={(e) => setDraft(prev => prev && ({
+          ...prev,
+          thresholds: setAt(prev.thresholds, path, Number(e.target.value) || 0)
+        }))}
+      />
+    </div>
+  );
+
+  return (
+    <div className="scoring-profiles">
+      <h3>Scoring Profiles</h3>
+      <div className="monitor-form">
+        <div className="form-group">
+          <label>Profile</label>
+          <select value={selectedId} onChange={(e) => handleSelect(e.target.value)} disabled={isSaving}>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {draft && !isDefault && (
+          <div className="form-group">
+            <label>Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              disabled={isSaving}
+              onChange={(e) => setDraft(prev => prev && ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+        )}
+
+        {draft && THRESHOLD_GROUPS.map(group => (
+          <fieldset key={group.title} className="scoring-profile-group">
+            <legend>{group.title}</legend>
+            {group.fields.map(field => renderField(field.path, field.label, field.step))}
+          </fieldset>
+        ))}
+
+        {draft && (
+          <fieldset className="scoring-profile-group">
+            <legend>Security header weights</legend>
+            {(Object.keys(draft.thresholds.SECURITY.headers) as HeaderImportance[]).flatMap(importance =>
+              Object.keys(draft.thresholds.SECURITY.headers[importance]).map(header =>
+                renderField(['SECURITY', 'headers', importance, header, 'weight'], `${header} (${importance})`, 0.5)
+              )
+            )}
+          </fieldset>
+        )}
+
+        {isDefault ? (
+          <p className="monitor-cost-note">The default profile is read-only. Create a copy to adjust thresholds.</p>
+        ) : (
+          <div className="scoring-profile-actions">
+            <button
+              className="bulk-action-button"
+              onClick={handleSave}
+              disabled={isSaving || !draft?.name.trim()}
+            >
+              {isSaving ? <FontAwesomeIcon icon={faSpinner} spin /> : 'Save Profile'}
+            </button>
+            <button className="delete-report-button" onClick={handleDelete} disabled={isSaving} title="Delete profile">
+              <FontAwesomeIcon icon={faTrash} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <form className="monitor-form scoring-profile-create" onSubmit={handleCreate}>
+        <div className="form-group">
+          <label>New profile from "{draft?.name || 'Default'}"</label>
+          <input
+            type="text"
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            placeholder="e.g. Strict mobile"
+            disabled={isSaving}
+          />
+        </div>
+        <button type="submit" className="bulk-action-button" disabled={isSaving || !newProfileName.trim()}>
+          <FontAwesomeIcon icon={faPlus} /> Create Profile
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ScoringProfilesPanel;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner, faCopy } from '@fortawesome/free-solid-svg-icons';
+import { StoredReport } from '../services/reportStorage';
+import { reportSharingService, ReportShare } from '../services/reportSharing';
+
+interface ShareReportDialogProps {
+  userId: string;
+  report: StoredReport;
+  onCreated: (share: ReportShare) => void;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null }
+];
+
+export const copyShareLink = async (shareId: string) => {
+  try {
+    await navigator.clipboard.writeText(reportSharingService.getShareUrl(shareId));
+    toast.success('Link copied to clipboard');
+  } catch (error) {
+    toast.error('Failed to copy link');
+  }
+};
+
+const ShareReportDialog: React.FC<ShareReportDialogProps> = ({ userId, report, onCreated, onClose }) => {
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [password, setPassword] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [share, setShare] = useState<ReportShare | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const expiresAt = expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000) : undefined;
+      const created = await reportSharingService.createShare(userId, report, { expiresAt, password });
+      setShare(created);
+      onCreated(created);
+    } catch (error) {
+      toast.error('Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="delete-confirmation-overlay">
+      <div className="delete-confirmation-dialog share-report-dialog">
+        <h3>Share Report</h3>
+        <p className="report-date">{report.websiteUrl}</p>
+        {share ? (
+          <>
+            <div className="share-link">
+              <input type="text" value={reportSharingService.getShareUrl(share.id)} readOnly />
+              <button className="download-report-button" onClick={() => copyShareLink(share.id)} title="Copy Link">
+                <FontAwesomeIcon icon={faCopy} />
+              </button>
+            </div>
+            <p className="monitor-cost-note">
+              Anyone with this link can view a read-only copy of the report
+              {share.passwordProtected ? ' after entering the password' : ''}
+              {share.expiresAt ? ` until ${share.expiresAt.toLocaleDateString()}` : ''}.
+            </p>
+            <div className="confirmation-buttons">
+              <button className="cancel-button" onClick={onClose}>Done</button>
+            </div>
+          </>
+        ) : (
+          <form className="monitor-form" onSubmit={handleCreate}>
+            <div className="form-group">
+              <label>Expires after</label>
+              <select
+                value={expiryDays === null ? '' : expiryDays}
+                onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.label} value={option.days === null ? '' : option.days}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>Password (optional)</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+            <div className="confirmation-buttons">
+              <button type="submit" className="confirm-button" disabled={isCreating}>
+                {isCreating ? <FontAwesomeIcon icon={faSpinner} spin /> : 'Create Link'}
+              </button>
+              <button type="button" className="cancel-button" onClick={onClose} disabled={isCreating}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareReportDialog;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { SiteCrawlResult } from '../services/siteCrawler';
+
+interface SiteCrawlSummaryProps {
+  result: SiteCrawlResult;
+}
+
+const formatPath = (url: string) => {
+  const { pathname, search } = new URL(url);
+  return `${pathname}${search}`;
+};
+
+const formatDistributionValue = (metric: string, value: number) => {
+  if (metric === 'cumulativeLayoutShift') return value.toFixed(3);
+  if (metric === 'pageSize') return `${(value / 1024).toFixed(0)} KB`;
+  if (metric.startsWith('lighthouse')) return `${Math.round(value)}%`;
+  return `${Math.round(value)} ms`;
+};
+
+const formatMetricName = (metric: string) =>
+  metric
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, char => char.toUpperCase())
+    .trim();
+
+const SiteCrawlSummary: React.FC<SiteCrawlSummaryProps> = ({ result }) => {
+  const { summary } = result;
+
+  return (
+    <div className="metric-box site-crawl-summary">
+      <h4>Site Summary</h4>
+      <div className="metric-value">
+        <p>
+          {summary.pagesEvaluated} pages evaluated
+          {summary.pagesFailed > 0 && `, ${summary.pagesFailed} failed`}
+          {' '}· average score {summary.averageScore}%
+        </p>
+
+        <h5>Worst Pages</h5>
+        <ul className="site-crawl-list">
+          {summary.worstPages.map(page => (
+            <li key={page.url}>
+              <span className="site-crawl-path">{formatPath(page.url)}</span>
+              <span>{page.score}% · {page.issueCount} issues</span>
+            </li>
+          ))}
+        </ul>
+
+        {summary.sharedIssues.length > 0 && (
+          <>
+            <h5>Shared Issues</h5>
+            <ul className="site-crawl-list">
+              {summary.sharedIssues.map(issue => (
+                <li key={issue.id} title={issue.pages.map(formatPath).join('\n')}>
+                  <span>{issue.description}</span>
+                  <span>{issue.pages.length} pages · {issue.templates.length} templates</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <h5>Metric Distribution</h5>
+        <table className="site-crawl-table">
+          <thead>
+            <tr>
+              <th>Metric</th>
+              <th>Min</th>
+              <th>Median</th>
+              <th>P75</th>
+              <th>Max</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(summary.distributions).map(([metric, distribution]) => (
+              <tr key={metric}>
+                <td>{formatMetricName(metric)}</td>
+                <td>{formatDistributionValue(metric, distribution.min)}</td>
+                <td>{formatDistributionValue(metric, distribution.median)}</td>
+                <td>{formatDistributionValue(metric, distribution.p75)}</td>
+                <td>{formatDistributionValue(metric, distribution.max)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {result.failures.length > 0 && (
+          <>
+            <h5>Failed Pages</h5>
+            <ul className="site-crawl-list">
+              {result.failures.map(failure => (
+                <li key={failure.url} title={failure.error}>
+                  <span className="site-crawl-path">{formatPath(failure.url)}</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SiteCrawlSummary;
@@ -0,0 +1,169 @@
+import React, { useMemo } from 'react';
+import { StoredReport } from '../services/reportStorage';
+import { siteHistory, HistorySeries } from '../services/siteHistory';
+
+interface SiteHistoryViewProps {
+  reports: StoredReport[];
+  websiteUrl: string;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = { top: 10, right: 10, bottom: 20, left: 40 };
+
+const formatValue = (series: HistorySeries, value: number) => {
+  if (series.unit === '') return value.toFixed(3);
+  if (series.unit === 'ms') return `${Math.round(value)} ms`;
+  return `${Math.round(value)}${series.unit}`;
+};
+
+const formatShortDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+
+const TrendChart: React.FC<{ series: HistorySeries }> = ({ series }) => {
+  const { points, band } = series;
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+
+  const isPercent = series.unit === '%';
+  const maxValue = isPercent
+    ? 100
+    : Math.max(...points.map(point => point.value), band ? band.poor * 1.25 : 0) || 1;
+
+  const times = points.map(point => point.timestamp.getTime());
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime;
+
+  const x = (time: number) =>
+    CHART_PADDING.left + (timeSpan === 0 ? plotWidth / 2 : ((time - minTime) / timeSpan) * plotWidth);
+  const y = (value: number) =>
+    CHART_PADDING.top + plotHeight - (Math.min(value, maxValue) / maxValue) * plotHeight;
+
+  // Shade the good / needs-improvement / poor bands behind the line
+  const bands = band
+    ? band.higherIsBetter
+      ? [
+          { from: band.good, to: maxValue, rating: 'good' },
+          { from: band.poor, to: band.good, rating: 'needs-improvement' },
+          { from: 0, to: band.poor, rating: 'poor' }
+        ]
+      : [
+          { from: 0, to: band.good, rating: 'good' },
+          { from: band.good, to: band.poor, rating: 'needs-improvement' },
+          { from: band.poor, to: maxValue, rating: 'poor' }
+        ]
+    : [];
+
+  const path = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.timestamp.getTime())},${y(point.value)}`)
+    .join(' ');
+
+  return (
+    <svg
+      className="trend-chart"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label={`${series.label} trend`}
+    >
+      {bands
+        .filter(b => b.to > b.from && b.from < maxValue)
+        .map(b => (
+          <rect
+            key={b.rating}
+            className={`trend-band band-${b.rating}`}
+            x={CHART_PADDING.left}
+            width={plotWidth}
+            y={y(Math.min(b.to, maxValue))}
+            height={y(b.from) - y(Math.min(b.to, maxValue))}
+          />
+        ))}
+      <text className="trend-axis-label" x={CHART_PADDING.left - 4} y={y(maxValue) + 4} textAnchor="end">
+        {formatValue(series, maxValue)}
+      </text>
+      <text className="trend-axis-label" x={CHART_PADDING.left - 4} y={y(0)} textAnchor="end">
+        0
+      </text>
+      <text className="trend-axis-label" x={CHART_PADDING.left} y={CHART_HEIGHT - 4}>
+        {formatShortDate(points[0].timestamp)}
+      </text>
+      {points.length > 1 && (
+        <text className="trend-axis-label" x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 4} textAnchor="end">
+          {formatShortDate(points[points.length - 1].timestamp)}
+        </text>
+      )}
+      <path className="trend-line" d={path} />
+      {points.map(point => (
+        <circle
+          key={point.reportId}
+          className={`trend-point ${point.rating ? `rating-${point.rating}` : ''} ${point.regression ? 'regression' : ''}`}
+          cx={x(point.timestamp.getTime())}
+          cy={y(point.value)}
+          r={point.regression ? 5 : 3.5}
+        >
+          <title>
+            {`${formatShortDate(point.timestamp)}: ${formatValue(series, point.value)}${point.regression ? ' (regression)' : ''}`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const SiteHistoryView: React.FC<SiteHistoryViewProps> = ({ reports, websiteUrl, onClose }) => {
+  const history = useMemo(() => siteHistory.getSiteHistory(reports, websiteUrl), [reports, websiteUrl]);
+  const series = useMemo(() => (history ? siteHistory.buildSeries(history) : []), [history]);
+
+  return (
+    <div className="delete-confirmation-overlay">
+      <div className="report-comparison-dialog">
+        <div className="report-comparison-header">
+          <div>
+            <h3>History for {history?.siteKey || websiteUrl}</h3>
+            <p className="report-date">
+              {history?.reports.length || 0} stored evaluation{history?.reports.length === 1 ? '' : 's'} · regressions are
+              marked where a value dropped into a worse threshold band
+            </p>
+          </div>
+        </div>
+
+        <div className="report-comparison-body">
+          {series.length > 0 ? (
+            <div className="trend-grid">
+              {series.map(item => {
+                const latest = item.points[item.points.length - 1];
+                const regressions = item.points.filter(point => point.regression).length;
+                return (
+                  <div key={item.key} className="trend-card">
+                    <div className="trend-card-header">
+                      <h4>{item.label}</h4>
+                      <span className={latest.rating ? `rating-${latest.rating}` : ''}>
+                        {formatValue(item, latest.value)}
+                      </span>
+                    </div>
+                    <TrendChart series={item} />
+                    {regressions > 0 && (
+                      <p className="trend-regressions">
+                        {regressions} regression{regressions === 1 ? '' : 's'}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="no-reports">No stored evaluations for this site yet.</p>
+          )}
+        </div>
+
+        <div className="confirmation-buttons">
+          <button className="cancel-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SiteHistoryView;
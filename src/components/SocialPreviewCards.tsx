@@ -0,0 +1,38 @@
+import React from 'react';
+import { SocialPreviewAudit, SOCIAL_PLATFORM_LABELS } from '../services/socialPreview';
+
+interface SocialPreviewCardsProps {
+  audit: SocialPreviewAudit;
+}
+
+const SocialPreviewCards: React.FC<SocialPreviewCardsProps> = ({ audit }) => (
+  <div className="metric-tile social-preview-tile" onClick={(e) => e.stopPropagation()}>
+    <div className="metric-title">Social Sharing Previews</div>
+    {audit.issues.length > 0 && (
+      <ul className="indexability-issues">
+        {audit.issues.map(issue => (
+          <li key={`${issue.tag}-${issue.message}`} className={issue.severity === 'error' ? 'rating-poor' : 'rating-needs-improvement'}>
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    )}
+    <div className="social-preview-grid">
+      {audit.previews.map(preview => (
+        <div key={preview.platform} className={`social-preview social-preview-${preview.platform} social-preview-${preview.layout}`}>
+          <div className="social-preview-platform">{SOCIAL_PLATFORM_LABELS[preview.platform]}</div>
+          <div className="social-preview-card">
+            {preview.imageUrl && <img src={preview.imageUrl} alt="" className="social-preview-image" />}
+            <div className="social-preview-text">
+              <div className="social-preview-domain">{preview.siteName || preview.domain}</div>
+              <div className="social-preview-title">{preview.title || preview.domain}</div>
+              {preview.description && <div className="social-preview-description">{preview.description}</div>}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default SocialPreviewCards;
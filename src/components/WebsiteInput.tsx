@@ -1,15 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { faArrowRight } from '@fortawesome/free-solid-svg-icons';
+import { CrawlOptions, CRAWL_LIMITS } from '../services/siteCrawler';
+import { BENCHMARK_LIMITS } from '../services/benchmark';
+import { THROTTLING_PRESETS, DEFAULT_THROTTLING } from '../services/deviceProfiles';
+import { DeviceType } from '../services/evaluator';
+import { ScoringProfile, DEFAULT_SCORING_PROFILE_ID } from '../services/scoringProfiles';
+import { SCORED_PHASES, buildPhasePlan } from '../services/phaseMetrics';
+import PhaseSelector, { PhaseSelection } from './PhaseSelector';
+
+// Optional evaluation modes; at most one is set per submission
+export interface EvaluationOptions {
+  crawl?: CrawlOptions;
+  competitorUrls?: string[];
+  deviceThrottling?: { [device in DeviceType]: string };
+  // Scoring profile used to rate the evaluation; independent of the mode
+  scoringProfileId?: string;
+  // Keyword the Content phase measures density and placement for
+  targetKeyword?: string;
+  // Phases to run, in order; all phases when unset
+  phases?: string[];
+}
 
 interface WebsiteInputProps {
-  onSubmit: (website: string, rawInput: string) => void;
+  onSubmit: (website: string, rawInput: string, options?: EvaluationOptions) => void;
   isLoading: boolean;
   isLoggedIn: boolean;
   onSignInRequired: () => void;
   variant?: 'normal' | 'compact';
   initialUrl?: string;
   initialRawInput?: string;
+  scoringProfiles?: ScoringProfile[];
 }
 
 const WebsiteInput: React.FC<WebsiteInputProps> = ({ 
@@ -19,9 +40,22 @@ const WebsiteInput: React.FC<WebsiteInputProps> = ({
   onSignInRequired,
   variant = 'normal',
   initialUrl = '',
-  initialRawInput = ''
+  initialRawInput = '',
+  scoringProfiles = []
 }) => {
   const [website, setWebsite] = useState(variant === 'compact' ? initialRawInput : initialUrl);
+  const [crawlEnabled, setCrawlEnabled] = useState(false);
+  const [maxPages, setMaxPages] = useState(10);
+  const [maxDepth, setMaxDepth] = useState(2);
+  const [benchmarkEnabled, setBenchmarkEnabled] = useState(false);
+  const [competitors, setCompetitors] = useState('');
+  const [dualProfileEnabled, setDualProfileEnabled] = useState(false);
+  const [deviceThrottling, setDeviceThrottling] = useState(DEFAULT_THROTTLING);
+  const [scoringProfileId, setScoringProfileId] = useState(DEFAULT_SCORING_PROFILE_ID);
+  const [targetKeyword, setTargetKeyword] = useState('');
+  const [phaseSelection, setPhaseSelection] = useState<PhaseSelection[]>(
+    SCORED_PHASES.map(phase => ({ phase, enabled: true }))
+  );
 
   useEffect(() => {
     if (variant === 'compact' && initialRawInput) {
@@ -43,7 +77,17 @@ const WebsiteInput: React.FC<WebsiteInputProps> = ({
       return;
     }
     if (website.trim()) {
-      onSubmit(formatUrl(website.trim()), website.trim());
+      const competitorUrls = benchmarkEnabled
+        ? competitors.split(/[\s,]+/).filter(Boolean).slice(0, BENCHMARK_LIMITS.MAX_COMPETITORS)
+        : [];
+      onSubmit(formatUrl(website.trim()), website.trim(), {
+        crawl: crawlEnabled ? { maxPages, maxDepth } : undefined,
+        competitorUrls: competitorUrls.length > 0 ? competitorUrls : undefined,
+        deviceThrottling: dualProfileEnabled ? deviceThrottling : undefined,
+        scoringProfileId,
+        targetKeyword: targetKeyword.trim() || undefined,
+        phases: buildPhasePlan(phaseSelection.filter(item => item.enabled).map(item => item.phase))
+      });
     }
   };
 
@@ -69,6 +113,130 @@ const WebsiteInput: React.FC<WebsiteInputProps> = ({
           )}
         </button>
       </div>
+      <div className="crawl-options">
+        <label className="crawl-toggle">
+          <input
+            type="checkbox"
+            checked={crawlEnabled}
+            onChange={(e) => {
+              setCrawlEnabled(e.target.checked);
+              if (e.target.checked) {
+                setBenchmarkEnabled(false);
+                setDualProfileEnabled(false);
+              }
+            }}
+            disabled={isLoading}
+          />
+          Crawl site
+        </label>
+        <label className="crawl-toggle">
+          <input
+            type="checkbox"
+            checked={benchmarkEnabled}
+            onChange={(e) => {
+              setBenchmarkEnabled(e.target.checked);
+              if (e.target.checked) {
+                setCrawlEnabled(false);
+                setDualProfileEnabled(false);
+              }
+            }}
+            disabled={isLoading}
+          />
+          Benchmark competitors
+        </label>
+        <label className="crawl-toggle">
+          <input
+            type="checkbox"
+            checked={dualProfileEnabled}
+            onChange={(e) => {
+              setDualProfileEnabled(e.target.checked);
+              if (e.target.checked) {
+                setCrawlEnabled(false);
+                setBenchmarkEnabled(false);
+              }
+            }}
+            disabled={isLoading}
+          />
+          Mobile + desktop
+        </label>
+        <PhaseSelector selection={phaseSelection} onChange={setPhaseSelection} disabled={isLoading} />
+        <label className="target-keyword">
+          Keyword
+          <input
+            type="text"
+            value={targetKeyword}
+            onChange={(e) => setTargetKeyword(e.target.value)}
+            placeholder="optional"
+            disabled={isLoading}
+          />
+        </label>
+        {scoringProfiles.length > 1 && (
+          <label>
+            Scoring
+            <select
+              value={scoringProfileId}
+              onChange={(e) => setScoringProfileId(e.target.value)}
+              disabled={isLoading}
+            >
+              {scoringProfiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {crawlEnabled && (
+          <>
+            <label>
+              Pages
+              <input
+                type="number"
+                min={1}
+                max={CRAWL_LIMITS.MAX_PAGES}
+                value={maxPages}
+                onChange={(e) => setMaxPages(Math.min(CRAWL_LIMITS.MAX_PAGES, Math.max(1, Number(e.target.value) || 1)))}
+                disabled={isLoading}
+              />
+            </label>
+            <label>
+              Depth
+              <input
+                type="number"
+                min={0}
+                max={CRAWL_LIMITS.MAX_DEPTH}
+                value={maxDepth}
+                onChange={(e) => setMaxDepth(Math.min(CRAWL_LIMITS.MAX_DEPTH, Math.max(0, Number(e.target.value) || 0)))}
+                disabled={isLoading}
+              />
+            </label>
+          </>
+        )}
+        {dualProfileEnabled && (['mobile', 'desktop'] as DeviceType[]).map(device => (
+          <label key={device}>
+            {device === 'mobile' ? 'Mobile' : 'Desktop'}
+            <select
+              value={deviceThrottling[device]}
+              onChange={(e) => setDeviceThrottling(prev => ({ ...prev, [device]: e.target.value }))}
+              disabled={isLoading}
+            >
+              {Object.entries(THROTTLING_PRESETS).map(([id, preset]) => (
+                <option key={id} value={id}>{preset.label}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        {benchmarkEnabled && (
+          <label className="benchmark-competitors">
+            Competitors (up to {BENCHMARK_LIMITS.MAX_COMPETITORS})
+            <input
+              type="text"
+              value={competitors}
+              onChange={(e) => setCompetitors(e.target.value)}
+              placeholder="competitor-a.com, competitor-b.com"
+              disabled={isLoading}
+            />
+          </label>
+        )}
+      </div>
     </form>
   );
 };
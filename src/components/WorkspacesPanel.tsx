@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner, faTrash, faPlus, faCheck, faTimes, faSignOutAlt } from '@fortawesome/free-solid-svg-icons';
+import {
+  workspaceService,
+  Workspace,
+  WorkspaceInvite,
+  WorkspaceRole,
+  WORKSPACE_ROLES
+} from '../services/workspaces';
+
+interface WorkspacesPanelProps {
+  userId: string;
+  email: string;
+}
+
+const WorkspacesPanel: React.FC<WorkspacesPanelProps> = ({ userId, email }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadWorkspaces = useCallback(async (selectId?: string) => {
+    const [userWorkspaces, pendingInvites] = await Promise.all([
+      workspaceService.getWorkspaces(userId),
+      workspaceService.getPendingInvites(email)
+    ]);
+    setWorkspaces(userWorkspaces);
+    setInvites(pendingInvites);
+    setSelectedId(prevId => {
+      const preferredId = selectId ?? prevId;
+      return userWorkspaces.some(workspace => workspace.id === preferredId)
+        ? preferredId
+        : userWorkspaces[0]?.id || '';
+    });
+  }, [userId, email]);
+
+  useEffect(() => {
+    loadWorkspaces().catch(error => {
+      console.error('Error fetching workspaces:', error);
+      toast.error('Failed to load workspaces');
+    });
+  }, [loadWorkspaces]);
+
+  const notifyUpdated = () => window.dispatchEvent(new CustomEvent('workspacesUpdated'));
+
+  // Runs a workspace change, then reloads the panel and the header switcher
+  const runAction = async (action: () => Promise<void>, successMessage: string, selectId?: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await loadWorkspaces(selectId);
+      notifyUpdated();
+      toast.success(successMessage);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update workspace');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const workspaceId = await workspaceService.createWorkspace(userId, email, newWorkspaceName);
+      await loadWorkspaces(workspaceId);
+      setNewWorkspaceName('');
+      notifyUpdated();
+      toast.success('Workspace created');
+    } catch (error) {
+      toast.error('Failed to create workspace');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selected = workspaces.find(workspace => workspace.id === selectedId) || null;
+  const isOwner = selected?.ownerId === userId;
+  const canPay = !!selected && workspaceService.canEdit(selected, userId);
+  const payAsYouGoMember = selected?.payAsYouGoUserId ? selected.members[selected.payAsYouGoUserId] : undefined;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !inviteEmail.trim()) return;
+
+    await runAction(
+      () => workspaceService.inviteMember(selected, inviteEmail, inviteRole, userId),
+      `Invitation sent to ${inviteEmail.trim()}`
+    );
+    setInviteEmail('');
+  };
+
+  return (
+    <div className="workspaces-panel">
+      <h3>Team Workspaces</h3>
+
+      {invites.length > 0 && (
+        <div className="workspace-invites">
+          {invites.map(invite => (
+            <div key={invite.id} className="workspace-invite">
+              <span>
+                Invited to <strong>{invite.workspaceName}</strong> as {WORKSPACE_ROLES[invite.role]}
+              </span>
+              <button
+                className="download-report-button"
+                onClick={() => runAction(() => workspaceService.acceptInvite(invite, userId, email), `Joined ${invite.workspaceName}`, invite.workspaceId)}
+                disabled={isSaving}
+                title="Accept"
+              >
+                <FontAwesomeIcon icon={faCheck} />
+              </button>
+              <button
+                className="delete-report-button"
+                onClick={() => runAction(() => workspaceService.declineInvite(invite.id), 'Invitation declined')}
+                disabled={isSaving}
+                title="Decline"
+              >
+                <FontAwesomeIcon icon={faTimes} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {workspaces.length > 0 && (
+        <div className="monitor-form">
+          <div className="form-group">
+            <label>Workspace</label>
+            <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} disabled={isSaving}>
+              {workspaces.map(workspace => (
+                <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {selected && (
+            <>
+              <ul className="workspace-members">
+                {Object.entries(selected.members).map(([memberId, member]) => (
+                  <li key={memberId}>
+                    <span>{member.email}{memberId === userId ? ' (you)' : ''}</span>
+                    {isOwner && memberId !== selected.ownerId ? (
+                      <>
+                        <select
+                          value={member.role}
+                          onChange={(e) => runAction(
+                            () => workspaceService.updateMemberRole(selected, memberId, e.target.value as WorkspaceRole),
+                            'Role updated'
+                          )}
+                          disabled={isSaving}
+                        >
+                          <option value="editor">{WORKSPACE_ROLES.editor}</option>
+                          <option value="viewer">{WORKSPACE_ROLES.viewer}</option>
+                        </select>
+                        <button
+                          className="delete-report-button"
+                          onClick={() => runAction(() => workspaceService.removeMember(selected, memberId), 'Member removed')}
+                          disabled={isSaving}
+                          title="Remove member"
+                        >
+                          <FontAwesomeIcon icon={faTrash} />
+                        </button>
+                      </>
+                    ) : (
+                      <span className="workspace-role">{WORKSPACE_ROLES[member.role]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              <div className="form-group">
+                <label>Pay-as-you-go fallback</label>
+                <div className="workspace-billing">
+                  <span>
+                    {payAsYouGoMember ? payAsYouGoMember.email : 'None (pooled balance only)'}
+                  </span>
+                  {canPay && selected.payAsYouGoUserId !== userId && (
+                    <button
+                      className="download-report-button"
+                      onClick={() => runAction(
+                        () => workspaceService.setPayAsYouGoUser(selected, userId, userId),
+                        'Your pay-as-you-go method is now the workspace fallback'
+                      )}
+                      disabled={isSaving}
+                    >
+                      Use my pay-as-you-go method
+                    </button>
+                  )}
+                  {selected.payAsYouGoUserId && (selected.payAsYouGoUserId === userId || isOwner) && (
+                    <button
+                      className="delete-report-button"
+                      onClick={() => runAction(
+                        () => workspaceService.setPayAsYouGoUser(selected, userId, null),
+                        'Workspace billing updated'
+                      )}
+                      disabled={isSaving}
+                      title="Remove fallback"
+                    >
+                      <FontAwesomeIcon icon={faTimes} />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className="monitor-cost-note">
+                Evaluations in this workspace are charged to its pooled balance. When it runs out, the pay-as-you-go
+                method of the member who opted in is used instead. Only that member can opt in; the owner can remove it.
+              </p>
+
+              {isOwner && (
+                <form className="workspace-invite-form" onSubmit={handleInvite}>
+                  <div className="form-group">
+                    <label>Invite by email</label>
+                    <input
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="colleague@example.com"
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Role</label>
+                    <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)} disabled={isSaving}>
+                      <option value="editor">{WORKSPACE_ROLES.editor}</option>
+                      <option value="viewer">{WORKSPACE_ROLES.viewer}</option>
+                    </select>
+                  </div>
+                  <button type="submit" className="bulk-action-button" disabled={isSaving || !inviteEmail.trim()}>
+                    <FontAwesomeIcon icon={faPlus} /> Invite
+                  </button>
+                </form>
+              )}
+
+              <div className="scoring-profile-actions">
+                {isOwner ? (
+                  <button
+                    className="bulk-action-button delete"
+                    onClick={() => runAction(() => workspaceService.deleteWorkspace(selected.id), 'Workspace deleted')}
+                    disabled={isSaving}
+                  >
+                    <FontAwesomeIcon icon={faTrash} /> Delete Workspace
+                  </button>
+                ) : (
+                  <button
+                    className="bulk-action-button"
+                    onClick={() => runAction(() => workspaceService.removeMember(selected, userId), `Left ${selected.name}`)}
+                    disabled={isSaving}
+                  >
+                    <FontAwesomeIcon icon={faSignOutAlt} /> Leave Workspace
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <form className="monitor-form scoring-profile-create" onSubmit={handleCreate}>
+        <div className="form-group">
+          <label>New workspace</label>
+          <input
+            type="text"
+            value={newWorkspaceName}
+            onChange={(e) => setNewWorkspaceName(e.target.value)}
+            placeholder="e.g. Marketing team"
+            disabled={isSaving}
+          />
+        </div>
+        <button type="submit" className="bulk-action-button" disabled={isSaving || !newWorkspaceName.trim()}>
+          {isSaving ? <FontAwesomeIcon icon={faSpinner} spin /> : <FontAwesomeIcon icon={faPlus} />} Create Workspace
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default WorkspacesPanel;
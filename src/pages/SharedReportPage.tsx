@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { reportSharingService, ShareInfo } from '../services/reportSharing';
+import { StoredReport } from '../services/reportStorage';
+import ReportHtmlView from '../components/ReportHtmlView';
+
+const SharedReportPage: React.FC = () => {
+  const { shareId = '' } = useParams<{ shareId: string }>();
+  const [info, setInfo] = useState<ShareInfo | null>(null);
+  const [report, setReport] = useState<StoredReport | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadShare = async () => {
+      setIsLoading(true);
+      try {
+        const shareInfo = await reportSharingService.getShareInfo(shareId);
+        setInfo(shareInfo);
+        if (!shareInfo) {
+          setError('This link does not exist or has been revoked.');
+        } else if (shareInfo.expired) {
+          setError('This link has expired.');
+        } else if (!shareInfo.passwordProtected) {
+          setReport(await reportSharingService.getSharedReport(shareId));
+        }
+      } catch (error) {
+        console.error('Error loading shared report:', error);
+        setError('Failed to load the shared report.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadShare();
+  }, [shareId]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      setReport(await reportSharingService.getSharedReport(shareId, password));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to open the shared report.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="legal-page shared-report-page">
+      <div className="legal-content">
+        {report ? (
+          <ReportHtmlView report={report} />
+        ) : isLoading ? (
+          <p className="loading-state">
+            <FontAwesomeIcon icon={faSpinner} spin /> Loading report...
+          </p>
+        ) : info?.passwordProtected && !info.expired ? (
+          <form className="monitor-form shared-report-unlock" onSubmit={handleUnlock}>
+            <h2>Report for {info.websiteUrl}</h2>
+            <p>This report is password protected.</p>
+            <div className="form-group">
+              <label>Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+              />
+            </div>
+            {error && <p className="error-message">{error}</p>}
+            <button type="submit" className="bulk-action-button" disabled={!password}>
+              Open Report
+            </button>
+          </form>
+        ) : (
+          <p className="error-message">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedReportPage;
@@ -0,0 +1,252 @@
+import { getSelector } from '../utils/domSelectors';
+
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+export interface WcagCriterion {
+  id: string;
+  name: string;
+  level: WcagLevel;
+}
+
+export interface AccessibilityViolation {
+  rule: string;
+  message: string;
+  selector: string;
+  snippet: string;
+  criterion: string;
+  level: WcagLevel;
+}
+
+// Highest WCAG 2.2 level with no violations among the automated checks, or null when level A fails
+export type ComplianceLevel = WcagLevel | null;
+
+export interface AccessibilityAudit {
+  violations: AccessibilityViolation[];
+  violationCounts: { [level in WcagLevel]: number };
+  complianceLevel: ComplianceLevel;
+  // Set when the violation list was cut down to MAX_STORED_VIOLATIONS
+  truncated?: boolean;
+}
+
+export const WCAG_LEVELS: WcagLevel[] = ['A', 'AA', 'AAA'];
+
+export const WCAG_CRITERIA: { [id: string]: WcagCriterion } = {
+  '1.1.1': { id: '1.1.1', name: 'Non-text Content', level: 'A' },
+  '1.3.1': { id: '1.3.1', name: 'Info and Relationships', level: 'A' },
+  '1.4.2': { id: '1.4.2', name: 'Audio Control', level: 'A' },
+  '1.4.3': { id: '1.4.3', name: 'Contrast (Minimum)', level: 'AA' },
+  '1.4.4': { id: '1.4.4', name: 'Resize Text', level: 'AA' },
+  '2.2.1': { id: '2.2.1', name: 'Timing Adjustable', level: 'A' },
+  '2.4.1': { id: '2.4.1', name: 'Bypass Blocks', level: 'A' },
+  '2.4.2': { id: '2.4.2', name: 'Page Titled', level: 'A' },
+  '2.4.3': { id: '2.4.3', name: 'Focus Order', level: 'A' },
+  '2.4.4': { id: '2.4.4', name: 'Link Purpose (In Context)', level: 'A' },
+  '2.4.6': { id: '2.4.6', name: 'Headings and Labels', level: 'AA' },
+  '2.4.9': { id: '2.4.9', name: 'Link Purpose (Link Only)', level: 'AAA' },
+  '3.1.1': { id: '3.1.1', name: 'Language of Page', level: 'A' },
+  '4.1.2': { id: '4.1.2', name: 'Name, Role, Value', level: 'A' }
+};
+
+// Keeps stored reports and prompts well under Firestore's document size limit
+export const MAX_STORED_VIOLATIONS = 50;
+
+const MAX_SNIPPET_LENGTH = 160;
+const GENERIC_LINK_TEXT = /^(click here|here|read more|more|learn more|link|this page|details)$/i;
+const UNLABELLED_INPUT_TYPES = ['hidden', 'submit', 'button', 'reset', 'image'];
+
+// Long elements are reduced to their own tag without children, enough to find them in the source
+const getSnippet = (element: Element): string => {
+  const collapse = (html: string) => html.replace(/\s+/g, ' ').trim();
+  let html = collapse(element.outerHTML);
+  if (html.length > MAX_SNIPPET_LENGTH) {
+    html = collapse((element.cloneNode(false) as Element).outerHTML);
+  }
+  return html.length > MAX_SNIPPET_LENGTH ? `${html.slice(0, MAX_SNIPPET_LENGTH - 3)}...` : html;
+};
+
+const getText = (element: Element | null): string => element?.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+const hasAccessibleName = (element: Element, doc: Document): boolean => {
+  if (element.getAttribute('aria-label')?.trim() || element.getAttribute('title')?.trim()) return true;
+
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy && labelledBy.split(/\s+/).some(id => getText(doc.getElementById(id)))) return true;
+
+  if (getText(element)) return true;
+  return Array.from(element.querySelectorAll('img[alt], svg[aria-label]'))
+    .some(child => (child.getAttribute('alt') || child.getAttribute('aria-label') || '').trim());
+};
+
+const isHidden = (element: Element) =>
+  element.getAttribute('aria-hidden') === 'true' || element.hasAttribute('hidden');
+
+const violation = (
+  rule: string,
+  criterionId: string,
+  message: string,
+  element?: Element
+): AccessibilityViolation => ({
+  rule,
+  message,
+  selector: element ? getSelector(element) : 'document',
+  snippet: element ? getSnippet(element) : '',
+  criterion: `${criterionId} ${WCAG_CRITERIA[criterionId].name}`,
+  level: WCAG_CRITERIA[criterionId].level
+});
+
+// Static checks against the rendered HTML. Layout-dependent criteria (contrast, target size,
+// focus visibility) can't be judged from markup and come from the evaluation server instead.
+export const auditHtml = (htmlContent: string): AccessibilityViolation[] => {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const violations: AccessibilityViolation[] = [];
+
+  if (!doc.documentElement.getAttribute('lang')?.trim()) {
+    violations.push(violation('html-has-lang', '3.1.1', 'The <html> element has no lang attribute', doc.documentElement));
+  }
+
+  if (!getText(doc.querySelector('title'))) {
+    violations.push(violation('document-title', '2.4.2', 'The page has no <title>'));
+  }
+
+  const hasSkipLink = Array.from(doc.querySelectorAll('a[href^="#"]')).some(anchor => /skip|main content/i.test(getText(anchor)));
+  if (!doc.querySelector('main, [role="main"]') && !hasSkipLink) {
+    violations.push(violation('bypass', '2.4.1', 'No <main> landmark or skip link lets keyboard users bypass repeated content'));
+  }
+
+  doc.querySelectorAll('img:not([alt]), input[type="image"]:not([alt])').forEach(image => {
+    const role = image.getAttribute('role');
+    if (role === 'presentation' || role === 'none' || isHidden(image)) return;
+    violations.push(violation('image-alt', '1.1.1', 'Image has no alt attribute', image));
+  });
+
+  doc.querySelectorAll('input, select, textarea').forEach(field => {
+    const type = (field.getAttribute('type') || '').toLowerCase();
+    if (UNLABELLED_INPUT_TYPES.includes(type) || isHidden(field)) return;
+
+    const id = field.getAttribute('id');
+    const hasLabel = Boolean(field.closest('label')) ||
+      Boolean(id && doc.querySelector(`label[for="${CSS.escape(id)}"]`)) ||
+      Boolean(field.getAttribute('aria-label')?.trim() || field.getAttribute('aria-labelledby') || field.getAttribute('title')?.trim());
+    if (!hasLabel) {
+      violations.push(violation('label', '4.1.2', 'Form field has no associated label', field));
+    }
+  });
+
+  doc.querySelectorAll('a[href]').forEach(link => {
+    if (isHidden(link)) return;
+    if (!hasAccessibleName(link, doc)) {
+      violations.push(violation('link-name', '2.4.4', 'Link has no discernible text', link));
+    } else if (GENERIC_LINK_TEXT.test(getText(link)) && !link.getAttribute('aria-label')) {
+      violations.push(violation('link-purpose', '2.4.9', `Link text "${getText(link)}" does not describe its destination`, link));
+    }
+  });
+
+  doc.querySelectorAll('button, [role="button"]').forEach(button => {
+    if (isHidden(button) || hasAccessibleName(button, doc)) return;
+    violations.push(violation('button-name', '4.1.2', 'Button has no discernible text', button));
+  });
+
+  doc.querySelectorAll('iframe').forEach(frame => {
+    if (isHidden(frame) || frame.getAttribute('title')?.trim() || frame.getAttribute('aria-label')?.trim()) return;
+    violations.push(violation('frame-title', '4.1.2', 'Frame has no title', frame));
+  });
+
+  doc.querySelectorAll('[tabindex]').forEach(element => {
+    if (Number(element.getAttribute('tabindex')) > 0) {
+      violations.push(violation('tabindex', '2.4.3', 'Positive tabindex overrides the natural focus order', element));
+    }
+  });
+
+  let previousLevel = 0;
+  doc.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(heading => {
+    const level = Number(heading.tagName.charAt(1));
+    if (!hasAccessibleName(heading, doc)) {
+      violations.push(violation('empty-heading', '2.4.6', 'Heading has no text', heading));
+    }
+    if (previousLevel > 0 && level > previousLevel + 1) {
+      violations.push(violation('heading-order', '1.3.1', `Heading level jumps from h${previousLevel} to h${level}`, heading));
+    }
+    previousLevel = level;
+  });
+
+  const viewport = doc.querySelector('meta[name="viewport"]');
+  const viewportContent = viewport?.getAttribute('content')?.toLowerCase() || '';
+  const maximumScale = viewportContent.match(/maximum-scale\s*=\s*([\d.]+)/);
+  if (viewport && (/user-scalable\s*=\s*(no|0)/.test(viewportContent) || (maximumScale && Number(maximumScale[1]) < 2))) {
+    violations.push(violation('meta-viewport', '1.4.4', 'Viewport meta tag prevents zooming', viewport));
+  }
+
+  const refresh = doc.querySelector('meta[http-equiv="refresh" i]');
+  if (refresh && Number.parseInt(refresh.getAttribute('content') || '0', 10) > 0) {
+    violations.push(violation('meta-refresh', '2.2.1', 'Page refreshes or redirects automatically after a delay', refresh));
+  }
+
+  doc.querySelectorAll('video[autoplay]:not([muted]), audio[autoplay]:not([muted])').forEach(media => {
+    if (media.hasAttribute('controls')) return;
+    violations.push(violation('no-autoplay-audio', '1.4.2', 'Media plays sound automatically without controls', media));
+  });
+
+  return violations;
+};
+
+export const getComplianceLevel = (violations: AccessibilityViolation[]): ComplianceLevel => {
+  let compliance: ComplianceLevel = null;
+  for (const level of WCAG_LEVELS) {
+    if (violations.some(item => item.level === level)) break;
+    compliance = level;
+  }
+  return compliance;
+};
+
+export const describeComplianceLevel = (level: ComplianceLevel): string =>
+  level ? `WCAG 2.2 Level ${level} (automated checks)` : 'Does not meet WCAG 2.2 Level A';
+
+const buildAudit = (violations: AccessibilityViolation[]): AccessibilityAudit => {
+  // Most severe first, so truncation drops AAA findings before level A ones
+  const sorted = [...violations].sort((a, b) => WCAG_LEVELS.indexOf(a.level) - WCAG_LEVELS.indexOf(b.level));
+  return {
+    violations: sorted.slice(0, MAX_STORED_VIOLATIONS),
+    violationCounts: {
+      A: violations.filter(item => item.level === 'A').length,
+      AA: violations.filter(item => item.level === 'AA').length,
+      AAA: violations.filter(item => item.level === 'AAA').length
+    },
+    complianceLevel: getComplianceLevel(violations),
+    ...(sorted.length > MAX_STORED_VIOLATIONS && { truncated: true })
+  };
+};
+
+const auditCache = new WeakMap<object, AccessibilityAudit | undefined>();
+
+// Per-element audit of an evaluation result: violations reported by the server are used as-is,
+// otherwise the captured HTML is checked here. Cached per result since every phase asks for it.
+export const getAccessibilityAudit = (evaluationResults: any): AccessibilityAudit | undefined => {
+  if (!evaluationResults) return undefined;
+  if (auditCache.has(evaluationResults)) return auditCache.get(evaluationResults);
+
+  let audit: AccessibilityAudit | undefined;
+  const serverViolations: AccessibilityViolation[] | undefined = evaluationResults.accessibility?.violations;
+  if (serverViolations || evaluationResults.htmlContent) {
+    const violations = serverViolations ? [...serverViolations] : auditHtml(evaluationResults.htmlContent);
+    const lowContrastElements = evaluationResults.colorContrast?.lowContrastElements || 0;
+    if (lowContrastElements > 0 && !violations.some(item => item.rule === 'color-contrast')) {
+      violations.push({
+        ...violation('color-contrast', '1.4.3', `${lowContrastElements} elements fall below a 4.5:1 contrast ratio`),
+        selector: 'multiple elements'
+      });
+    }
+    audit = buildAudit(violations);
+  }
+
+  auditCache.set(evaluationResults, audit);
+  return audit;
+};
+
+// Compact form for the chat prompts: the counts plus one line per violation
+export const summarizeAudit = (audit: AccessibilityAudit, limit = 20) => ({
+  complianceLevel: describeComplianceLevel(audit.complianceLevel),
+  violationCounts: audit.violationCounts,
+  violations: audit.violations
+    .slice(0, limit)
+    .map(item => `${item.criterion} (${item.level}) ${item.selector}: ${item.message}`)
+});
@@ -0,0 +1,309 @@
+import { EvaluationResult, streamEvaluation } from './evaluator';
+import { toPercentScore } from '../utils/scores';
+import { hasSecurityHeader } from './securityAnalysis';
+
+export const BENCHMARK_LIMITS = {
+  MAX_COMPETITORS: 4
+};
+
+export type BenchmarkCategory =
+  | 'Performance'
+  | 'Lighthouse'
+  | 'Accessibility'
+  | 'SEO'
+  | 'Best Practices'
+  | 'Security'
+  | 'Functionality';
+
+export interface BenchmarkSite {
+  url: string;
+  isUserSite: boolean;
+  error?: string;
+}
+
+export interface BenchmarkEntry {
+  url: string;
+  value: number | null;
+  // 1 is best; sites sharing a value share a rank; null when the site has no value
+  rank: number | null;
+}
+
+export interface BenchmarkDimension {
+  key: string;
+  label: string;
+  category: BenchmarkCategory;
+  unit: string;
+  higherIsBetter: boolean;
+  entries: BenchmarkEntry[];
+}
+
+export interface BenchmarkStanding {
+  url: string;
+  isUserSite: boolean;
+  averageRank: number;
+  firstPlaces: number;
+  overallRank: number;
+}
+
+export interface BenchmarkResult {
+  siteUrl: string;
+  timestamp: Date;
+  sites: BenchmarkSite[];
+  dimensions: BenchmarkDimension[];
+  standings: BenchmarkStanding[];
+}
+
+interface DimensionConfig {
+  key: string;
+  label: string;
+  category: BenchmarkCategory;
+  unit: string;
+  higherIsBetter: boolean;
+  getValue: (result: EvaluationResult) => number | boolean | undefined | null;
+}
+
+const ratio = (part?: number, total?: number) =>
+  typeof part === 'number' && total ? (part / total) * 100 : undefined;
+
+const DIMENSIONS: DimensionConfig[] = [
+  { key: 'loadTime', label: 'Load Time', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.loadTime },
+  { key: 'domContentLoaded', label: 'DOM Content Loaded', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.domContentLoaded },
+  { key: 'firstPaint', label: 'First Paint', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.firstPaint },
+  { key: 'firstContentfulPaint', label: 'First Contentful Paint', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.firstContentfulPaint },
+  { key: 'largestContentfulPaint', label: 'Largest Contentful Paint', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.largestContentfulPaint },
+  { key: 'timeToInteractive', label: 'Time to Interactive', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.timeToInteractive },
+  { key: 'cumulativeLayoutShift', label: 'Cumulative Layout Shift', category: 'Performance', unit: '', higherIsBetter: false, getValue: r => r.cumulativeLayoutShift },
+  { key: 'ttfb', label: 'Time to First Byte', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.ttfb },
+  { key: 'tbt', label: 'Total Blocking Time', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.tbt },
+  { key: 'estimatedFid', label: 'Estimated FID', category: 'Performance', unit: 'ms', higherIsBetter: false, getValue: r => r.estimatedFid },
+  { key: 'pageSize', label: 'Page Size', category: 'Performance', unit: 'bytes', higherIsBetter: false, getValue: r => r.pageSize },
+  { key: 'requests', label: 'Requests', category: 'Performance', unit: '', higherIsBetter: false, getValue: r => r.requests },
+  { key: 'domElements', label: 'DOM Elements', category: 'Performance', unit: '', higherIsBetter: false, getValue: r => r.domElements },
+  { key: 'lighthousePerformance', label: 'Lighthouse Performance', category: 'Lighthouse', unit: '%', higherIsBetter: true, getValue: r => toPercentScore(r.lighthouse?.performance) },
+  { key: 'lighthouseAccessibility', label: 'Lighthouse Accessibility', category: 'Lighthouse', unit: '%', higherIsBetter: true, getValue: r => toPercentScore(r.lighthouse?.accessibility) },
+  { key: 'lighthouseBestPractices', label: 'Lighthouse Best Practices', category: 'Lighthouse', unit: '%', higherIsBetter: true, getValue: r => toPercentScore(r.lighthouse?.bestPractices) },
+  { key: 'lighthouseSeo', label: 'Lighthouse SEO', category: 'Lighthouse', unit: '%', higherIsBetter: true, getValue: r => toPercentScore(r.lighthouse?.seo) },
+  { key: 'altTextCoverage', label: 'Alt Text Coverage', category: 'Accessibility', unit: '%', higherIsBetter: true, getValue: r => ratio(r.accessibility?.imagesWithAltText, r.accessibility?.totalImages) },
+  { key: 'ariaAttributesCount', label: 'ARIA Attributes', category: 'Accessibility', unit: '', higherIsBetter: true, getValue: r => r.accessibility?.ariaAttributesCount },
+  { key: 'headingCount', label: 'Headings', category: 'Accessibility', unit: '', higherIsBetter: true, getValue: r => r.accessibility?.headingStructure?.length },
+  { key: 'keyboardNavigable', label: 'Keyboard Navigable', category: 'Accessibility', unit: '', higherIsBetter: true, getValue: r => r.accessibility?.keyboardNavigable },
+  { key: 'lowContrastElements', label: 'Low Contrast Elements', category: 'Accessibility', unit: '', higherIsBetter: false, getValue: r => r.colorContrast?.lowContrastElements },
+  {
+    key: 'seoTags',
+    label: 'SEO Tags Present',
+    category: 'SEO',
+    unit: '',
+    higherIsBetter: true,
+    getValue: r => r.seo
+      ? [r.seo.title, r.seo.metaDescription, r.seo.canonicalUrl, r.seo.h1, r.seo.metaViewport].filter(Boolean).length
+      : undefined
+  },
+  { key: 'structuredData', label: 'Structured Data Blocks', category: 'SEO', unit: '', higherIsBetter: true, getValue: r => r.seo?.structuredData?.length },
+  { key: 'optimizedImages', label: 'Optimized Images', category: 'Best Practices', unit: '%', higherIsBetter: true, getValue: r => ratio(r.bestPractices?.optimizedImages, r.bestPractices?.totalImages) },
+  {
+    key: 'semanticElements',
+    label: 'Semantic Elements',
+    category: 'Best Practices',
+    unit: '',
+    higherIsBetter: true,
+    getValue: r => r.bestPractices?.semanticUsage
+      ? Object.values(r.bestPractices.semanticUsage).reduce((sum, count) => sum + count, 0)
+      : undefined
+  },
+  { key: 'fontSizes', label: 'Distinct Font Sizes', category: 'Best Practices', unit: '', higherIsBetter: false, getValue: r => r.fontSizes ? Object.keys(r.fontSizes).length : undefined },
+  { key: 'isHttps', label: 'HTTPS', category: 'Security', unit: '', higherIsBetter: true, getValue: r => r.security?.isHttps },
+  {
+    key: 'securityHeaders',
+    label: 'Security Headers',
+    category: 'Security',
+    unit: '',
+    higherIsBetter: true,
+    getValue: r => r.security
+      ? ['Content-Security-Policy', 'Strict-Transport-Security', 'X-Frame-Options'].filter(header => hasSecurityHeader(r.security, header)).length
+      : undefined
+  },
+  { key: 'brokenLinks', label: 'Broken Links', category: 'Functionality', unit: '', higherIsBetter: false, getValue: r => r.brokenLinks?.brokenLinks },
+  { key: 'isResponsive', label: 'Responsive Layout', category: 'Functionality', unit: '', higherIsBetter: true, getValue: r => r.responsiveness?.isResponsive },
+  { key: 'formsWithSubmit', label: 'Forms With Submit Button', category: 'Functionality', unit: '%', higherIsBetter: true, getValue: r => ratio(r.formFunctionality?.formsWithSubmitButton, r.formFunctionality?.totalForms) },
+  { key: 'interactiveElements', label: 'Interactive Elements', category: 'Functionality', unit: '', higherIsBetter: true, getValue: r => r.formFunctionality?.interactiveElementsCount }
+];
+
+const toNumber = (value: number | boolean | undefined | null): number | null => {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return typeof value === 'number' && !isNaN(value) ? value : null;
+};
+
+class BenchmarkService {
+  normalizeCompetitorUrls(siteUrl: string, competitorUrls: string[]): string[] {
+    const seen = new Set<string>();
+    const urls: string[] = [];
+    try {
+      seen.add(new URL(siteUrl).origin);
+    } catch {
+      // The site URL is validated by the evaluation itself
+    }
+
+    competitorUrls.forEach(raw => {
+      const trimmed = raw.trim();
+      if (!trimmed) return;
+      try {
+        const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+        if (seen.has(url.origin)) return;
+        seen.add(url.origin);
+        urls.push(url.toString());
+      } catch {
+        // Ignore entries that are not URLs
+      }
+    });
+
+    return urls.slice(0, BENCHMARK_LIMITS.MAX_COMPETITORS);
+  }
+
+  // Evaluates the user's site first, then each competitor in turn. Competitor failures are
+  // recorded on the result instead of aborting the whole benchmark.
+  async run(
+    siteUrl: string,
+    competitorUrls: string[],
+    userId: string,
+    onStatus: (status: string) => void
+  ): Promise<{ siteResult: EvaluationResult; benchmark: BenchmarkResult }> {
+    const total = competitorUrls.length + 1;
+
+    const siteResult = await streamEvaluation(siteUrl, userId, {
+      onStatus: status => onStatus(`Site 1 of ${total} (${siteUrl}): ${status}`)
+    });
+
+    const results: { site: BenchmarkSite; result?: EvaluationResult }[] = [
+      { site: { url: siteUrl, isUserSite: true }, result: siteResult }
+    ];
+
+    for (let i = 0; i < competitorUrls.length; i++) {
+      const url = competitorUrls[i];
+      try {
+        const result = await streamEvaluation(url, userId, {
+          onStatus: status => onStatus(`Site ${i + 2} of ${total} (${url}): ${status}`)
+        });
+        results.push({ site: { url, isUserSite: false }, result });
+      } catch (error) {
+        console.error(`Error evaluating competitor ${url}:`, error);
+        results.push({
+          site: {
+            url,
+            isUserSite: false,
+            error: error instanceof Error ? error.message : 'An unknown error occurred'
+          }
+        });
+      }
+    }
+
+    onStatus('Ranking sites...');
+    return {
+      siteResult,
+      benchmark: this.rank(siteUrl, results)
+    };
+  }
+
+  rank(siteUrl: string, results: { site: BenchmarkSite; result?: EvaluationResult }[]): BenchmarkResult {
+    const evaluated = results.filter(entry => entry.result);
+
+    const dimensions: BenchmarkDimension[] = DIMENSIONS.map(config => {
+      const values = evaluated.map(entry => ({
+        url: entry.site.url,
+        value: toNumber(config.getValue(entry.result!))
+      }));
+      const ranked = values
+        .map(entry => entry.value)
+        .filter((value): value is number => value !== null)
+        .sort((a, b) => (config.higherIsBetter ? b - a : a - b));
+
+      return {
+        key: config.key,
+        label: config.label,
+        category: config.category,
+        unit: config.unit,
+        higherIsBetter: config.higherIsBetter,
+        entries: values.map(entry => ({
+          ...entry,
+          rank: entry.value === null ? null : ranked.indexOf(entry.value) + 1
+        }))
+      };
+    }).filter(dimension => dimension.entries.filter(entry => entry.value !== null).length > 1);
+
+    const standings = evaluated.map(entry => {
+      const ranks = dimensions
+        .map(dimension => dimension.entries.find(item => item.url === entry.site.url)?.rank)
+        .filter((rank): rank is number => typeof rank === 'number');
+      return {
+        url: entry.site.url,
+        isUserSite: entry.site.isUserSite,
+        averageRank: ranks.length > 0 ? ranks.reduce((a, b) => a + b, 0) / ranks.length : evaluated.length,
+        firstPlaces: ranks.filter(rank => rank === 1).length,
+        overallRank: 0
+      };
+    });
+
+    [...standings]
+      .sort((a, b) => a.averageRank - b.averageRank || b.firstPlaces - a.firstPlaces)
+      .forEach((standing, index) => {
+        standing.overallRank = index + 1;
+      });
+
+    return {
+      siteUrl,
+      timestamp: new Date(),
+      sites: results.map(entry => entry.site),
+      dimensions,
+      standings: standings.sort((a, b) => a.overallRank - b.overallRank)
+    };
+  }
+
+  // Condensed view sent to the Overall and Recommendations phases so the analysis can reference it
+  summarize(benchmark: BenchmarkResult) {
+    const userStanding = benchmark.standings.find(standing => standing.isUserSite);
+    const evaluatedCount = benchmark.standings.length;
+    const userRank = (dimension: BenchmarkDimension) =>
+      dimension.entries.find(entry => entry.url === benchmark.siteUrl)?.rank;
+    const leader = (dimension: BenchmarkDimension) =>
+      dimension.entries.find(entry => entry.rank === 1);
+
+    return {
+      competitors: benchmark.sites.filter(site => !site.isUserSite).map(site => site.url),
+      failedCompetitors: benchmark.sites.filter(site => site.error).map(site => site.url),
+      overallRank: userStanding ? `${userStanding.overallRank} of ${evaluatedCount}` : 'n/a',
+      standings: benchmark.standings.map(({ url, overallRank, averageRank, firstPlaces }) => ({
+        url,
+        overallRank,
+        averageRank: Number(averageRank.toFixed(2)),
+        firstPlaces
+      })),
+      strengths: benchmark.dimensions
+        .filter(dimension => userRank(dimension) === 1)
+        .map(dimension => dimension.label),
+      weaknesses: benchmark.dimensions
+        .filter(dimension => {
+          const rank = userRank(dimension);
+          return typeof rank === 'number' && rank > 1 && rank === Math.max(...dimension.entries.map(entry => entry.rank || 0));
+        })
+        .map(dimension => ({
+          dimension: dimension.label,
+          leader: leader(dimension)?.url,
+          leaderValue: leader(dimension)?.value,
+          siteValue: dimension.entries.find(entry => entry.url === benchmark.siteUrl)?.value
+        }))
+    };
+  }
+
+  formatValue(dimension: BenchmarkDimension, value: number | null): string {
+    if (value === null) return 'N/A';
+    if (['keyboardNavigable', 'isHttps', 'isResponsive'].includes(dimension.key)) {
+      return value ? 'Yes' : 'No';
+    }
+    if (dimension.unit === 'ms') return `${Math.round(value)} ms`;
+    if (dimension.unit === '%') return `${Math.round(value)}%`;
+    if (dimension.unit === 'bytes') return `${(value / 1024).toFixed(0)} KB`;
+    if (dimension.key === 'cumulativeLayoutShift') return value.toFixed(3);
+    return `${Math.round(value)}`;
+  }
+}
+
+export const benchmarkService = new BenchmarkService();
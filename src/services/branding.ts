@@ -0,0 +1,134 @@
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Per-file upload limits. Files are stored base64-encoded, which adds a third to their size, so a
+// logo and two fonts at the limits can still exceed Firestore's 1 MB document size; the combined
+// encoded size is checked against MAX_ENCODED_BYTES before saving.
+export const BRANDING_LIMITS = {
+  MAX_LOGO_BYTES: 200 * 1024,
+  MAX_FONT_BYTES: 300 * 1024,
+  // Leaves room under the 1 MB limit for the text fields and Firestore's per-field overhead
+  MAX_ENCODED_BYTES: 1000 * 1000 - 16 * 1024
+};
+
+export const LOGO_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+export interface BrandFont {
+  name: string;
+  // Base64-encoded TrueType files, embedded into the pdfmake vfs when a report is generated
+  normal: string;
+  bold?: string;
+}
+
+export interface BrandSettings {
+  companyName: string;
+  // PNG or JPEG data URL; pdfmake cannot render SVG logos
+  logoDataUrl?: string;
+  primaryColor: string;
+  secondaryColor: string;
+  font?: BrandFont;
+  coverTitle: string;
+  coverText?: string;
+  footerContact?: string;
+  showAttribution: boolean;
+}
+
+export const DEFAULT_BRAND_SETTINGS: BrandSettings = {
+  companyName: 'Olive',
+  primaryColor: '#2c3e50',
+  secondaryColor: '#34495e',
+  coverTitle: 'Website Evaluation Report',
+  showAttribution: true
+};
+
+class BrandingService {
+  private brandingRef(userId: string) {
+    return doc(db, 'users', userId, 'settings', 'branding');
+  }
+
+  async getBranding(userId?: string | null): Promise<BrandSettings> {
+    if (!userId) return DEFAULT_BRAND_SETTINGS;
+
+    try {
+      const snapshot = await getDoc(this.brandingRef(userId));
+      if (!snapshot.exists()) return DEFAULT_BRAND_SETTINGS;
+
+      const data = snapshot.data();
+      return {
+        companyName: data.companyName || DEFAULT_BRAND_SETTINGS.companyName,
+        logoDataUrl: data.logoDataUrl || undefined,
+        primaryColor: data.primaryColor || DEFAULT_BRAND_SETTINGS.primaryColor,
+        secondaryColor: data.secondaryColor || DEFAULT_BRAND_SETTINGS.secondaryColor,
+        font: data.font?.normal ? {
+          name: data.font.name,
+          normal: data.font.normal,
+          bold: data.font.bold || undefined
+        } : undefined,
+        coverTitle: data.coverTitle || DEFAULT_BRAND_SETTINGS.coverTitle,
+        coverText: data.coverText || undefined,
+        footerContact: data.footerContact || undefined,
+        showAttribution: data.showAttribution !== false
+      };
+    } catch (error) {
+      // Reports still generate with the default branding if the settings can't be read
+      console.error('Error fetching brand settings:', error);
+      return DEFAULT_BRAND_SETTINGS;
+    }
+  }
+
+  // Size of the logo and font files as stored (base64 is ASCII, one byte per character)
+  getEncodedSize(settings: BrandSettings): number {
+    return (settings.logoDataUrl?.length || 0) + (settings.font?.normal.length || 0) + (settings.font?.bold?.length || 0);
+  }
+
+  async saveBranding(userId: string, settings: BrandSettings): Promise<void> {
+    const encodedSize = this.getEncodedSize(settings);
+    if (encodedSize > BRANDING_LIMITS.MAX_ENCODED_BYTES) {
+      throw new Error(
+        `Logo and font files take ${Math.round(encodedSize / 1024)} KB once encoded, over the ${Math.round(BRANDING_LIMITS.MAX_ENCODED_BYTES / 1024)} KB limit. Use a smaller logo or drop the bold font.`
+      );
+    }
+
+    try {
+      // Firestore rejects undefined fields, so optional values are stored as null
+      await setDoc(this.brandingRef(userId), {
+        companyName: settings.companyName.trim() || DEFAULT_BRAND_SETTINGS.companyName,
+        logoDataUrl: settings.logoDataUrl || null,
+        primaryColor: settings.primaryColor,
+        secondaryColor: settings.secondaryColor,
+        font: settings.font ? {
+          name: settings.font.name,
+          normal: settings.font.normal,
+          bold: settings.font.bold || null
+        } : null,
+        coverTitle: settings.coverTitle.trim() || DEFAULT_BRAND_SETTINGS.coverTitle,
+        coverText: settings.coverText || null,
+        footerContact: settings.footerContact || null,
+        showAttribution: settings.showAttribution,
+        updatedAt: Timestamp.fromDate(new Date())
+      });
+    } catch (error) {
+      console.error('Error saving brand settings:', error);
+      throw new Error('Failed to save brand settings');
+    }
+  }
+
+  // Reads an uploaded file as base64 (without the data URL prefix) for fonts, or as a data URL for logos
+  readFile(file: File, maxBytes: number, asDataUrl: boolean = false): Promise<string> {
+    if (file.size > maxBytes) {
+      return Promise.reject(new Error(`${file.name} is larger than ${Math.round(maxBytes / 1024)} KB`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const result = reader.result as string;
+        resolve(asDataUrl ? result : result.slice(result.indexOf(',') + 1));
+      };
+      reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+      reader.readAsDataURL(file);
+    });
+  }
+}
+
+export const brandingService = new BrandingService();
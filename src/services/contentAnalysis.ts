@@ -0,0 +1,440 @@
+export const CONTENT_LIMITS = {
+  // Pages with less copy than this are reported as thin content
+  THIN_CONTENT_WORDS: 300,
+  // Paragraphs shorter than this (e.g. "Read more") aren't compared for duplicates
+  DUPLICATE_MIN_WORDS: 8,
+  // Sentences longer than this are hard to follow
+  LONG_SENTENCE_WORDS: 25,
+  // Share of a heading's terms its section copy has to repeat to count as aligned
+  HEADING_TERM_OVERLAP: 1 / 3,
+  // Target keyword density range in percent; above the maximum reads as keyword stuffing
+  KEYWORD_DENSITY: { min: 0.5, max: 2.5 },
+  WORDS_PER_MINUTE: 238,
+  MAX_TOP_TERMS: 10,
+  MAX_HEADINGS: 30,
+  MAX_DUPLICATE_PARAGRAPHS: 20
+};
+
+export interface ReadabilityScores {
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  smogIndex: number;
+  colemanLiau: number;
+  automatedReadabilityIndex: number;
+}
+
+export type KeywordDensityStatus = 'missing' | 'low' | 'optimal' | 'high';
+
+export interface KeywordAnalysis {
+  keyword: string;
+  occurrences: number;
+  // Percentage of the page's words taken up by the keyword
+  density: number;
+  status: KeywordDensityStatus;
+  inTitle: boolean;
+  inMetaDescription: boolean;
+  inH1: boolean;
+  // Number of h2-h6 headings that contain the keyword
+  inSubheadings: number;
+  inFirstParagraph: boolean;
+  inUrl: boolean;
+}
+
+export interface TermFrequency {
+  term: string;
+  count: number;
+  density: number;
+}
+
+export interface DuplicateParagraph {
+  // First words of the paragraph as it appears on the page
+  text: string;
+  count: number;
+}
+
+export interface HeadingAlignment {
+  level: number;
+  text: string;
+  // Words in the copy between this heading and the next one of the same or a higher level
+  sectionWords: number;
+  // Share of the heading's terms that the section copy repeats
+  overlap: number;
+  aligned: boolean;
+}
+
+export interface ContentAnalysis {
+  wordCount: number;
+  sentenceCount: number;
+  paragraphCount: number;
+  averageSentenceLength: number;
+  longSentences: number;
+  readingTimeMinutes: number;
+  readability: ReadabilityScores;
+  readingLevel: string;
+  // Visible text as a share of the HTML size
+  textToHtmlRatio: number;
+  thinContent: boolean;
+  duplicateParagraphs: DuplicateParagraph[];
+  headingAlignment: HeadingAlignment[];
+  topTerms: TermFrequency[];
+  // null when no target keyword was given
+  keyword: KeywordAnalysis | null;
+}
+
+export interface ContentAnalysisOptions {
+  targetKeyword?: string;
+  title?: string;
+  metaDescription?: string;
+  url?: string;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before', 'being', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'each', 'for', 'from', 'get', 'had', 'has', 'have', 'how', 'if', 'in', 'into', 'is', 'it',
+  'its', 'just', 'more', 'most', 'my', 'no', 'not', 'of', 'on', 'one', 'or', 'other', 'our', 'out', 'over', 'so', 'some', 'than',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'up', 'us', 'very', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+// Leaf text blocks; a list item wrapping a paragraph is read once, through the paragraph
+const BLOCK_SELECTOR = 'p, li, blockquote, dd, figcaption, td';
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+const round = (value: number, digits: number = 1) => Number(value.toFixed(digits));
+
+// Latin letters including accented ones; digits only count as part of a word
+const LETTER = 'A-Za-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u024F';
+const WORD_PATTERN = new RegExp(`[${LETTER}0-9][${LETTER}0-9'’-]*`, 'g');
+const LETTER_PATTERN = new RegExp(`[${LETTER}]`);
+const NON_LETTER_PATTERN = new RegExp(`[^${LETTER}]`, 'g');
+
+const getWords = (text: string): string[] =>
+  (text.match(WORD_PATTERN) || []).filter(word => LETTER_PATTERN.test(word));
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/['’]s$/, '').replace(/['’]/g, '');
+
+// Crude plural and tense folding so "pricing" in a heading matches "prices" in the copy
+const stem = (word: string) => word.replace(/(?:ing|ed|es|s)$/, '') || word;
+
+const getTerms = (text: string): string[] =>
+  getWords(text).map(normalizeWord).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+const getSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+(?:[.!?]+|$)/g) || []).filter(sentence => getWords(sentence).length > 0);
+
+const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const groups = letters
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 0);
+};
+
+const getText = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+// main or the single article when the page marks one up, otherwise the body without its navigation chrome
+const getContentRoot = (doc: Document): Element => {
+  doc.querySelectorAll('script, style, noscript, template, svg, iframe').forEach(element => element.remove());
+  const articles = doc.querySelectorAll('article');
+  const root = doc.querySelector('main, [role="main"]') || (articles.length === 1 ? articles[0] : null);
+  if (root) {
+    root.querySelectorAll('nav, aside').forEach(element => element.remove());
+    return root;
+  }
+  doc.body.querySelectorAll('header, nav, footer, aside, [role="navigation"], [role="contentinfo"]').forEach(element => element.remove());
+  return doc.body;
+};
+
+// Text nodes joined with spaces so adjacent blocks don't run together
+const getVisibleText = (root: Element): string => {
+  const walker = root.ownerDocument.createTreeWalker(root, 4 /* NodeFilter.SHOW_TEXT */);
+  const parts: string[] = [];
+  while (walker.nextNode()) {
+    const text = walker.currentNode.textContent?.trim();
+    if (text) parts.push(text);
+  }
+  return parts.join(' ');
+};
+
+export const getReadingLevel = (fleschReadingEase: number): string => {
+  if (fleschReadingEase >= 90) return 'Very easy (5th grade)';
+  if (fleschReadingEase >= 80) return 'Easy (6th grade)';
+  if (fleschReadingEase >= 70) return 'Fairly easy (7th grade)';
+  if (fleschReadingEase >= 60) return 'Plain English (8th-9th grade)';
+  if (fleschReadingEase >= 50) return 'Fairly difficult (10th-12th grade)';
+  if (fleschReadingEase >= 30) return 'Difficult (college)';
+  return 'Very difficult (college graduate)';
+};
+
+const getReadability = (sentences: string[]): ReadabilityScores => {
+  const words = sentences.flatMap(getWords);
+  const wordCount = Math.max(1, words.length);
+  const sentenceCount = Math.max(1, sentences.length);
+  const syllables = words.map(countSyllables);
+  const totalSyllables = syllables.reduce((sum, count) => sum + count, 0);
+  const polysyllables = syllables.filter(count => count >= 3).length;
+  const letters = words.reduce((sum, word) => sum + word.replace(NON_LETTER_PATTERN, '').length, 0);
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = totalSyllables / wordCount;
+
+  return {
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    gunningFog: round(0.4 * (wordsPerSentence + 100 * (polysyllables / wordCount))),
+    smogIndex: round(1.043 * Math.sqrt(polysyllables * (30 / sentenceCount)) + 3.1291),
+    colemanLiau: round(0.0588 * (letters / wordCount) * 100 - 0.296 * (sentenceCount / wordCount) * 100 - 15.8),
+    automatedReadabilityIndex: round(4.71 * (letters / wordCount) + 0.5 * wordsPerSentence - 21.43)
+  };
+};
+
+const containsPhrase = (text: string, phrase: string[]): boolean =>
+  countPhrase(getWords(text).map(normalizeWord), phrase) > 0;
+
+const countPhrase = (words: string[], phrase: string[]): number => {
+  let count = 0;
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((term, offset) => words[i + offset] === term)) count++;
+  }
+  return count;
+};
+
+const getDensityStatus = (density: number): KeywordDensityStatus => {
+  if (density === 0) return 'missing';
+  if (density < CONTENT_LIMITS.KEYWORD_DENSITY.min) return 'low';
+  if (density > CONTENT_LIMITS.KEYWORD_DENSITY.max) return 'high';
+  return 'optimal';
+};
+
+const analyzeKeyword = (
+  keyword: string,
+  words: string[],
+  doc: { headings: Element[]; firstParagraph: string },
+  options: ContentAnalysisOptions
+): KeywordAnalysis => {
+  const phrase = getWords(keyword).map(normalizeWord);
+  const occurrences = countPhrase(words, phrase);
+  const density = words.length > 0 ? round((occurrences * phrase.length / words.length) * 100, 2) : 0;
+  let path = '';
+  try {
+    path = options.url ? decodeURIComponent(new URL(options.url).pathname) : '';
+  } catch {
+    // Not an absolute URL; the URL check stays false
+  }
+
+  return {
+    keyword: keyword.trim(),
+    occurrences,
+    density,
+    status: getDensityStatus(density),
+    inTitle: containsPhrase(options.title || '', phrase),
+    inMetaDescription: containsPhrase(options.metaDescription || '', phrase),
+    inH1: doc.headings.some(heading => heading.tagName === 'H1' && containsPhrase(getText(heading), phrase)),
+    inSubheadings: doc.headings.filter(heading => heading.tagName !== 'H1' && containsPhrase(getText(heading), phrase)).length,
+    inFirstParagraph: containsPhrase(doc.firstParagraph, phrase),
+    inUrl: containsPhrase(path.replace(/[-_/.]+/g, ' '), phrase)
+  };
+};
+
+const findDuplicateParagraphs = (paragraphs: string[]): DuplicateParagraph[] => {
+  const groups = new Map<string, DuplicateParagraph>();
+  paragraphs.forEach(paragraph => {
+    const words = getWords(paragraph).map(normalizeWord);
+    if (words.length < CONTENT_LIMITS.DUPLICATE_MIN_WORDS) return;
+    const key = words.join(' ');
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(key, { text: paragraph.length > 120 ? `${paragraph.slice(0, 117)}...` : paragraph, count: 1 });
+    }
+  });
+  return Array.from(groups.values())
+    .filter(group => group.count > 1)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, CONTENT_LIMITS.MAX_DUPLICATE_PARAGRAPHS);
+};
+
+// Each h1-h4 against the copy up to the next heading of the same or a higher level
+const alignHeadings = (items: Element[]): HeadingAlignment[] => {
+  const levelOf = (element: Element) => (element.matches(HEADING_SELECTOR) ? Number(element.tagName[1]) : 0);
+
+  return items
+    .map((item, index) => ({ item, index, level: levelOf(item) }))
+    .filter(({ level }) => level > 0 && level <= 4)
+    .slice(0, CONTENT_LIMITS.MAX_HEADINGS)
+    .map(({ item, index, level }) => {
+      const section: string[] = [];
+      for (const next of items.slice(index + 1)) {
+        const nextLevel = levelOf(next);
+        if (nextLevel > 0 && nextLevel <= level) break;
+        section.push(getText(next));
+      }
+      const headingTerms = Array.from(new Set(getTerms(getText(item)).map(stem)));
+      const sectionTerms = new Set(section.flatMap(getTerms).map(stem));
+      const sectionWords = section.reduce((sum, text) => sum + getWords(text).length, 0);
+      const overlap = headingTerms.length > 0
+        ? headingTerms.filter(term => sectionTerms.has(term)).length / headingTerms.length
+        : 1;
+
+      return {
+        level,
+        text: getText(item),
+        sectionWords,
+        overlap: round(overlap, 2),
+        aligned: sectionWords > 0 && overlap >= CONTENT_LIMITS.HEADING_TERM_OVERLAP
+      };
+    });
+};
+
+export const analyzeContent = (htmlContent: string, options: ContentAnalysisOptions = {}): ContentAnalysis => {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const title = options.title ?? doc.title;
+  const metaDescription = options.metaDescription ?? doc.querySelector('meta[name="description"]')?.getAttribute('content') ?? '';
+  const root = getContentRoot(doc);
+
+  const items = Array.from(root.querySelectorAll(`${HEADING_SELECTOR}, ${BLOCK_SELECTOR}`))
+    .filter(element => element.matches(HEADING_SELECTOR) || !element.querySelector(BLOCK_SELECTOR))
+    .filter(element => getText(element).length > 0);
+  const headings = items.filter(element => element.matches(HEADING_SELECTOR));
+  const paragraphs = items.filter(element => !element.matches(HEADING_SELECTOR)).map(getText);
+
+  // Readability is scored on the prose; a block without closing punctuation still ends its sentence
+  const sentences = paragraphs.flatMap(getSentences);
+  const sentenceLengths = sentences.map(sentence => getWords(sentence).length);
+  const visibleText = getVisibleText(root);
+  const words = getWords(visibleText).map(normalizeWord);
+  const readability = getReadability(sentences);
+
+  const termCounts = new Map<string, number>();
+  words.filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .forEach(word => termCounts.set(word, (termCounts.get(word) || 0) + 1));
+  const topTerms = Array.from(termCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, CONTENT_LIMITS.MAX_TOP_TERMS)
+    .map(([term, count]) => ({ term, count, density: round((count / words.length) * 100, 2) }));
+
+  return {
+    wordCount: words.length,
+    sentenceCount: sentences.length,
+    paragraphCount: paragraphs.length,
+    averageSentenceLength: sentences.length > 0 ? round(sentenceLengths.reduce((sum, length) => sum + length, 0) / sentences.length) : 0,
+    longSentences: sentenceLengths.filter(length => length > CONTENT_LIMITS.LONG_SENTENCE_WORDS).length,
+    readingTimeMinutes: Math.max(1, Math.ceil(words.length / CONTENT_LIMITS.WORDS_PER_MINUTE)),
+    readability,
+    readingLevel: getReadingLevel(readability.fleschReadingEase),
+    textToHtmlRatio: htmlContent.length > 0 ? round(visibleText.length / htmlContent.length, 3) : 0,
+    thinContent: words.length < CONTENT_LIMITS.THIN_CONTENT_WORDS,
+    duplicateParagraphs: findDuplicateParagraphs(paragraphs),
+    headingAlignment: alignHeadings(items),
+    topTerms,
+    keyword: options.targetKeyword?.trim()
+      ? analyzeKeyword(options.targetKeyword, words, { headings, firstParagraph: paragraphs[0] || '' }, { ...options, title, metaDescription })
+      : null
+  };
+};
+
+// One analysis per evaluation and target keyword
+const analysisCache = new WeakMap<object, Map<string, ContentAnalysis | undefined>>();
+
+// pageUrl is the evaluated URL, checked for the keyword
+export const getContentAnalysis = (evaluationResults: any, pageUrl: string, targetKeyword: string = ''): ContentAnalysis | undefined => {
+  if (!evaluationResults) return undefined;
+  const keyword = targetKeyword.trim().toLowerCase();
+  const cached = analysisCache.get(evaluationResults) || new Map<string, ContentAnalysis | undefined>();
+  analysisCache.set(evaluationResults, cached);
+  if (cached.has(keyword)) return cached.get(keyword);
+
+  const analysis = evaluationResults.htmlContent
+    ? analyzeContent(evaluationResults.htmlContent, {
+        targetKeyword: keyword,
+        title: evaluationResults.seo?.title,
+        metaDescription: evaluationResults.seo?.metaDescription,
+        url: pageUrl
+      })
+    : undefined;
+
+  cached.set(keyword, analysis);
+  return analysis;
+};
+
+const KEYWORD_STATUS_TEXT: { [status in KeywordDensityStatus]: string } = {
+  missing: 'does not appear in the copy',
+  low: 'is used less often than the recommended density',
+  optimal: 'is within the recommended density',
+  high: 'is used so often it may read as keyword stuffing'
+};
+
+// Plain-language lines for technicalAnalysis.content.readabilityAssessment
+export const describeReadability = (analysis: ContentAnalysis): string[] => [
+  `${analysis.wordCount} words in ${analysis.paragraphCount} paragraph(s), about ${analysis.readingTimeMinutes} minute(s) to read`,
+  `Flesch reading ease ${analysis.readability.fleschReadingEase}: ${analysis.readingLevel}`,
+  `Flesch-Kincaid grade ${analysis.readability.fleschKincaidGrade}, Gunning fog ${analysis.readability.gunningFog}, SMOG ${analysis.readability.smogIndex}`,
+  `Average sentence length ${analysis.averageSentenceLength} words${analysis.longSentences > 0 ? `; ${analysis.longSentences} sentence(s) exceed ${CONTENT_LIMITS.LONG_SENTENCE_WORDS} words` : ''}`
+];
+
+// Plain-language lines for technicalAnalysis.content.keywordAnalysis
+export const describeKeyword = (analysis: ContentAnalysis): string[] => {
+  const { keyword } = analysis;
+  if (!keyword) {
+    return [`No target keyword given; most frequent terms: ${analysis.topTerms.slice(0, 5).map(term => `${term.term} (${term.density}%)`).join(', ') || 'none'}`];
+  }
+
+  const placements: [string, boolean][] = [
+    ['title', keyword.inTitle],
+    ['meta description', keyword.inMetaDescription],
+    ['H1', keyword.inH1],
+    ['subheadings', keyword.inSubheadings > 0],
+    ['first paragraph', keyword.inFirstParagraph],
+    ['URL', keyword.inUrl]
+  ];
+  const missing = placements.filter(([, found]) => !found).map(([label]) => label);
+  return [
+    `"${keyword.keyword}" appears ${keyword.occurrences} time(s) (${keyword.density}% density) and ${KEYWORD_STATUS_TEXT[keyword.status]}`,
+    missing.length > 0 ? `Missing from: ${missing.join(', ')}` : 'Present in the title, meta description, headings, first paragraph and URL'
+  ];
+};
+
+// Deterministic findings that lead the content recommendations
+export const getContentRecommendations = (analysis: ContentAnalysis): string[] => {
+  const misaligned = analysis.headingAlignment.filter(heading => !heading.aligned);
+  const { keyword } = analysis;
+  return [
+    ...(analysis.thinContent
+      ? [`Expand the copy: ${analysis.wordCount} words is below the ${CONTENT_LIMITS.THIN_CONTENT_WORDS}-word thin content threshold`]
+      : []),
+    ...analysis.duplicateParagraphs.map(duplicate => `Rewrite or remove the paragraph repeated ${duplicate.count} times: "${duplicate.text}"`),
+    ...(analysis.readability.fleschReadingEase < 50
+      ? [`Simplify the copy (reading level: ${analysis.readingLevel}); shorter sentences and plainer words make it easier to scan`]
+      : []),
+    ...(keyword && keyword.status !== 'optimal'
+      ? [`Adjust the use of "${keyword.keyword}" to a ${CONTENT_LIMITS.KEYWORD_DENSITY.min}-${CONTENT_LIMITS.KEYWORD_DENSITY.max}% density (currently ${keyword.density}%)`]
+      : []),
+    ...(keyword && !keyword.inTitle ? [`Include "${keyword.keyword}" in the page title`] : []),
+    ...(keyword && !keyword.inH1 ? [`Include "${keyword.keyword}" in the H1 heading`] : []),
+    ...misaligned.slice(0, 5).map(heading => heading.sectionWords === 0
+      ? `Add copy under the heading "${heading.text}" or remove it`
+      : `The copy under "${heading.text}" doesn't cover what the heading promises`)
+  ];
+};
+
+// Compact form for the chat prompts
+export const summarizeContent = (analysis: ContentAnalysis) => ({
+  wordCount: analysis.wordCount,
+  paragraphCount: analysis.paragraphCount,
+  readingTimeMinutes: analysis.readingTimeMinutes,
+  readability: analysis.readability,
+  readingLevel: analysis.readingLevel,
+  averageSentenceLength: analysis.averageSentenceLength,
+  longSentences: analysis.longSentences,
+  textToHtmlRatio: analysis.textToHtmlRatio,
+  thinContent: analysis.thinContent,
+  duplicateParagraphs: analysis.duplicateParagraphs.map(duplicate => `${duplicate.count}x "${duplicate.text}"`),
+  misalignedHeadings: analysis.headingAlignment
+    .filter(heading => !heading.aligned)
+    .map(heading => `h${heading.level} "${heading.text}" (${heading.sectionWords} words, ${Math.round(heading.overlap * 100)}% term overlap)`),
+  topTerms: analysis.topTerms.map(term => `${term.term} (${term.density}%)`),
+  ...(analysis.keyword && { keyword: analysis.keyword })
+});
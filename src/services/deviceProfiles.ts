@@ -0,0 +1,172 @@
+import {
+  EvaluationResult,
+  DeviceType,
+  DeviceSettings,
+  DeviceProfiles,
+  ProfileMetrics,
+  streamEvaluation
+} from './evaluator';
+import { getLighthouseScore, toPercentScore } from '../utils/scores';
+
+export interface ThrottlingPreset {
+  label: string;
+  downloadKbps: number;
+  uploadKbps: number;
+  latencyMs: number;
+  cpuSlowdown: number;
+}
+
+// Mirrors the Lighthouse/DevTools network presets the evaluation server accepts
+export const THROTTLING_PRESETS: { [id: string]: ThrottlingPreset } = {
+  none: { label: 'No throttling', downloadKbps: 0, uploadKbps: 0, latencyMs: 0, cpuSlowdown: 1 },
+  broadband: { label: 'Broadband', downloadKbps: 10240, uploadKbps: 10240, latencyMs: 40, cpuSlowdown: 1 },
+  'fast-4g': { label: 'Fast 4G', downloadKbps: 9000, uploadKbps: 1500, latencyMs: 60, cpuSlowdown: 4 },
+  'slow-4g': { label: 'Slow 4G', downloadKbps: 1638, uploadKbps: 750, latencyMs: 150, cpuSlowdown: 4 },
+  '3g': { label: 'Regular 3G', downloadKbps: 750, uploadKbps: 250, latencyMs: 300, cpuSlowdown: 4 }
+};
+
+export const DEVICE_VIEWPORTS: { [device in DeviceType]: { width: number; height: number; label: string } } = {
+  mobile: { width: 412, height: 823, label: 'Mobile' },
+  desktop: { width: 1350, height: 940, label: 'Desktop' }
+};
+
+export const DEFAULT_THROTTLING: { [device in DeviceType]: string } = {
+  mobile: 'slow-4g',
+  desktop: 'broadband'
+};
+
+export interface DeviceDelta {
+  key: keyof ProfileMetrics | 'lighthousePerformance';
+  label: string;
+  unit: string;
+  higherIsBetter: boolean;
+  mobile: number;
+  desktop: number;
+  // mobile - desktop
+  delta: number;
+}
+
+const DELTA_METRICS: {
+  key: DeviceDelta['key'];
+  label: string;
+  unit: string;
+  higherIsBetter?: boolean;
+  getValue: (profile: ProfileMetrics) => number | undefined;
+}[] = [
+  { key: 'score', label: 'Score', unit: '%', higherIsBetter: true, getValue: p => p.score },
+  { key: 'lighthousePerformance', label: 'Lighthouse Performance', unit: '%', higherIsBetter: true, getValue: p => toPercentScore(p.lighthouse?.performance) },
+  { key: 'firstContentfulPaint', label: 'First Contentful Paint', unit: 'ms', getValue: p => p.firstContentfulPaint },
+  { key: 'largestContentfulPaint', label: 'Largest Contentful Paint', unit: 'ms', getValue: p => p.largestContentfulPaint },
+  { key: 'timeToInteractive', label: 'Time to Interactive', unit: 'ms', getValue: p => p.timeToInteractive },
+  { key: 'cumulativeLayoutShift', label: 'Cumulative Layout Shift', unit: '', getValue: p => p.cumulativeLayoutShift },
+  { key: 'ttfb', label: 'Time to First Byte', unit: 'ms', getValue: p => p.ttfb },
+  { key: 'tbt', label: 'Total Blocking Time', unit: 'ms', getValue: p => p.tbt },
+  { key: 'estimatedFid', label: 'Estimated FID', unit: 'ms', getValue: p => p.estimatedFid },
+  { key: 'loadTime', label: 'Load Time', unit: 'ms', getValue: p => p.loadTime },
+  { key: 'pageSize', label: 'Page Size', unit: 'bytes', getValue: p => p.pageSize },
+  { key: 'requests', label: 'Requests', unit: '', getValue: p => p.requests }
+];
+
+class DeviceProfileService {
+  getSettingsLabel(settings: DeviceSettings): string {
+    const preset = THROTTLING_PRESETS[settings.throttling];
+    return `${DEVICE_VIEWPORTS[settings.device].label} · ${preset ? preset.label : settings.throttling}`;
+  }
+
+  // Missing values default to zero so the profile can be stored in Firestore as-is
+  toProfileMetrics(result: EvaluationResult, settings: DeviceSettings): ProfileMetrics {
+    return {
+      settings,
+      score: getLighthouseScore(result.lighthouse),
+      loadTime: result.loadTime || 0,
+      firstContentfulPaint: result.firstContentfulPaint || 0,
+      largestContentfulPaint: result.largestContentfulPaint || 0,
+      timeToInteractive: result.timeToInteractive || 0,
+      cumulativeLayoutShift: result.cumulativeLayoutShift || 0,
+      ttfb: result.ttfb || 0,
+      tbt: result.tbt || 0,
+      estimatedFid: result.estimatedFid || 0,
+      pageSize: result.pageSize || 0,
+      requests: result.requests || 0,
+      responsiveness: {
+        isResponsive: result.responsiveness?.isResponsive || false,
+        viewportWidth: result.responsiveness?.viewportWidth || 0,
+        pageWidth: result.responsiveness?.pageWidth || 0
+      },
+      lighthouse: {
+        performance: result.lighthouse?.performance || 0,
+        accessibility: result.lighthouse?.accessibility || 0,
+        bestPractices: result.lighthouse?.bestPractices || 0,
+        seo: result.lighthouse?.seo || 0
+      }
+    };
+  }
+
+  // Runs a desktop pass followed by a mobile-emulated pass. The desktop result stays the primary
+  // result so the chat phases behave as before; both passes are attached under deviceProfiles.
+  async run(
+    url: string,
+    userId: string,
+    throttling: { [device in DeviceType]: string },
+    onStatus: (status: string) => void
+  ): Promise<EvaluationResult> {
+    const desktopSettings: DeviceSettings = { device: 'desktop', throttling: throttling.desktop };
+    const mobileSettings: DeviceSettings = { device: 'mobile', throttling: throttling.mobile };
+
+    const desktopResult = await streamEvaluation(url, userId, {
+      device: desktopSettings,
+      onStatus: status => onStatus(`Desktop pass: ${status}`)
+    });
+    const mobileResult = await streamEvaluation(url, userId, {
+      device: mobileSettings,
+      onStatus: status => onStatus(`Mobile pass: ${status}`)
+    });
+
+    return {
+      ...desktopResult,
+      deviceProfiles: {
+        desktop: this.toProfileMetrics(desktopResult, desktopSettings),
+        mobile: this.toProfileMetrics(mobileResult, mobileSettings)
+      }
+    };
+  }
+
+  getDeltas(profiles: DeviceProfiles): DeviceDelta[] {
+    return DELTA_METRICS
+      .map(metric => {
+        const mobile = metric.getValue(profiles.mobile);
+        const desktop = metric.getValue(profiles.desktop);
+        if (typeof mobile !== 'number' || typeof desktop !== 'number') return null;
+        return {
+          key: metric.key,
+          label: metric.label,
+          unit: metric.unit,
+          higherIsBetter: Boolean(metric.higherIsBetter),
+          mobile,
+          desktop,
+          delta: mobile - desktop
+        };
+      })
+      .filter((delta): delta is DeviceDelta => delta !== null);
+  }
+
+  formatValue(delta: DeviceDelta, value: number, signed: boolean = false): string {
+    const sign = signed && value > 0 ? '+' : '';
+    if (delta.unit === 'ms') return `${sign}${Math.round(value)} ms`;
+    if (delta.unit === '%') return `${sign}${Math.round(value)}%`;
+    if (delta.unit === 'bytes') return `${sign}${(value / 1024).toFixed(0)} KB`;
+    if (delta.key === 'cumulativeLayoutShift') return `${sign}${value.toFixed(3)}`;
+    return `${sign}${Math.round(value)}`;
+  }
+
+  // Metric keys understood by metricValidator.rateMetric
+  getRatingKey(delta: DeviceDelta): string | null {
+    if (delta.unit === '%') return 'score';
+    if (['firstContentfulPaint', 'largestContentfulPaint', 'timeToInteractive', 'cumulativeLayoutShift', 'ttfb', 'tbt', 'estimatedFid', 'pageSize'].includes(delta.key)) {
+      return delta.key;
+    }
+    return null;
+  }
+}
+
+export const deviceProfileService = new DeviceProfileService();
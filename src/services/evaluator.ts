@@ -1,6 +1,10 @@
 import axios from 'axios';
 import { getRateLimiter } from '../../backend/src/services/rateLimiter';
 import { compressImage } from '../utils/imageCompression';
+import { AccessibilityViolation } from './accessibilityAudit';
+import { CheckedLink } from './linkInventory';
+import { ImageMeasurement } from './imageAudit';
+import { MixedContentResource } from './tlsInspection';
 
 // Remove the OpenAI import and initialization
 
@@ -9,6 +13,37 @@ const rateLimiter = getRateLimiter(5, 60000); // 5 requests per minute
 // Set the maximum screenshot size to be 80% of the maximum document size (1 MB)
 const MAX_SCREENSHOT_SIZE = 800000; // 800 KB
 
+export type DeviceType = 'mobile' | 'desktop';
+
+export interface DeviceSettings {
+  device: DeviceType;
+  // Key of THROTTLING_PRESETS in deviceProfiles
+  throttling: string;
+}
+
+// Device-sensitive subset of an evaluation, kept per device when a dual-profile run is requested
+export interface ProfileMetrics {
+  settings: DeviceSettings;
+  score: number;
+  loadTime: number;
+  firstContentfulPaint: number;
+  largestContentfulPaint: number;
+  timeToInteractive: number;
+  cumulativeLayoutShift: number;
+  ttfb: number;
+  tbt: number;
+  estimatedFid: number;
+  pageSize: number;
+  requests: number;
+  responsiveness: EvaluationResult['responsiveness'];
+  lighthouse: EvaluationResult['lighthouse'];
+}
+
+export interface DeviceProfiles {
+  mobile: ProfileMetrics;
+  desktop: ProfileMetrics;
+}
+
 export interface EvaluationResult {
   loadTime: number;
   domContentLoaded: number;
@@ -17,6 +52,14 @@ export interface EvaluationResult {
   domElements: number;
   pageSize: number;
   requests: number;
+  // Per-request sizes and attributed blocking time, when the server records resource timing
+  resources?: {
+    url: string;
+    type?: string;
+    transferSize: number;
+    decodedSize: number;
+    blockingTime?: number;
+  }[];
   timeToInteractive: number;
   largestContentfulPaint: number;
   cumulativeLayoutShift: number;
@@ -34,6 +77,8 @@ export interface EvaluationResult {
   brokenLinks: {
     totalLinks: number;
     brokenLinks: number;
+    // Per-link results, when the server reports them
+    links?: CheckedLink[];
   };
   formFunctionality: {
     totalForms: number;
@@ -56,6 +101,8 @@ export interface EvaluationResult {
     totalImages: number;
     headingStructure: Array<{ level: number; text: string }>;
     keyboardNavigable: boolean;
+    // Per-element findings when the server runs its own audit; otherwise derived from htmlContent
+    violations?: AccessibilityViolation[];
   };
   seo: {
     title: string;
@@ -63,6 +110,7 @@ export interface EvaluationResult {
     canonicalUrl: string;
     h1: string;
     metaViewport: string;
+    // Raw JSON-LD blocks as found on the page
     structuredData: string[];
     robotsMeta: string | null;
   };
@@ -70,12 +118,28 @@ export interface EvaluationResult {
     semanticUsage: { [key: string]: number };
     optimizedImages: number;
     totalImages: number;
+    // Per-image measurements, when the server records them; otherwise derived from htmlContent
+    images?: ImageMeasurement[];
   };
   security: {
     isHttps: boolean;
     hasContentSecurityPolicy: boolean;
     hasStrictTransportSecurity: boolean;
     hasXFrameOptions: boolean;
+    // Raw response headers and Set-Cookie values, when the server captures them
+    headers?: Record<string, string>;
+    cookies?: string[];
+    // TLS handshake details, when the server inspects the connection
+    tlsVersion?: string;
+    cipher?: string;
+    certificate?: {
+      subject: string;
+      issuer: string;
+      validFrom: string;
+      validTo: string;
+      chain?: { subject: string; issuer: string; validTo: string }[];
+    };
+    mixedContentResources?: MixedContentResource[];
   };
   ttfb: number;
   tbt: number;
@@ -86,8 +150,15 @@ export interface EvaluationResult {
     bestPractices: number;
     seo: number;
   };
+  deviceProfiles?: DeviceProfiles;
+  // Device and throttling the server applied, echoed back when a profile was requested
+  deviceSettings?: DeviceSettings;
 }
 
+// Older servers ignore the device parameters and run unthrottled desktop, which would pass for a mobile result
+const appliedRequestedProfile = (result: EvaluationResult, device: DeviceSettings): boolean =>
+  result.deviceSettings?.device === device.device && result.deviceSettings?.throttling === device.throttling;
+
 export async function evaluateWebsite(url: string, userId: string): Promise<EvaluationResult> {
   if (!rateLimiter.tryRemoveTokens(1)) {
     throw new Error('Rate limit exceeded. Please try again later.');
@@ -114,4 +185,77 @@ export async function evaluateWebsite(url: string, userId: string): Promise<Eval
     // console.error('Error during evaluation:', error); // Remove this line
     throw new Error('An error occurred while evaluating the website. Please try again.');
   }
-}
\ No newline at end of file
+}
+
+interface StreamEvaluationOptions {
+  onStatus?: (status: string) => void;
+  timeoutMs?: number;
+  // Emulated device and network throttling; the server defaults to an unthrottled desktop run
+  device?: DeviceSettings;
+}
+
+// Runs a single evaluation through the /api/evaluate SSE stream and resolves with the result.
+// Used by flows that need to evaluate several URLs in sequence (e.g. site crawls).
+export function streamEvaluation(
+  url: string,
+  userId: string,
+  { onStatus, timeoutMs = 120000, device }: StreamEvaluationOptions = {}
+): Promise<EvaluationResult> {
+  return new Promise((resolve, reject) => {
+    const deviceParams = device
+      ? `&device=${encodeURIComponent(device.device)}&throttling=${encodeURIComponent(device.throttling)}`
+      : '';
+    const eventSource = new EventSource(
+      `${process.env.REACT_APP_API_URL}/api/evaluate?url=${encodeURIComponent(url)}&userId=${encodeURIComponent(userId)}${deviceParams}`
+    );
+    let settled = false;
+    let timeoutId: ReturnType<typeof setTimeout>;
+
+    const finish = (error: Error | null, result?: EvaluationResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      eventSource.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    };
+
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        finish(new Error(`Evaluation of ${url} timed out.`));
+      }, timeoutMs);
+    };
+
+    resetTimeout();
+
+    eventSource.onmessage = (event) => {
+      resetTimeout();
+      try {
+        const data = JSON.parse(event.data);
+        if (data.status === 'completed' && data.result) {
+          if (device && !appliedRequestedProfile(data.result, device)) {
+            finish(new Error(`The evaluation server did not apply the requested ${device.device} profile (${device.throttling}).`));
+          } else {
+            finish(null, data.result);
+          }
+        } else if (data.status) {
+          onStatus?.(data.status);
+        } else if (data.error) {
+          finish(new Error(data.error));
+        }
+      } catch (error) {
+        finish(new Error(`Error processing evaluation data: ${error instanceof Error ? error.message : 'An unknown error occurred'}`));
+      }
+    };
+
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CLOSED) {
+        finish(new Error('Lost connection to the evaluation server.'));
+      }
+    };
+  });
+}
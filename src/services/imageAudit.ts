@@ -0,0 +1,244 @@
+import { getSelector } from '../utils/domSelectors';
+import { formatBytes } from './resourceBreakdown';
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'svg' | 'bmp' | 'ico' | 'unknown';
+
+// Per-image measurements taken by the evaluation server on the rendered page
+export interface ImageMeasurement {
+  url: string;
+  selector?: string;
+  mimeType?: string;
+  intrinsicWidth: number;
+  intrinsicHeight: number;
+  renderedWidth: number;
+  renderedHeight: number;
+  bytes?: number;
+  lazy: boolean;
+  offscreen: boolean;
+  hasDimensions: boolean;
+}
+
+export interface ImageAuditEntry {
+  url: string;
+  selector: string;
+  format: ImageFormat;
+  // Pixel sizes are null when the server didn't measure the rendered page
+  intrinsicWidth: number | null;
+  intrinsicHeight: number | null;
+  renderedWidth: number | null;
+  renderedHeight: number | null;
+  // Transferred bytes, from the server or the page's resource list
+  bytes: number | null;
+  lazy: boolean;
+  // null when the image's position on the page is unknown
+  offscreen: boolean | null;
+  hasDimensions: boolean;
+  // Estimated bytes saved by serving a modern format / by resizing to the rendered size
+  formatSavings: number;
+  sizingSavings: number;
+  totalSavings: number;
+  issues: string[];
+}
+
+export interface ImageAudit {
+  // Worst offenders first, capped at MAX_STORED_IMAGES
+  images: ImageAuditEntry[];
+  totalImages: number;
+  totalBytes: number;
+  totalSavings: number;
+  // Images with no issues, out of totalImages
+  optimizedImages: number;
+  missingDimensions: number;
+  truncated?: boolean;
+}
+
+export const MAX_STORED_IMAGES = 30;
+
+// Typical size reduction when re-encoding each format as WebP/AVIF at comparable quality
+const MODERN_FORMAT_SAVINGS: { [format in ImageFormat]: number } = {
+  jpeg: 0.3,
+  png: 0.4,
+  gif: 0.5,
+  bmp: 0.9,
+  webp: 0,
+  avif: 0,
+  svg: 0,
+  ico: 0,
+  unknown: 0
+};
+
+// Resizing only counts once at least this share of the pixels is wasted, as in Lighthouse
+const MIN_WASTED_PIXEL_RATIO = 0.25;
+// Savings below this are not worth an entry of their own
+const MIN_REPORTED_SAVINGS = 4096;
+
+const FORMAT_PATTERNS: { pattern: RegExp; format: ImageFormat }[] = [
+  { pattern: /\.jpe?g$|^image\/jpe?g/i, format: 'jpeg' },
+  { pattern: /\.png$|^image\/png/i, format: 'png' },
+  { pattern: /\.gif$|^image\/gif/i, format: 'gif' },
+  { pattern: /\.webp$|^image\/webp/i, format: 'webp' },
+  { pattern: /\.avif$|^image\/avif/i, format: 'avif' },
+  { pattern: /\.svg$|^image\/svg/i, format: 'svg' },
+  { pattern: /\.bmp$|^image\/bmp/i, format: 'bmp' },
+  { pattern: /\.ico$|^image\/(x-icon|vnd\.microsoft\.icon)/i, format: 'ico' }
+];
+
+export const getImageFormat = (url: string, mimeType?: string): ImageFormat => {
+  if (mimeType) {
+    const match = FORMAT_PATTERNS.find(({ pattern }) => pattern.test(mimeType));
+    if (match) return match.format;
+  }
+  if (/^data:image\//i.test(url)) {
+    return getImageFormat('', url.slice(5, url.indexOf(';') > 0 ? url.indexOf(';') : undefined));
+  }
+  let path = url;
+  try {
+    path = new URL(url, 'https://example.com').pathname;
+  } catch {
+    // Keep the raw URL for malformed values
+  }
+  return FORMAT_PATTERNS.find(({ pattern }) => pattern.test(path))?.format || 'unknown';
+};
+
+const toNumber = (value: any): number | null => {
+  const number = Number(value);
+  return value === null || value === undefined || value === '' || isNaN(number) ? null : number;
+};
+
+const estimateSavings = (entry: Omit<ImageAuditEntry, 'formatSavings' | 'sizingSavings' | 'totalSavings' | 'issues'>) => {
+  const issues: string[] = [];
+  let sizingSavings = 0;
+  let formatSavings = 0;
+
+  if (entry.bytes && entry.intrinsicWidth && entry.intrinsicHeight && entry.renderedWidth && entry.renderedHeight) {
+    const wastedRatio = 1 - (entry.renderedWidth * entry.renderedHeight) / (entry.intrinsicWidth * entry.intrinsicHeight);
+    if (wastedRatio >= MIN_WASTED_PIXEL_RATIO) {
+      sizingSavings = Math.round(entry.bytes * wastedRatio);
+      issues.push(`Served at ${entry.intrinsicWidth}x${entry.intrinsicHeight} but displayed at ${entry.renderedWidth}x${entry.renderedHeight}`);
+    }
+  }
+
+  if (entry.bytes && MODERN_FORMAT_SAVINGS[entry.format] > 0) {
+    // Format savings apply to what's left after resizing
+    formatSavings = Math.round((entry.bytes - sizingSavings) * MODERN_FORMAT_SAVINGS[entry.format]);
+    if (formatSavings >= MIN_REPORTED_SAVINGS) {
+      issues.push(`${entry.format.toUpperCase()} could be served as WebP or AVIF`);
+    }
+  }
+
+  if (!entry.hasDimensions) {
+    issues.push('No width/height attributes, so the layout shifts when it loads');
+  }
+  if (entry.offscreen && !entry.lazy) {
+    issues.push('Below the fold but not lazy-loaded');
+  }
+
+  return { formatSavings, sizingSavings, totalSavings: formatSavings + sizingSavings, issues };
+};
+
+// Bytes per URL from the resource list the server recorded for the page, if any
+const getResourceSizes = (evaluationResults: any): Map<string, number> => {
+  const sizes = new Map<string, number>();
+  (evaluationResults.resources || []).forEach((resource: any) => {
+    if (resource?.url && typeof resource.transferSize === 'number') sizes.set(resource.url, resource.transferSize);
+  });
+  return sizes;
+};
+
+// Attribute-level view of the page's images for servers that don't measure them
+const getHtmlImages = (htmlContent: string, baseUrl: string | undefined): any[] => {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  return Array.from(doc.querySelectorAll('img[src]')).map(image => {
+    const src = image.getAttribute('src') || '';
+    let url = src;
+    try {
+      url = baseUrl ? new URL(src, baseUrl).toString() : src;
+    } catch {
+      // Keep the raw src for malformed values
+    }
+    return {
+      url,
+      selector: getSelector(image),
+      loading: image.getAttribute('loading'),
+      hasDimensions: image.hasAttribute('width') && image.hasAttribute('height')
+    };
+  });
+};
+
+const auditCache = new WeakMap<object, ImageAudit | undefined>();
+
+// Per-image audit: the server's measurements when available (rendered size, bytes, position),
+// otherwise the captured HTML with byte sizes matched from the resource list
+export const getImageAudit = (evaluationResults: any): ImageAudit | undefined => {
+  if (!evaluationResults) return undefined;
+  if (auditCache.has(evaluationResults)) return auditCache.get(evaluationResults);
+
+  const serverImages: ImageMeasurement[] | undefined = evaluationResults.bestPractices?.images;
+  // Relative src values are resolved against the canonical URL so they match the resource list
+  const pageUrl: string | undefined = evaluationResults.seo?.canonicalUrl || undefined;
+  const rawImages: any[] | undefined = Array.isArray(serverImages)
+    ? serverImages
+    : evaluationResults.htmlContent ? getHtmlImages(evaluationResults.htmlContent, pageUrl) : undefined;
+
+  let audit: ImageAudit | undefined;
+  if (rawImages) {
+    const resourceSizes = getResourceSizes(evaluationResults);
+    const entries = rawImages.map((image): ImageAuditEntry => {
+      const base = {
+        // Inline images keep only their data: header so the base64 payload isn't stored with the report
+        url: /^data:/i.test(image.url) ? `${image.url.split(',')[0]},...` : image.url,
+        selector: image.selector || '',
+        format: getImageFormat(image.url, image.mimeType),
+        intrinsicWidth: toNumber(image.intrinsicWidth),
+        intrinsicHeight: toNumber(image.intrinsicHeight),
+        renderedWidth: toNumber(image.renderedWidth),
+        renderedHeight: toNumber(image.renderedHeight),
+        bytes: toNumber(image.bytes) ?? resourceSizes.get(image.url) ?? null,
+        lazy: image.lazy ?? image.loading === 'lazy',
+        offscreen: typeof image.offscreen === 'boolean' ? image.offscreen : null,
+        hasDimensions: Boolean(image.hasDimensions)
+      };
+      return { ...base, ...estimateSavings(base) };
+    });
+
+    const sorted = [...entries].sort((a, b) => b.totalSavings - a.totalSavings || b.issues.length - a.issues.length);
+    audit = {
+      images: sorted.slice(0, MAX_STORED_IMAGES),
+      totalImages: entries.length,
+      totalBytes: entries.reduce((total, entry) => total + (entry.bytes || 0), 0),
+      totalSavings: entries.reduce((total, entry) => total + entry.totalSavings, 0),
+      optimizedImages: entries.filter(entry => entry.issues.length === 0).length,
+      missingDimensions: entries.filter(entry => !entry.hasDimensions).length,
+      ...(sorted.length > MAX_STORED_IMAGES && { truncated: true })
+    };
+  }
+
+  auditCache.set(evaluationResults, audit);
+  return audit;
+};
+
+const getFileName = (url: string) => url.split(/[?#]/)[0].split('/').pop() || url;
+
+// Actionable lines for the worst offenders, used in the chat prompt and the Performance recommendations
+export const getImageRecommendations = (audit: ImageAudit, limit = 5): string[] =>
+  audit.images
+    .filter(entry => entry.totalSavings >= MIN_REPORTED_SAVINGS)
+    .slice(0, limit)
+    .map(entry => {
+      const actions = [
+        ...(entry.sizingSavings > 0 ? [`resize ${getFileName(entry.url)} to ${entry.renderedWidth}x${entry.renderedHeight}`] : []),
+        ...(entry.formatSavings > 0 ? [`${entry.sizingSavings > 0 ? 'serve it' : `serve ${getFileName(entry.url)}`} as WebP or AVIF`] : [])
+      ];
+      const sentence = actions.join(' and ');
+      return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)} to save about ${formatBytes(entry.totalSavings)}`;
+    });
+
+// Compact form for the chat prompts
+export const summarizeImageAudit = (audit: ImageAudit) => ({
+  totalImages: audit.totalImages,
+  optimizedImages: audit.optimizedImages,
+  totalBytes: formatBytes(audit.totalBytes),
+  estimatedSavings: formatBytes(audit.totalSavings),
+  missingDimensions: audit.missingDimensions,
+  topOffenders: getImageRecommendations(audit, 10)
+});
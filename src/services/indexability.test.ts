@@ -0,0 +1,55 @@
+import { parseSitemapXml, hasNoindex } from './indexability';
+
+jest.mock('./firebase', () => ({ auth: {}, db: {} }));
+
+describe('parseSitemapXml', () => {
+  it('reads the URLs of a urlset', () => {
+    const parsed = parseSitemapXml(`<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://example.com/</loc></url>
+        <url><loc> https://example.com/about </loc><lastmod>2024-01-01</lastmod></url>
+      </urlset>`);
+
+    expect(parsed).toEqual({ isIndex: false, locs: ['https://example.com/', 'https://example.com/about'], errors: [] });
+  });
+
+  it('reads the child sitemaps of a sitemap index', () => {
+    const parsed = parseSitemapXml(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://example.com/sitemap-pages.xml</loc></sitemap>
+      </sitemapindex>`);
+
+    expect(parsed.isIndex).toBe(true);
+    expect(parsed.locs).toEqual(['https://example.com/sitemap-pages.xml']);
+  });
+
+  it('reports entries without a loc and relative locs', () => {
+    const parsed = parseSitemapXml(`<urlset>
+        <url><loc>/relative</loc></url>
+        <url><lastmod>2024-01-01</lastmod></url>
+      </urlset>`);
+
+    expect(parsed.locs).toEqual(['/relative']);
+    expect(parsed.errors).toEqual(['1 entry has no <loc>', '1 <loc> value(s) are not absolute URLs']);
+  });
+
+  it('rejects markup that is not a sitemap', () => {
+    expect(parseSitemapXml('<html><body>Not found</body></html>').errors)
+      .toEqual(['Unexpected root element <html>, expected <urlset> or <sitemapindex>']);
+    expect(parseSitemapXml('<urlset><url>').errors).toEqual(['Not well-formed XML']);
+  });
+});
+
+describe('hasNoindex', () => {
+  it('finds noindex and none among the directives', () => {
+    expect(hasNoindex(['index, follow'])).toBe(false);
+    expect(hasNoindex(['noindex, nofollow'])).toBe(true);
+    expect(hasNoindex(['NONE'])).toBe(true);
+    expect(hasNoindex([])).toBe(false);
+  });
+
+  it('only applies directives scoped to another crawler to that crawler', () => {
+    expect(hasNoindex(['bingbot: noindex'])).toBe(false);
+    expect(hasNoindex(['googlebot: noindex'])).toBe(true);
+    expect(hasNoindex(['bingbot: noindex', 'noarchive, none'])).toBe(true);
+  });
+});
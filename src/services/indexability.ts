@@ -0,0 +1,306 @@
+import robotsParser from 'robots-parser';
+import { fetchRemoteText } from './remoteFetch';
+
+export const INDEXABILITY_LIMITS = {
+  // Sitemaps listed in robots.txt that are read, and child sitemaps read per sitemap index
+  MAX_SITEMAPS: 3,
+  MAX_CHILD_SITEMAPS: 5,
+  // Protocol limit per sitemap file
+  MAX_SITEMAP_URLS: 50000
+};
+
+// Crawler the robots.txt rules are evaluated for; groups for '*' apply when it has none of its own
+export const INDEXABILITY_USER_AGENT = 'Googlebot';
+
+// 'unknown' when nothing blocks indexing but robots.txt or the sitemap couldn't be checked
+export type IndexabilityVerdict = 'indexable' | 'indexable-with-warnings' | 'not-indexable' | 'unknown';
+
+export const INDEXABILITY_VERDICT_LABELS: { [verdict in IndexabilityVerdict]: string } = {
+  'indexable': 'Indexable',
+  'indexable-with-warnings': 'Indexable with warnings',
+  'not-indexable': 'Not indexable',
+  'unknown': 'Could not be fully checked'
+};
+
+export interface IndexabilityIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface RobotsTxtCheck {
+  url: string;
+  // null when robots.txt couldn't be fetched at all
+  status: number | null;
+  found: boolean;
+  // Whether the evaluated URL may be crawled; null when unknown
+  allowed: boolean | null;
+  // 1-based line of the rule that decided `allowed`, when one matched
+  matchingLine: number | null;
+  crawlDelay: number | null;
+  sitemaps: string[];
+}
+
+export interface SitemapCheck {
+  url: string;
+  status: number | null;
+  valid: boolean;
+  isIndex: boolean;
+  urlCount: number;
+  errors: string[];
+}
+
+export interface IndexabilityReport {
+  url: string;
+  verdict: IndexabilityVerdict;
+  robotsTxt: RobotsTxtCheck;
+  sitemaps: SitemapCheck[];
+  // null when no sitemap could be read
+  inSitemap: boolean | null;
+  noindex: boolean;
+  // meta robots and X-Robots-Tag values that were checked
+  robotsDirectives: string[];
+  canonicalUrl: string | null;
+  canonicalizedElsewhere: boolean;
+  mobileResponsive: boolean;
+  issues: IndexabilityIssue[];
+}
+
+export interface ParsedSitemap {
+  isIndex: boolean;
+  locs: string[];
+  errors: string[];
+}
+
+// Compares URLs the way crawlers dedupe them: no fragment, case-insensitive host, optional trailing slash
+export const normalizeIndexUrl = (url: string, base?: string): string | null => {
+  try {
+    const parsed = new URL(url, base);
+    parsed.hash = '';
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return null;
+  }
+};
+
+export const parseSitemapXml = (xml: string): ParsedSitemap => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { isIndex: false, locs: [], errors: ['Not well-formed XML'] };
+  }
+
+  const root = doc.documentElement?.localName;
+  if (root !== 'urlset' && root !== 'sitemapindex') {
+    return { isIndex: false, locs: [], errors: [`Unexpected root element <${root}>, expected <urlset> or <sitemapindex>`] };
+  }
+
+  const isIndex = root === 'sitemapindex';
+  const entries = Array.from(doc.getElementsByTagName(isIndex ? 'sitemap' : 'url'));
+  const locs = entries.map(entry => entry.getElementsByTagName('loc')[0]?.textContent?.trim() || '');
+  const errors: string[] = [];
+
+  const missingLocs = locs.filter(loc => !loc).length;
+  if (missingLocs > 0) errors.push(`${missingLocs} entr${missingLocs === 1 ? 'y has' : 'ies have'} no <loc>`);
+  const relativeLocs = locs.filter(loc => loc && !/^https?:\/\//i.test(loc)).length;
+  if (relativeLocs > 0) errors.push(`${relativeLocs} <loc> value(s) are not absolute URLs`);
+  if (locs.length > INDEXABILITY_LIMITS.MAX_SITEMAP_URLS) {
+    errors.push(`Lists ${locs.length} URLs, more than the ${INDEXABILITY_LIMITS.MAX_SITEMAP_URLS} allowed per sitemap`);
+  }
+
+  return { isIndex, locs: locs.filter(Boolean), errors };
+};
+
+const getHeader = (headers: Record<string, string> | undefined, name: string): string | undefined =>
+  Object.entries(headers || {}).find(([header]) => header.toLowerCase() === name)?.[1];
+
+// noindex/none in meta robots or X-Robots-Tag; "otherbot: noindex" only applies to the named crawler
+export const hasNoindex = (directives: string[]): boolean =>
+  directives.some(directive => {
+    const scoped = /^\s*([\w-]+)\s*:\s*(.*)$/.exec(directive);
+    if (scoped && scoped[1].toLowerCase() !== INDEXABILITY_USER_AGENT.toLowerCase()) return false;
+    return (scoped ? scoped[2] : directive).split(',').some(rule => ['noindex', 'none'].includes(rule.trim().toLowerCase()));
+  });
+
+export const isMobileResponsive = (evaluationResults: any): boolean =>
+  Boolean(evaluationResults.responsiveness?.isResponsive && /width\s*=\s*device-width/i.test(evaluationResults.seo?.metaViewport || ''));
+
+const getVerdict = (issues: IndexabilityIssue[], unchecked: boolean): IndexabilityVerdict => {
+  if (issues.some(issue => issue.severity === 'error')) return 'not-indexable';
+  if (unchecked) return 'unknown';
+  return issues.length > 0 ? 'indexable-with-warnings' : 'indexable';
+};
+
+// No sitemap could be read, and at least one failed before a response rather than returning 4xx
+export const isSitemapUnchecked = (sitemaps: SitemapCheck[]): boolean =>
+  !sitemaps.some(sitemap => sitemap.status !== null && sitemap.status < 400) && sitemaps.some(sitemap => sitemap.status === null);
+
+class IndexabilityService {
+  private checks = new WeakMap<object, Promise<IndexabilityReport>>();
+  private reports = new WeakMap<object, IndexabilityReport>();
+
+  async checkRobotsTxt(url: string): Promise<RobotsTxtCheck> {
+    const robotsUrl = `${new URL(url).origin}/robots.txt`;
+    const unknown: RobotsTxtCheck = { url: robotsUrl, status: null, found: false, allowed: null, matchingLine: null, crawlDelay: null, sitemaps: [] };
+
+    try {
+      const response = await fetchRemoteText(robotsUrl);
+      if (response.status >= 500) {
+        return { ...unknown, status: response.status };
+      }
+      // A missing robots.txt allows everything
+      if (response.status >= 400 || !response.body) {
+        return { ...unknown, status: response.status, allowed: true };
+      }
+
+      const robots = robotsParser(robotsUrl, response.body);
+      const line = robots.getMatchingLineNumber(url, INDEXABILITY_USER_AGENT);
+      return {
+        url: robotsUrl,
+        status: response.status,
+        found: true,
+        allowed: robots.isAllowed(url, INDEXABILITY_USER_AGENT) ?? null,
+        matchingLine: line > 0 ? line : null,
+        crawlDelay: robots.getCrawlDelay(INDEXABILITY_USER_AGENT) ?? null,
+        sitemaps: robots.getSitemaps()
+      };
+    } catch (error) {
+      console.warn('Unable to read robots.txt:', error);
+      return unknown;
+    }
+  }
+
+  // Reads each sitemap (and the first children of sitemap indexes) and collects the listed URLs
+  async checkSitemaps(sitemapUrls: string[]): Promise<{ sitemaps: SitemapCheck[]; locs: string[] }> {
+    const sitemaps: SitemapCheck[] = [];
+    const locs: string[] = [];
+
+    const readSitemap = async (sitemapUrl: string, followIndex: boolean) => {
+      try {
+        const response = await fetchRemoteText(sitemapUrl);
+        if (response.status >= 400 || !response.body) {
+          sitemaps.push({ url: sitemapUrl, status: response.status, valid: false, isIndex: false, urlCount: 0, errors: [`HTTP ${response.status}`] });
+          return;
+        }
+
+        const parsed = parseSitemapXml(response.body);
+        sitemaps.push({
+          url: sitemapUrl,
+          status: response.status,
+          valid: parsed.errors.length === 0,
+          isIndex: parsed.isIndex,
+          urlCount: parsed.locs.length,
+          errors: parsed.errors
+        });
+        if (!parsed.isIndex) {
+          locs.push(...parsed.locs);
+        } else if (followIndex) {
+          for (const child of parsed.locs.slice(0, INDEXABILITY_LIMITS.MAX_CHILD_SITEMAPS)) {
+            await readSitemap(child, false);
+          }
+        }
+      } catch (error) {
+        console.warn(`Unable to read sitemap ${sitemapUrl}:`, error);
+        sitemaps.push({ url: sitemapUrl, status: null, valid: false, isIndex: false, urlCount: 0, errors: ['Could not be fetched'] });
+      }
+    };
+
+    for (const sitemapUrl of sitemapUrls.slice(0, INDEXABILITY_LIMITS.MAX_SITEMAPS)) {
+      await readSitemap(sitemapUrl, true);
+    }
+    return { sitemaps, locs };
+  }
+
+  async analyze(url: string, evaluationResults: any): Promise<IndexabilityReport> {
+    const robotsTxt = await this.checkRobotsTxt(url);
+    const sitemapUrls = robotsTxt.sitemaps.length > 0 ? robotsTxt.sitemaps : [`${new URL(url).origin}/sitemap.xml`];
+    const { sitemaps, locs } = await this.checkSitemaps(sitemapUrls);
+
+    const normalizedUrl = normalizeIndexUrl(url);
+    const readSitemaps = sitemaps.filter(sitemap => sitemap.status !== null && sitemap.status < 400);
+    const sitemapUnchecked = isSitemapUnchecked(sitemaps);
+    const inSitemap = readSitemaps.length > 0 ? locs.some(loc => normalizeIndexUrl(loc) === normalizedUrl) : null;
+
+    const robotsDirectives = [
+      evaluationResults.seo?.robotsMeta,
+      getHeader(evaluationResults.security?.headers, 'x-robots-tag')
+    ].filter((directive): directive is string => Boolean(directive));
+    const noindex = hasNoindex(robotsDirectives);
+
+    const canonicalUrl = evaluationResults.seo?.canonicalUrl || null;
+    const normalizedCanonical = canonicalUrl ? normalizeIndexUrl(canonicalUrl, url) : null;
+    const canonicalizedElsewhere = Boolean(normalizedCanonical && normalizedCanonical !== normalizedUrl);
+
+    const issues: IndexabilityIssue[] = [];
+    if (robotsTxt.allowed === false) {
+      issues.push({ severity: 'error', message: `Blocked by robots.txt${robotsTxt.matchingLine ? ` (line ${robotsTxt.matchingLine})` : ''}` });
+    } else if (robotsTxt.status !== null && robotsTxt.status >= 500) {
+      issues.push({ severity: 'error', message: `robots.txt returned HTTP ${robotsTxt.status}, so crawlers treat the whole site as blocked` });
+    } else if (robotsTxt.status === null) {
+      issues.push({ severity: 'warning', message: 'robots.txt could not be checked' });
+    }
+    if (noindex) {
+      issues.push({ severity: 'error', message: `Marked noindex (${robotsDirectives.join('; ')})` });
+    }
+    if (canonicalizedElsewhere) {
+      issues.push({ severity: 'error', message: `Canonical URL points to ${canonicalUrl}` });
+    }
+    if (sitemapUnchecked) {
+      issues.push({ severity: 'warning', message: 'Sitemap could not be checked' });
+    } else if (readSitemaps.length === 0) {
+      issues.push({ severity: 'warning', message: 'No sitemap found' });
+    } else if (inSitemap === false) {
+      issues.push({ severity: 'warning', message: 'Not listed in the sitemap' });
+    }
+    sitemaps
+      .filter(sitemap => sitemap.status !== null && sitemap.status < 400 && !sitemap.valid)
+      .forEach(sitemap => issues.push({ severity: 'warning', message: `${sitemap.url}: ${sitemap.errors.join(', ')}` }));
+
+    return {
+      url,
+      verdict: getVerdict(issues, robotsTxt.status === null || sitemapUnchecked),
+      robotsTxt,
+      sitemaps,
+      inSitemap,
+      noindex,
+      robotsDirectives,
+      canonicalUrl,
+      canonicalizedElsewhere,
+      mobileResponsive: isMobileResponsive(evaluationResults),
+      issues
+    };
+  }
+
+  // Runs the check once per evaluation; later calls (SEO phase, report) share the same result
+  check(url: string, evaluationResults: any): Promise<IndexabilityReport> {
+    let pending = this.checks.get(evaluationResults);
+    if (!pending) {
+      pending = this.analyze(url, evaluationResults).then(report => {
+        this.reports.set(evaluationResults, report);
+        return report;
+      });
+      this.checks.set(evaluationResults, pending);
+    }
+    return pending;
+  }
+
+  // The finished check for an evaluation, if check() has completed
+  get(evaluationResults: any): IndexabilityReport | undefined {
+    return evaluationResults ? this.reports.get(evaluationResults) : undefined;
+  }
+
+  // Compact form for the chat prompts
+  summarize(report: IndexabilityReport) {
+    return {
+      verdict: INDEXABILITY_VERDICT_LABELS[report.verdict],
+      issues: report.issues.map(issue => `${issue.severity}: ${issue.message}`),
+      robotsTxt: report.robotsTxt.found
+        ? (report.robotsTxt.allowed === false ? 'blocks this URL' : 'allows this URL')
+        : report.robotsTxt.status === null ? 'could not be checked' : 'not found',
+      sitemaps: report.sitemaps.map(sitemap => `${sitemap.url} (${sitemap.valid ? `${sitemap.urlCount} URLs` : sitemap.errors.join(', ')})`),
+      inSitemap: report.inSitemap,
+      canonicalUrl: report.canonicalUrl,
+      mobileResponsive: report.mobileResponsive
+    };
+  }
+}
+
+export const indexabilityService = new IndexabilityService();
@@ -0,0 +1,336 @@
+import axios from 'axios';
+import { doc, getDoc, setDoc, updateDoc, deleteField, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { getAuthHeaders } from './points';
+import { StoredReport } from './reportStorage';
+import { RecommendationItem, RecommendationPriority } from './recommendations';
+
+export type IssueTrackerType = 'github' | 'jira' | 'webhook';
+
+export interface IssueTrackerConfig {
+  type: IssueTrackerType;
+  // Overridable so a local mock server or a self-hosted instance can stand in for the public API
+  baseUrl: string;
+  // Only set while the user enters a new token; it is handed to the backend and never stored in Firestore
+  token?: string;
+  // Whether the backend holds a token for this tracker
+  hasToken?: boolean;
+  // GitHub: "owner/repo"
+  repository?: string;
+  // Jira: project key, issue type and the account email used for basic auth
+  projectKey?: string;
+  issueType?: string;
+  email?: string;
+  labels?: string[];
+}
+
+export interface IssueTicket {
+  title: string;
+  description: string;
+  priority: RecommendationPriority;
+  phase: string;
+  websiteUrl: string;
+  reportUrl: string;
+  metrics: { [metric: string]: string | number | boolean };
+  labels: string[];
+  recommendationId: string;
+}
+
+export interface CreatedIssue {
+  key: string;
+  url?: string;
+}
+
+// Recorded on the stored report so an item is never filed twice
+export interface ExportedIssue extends CreatedIssue {
+  tracker: IssueTrackerType;
+  exportedAt: Date;
+}
+
+export interface IssueExporter {
+  type: IssueTrackerType;
+  label: string;
+  defaultBaseUrl: string;
+  createIssue(ticket: IssueTicket, config: IssueTrackerConfig): Promise<CreatedIssue>;
+}
+
+const getPhaseMetrics = (report: StoredReport, phase: string): IssueTicket['metrics'] => {
+  const { performance, seo, accessibility, security, formFunctionality, brokenLinks, responsiveness, content } = report.essentialMetrics;
+  switch (phase) {
+    case 'Performance':
+      return {
+        'Largest Contentful Paint (ms)': Math.round(performance.largestContentfulPaint),
+        'First Contentful Paint (ms)': Math.round(performance.firstContentfulPaint),
+        'Cumulative Layout Shift': Number(performance.cumulativeLayoutShift?.toFixed(3)),
+        'Time to First Byte (ms)': Math.round(performance.ttfb),
+        'Total Blocking Time (ms)': Math.round(performance.tbt)
+      };
+    case 'SEO':
+      return {
+        Title: seo.title || 'Missing',
+        'Meta Description': seo.metaDescription || 'Missing',
+        'SEO Score': seo.score
+      };
+    case 'UI':
+      return {
+        'Images with Alt Text': `${accessibility.imagesWithAltText} / ${accessibility.totalImages}`,
+        'ARIA Attributes': accessibility.ariaAttributesCount,
+        'Keyboard Navigable': accessibility.keyboardNavigable,
+        'Responsive Layout': responsiveness?.isResponsive
+      };
+    case 'Functionality':
+      return {
+        'Broken Links': `${brokenLinks?.brokenLinks} / ${brokenLinks?.totalLinks}`,
+        Forms: formFunctionality?.totalForms,
+        HTTPS: security?.isHttps,
+        ...Object.fromEntries(Object.entries(security?.securityHeaders || {}).map(([header, present]) => [header, Boolean(present)]))
+      };
+    case 'Content':
+      if (!content) return { 'Overall Score': `${report.overallScore}%` };
+      return {
+        'Word Count': content.wordCount,
+        'Reading Level': content.readingLevel,
+        'Flesch Reading Ease': content.readability.fleschReadingEase,
+        'Duplicate Paragraphs': content.duplicateParagraphs.length,
+        ...(content.keyword && { [`Keyword Density ("${content.keyword.keyword}")`]: `${content.keyword.density}%` })
+      };
+    default:
+      return { 'Overall Score': `${report.overallScore}%` };
+  }
+};
+
+const formatDescription = (ticket: Omit<IssueTicket, 'description' | 'title' | 'labels'>, text: string): string => [
+  text,
+  '',
+  `**Site:** ${ticket.websiteUrl}`,
+  `**Phase:** ${ticket.phase}`,
+  `**Priority:** ${ticket.priority}`,
+  '',
+  '**Related metrics**',
+  ...Object.entries(ticket.metrics)
+    .filter(([, value]) => value !== undefined && value !== null && !(typeof value === 'number' && isNaN(value)))
+    .map(([metric, value]) => `- ${metric}: ${typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}`),
+  '',
+  `**Report:** ${ticket.reportUrl}`
+].join('\n');
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+export const buildIssueTicket = (
+  report: StoredReport,
+  item: RecommendationItem,
+  reportUrl: string,
+  extraLabels: string[] = []
+): IssueTicket => {
+  const base = {
+    priority: item.priority,
+    phase: item.phase,
+    websiteUrl: report.websiteUrl,
+    reportUrl,
+    metrics: getPhaseMetrics(report, item.phase),
+    recommendationId: item.id
+  };
+  const summary = item.text.length > 120 ? `${item.text.slice(0, 117)}...` : item.text;
+
+  return {
+    ...base,
+    title: `[${getHostname(report.websiteUrl)}] ${summary}`,
+    description: formatDescription(base, item.text),
+    labels: ['olive', `priority:${item.priority}`, `phase:${item.phase.toLowerCase()}`, ...extraLabels]
+  };
+};
+
+const API_URL = process.env.REACT_APP_API_URL;
+
+const trimBaseUrl = (config: IssueTrackerConfig, fallback: string) => (config.baseUrl || fallback).replace(/\/$/, '');
+
+// Tracker calls go through the backend, which keeps each user's tokens and adds them to the request:
+//   POST /api/issue-trackers/credentials  { type, token, email? }  stores the signed-in user's token
+//   POST /api/issue-trackers/issues       { type, baseUrl, repository?, projectKey?, issueType?, ticket }
+//                                         -> CreatedIssue
+// Both take the caller's Firebase ID token as a bearer token. baseUrl gets the same public http(s) host
+// checks as /api/proxy-text before anything is sent to it.
+const createTrackerIssue = async (config: IssueTrackerConfig, baseUrl: string, ticket: IssueTicket): Promise<CreatedIssue> => {
+  const response = await axios.post(
+    `${API_URL}/api/issue-trackers/issues`,
+    {
+      type: config.type,
+      baseUrl,
+      repository: config.repository || null,
+      projectKey: config.projectKey || null,
+      issueType: config.issueType || null,
+      ticket
+    },
+    { headers: await getAuthHeaders() }
+  );
+  return { key: String(response.data.key), url: response.data.url || undefined };
+};
+
+const githubExporter: IssueExporter = {
+  type: 'github',
+  label: 'GitHub Issues',
+  defaultBaseUrl: 'https://api.github.com',
+  async createIssue(ticket, config) {
+    if (!config.repository) {
+      throw new Error('A GitHub repository (owner/repo) is required');
+    }
+    return createTrackerIssue(config, trimBaseUrl(config, this.defaultBaseUrl), ticket);
+  }
+};
+
+const jiraExporter: IssueExporter = {
+  type: 'jira',
+  label: 'Jira',
+  defaultBaseUrl: '',
+  async createIssue(ticket, config) {
+    if (!config.baseUrl || !config.projectKey) {
+      throw new Error('A Jira site URL and project key are required');
+    }
+    return createTrackerIssue(config, trimBaseUrl(config, this.defaultBaseUrl), {
+      ...ticket,
+      // Jira labels can't contain spaces or colons
+      labels: ticket.labels.map(label => label.replace(/[\s:]+/g, '-'))
+    });
+  }
+};
+
+// Receivers may answer with the id/url of what they created; the backend falls back to the recommendation id
+const webhookExporter: IssueExporter = {
+  type: 'webhook',
+  label: 'Webhook',
+  defaultBaseUrl: '',
+  async createIssue(ticket, config) {
+    if (!config.baseUrl) {
+      throw new Error('A webhook URL is required');
+    }
+    return createTrackerIssue(config, config.baseUrl, ticket);
+  }
+};
+
+class IssueExportService {
+  private exporters = new Map<IssueTrackerType, IssueExporter>([
+    [githubExporter.type, githubExporter],
+    [jiraExporter.type, jiraExporter],
+    [webhookExporter.type, webhookExporter]
+  ]);
+
+  registerExporter(exporter: IssueExporter) {
+    this.exporters.set(exporter.type, exporter);
+  }
+
+  getExporters(): IssueExporter[] {
+    return Array.from(this.exporters.values());
+  }
+
+  getExporter(type: IssueTrackerType): IssueExporter {
+    const exporter = this.exporters.get(type);
+    if (!exporter) {
+      throw new Error(`No issue exporter registered for ${type}`);
+    }
+    return exporter;
+  }
+
+  private configRef(userId: string) {
+    return doc(db, 'users', userId, 'settings', 'issueTracker');
+  }
+
+  async getConfig(userId: string): Promise<IssueTrackerConfig | null> {
+    try {
+      const snapshot = await getDoc(this.configRef(userId));
+      if (!snapshot.exists()) return null;
+
+      const data = snapshot.data();
+      // Settings saved before tokens moved to the backend still hold one; hand it over and drop it
+      if (data.token) {
+        try {
+          await this.saveToken(data.type, data.token, data.email || undefined);
+          await updateDoc(this.configRef(userId), { token: deleteField(), hasToken: true });
+        } catch (error) {
+          console.error('Error moving the issue tracker token to the server:', error);
+        }
+      }
+      return {
+        type: data.type,
+        baseUrl: data.baseUrl || '',
+        hasToken: Boolean(data.token || data.hasToken),
+        repository: data.repository || undefined,
+        projectKey: data.projectKey || undefined,
+        issueType: data.issueType || undefined,
+        email: data.email || undefined,
+        labels: data.labels || []
+      };
+    } catch (error) {
+      console.error('Error fetching issue tracker settings:', error);
+      throw new Error('Failed to fetch issue tracker settings');
+    }
+  }
+
+  private async saveToken(type: IssueTrackerType, token: string, email?: string): Promise<void> {
+    await axios.post(`${API_URL}/api/issue-trackers/credentials`, { type, token, email: email || null }, { headers: await getAuthHeaders() });
+  }
+
+  // A blank token keeps the one the backend already holds
+  async saveConfig(userId: string, config: IssueTrackerConfig): Promise<void> {
+    try {
+      const token = config.token?.trim();
+      if (token) {
+        await this.saveToken(config.type, token, config.email?.trim());
+      }
+      await setDoc(this.configRef(userId), {
+        type: config.type,
+        baseUrl: config.baseUrl.trim(),
+        hasToken: Boolean(token || config.hasToken),
+        repository: config.repository?.trim() || null,
+        projectKey: config.projectKey?.trim() || null,
+        issueType: config.issueType?.trim() || null,
+        email: config.email?.trim() || null,
+        labels: config.labels || [],
+        updatedAt: Timestamp.fromDate(new Date())
+      });
+    } catch (error) {
+      console.error('Error saving issue tracker settings:', error);
+      throw new Error('Failed to save issue tracker settings');
+    }
+  }
+
+  // Files one ticket per item; items already exported from this report are skipped
+  async exportRecommendations(
+    report: StoredReport,
+    items: RecommendationItem[],
+    config: IssueTrackerConfig,
+    reportUrl: string,
+    // Called as soon as each ticket exists, so callers can record it before the next one is filed
+    onCreated?: (recommendationId: string, issue: ExportedIssue) => Promise<void>
+  ): Promise<{ exported: { [recommendationId: string]: ExportedIssue }; failed: { item: RecommendationItem; error: string }[] }> {
+    const exporter = this.getExporter(config.type);
+    const exported: { [recommendationId: string]: ExportedIssue } = {};
+    const failed: { item: RecommendationItem; error: string }[] = [];
+
+    for (const item of items) {
+      if (report.exportedIssues?.[item.id]) continue;
+
+      try {
+        const issue = await exporter.createIssue(buildIssueTicket(report, item, reportUrl, config.labels), config);
+        exported[item.id] = { ...issue, tracker: config.type, exportedAt: new Date() };
+      } catch (error) {
+        console.error(`Error exporting recommendation to ${exporter.label}:`, error);
+        failed.push({ item, error: error instanceof Error ? error.message : 'Unknown error' });
+        continue;
+      }
+
+      if (onCreated) {
+        await onCreated(item.id, exported[item.id]);
+      }
+    }
+
+    return { exported, failed };
+  }
+}
+
+export const issueExportService = new IssueExportService();
@@ -0,0 +1,152 @@
+import { getSelector } from '../utils/domSelectors';
+
+export interface CheckedLink {
+  url: string;
+  // null when the request failed before a response (DNS, timeout, TLS)
+  status: number | null;
+  // Every hop before the final URL, in request order
+  redirectChain: string[];
+  internal: boolean;
+  broken: boolean;
+  anchorText: string;
+  selector: string;
+  error?: string;
+}
+
+export type LinkFilter = 'all' | 'broken' | 'redirected' | 'internal' | 'external';
+export type LinkSortKey = 'url' | 'status' | 'type' | 'anchorText' | 'redirects';
+
+export const LINK_FILTERS: { [filter in LinkFilter]: string } = {
+  all: 'All links',
+  broken: 'Broken',
+  redirected: 'Redirected',
+  internal: 'Internal',
+  external: 'External'
+};
+
+// Broken links are kept first; working ones fill up the rest so stored reports stay small
+export const MAX_STORED_LINKS = 200;
+
+const isBroken = (status: number | null) => status === null || status >= 400;
+
+const getOrigin = (url?: string): string | null => {
+  try {
+    return url ? new URL(url).origin : null;
+  } catch {
+    return null;
+  }
+};
+
+const normalizeUrl = (url: string) => url.replace(/#.*$/, '').replace(/\/$/, '');
+
+// Anchor text and selector per resolved URL, for servers that only report URL and status
+const getAnchors = (htmlContent: string | undefined, baseUrl: string | undefined) => {
+  const anchors = new Map<string, { text: string; selector: string; relative: boolean }>();
+  if (!htmlContent) return anchors;
+
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  doc.querySelectorAll('a[href]').forEach(anchor => {
+    const href = anchor.getAttribute('href') || '';
+    let resolved = href;
+    try {
+      resolved = baseUrl ? new URL(href, baseUrl).toString() : href;
+    } catch {
+      // Keep the raw href for malformed values
+    }
+
+    const key = normalizeUrl(resolved);
+    if (anchors.has(key)) return;
+    anchors.set(key, {
+      text: anchor.textContent?.replace(/\s+/g, ' ').trim() || anchor.getAttribute('aria-label') || '',
+      selector: getSelector(anchor),
+      relative: !/^[a-z][a-z0-9+.-]*:/i.test(href)
+    });
+  });
+  return anchors;
+};
+
+const linkCache = new WeakMap<object, CheckedLink[] | undefined>();
+
+// Every link the evaluation server checked, enriched with anchor details from the captured HTML.
+// pageUrl is the evaluated URL: it decides which links are internal and resolves relative hrefs.
+// Undefined when the server only reported counts.
+export const getLinkInventory = (evaluationResults: any, pageUrl: string): CheckedLink[] | undefined => {
+  if (!evaluationResults) return undefined;
+  if (linkCache.has(evaluationResults)) return linkCache.get(evaluationResults);
+
+  const rawLinks: any[] | undefined = evaluationResults.brokenLinks?.links;
+  let links: CheckedLink[] | undefined;
+  if (Array.isArray(rawLinks)) {
+    const pageOrigin = getOrigin(pageUrl);
+    const anchors = getAnchors(evaluationResults.htmlContent, pageUrl);
+
+    links = rawLinks.map(link => {
+      const anchor = anchors.get(normalizeUrl(link.url));
+      const status = typeof link.status === 'number' ? link.status : null;
+      return {
+        url: link.url,
+        status,
+        redirectChain: link.redirectChain || [],
+        internal: typeof link.internal === 'boolean'
+          ? link.internal
+          : Boolean(anchor?.relative || (pageOrigin && getOrigin(link.url) === pageOrigin)),
+        broken: typeof link.broken === 'boolean' ? link.broken : isBroken(status),
+        anchorText: link.anchorText ?? anchor?.text ?? '',
+        selector: link.selector || anchor?.selector || '',
+        ...(link.error && { error: link.error })
+      };
+    });
+  }
+
+  linkCache.set(evaluationResults, links);
+  return links;
+};
+
+export const getLinkType = (link: CheckedLink) => (link.internal ? 'Internal' : 'External');
+
+export const filterLinks = (links: CheckedLink[], filter: LinkFilter, search = ''): CheckedLink[] => {
+  const query = search.trim().toLowerCase();
+  return links.filter(link => {
+    if (filter === 'broken' && !link.broken) return false;
+    if (filter === 'redirected' && link.redirectChain.length === 0) return false;
+    if (filter === 'internal' && !link.internal) return false;
+    if (filter === 'external' && link.internal) return false;
+    return !query || link.url.toLowerCase().includes(query) || link.anchorText.toLowerCase().includes(query);
+  });
+};
+
+export const sortLinks = (links: CheckedLink[], key: LinkSortKey, ascending = true): CheckedLink[] => {
+  const getValue = (link: CheckedLink): string | number => {
+    switch (key) {
+      case 'status':
+        // Failed requests sort after every HTTP status
+        return link.status ?? 1000;
+      case 'type':
+        return getLinkType(link);
+      case 'anchorText':
+        return link.anchorText.toLowerCase();
+      case 'redirects':
+        return link.redirectChain.length;
+      default:
+        return link.url.toLowerCase();
+    }
+  };
+
+  return [...links].sort((a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+    const order = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+    return ascending ? order : -order;
+  });
+};
+
+export const formatLinkStatus = (link: CheckedLink) =>
+  link.status === null ? link.error || 'Failed' : String(link.status);
+
+// Broken first, then redirected, capped at MAX_STORED_LINKS
+export const getStoredLinks = (links: CheckedLink[]): CheckedLink[] => {
+  const broken = links.filter(link => link.broken);
+  const redirected = links.filter(link => !link.broken && link.redirectChain.length > 0);
+  const rest = links.filter(link => !link.broken && link.redirectChain.length === 0);
+  return [...broken, ...redirected, ...rest].slice(0, MAX_STORED_LINKS);
+};
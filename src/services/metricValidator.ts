@@ -1,7 +1,25 @@
+import { DeviceSettings } from './evaluator';
+import { THROTTLING_PRESETS, DEVICE_VIEWPORTS } from './deviceProfiles';
+import { DEFAULT_SCORING_THRESHOLDS, ScoringThresholds, ScoringProfileSnapshot } from './scoringProfiles';
+import { analyzeSecurity, scoreSecurity, HeaderScore, SecurityAnalysis } from './securityAnalysis';
+import { TlsInspection, getDaysToExpiry, isWeakProtocol, countMixedContent } from './tlsInspection';
+import { ResourceBreakdown, getResourceBreakdown } from './resourceBreakdown';
+import { ImageAudit, ImageAuditEntry, getImageAudit } from './imageAudit';
+import { StructuredDataAudit, StructuredDataEntity, auditJsonLd } from './structuredData';
+import { IndexabilityReport } from './indexability';
+
+export type MetricRating = 'good' | 'needs-improvement' | 'poor';
+
+export interface ThresholdBand {
+  good: number;
+  poor: number;
+  higherIsBetter: boolean;
+}
+
 interface MetricValidation {
   value: number;
   threshold: number;
-  rating: 'good' | 'needs-improvement' | 'poor';
+  rating: MetricRating;
   confidence: number;
   benchmark: number;
   debug?: {
@@ -9,6 +27,9 @@ interface MetricValidation {
     maxScore?: number;
     headerPresence?: Record<string, boolean>;
     rawHeaders?: Record<string, string>;
+    headerScores?: HeaderScore[];
+    imageOffenders?: ImageAuditEntry[];
+    structuredDataEntities?: StructuredDataEntity[];
   };
 }
 
@@ -32,82 +53,51 @@ interface TestingMetadata {
   methodology: string;
 }
 
-class MetricValidator {
-  private static readonly THRESHOLDS = {
-    PERFORMANCE: {
-      FCP: { good: 1800, poor: 3000 },
-      LCP: { good: 2500, poor: 4000 },
-      CLS: { good: 0.1, poor: 0.25 },
-      FID: { good: 100, poor: 300 },
-      TTI: { good: 3800, poor: 7300 },
-      TTFB: { good: 600, poor: 1800 },
-      TBT: { good: 200, poor: 600 },
-      PAGE_SIZE: {
-        total: { good: 2000000, poor: 5000000 }, // 2MB and 5MB thresholds
-        document: { good: 100000, poor: 250000 }  // 100KB and 250KB thresholds
-      }
-    },
-    SEO: {
-      titleLength: { min: 30, max: 60 },
-      descriptionLength: { min: 120, max: 160 },
-      h1Count: { min: 1, max: 1 }
-    },
-    ACCESSIBILITY: {
-      altTextRatio: { good: 1, poor: 0.8 },
-      ariaAttributesMinimum: 5,
-      keyboardNav: { good: 0.9, poor: 0.6 }
-    },
-    BEST_PRACTICES: {
-      imageOptimization: { good: 0.85, poor: 0.6 },
-      securityHeaders: { good: 0.8, poor: 0.5 },
-      jsErrors: { max: 0 },
-      deprecatedAPIs: { max: 0 }
-    }
-  };
+export class MetricValidator {
+  constructor(private readonly thresholds: ScoringThresholds = DEFAULT_SCORING_THRESHOLDS) {}
+
+  getThresholds(): ScoringThresholds {
+    return this.thresholds;
+  }
 
-  validatePerformanceMetrics(metrics: any): MetricValidation[] {
+  // websiteUrl is only needed to build the resource breakdown from raw evaluation results
+  validatePerformanceMetrics(metrics: any, websiteUrl: string): MetricValidation[] {
     const validations: MetricValidation[] = [];
 
     if (metrics.firstContentfulPaint) {
       validations.push({
         value: metrics.firstContentfulPaint,
-        threshold: MetricValidator.THRESHOLDS.PERFORMANCE.FCP.good,
+        threshold: this.thresholds.PERFORMANCE.FCP.good,
         rating: this.getRating(
           metrics.firstContentfulPaint, 
-          MetricValidator.THRESHOLDS.PERFORMANCE.FCP
+          this.thresholds.PERFORMANCE.FCP
         ),
         confidence: 0.9,
         benchmark: 1500
       });
     }
 
-    // Validate page size if available
-    if (metrics.pageSize) {
-      if (metrics.pageSize.total) {
-        validations.push({
-          value: metrics.pageSize.total,
-          threshold: MetricValidator.THRESHOLDS.PERFORMANCE.PAGE_SIZE.total.good,
-          rating: this.getRating(
-            metrics.pageSize.total,
-            MetricValidator.THRESHOLDS.PERFORMANCE.PAGE_SIZE.total
-          ),
-          confidence: 0.9,
-          benchmark: 1500000 // 1.5MB benchmark
-        });
-      }
+    // pageSize is the total bytes transferred; the document's own size needs the per-resource breakdown
+    const breakdown: ResourceBreakdown | undefined = metrics.resourceBreakdown || getResourceBreakdown(metrics, websiteUrl);
+    const totalSize = breakdown?.totals.transferSize || (typeof metrics.pageSize === 'number' ? metrics.pageSize : 0);
+    if (totalSize) {
+      validations.push({
+        value: totalSize,
+        threshold: this.thresholds.PERFORMANCE.PAGE_SIZE.total.good,
+        rating: this.getRating(totalSize, this.thresholds.PERFORMANCE.PAGE_SIZE.total),
+        confidence: 0.9,
+        benchmark: 1500000 // 1.5MB benchmark
+      });
+    }
 
-      if (metrics.pageSize.document) {
-        validations.push({
-          value: metrics.pageSize.document,
-          threshold: MetricValidator.THRESHOLDS.PERFORMANCE.PAGE_SIZE.document.good,
-          rating: this.getRating(
-            metrics.pageSize.document,
-            MetricValidator.THRESHOLDS.PERFORMANCE.PAGE_SIZE.document
-          ),
-          confidence: 0.9,
-          benchmark: 75000 // 75KB benchmark
-        });
-      }
+    if (breakdown?.documentSize) {
+      validations.push({
+        value: breakdown.documentSize,
+        threshold: this.thresholds.PERFORMANCE.PAGE_SIZE.document.good,
+        rating: this.getRating(breakdown.documentSize, this.thresholds.PERFORMANCE.PAGE_SIZE.document),
+        confidence: 0.9,
+        benchmark: 75000 // 75KB benchmark
+      });
     }
 
     return validations;
@@ -119,8 +109,8 @@ class MetricValidator {
     if (metrics.title) {
       validations.push({
         value: metrics.title.length,
-        threshold: MetricValidator.THRESHOLDS.SEO.titleLength.min,
-        rating: this.getRatingSEO(metrics.title.length, MetricValidator.THRESHOLDS.SEO.titleLength),
+        threshold: this.thresholds.SEO.titleLength.min,
+        rating: this.getRatingSEO(metrics.title.length, this.thresholds.SEO.titleLength),
         confidence: 0.95,
         benchmark: 60
       });
@@ -129,8 +119,8 @@ class MetricValidator {
     if (metrics.metaDescription) {
       validations.push({
         value: metrics.metaDescription.length,
-        threshold: MetricValidator.THRESHOLDS.SEO.descriptionLength.min,
-        rating: this.getRatingSEO(metrics.metaDescription.length, MetricValidator.THRESHOLDS.SEO.descriptionLength),
+        threshold: this.thresholds.SEO.descriptionLength.min,
+        rating: this.getRatingSEO(metrics.metaDescription.length, this.thresholds.SEO.descriptionLength),
         confidence: 0.95,
         benchmark: 160
       });
@@ -139,13 +129,42 @@ class MetricValidator {
     if (metrics.h1Count) {
       validations.push({
         value: metrics.h1Count,
-        threshold: MetricValidator.THRESHOLDS.SEO.h1Count.min,
-        rating: this.getRatingSEO(metrics.h1Count, MetricValidator.THRESHOLDS.SEO.h1Count),
+        threshold: this.thresholds.SEO.h1Count.min,
+        rating: this.getRatingSEO(metrics.h1Count, this.thresholds.SEO.h1Count),
         confidence: 0.9,
         benchmark: 1
       });
     }
 
+    // Report SEO metrics carry the stored audit; raw evaluation results only have the JSON-LD blocks
+    const structuredData: StructuredDataAudit | undefined = metrics.structuredDataAudit ||
+      (Array.isArray(metrics.structuredData) ? auditJsonLd(metrics.structuredData) : undefined);
+    if (structuredData) {
+      validations.push({
+        value: structuredData.errorCount,
+        threshold: 0,
+        // Missing required properties block rich results; missing structured data is only a missed opportunity
+        rating: structuredData.errorCount > 0
+          ? 'poor'
+          : structuredData.entities.length === 0 || structuredData.warningCount > 0 ? 'needs-improvement' : 'good',
+        confidence: 0.95,
+        benchmark: 0,
+        debug: { structuredDataEntities: structuredData.entities }
+      });
+    }
+
+    const indexability: IndexabilityReport | undefined = metrics.indexability;
+    if (indexability) {
+      const errors = indexability.issues.filter(issue => issue.severity === 'error').length;
+      validations.push({
+        value: errors,
+        threshold: 0,
+        rating: indexability.verdict === 'not-indexable' ? 'poor' : indexability.verdict === 'indexable' ? 'good' : 'needs-improvement',
+        confidence: indexability.verdict === 'unknown' ? 0.7 : 0.95,
+        benchmark: 0
+      });
+    }
+
     return validations;
   }
 
@@ -156,8 +175,8 @@ class MetricValidator {
       const ratio = metrics.totalImages > 0 ? metrics.imagesWithAltText / metrics.totalImages : 0;
       validations.push({
         value: ratio,
-        threshold: MetricValidator.THRESHOLDS.ACCESSIBILITY.altTextRatio.good,
-        rating: this.getRating(ratio, MetricValidator.THRESHOLDS.ACCESSIBILITY.altTextRatio),
+        threshold: this.thresholds.ACCESSIBILITY.altTextRatio.good,
+        rating: this.getRating(ratio, this.thresholds.ACCESSIBILITY.altTextRatio),
         confidence: 0.9,
         benchmark: 1
       });
@@ -166,8 +185,8 @@ class MetricValidator {
     if (metrics.ariaAttributesCount) {
       validations.push({
         value: metrics.ariaAttributesCount,
-        threshold: MetricValidator.THRESHOLDS.ACCESSIBILITY.ariaAttributesMinimum,
-        rating: metrics.ariaAttributesCount >= MetricValidator.THRESHOLDS.ACCESSIBILITY.ariaAttributesMinimum ? 'good' : 'needs-improvement',
+        threshold: this.thresholds.ACCESSIBILITY.ariaAttributesMinimum,
+        rating: metrics.ariaAttributesCount >= this.thresholds.ACCESSIBILITY.ariaAttributesMinimum ? 'good' : 'needs-improvement',
         confidence: 0.8,
         benchmark: 5
       });
@@ -177,13 +196,32 @@ class MetricValidator {
       const ratio = metrics.keyboardNavigable ? 1 : 0;
       validations.push({
         value: ratio,
-        threshold: MetricValidator.THRESHOLDS.ACCESSIBILITY.keyboardNav.good,
-        rating: this.getRating(ratio, MetricValidator.THRESHOLDS.ACCESSIBILITY.keyboardNav),
+        threshold: this.thresholds.ACCESSIBILITY.keyboardNav.good,
+        rating: this.getRating(ratio, this.thresholds.ACCESSIBILITY.keyboardNav),
         confidence: 0.9,
         benchmark: 1
       });
     }
 
+    // WCAG audit: any level A failure is poor, AA failures need improvement; AAA is informational
+    if (metrics.audit) {
+      const { A, AA } = metrics.audit.violationCounts;
+      validations.push({
+        value: A,
+        threshold: 0,
+        rating: A === 0 ? 'good' : 'poor',
+        confidence: 0.85,
+        benchmark: 0
+      });
+      validations.push({
+        value: AA,
+        threshold: 0,
+        rating: AA === 0 ? 'good' : 'needs-improvement',
+        confidence: 0.85,
+        benchmark: 0
+      });
+    }
+
     return validations;
   }
 
@@ -202,101 +240,80 @@ class MetricValidator {
         });
       }
 
-      // Validate security headers with proper weighting
-      const securityHeaders = metrics.security.securityHeaders || {};
-      
-      // Headers are now categorized by importance and have alternatives
-      const headerGroups = {
-        critical: {
-          'strict-transport-security': {
-            alternatives: ['content-security-policy-report-only'],
-            weight: 2.0
-          },
-          'content-security-policy': {
-            alternatives: ['content-security-policy-report-only'],
-            weight: 2.0
-          }
-        },
-        important: {
-          'x-frame-options': {
-            alternatives: ['content-security-policy'],  // CSP can replace X-Frame-Options
-            weight: 1.5
-          },
-          'x-content-type-options': {
-            alternatives: [],  // No real alternatives
-            weight: 1.5
-          }
-        },
-        optional: {
-          'referrer-policy': {
-            alternatives: [],
-            weight: 1.0
-          },
-          'permissions-policy': {
-            alternatives: ['feature-policy'],  // Legacy header
-            weight: 1.0
-          }
-        }
-      };
-
-      let totalScore = 0;
-      let maxScore = 0;
-
-      // Calculate scores considering alternatives
-      Object.entries(headerGroups).forEach(([importance, headers]) => {
-        Object.entries(headers).forEach(([header, config]) => {
-          const hasHeader = securityHeaders[header] || 
-            config.alternatives.some(alt => securityHeaders[alt]);
-          
-          if (hasHeader) {
-            totalScore += config.weight;
-          }
-          maxScore += config.weight;
+      validations.push(this.validateSecurityHeaders(metrics.security));
+
+      const tls: TlsInspection | undefined = metrics.security.tls;
+      if (tls?.certificate) {
+        const daysToExpiry = getDaysToExpiry(tls.certificate.validTo);
+        validations.push({
+          value: daysToExpiry,
+          threshold: this.thresholds.SECURITY.certificateExpiryDays.good,
+          rating: this.getRatingHigherIsBetter(daysToExpiry, this.thresholds.SECURITY.certificateExpiryDays),
+          confidence: 1.0,
+          benchmark: 90
         });
-      });
+      }
 
-      const weightedScore = maxScore > 0 ? totalScore / maxScore : 0;
-      
-      // More lenient thresholds for header score
-      validations.push({
-        value: weightedScore,
-        threshold: 0.6,  // Reduced from 0.7
-        rating: weightedScore >= 0.6 ? 'good' : 
-                weightedScore >= 0.4 ? 'needs-improvement' : 'poor',
-        confidence: 0.95,
-        benchmark: 0.7  // Reduced from 0.8
-      });
+      if (tls?.protocol) {
+        validations.push({
+          value: isWeakProtocol(tls.protocol) ? 0 : 1,
+          threshold: 1,
+          rating: isWeakProtocol(tls.protocol) ? 'poor' : 'good',
+          confidence: 1.0,
+          benchmark: 1
+        });
+      }
 
-      // Add debug information
-      validations[validations.length - 1].debug = {
-        totalScore,
-        maxScore,
-        headerPresence: securityHeaders,
-        rawHeaders: metrics.security._debug?.rawHeaders
-      };
+      if (tls && metrics.security.isHttps) {
+        // Browsers block active mixed content outright, passive content only degrades the padlock
+        const { active, passive } = countMixedContent(tls);
+        validations.push({
+          value: active + passive,
+          threshold: 0,
+          rating: active > 0 ? 'poor' : passive > 0 ? 'needs-improvement' : 'good',
+          confidence: 0.9,
+          benchmark: 0
+        });
+      }
     }
 
     return validations;
   }
 
+  // Accepts raw evaluation results or report best-practices metrics (which carry the stored image audit)
   validateBestPracticesMetrics(metrics: any): MetricValidation[] {
     const validations: MetricValidation[] = [];
+    const imageAudit: ImageAudit | undefined = metrics.imageAudit || getImageAudit(metrics);
+    const imageOptimizationRatio = metrics.imageOptimizationRatio ??
+      (imageAudit?.totalImages ? imageAudit.optimizedImages / imageAudit.totalImages : undefined);
 
-    if (metrics.imageOptimizationRatio !== undefined) {
+    if (imageOptimizationRatio !== undefined) {
       validations.push({
-        value: metrics.imageOptimizationRatio,
-        threshold: MetricValidator.THRESHOLDS.BEST_PRACTICES.imageOptimization.good,
-        rating: this.getRating(metrics.imageOptimizationRatio, MetricValidator.THRESHOLDS.BEST_PRACTICES.imageOptimization),
+        value: imageOptimizationRatio,
+        threshold: this.thresholds.BEST_PRACTICES.imageOptimization.good,
+        rating: this.getRatingHigherIsBetter(imageOptimizationRatio, this.thresholds.BEST_PRACTICES.imageOptimization),
+        confidence: imageAudit?.images.some(image => image.renderedWidth !== null) ? 0.9 : 0.7,
+        benchmark: 0.85,
+        ...(imageAudit && { debug: { imageOffenders: imageAudit.images.filter(image => image.issues.length > 0).slice(0, 5) } })
+      });
+    }
+
+    if (imageAudit?.totalImages) {
+      // Images without width/height attributes shift the layout as they load
+      validations.push({
+        value: imageAudit.missingDimensions,
+        threshold: 0,
+        rating: imageAudit.missingDimensions === 0 ? 'good' : imageAudit.missingDimensions > imageAudit.totalImages / 2 ? 'poor' : 'needs-improvement',
         confidence: 0.9,
-        benchmark: 0.85
+        benchmark: 0
       });
     }
 
     if (metrics.jsErrors !== undefined) {
       validations.push({
         value: metrics.jsErrors,
-        threshold: MetricValidator.THRESHOLDS.BEST_PRACTICES.jsErrors.max,
-        rating: metrics.jsErrors <= MetricValidator.THRESHOLDS.BEST_PRACTICES.jsErrors.max ? 'good' : 'poor',
+        threshold: this.thresholds.BEST_PRACTICES.jsErrors.max,
+        rating: metrics.jsErrors <= this.thresholds.BEST_PRACTICES.jsErrors.max ? 'good' : 'poor',
         confidence: 0.9,
         benchmark: 0
       });
@@ -305,47 +322,95 @@ class MetricValidator {
     if (metrics.deprecatedAPIs !== undefined) {
       validations.push({
         value: metrics.deprecatedAPIs,
-        threshold: MetricValidator.THRESHOLDS.BEST_PRACTICES.deprecatedAPIs.max,
-        rating: metrics.deprecatedAPIs <= MetricValidator.THRESHOLDS.BEST_PRACTICES.deprecatedAPIs.max ? 'good' : 'poor',
+        threshold: this.thresholds.BEST_PRACTICES.deprecatedAPIs.max,
+        rating: metrics.deprecatedAPIs <= this.thresholds.BEST_PRACTICES.deprecatedAPIs.max ? 'good' : 'poor',
         confidence: 0.9,
         benchmark: 0
       });
     }
 
-    if (metrics.security && metrics.security.securityHeaders) {
-      const securityHeaders = metrics.security.securityHeaders;
-      const requiredHeaders = ['Strict-Transport-Security', 'Content-Security-Policy', 'X-Content-Type-Options', 'X-Frame-Options', 'X-XSS-Protection', 'Referrer-Policy'];
-      let totalScore = 0;
-      let maxScore = requiredHeaders.length;
+    if (metrics.security && (metrics.security.securityHeaders || metrics.security.analysis)) {
+      validations.push(this.validateSecurityHeaders(metrics.security));
+    }
 
-      requiredHeaders.forEach(header => {
-        if (securityHeaders[header]) {
-          totalScore++;
-        }
-      });
+    return validations;
+  }
 
-      const weightedScore = maxScore > 0 ? totalScore / maxScore : 0;
+  // Exposes the good/poor bands for a metric so callers (e.g. history charts) can draw them
+  getThresholdBand(metric: string): ThresholdBand | null {
+    const performanceThresholds: { [key: string]: { good: number; poor: number } } = {
+      firstContentfulPaint: this.thresholds.PERFORMANCE.FCP,
+      largestContentfulPaint: this.thresholds.PERFORMANCE.LCP,
+      cumulativeLayoutShift: this.thresholds.PERFORMANCE.CLS,
+      estimatedFid: this.thresholds.PERFORMANCE.FID,
+      timeToInteractive: this.thresholds.PERFORMANCE.TTI,
+      ttfb: this.thresholds.PERFORMANCE.TTFB,
+      tbt: this.thresholds.PERFORMANCE.TBT,
+      pageSize: this.thresholds.PERFORMANCE.PAGE_SIZE.total,
+      documentSize: this.thresholds.PERFORMANCE.PAGE_SIZE.document
+    };
 
-      // More lenient thresholds for header score
-      validations.push({
-        value: weightedScore,
-        threshold: 0.6,  // Reduced from 0.7
-        rating: weightedScore >= 0.6 ? 'good' :
-          weightedScore >= 0.4 ? 'needs-improvement' : 'poor',
-        confidence: 0.95,
-        benchmark: 0.7  // Reduced from 0.8
-      });
+    if (performanceThresholds[metric]) {
+      return { ...performanceThresholds[metric], higherIsBetter: false };
+    }
 
-      // Add debug information
-      validations[validations.length - 1].debug = {
-        totalScore,
-        maxScore,
-        headerPresence: securityHeaders,
-        rawHeaders: metrics.security._debug?.rawHeaders
-      };
+    switch (metric) {
+      case 'altTextRatio':
+        return { ...this.thresholds.ACCESSIBILITY.altTextRatio, higherIsBetter: true };
+      case 'score':
+        // 0-100 scores (phase scores, Lighthouse categories) use the same bands as the PDF report
+        return { ...this.thresholds.SCORE, higherIsBetter: true };
+      case 'securityHeaderScore':
+        return { ...this.thresholds.SECURITY.headerScore, higherIsBetter: true };
+      case 'certificateExpiryDays':
+        return { ...this.thresholds.SECURITY.certificateExpiryDays, higherIsBetter: true };
+      case 'imageOptimizationRatio':
+        return { ...this.thresholds.BEST_PRACTICES.imageOptimization, higherIsBetter: true };
+      default:
+        return null;
     }
+  }
 
-    return validations;
+  // Rates a single metric value against the validator thresholds, or returns null when the metric has no bands
+  rateMetric(metric: string, value: number): MetricRating | null {
+    if (typeof value !== 'number' || isNaN(value)) return null;
+
+    const band = this.getThresholdBand(metric);
+    if (band) {
+      return band.higherIsBetter ? this.getRatingHigherIsBetter(value, band) : this.getRating(value, band);
+    }
+
+    switch (metric) {
+      case 'titleLength':
+        return this.getRatingSEO(value, this.thresholds.SEO.titleLength);
+      case 'descriptionLength':
+        return this.getRatingSEO(value, this.thresholds.SEO.descriptionLength);
+      default:
+        return null;
+    }
+  }
+
+  // Shared by the security and best-practices checks so both rate headers the same way:
+  // the profile's weighted headers, scored on their configured values where those were captured
+  private validateSecurityHeaders(security: any): MetricValidation {
+    const analysis: SecurityAnalysis = security.analysis || analyzeSecurity(security);
+    const { score, totalScore, maxScore, headers } = scoreSecurity(analysis, this.thresholds);
+
+    return {
+      value: score,
+      threshold: this.thresholds.SECURITY.headerScore.good,
+      rating: this.getRatingHigherIsBetter(score, this.thresholds.SECURITY.headerScore),
+      // Presence alone says less about protection than the parsed values
+      confidence: analysis.valuesCaptured ? 0.95 : 0.8,
+      benchmark: 0.7,
+      debug: {
+        totalScore,
+        maxScore,
+        headerPresence: Object.fromEntries(analysis.headers.map(item => [item.header, item.present])),
+        rawHeaders: security._debug?.rawHeaders,
+        headerScores: headers
+      }
+    };
   }
 
   private getRating(value: number, threshold: { good: number; poor: number }): 'good' | 'needs-improvement' | 'poor' {
@@ -354,6 +419,12 @@ class MetricValidator {
     return 'poor';
   }
 
+  private getRatingHigherIsBetter(value: number, threshold: { good: number; poor: number }): MetricRating {
+    if (value >= threshold.good) return 'good';
+    if (value >= threshold.poor) return 'needs-improvement';
+    return 'poor';
+  }
+
   private getRatingSEO(value: number, threshold: { min: number; max: number }): 'good' | 'needs-improvement' | 'poor' {
     if (value >= threshold.min && value <= threshold.max) return 'good';
     if (value >= threshold.min * 0.8 && value <= threshold.max * 1.2) return 'needs-improvement';
@@ -365,7 +436,7 @@ class MetricValidator {
       FCP: {
         name: 'First Contentful Paint',
         description: 'Measures time until first content is rendered',
-        goodThreshold: MetricValidator.THRESHOLDS.PERFORMANCE.FCP.good,
+        goodThreshold: this.thresholds.PERFORMANCE.FCP.good,
         industryAverage: 1500,
         documentation: 'https://web.dev/fcp/',
         importance: 'critical'
@@ -382,13 +453,17 @@ class MetricValidator {
     };
   }
 
-  generateTestingMetadata(): TestingMetadata {
+  // Describes the emulated environment(s); without settings the evaluation ran as an unthrottled desktop pass
+  generateTestingMetadata(settings: DeviceSettings[] = []): TestingMetadata {
+    const describe = (getLabel: (setting: DeviceSettings) => string, fallback: string) =>
+      settings.length > 0 ? settings.map(getLabel).join(' / ') : fallback;
+
     return {
       timestamp: new Date(),
       duration: 5000,
       environment: {
-        connection: '4G',
-        device: 'Desktop',
+        connection: describe(setting => THROTTLING_PRESETS[setting.throttling]?.label || setting.throttling, '4G'),
+        device: describe(setting => DEVICE_VIEWPORTS[setting.device].label, 'Desktop'),
         location: 'US'
       },
       methodology: 'Automated testing using Lighthouse and custom metrics'
@@ -396,4 +471,8 @@ class MetricValidator {
   }
 }
 
-export const metricValidator = new MetricValidator(); 
\ No newline at end of file
+export const metricValidator = new MetricValidator();
+
+// Returns a validator for the profile an evaluation is scored with, falling back to the default thresholds
+export const getMetricValidator = (profile?: ScoringProfileSnapshot | null): MetricValidator =>
+  profile ? new MetricValidator(profile.thresholds) : metricValidator;
@@ -0,0 +1,52 @@
+import { monitorService, MonitorSnapshot, DEFAULT_DRIFT_THRESHOLDS } from './monitorService';
+
+jest.mock('./firebase', () => ({ auth: {}, db: {} }));
+
+const snapshot = (overrides: Partial<MonitorSnapshot> = {}): MonitorSnapshot => ({
+  overallScore: 80,
+  phaseScores: { Performance: 80, SEO: 80 },
+  coreWebVitals: { largestContentfulPaint: 2000, cumulativeLayoutShift: 0.05, ttfb: 300 },
+  ...overrides
+});
+
+describe('computeDrift', () => {
+  it('reports nothing while every metric stays within its threshold', () => {
+    const current = snapshot({
+      overallScore: 76,
+      phaseScores: { Performance: 71, SEO: 90 },
+      coreWebVitals: { largestContentfulPaint: 2499, cumulativeLayoutShift: 0.09, ttfb: 499 }
+    });
+
+    expect(monitorService.computeDrift(snapshot(), current, DEFAULT_DRIFT_THRESHOLDS)).toEqual([]);
+  });
+
+  it('reports score drops and Core Web Vitals growth once they reach the threshold', () => {
+    const current = snapshot({
+      overallScore: 75,
+      phaseScores: { Performance: 70, SEO: 80 },
+      coreWebVitals: { largestContentfulPaint: 2500, cumulativeLayoutShift: 0.05, ttfb: 500 }
+    });
+
+    expect(monitorService.computeDrift(snapshot(), current, DEFAULT_DRIFT_THRESHOLDS)).toEqual([
+      { metric: 'Overall Score', previous: 80, current: 75, delta: -5, threshold: 5 },
+      { metric: 'Performance Score', previous: 80, current: 70, delta: -10, threshold: 10 },
+      { metric: 'LCP', previous: 2000, current: 2500, delta: 500, threshold: 500 },
+      { metric: 'TTFB', previous: 300, current: 500, delta: 200, threshold: 200 }
+    ]);
+  });
+
+  it('ignores improvements', () => {
+    const current = snapshot({
+      overallScore: 95,
+      coreWebVitals: { largestContentfulPaint: 1000, cumulativeLayoutShift: 0, ttfb: 100 }
+    });
+
+    expect(monitorService.computeDrift(snapshot(), current, DEFAULT_DRIFT_THRESHOLDS)).toEqual([]);
+  });
+
+  it('skips phases the previous snapshot has no score for', () => {
+    const current = snapshot({ phaseScores: { Performance: 80, SEO: 80, Content: 10 } });
+
+    expect(monitorService.computeDrift(snapshot(), current, DEFAULT_DRIFT_THRESHOLDS)).toEqual([]);
+  });
+});
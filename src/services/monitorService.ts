@@ -0,0 +1,432 @@
+import axios from 'axios';
+import { collection, addDoc, getDocs, doc, updateDoc, deleteDoc, runTransaction, Timestamp, DocumentReference } from 'firebase/firestore';
+import { db } from './firebase';
+import { streamEvaluation, EvaluationResult } from './evaluator';
+import { buildReportMetrics, ReportData } from './reportGenerator';
+import { reportStorage } from './reportStorage';
+import { getPhaseMetrics, getOverallScore, SCORED_PHASES } from './phaseMetrics';
+import { SERVICE_COSTS, canChargeAccount, decrementUserBalance } from './points';
+import { getMetricValidator } from './metricValidator';
+import { getDaysToExpiry } from './tlsInspection';
+
+export type MonitorSchedule = 'daily' | 'weekly' | 'monthly';
+
+export interface DriftThresholds {
+  overallScore: number;   // points the overall score may drop before alerting
+  phaseScore: number;     // points any phase score may drop before alerting
+  largestContentfulPaint: number; // ms LCP may grow
+  cumulativeLayoutShift: number;  // CLS may grow
+  ttfb: number;           // ms TTFB may grow
+}
+
+export interface MonitorSnapshot {
+  overallScore: number;
+  phaseScores: { [phase: string]: number };
+  coreWebVitals: {
+    largestContentfulPaint: number;
+    cumulativeLayoutShift: number;
+    ttfb: number;
+  };
+}
+
+export interface Monitor {
+  id: string;
+  websiteUrl: string;
+  schedule: MonitorSchedule;
+  thresholds: DriftThresholds;
+  active: boolean;
+  createdAt: Date;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastReportId?: string;
+  lastSnapshot?: MonitorSnapshot;
+  lastError?: string | null;
+}
+
+export interface MetricChange {
+  metric: string;
+  previous: number;
+  current: number;
+  delta: number;
+  threshold: number;
+}
+
+export interface MonitorAlert {
+  id: string;
+  monitorId: string;
+  websiteUrl: string;
+  reportId: string;
+  createdAt: Date;
+  read: boolean;
+  changes: MetricChange[];
+  // Set when the site's TLS certificate is inside the expiry warning window
+  certificate?: CertificateExpiryWarning;
+}
+
+export interface CertificateExpiryWarning {
+  validTo: string;
+  daysToExpiry: number;
+}
+
+// How long a claimed run holds off other tabs; a tab closed mid-run leaves the monitor due again after this
+const RUN_LEASE_MS = 15 * 60 * 1000;
+
+export const DEFAULT_DRIFT_THRESHOLDS: DriftThresholds = {
+  overallScore: 5,
+  phaseScore: 10,
+  largestContentfulPaint: 500,
+  cumulativeLayoutShift: 0.05,
+  ttfb: 200
+};
+
+export const getAlertTitle = (alert: MonitorAlert): string => {
+  if (alert.changes.length > 0) return `Score drift detected for ${alert.websiteUrl}`;
+  if (alert.certificate && alert.certificate.daysToExpiry < 0) return `TLS certificate expired for ${alert.websiteUrl}`;
+  return `TLS certificate expiring soon for ${alert.websiteUrl}`;
+};
+
+export const computeNextRun = (schedule: MonitorSchedule, from: Date = new Date()): Date => {
+  const next = new Date(from);
+  switch (schedule) {
+    case 'daily':
+      next.setDate(next.getDate() + 1);
+      break;
+    case 'weekly':
+      next.setDate(next.getDate() + 7);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + 1);
+      break;
+  }
+  return next;
+};
+
+class MonitorService {
+  private isRunning = false;
+
+  private monitorsRef(userId: string) {
+    return collection(db, 'users', userId, 'monitors');
+  }
+
+  private alertsRef(userId: string) {
+    return collection(db, 'users', userId, 'alerts');
+  }
+
+  async createMonitor(
+    userId: string,
+    websiteUrl: string,
+    schedule: MonitorSchedule,
+    thresholds: DriftThresholds = DEFAULT_DRIFT_THRESHOLDS
+  ): Promise<string> {
+    try {
+      const now = new Date();
+      const monitorRef = await addDoc(this.monitorsRef(userId), {
+        websiteUrl,
+        schedule,
+        thresholds,
+        active: true,
+        createdAt: Timestamp.fromDate(now),
+        // Run for the first time on the next check so there is a baseline to compare against
+        nextRunAt: Timestamp.fromDate(now),
+        lastError: null
+      });
+      return monitorRef.id;
+    } catch (error) {
+      console.error('Error creating monitor:', error);
+      throw new Error('Failed to create monitor');
+    }
+  }
+
+  async getMonitors(userId: string): Promise<Monitor[]> {
+    try {
+      const querySnapshot = await getDocs(this.monitorsRef(userId));
+      return querySnapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          websiteUrl: data.websiteUrl,
+          schedule: data.schedule,
+          thresholds: { ...DEFAULT_DRIFT_THRESHOLDS, ...data.thresholds },
+          active: data.active !== false,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          nextRunAt: data.nextRunAt?.toDate() || new Date(),
+          lastRunAt: data.lastRunAt?.toDate(),
+          lastReportId: data.lastReportId,
+          lastSnapshot: data.lastSnapshot,
+          lastError: data.lastError || null
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching monitors:', error);
+      throw new Error('Failed to fetch monitors');
+    }
+  }
+
+  async updateMonitor(
+    userId: string,
+    monitorId: string,
+    updates: Partial<Pick<Monitor, 'schedule' | 'thresholds' | 'active'>>
+  ): Promise<void> {
+    try {
+      const changes: { [key: string]: any } = { ...updates };
+      if (updates.schedule) {
+        changes.nextRunAt = Timestamp.fromDate(computeNextRun(updates.schedule));
+      }
+      await updateDoc(doc(db, 'users', userId, 'monitors', monitorId), changes);
+    } catch (error) {
+      console.error('Error updating monitor:', error);
+      throw new Error('Failed to update monitor');
+    }
+  }
+
+  async deleteMonitor(userId: string, monitorId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, 'users', userId, 'monitors', monitorId));
+    } catch (error) {
+      console.error('Error deleting monitor:', error);
+      throw new Error('Failed to delete monitor');
+    }
+  }
+
+  async getAlerts(userId: string): Promise<MonitorAlert[]> {
+    try {
+      const querySnapshot = await getDocs(this.alertsRef(userId));
+      return querySnapshot.docs
+        .map(doc => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            monitorId: data.monitorId,
+            websiteUrl: data.websiteUrl,
+            reportId: data.reportId,
+            createdAt: data.createdAt?.toDate() || new Date(),
+            read: !!data.read,
+            changes: data.changes || [],
+            certificate: data.certificate || undefined
+          };
+        })
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Error fetching alerts:', error);
+      throw new Error('Failed to fetch alerts');
+    }
+  }
+
+  async markAlertRead(userId: string, alertId: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'users', userId, 'alerts', alertId), { read: true });
+    } catch (error) {
+      console.error('Error updating alert:', error);
+      throw new Error('Failed to update alert');
+    }
+  }
+
+  async deleteAlert(userId: string, alertId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, 'users', userId, 'alerts', alertId));
+    } catch (error) {
+      console.error('Error deleting alert:', error);
+      throw new Error('Failed to delete alert');
+    }
+  }
+
+  createSnapshot(reportData: ReportData): MonitorSnapshot {
+    return {
+      overallScore: reportData.overallScore,
+      phaseScores: reportData.phaseScores,
+      coreWebVitals: {
+        largestContentfulPaint: reportData.metrics.performance.largestContentfulPaint,
+        cumulativeLayoutShift: reportData.metrics.performance.cumulativeLayoutShift,
+        ttfb: reportData.metrics.performance.ttfb
+      }
+    };
+  }
+
+  computeDrift(previous: MonitorSnapshot, current: MonitorSnapshot, thresholds: DriftThresholds): MetricChange[] {
+    const changes: MetricChange[] = [];
+
+    // Scores regress when they drop, Core Web Vitals regress when they grow
+    const checkDrop = (metric: string, before: number | undefined, after: number | undefined, threshold: number) => {
+      if (typeof before !== 'number' || typeof after !== 'number') return;
+      if (before - after >= threshold) {
+        changes.push({ metric, previous: before, current: after, delta: after - before, threshold });
+      }
+    };
+    const checkGrowth = (metric: string, before: number | undefined, after: number | undefined, threshold: number) => {
+      if (typeof before !== 'number' || typeof after !== 'number') return;
+      if (after - before >= threshold) {
+        changes.push({ metric, previous: before, current: after, delta: after - before, threshold });
+      }
+    };
+
+    checkDrop('Overall Score', previous.overallScore, current.overallScore, thresholds.overallScore);
+    Object.entries(current.phaseScores).forEach(([phase, score]) => {
+      checkDrop(`${phase} Score`, previous.phaseScores?.[phase], score, thresholds.phaseScore);
+    });
+    checkGrowth('LCP', previous.coreWebVitals?.largestContentfulPaint, current.coreWebVitals.largestContentfulPaint, thresholds.largestContentfulPaint);
+    checkGrowth('CLS', previous.coreWebVitals?.cumulativeLayoutShift, current.coreWebVitals.cumulativeLayoutShift, thresholds.cumulativeLayoutShift);
+    checkGrowth('TTFB', previous.coreWebVitals?.ttfb, current.coreWebVitals.ttfb, thresholds.ttfb);
+
+    return changes;
+  }
+
+  // Warns from the moment the certificate leaves the default profile's "good" expiry band
+  private getCertificateWarning(reportData: ReportData, now: Date): CertificateExpiryWarning | null {
+    const certificate = reportData.metrics.security.tls?.certificate;
+    if (!certificate) return null;
+
+    const daysToExpiry = getDaysToExpiry(certificate.validTo, now);
+    const rating = getMetricValidator().rateMetric('certificateExpiryDays', daysToExpiry);
+    return rating && rating !== 'good' ? { validTo: certificate.validTo, daysToExpiry } : null;
+  }
+
+  // Every scored phase has to be rated: an overall score averaged over fewer phases than the
+  // last snapshot would read as drift
+  private async scorePhases(websiteUrl: string, result: EvaluationResult): Promise<{ [phase: string]: number }> {
+    const scores: { [phase: string]: number } = {};
+    for (const phase of SCORED_PHASES) {
+      try {
+        const response = await axios.post(`${process.env.REACT_APP_API_URL}/api/score`, {
+          url: websiteUrl,
+          phase,
+          metrics: getPhaseMetrics(phase, result, websiteUrl),
+          screenshot: phase === 'Vision' ? result.screenshot : undefined
+        });
+        scores[phase] = response.data.score || 0;
+      } catch (error) {
+        console.error(`error getting ${phase} score:`, error);
+        throw new Error(`Failed to score the ${phase} phase`);
+      }
+    }
+    return scores;
+  }
+
+  // Pushes nextRunAt past the lease in a transaction, so only one open tab picks up a due run.
+  // False when the monitor was paused, deleted or claimed elsewhere since it was read.
+  private async claimRun(monitorRef: DocumentReference, now: Date): Promise<boolean> {
+    return runTransaction(db, async transaction => {
+      const snapshot = await transaction.get(monitorRef);
+      const data = snapshot.data();
+      if (!data || data.active === false || (data.nextRunAt?.toDate() || now) > now) {
+        return false;
+      }
+      transaction.update(monitorRef, { nextRunAt: Timestamp.fromMillis(now.getTime() + RUN_LEASE_MS) });
+      return true;
+    });
+  }
+
+  // Evaluates the monitored site, stores the run as a report and raises an alert on drift.
+  // Billing follows the same balance / pay-as-you-go rules as a manual evaluation, without the
+  // toasts, and a failed run is refunded. Never throws, so one failing monitor can't stop the rest.
+  async runMonitor(userId: string, monitor: Monitor): Promise<MonitorAlert | null> {
+    const monitorRef = doc(db, 'users', userId, 'monitors', monitor.id);
+    const now = new Date();
+    let charged = false;
+
+    // A failed claim leaves the schedule alone, so the run is picked up on the next check
+    try {
+      if (!(await this.claimRun(monitorRef, now))) {
+        return null;
+      }
+    } catch (error) {
+      console.error(`Error claiming monitor run for ${monitor.websiteUrl}:`, error);
+      return null;
+    }
+
+    try {
+      if (!(await canChargeAccount(userId, SERVICE_COSTS.EVALUATION))) {
+        await updateDoc(monitorRef, {
+          nextRunAt: Timestamp.fromDate(computeNextRun(monitor.schedule, now)),
+          lastError: 'Skipped: insufficient balance'
+        });
+        return null;
+      }
+
+      await decrementUserBalance(userId, SERVICE_COSTS.EVALUATION);
+      charged = true;
+
+      const result = await streamEvaluation(monitor.websiteUrl, userId);
+      const phaseScores = await this.scorePhases(monitor.websiteUrl, result);
+      const reportData: ReportData = {
+        websiteUrl: monitor.websiteUrl,
+        timestamp: now,
+        overallScore: getOverallScore(phaseScores) ?? 0,
+        phaseScores,
+        metrics: buildReportMetrics(result, monitor.websiteUrl)
+      };
+
+      const reportId = await reportStorage.saveReport(userId, reportData);
+      const snapshot = this.createSnapshot(reportData);
+      const changes = monitor.lastSnapshot ? this.computeDrift(monitor.lastSnapshot, snapshot, monitor.thresholds) : [];
+
+      await updateDoc(monitorRef, {
+        lastRunAt: Timestamp.fromDate(now),
+        nextRunAt: Timestamp.fromDate(computeNextRun(monitor.schedule, now)),
+        lastReportId: reportId,
+        lastSnapshot: snapshot,
+        lastError: null
+      });
+
+      const certificate = this.getCertificateWarning(reportData, now);
+      if (changes.length === 0 && !certificate) {
+        return null;
+      }
+
+      const alert = {
+        monitorId: monitor.id,
+        websiteUrl: monitor.websiteUrl,
+        reportId,
+        createdAt: Timestamp.fromDate(now),
+        read: false,
+        changes,
+        ...(certificate && { certificate })
+      };
+      const alertRef = await addDoc(this.alertsRef(userId), alert);
+      return { ...alert, id: alertRef.id, createdAt: now };
+    } catch (error) {
+      console.error(`Error running monitor for ${monitor.websiteUrl}:`, error);
+      if (charged) {
+        try {
+          await decrementUserBalance(userId, -SERVICE_COSTS.EVALUATION);
+        } catch (refundError) {
+          console.error('Error refunding credits:', refundError);
+        }
+      }
+      try {
+        await updateDoc(monitorRef, {
+          nextRunAt: Timestamp.fromDate(computeNextRun(monitor.schedule, now)),
+          lastError: error instanceof Error ? error.message : 'An unknown error occurred'
+        });
+      } catch (updateError) {
+        console.error('Error updating monitor:', updateError);
+      }
+      return null;
+    }
+  }
+
+  // Runs every active monitor that is due. Monitors run one at a time while the app is open;
+  // claimRun keeps other open tabs from running (and charging for) the same monitor.
+  async runDueMonitors(userId: string): Promise<MonitorAlert[]> {
+    if (this.isRunning) return [];
+    this.isRunning = true;
+
+    try {
+      const now = Date.now();
+      const dueMonitors = (await this.getMonitors(userId))
+        .filter(monitor => monitor.active && monitor.nextRunAt.getTime() <= now);
+
+      const alerts: MonitorAlert[] = [];
+      for (const monitor of dueMonitors) {
+        const alert = await this.runMonitor(userId, monitor);
+        if (alert) {
+          alerts.push(alert);
+        }
+      }
+      return alerts;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const monitorService = new MonitorService();
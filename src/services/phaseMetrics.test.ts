@@ -0,0 +1,19 @@
+import { getOverallScore } from './phaseMetrics';
+
+jest.mock('./firebase', () => ({ auth: {}, db: {} }));
+
+describe('getOverallScore', () => {
+  it('averages the phase scores and rounds the result', () => {
+    expect(getOverallScore({ Vision: 80, UI: 90 })).toBe(85);
+    expect(getOverallScore({ Vision: 80, UI: 81, SEO: 81 })).toBe(81);
+    expect(getOverallScore({ Performance: 70, SEO: 75 })).toBe(73);
+  });
+
+  it('counts zero scores', () => {
+    expect(getOverallScore({ Performance: 0, SEO: 100 })).toBe(50);
+  });
+
+  it('is null when no phase has been scored', () => {
+    expect(getOverallScore({})).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { getAccessibilityAudit, summarizeAudit } from './accessibilityAudit';
+import { getLinkInventory, formatLinkStatus } from './linkInventory';
+import { analyzeSecurity, summarizeSecurity } from './securityAnalysis';
+import { getTlsInspection, summarizeTls } from './tlsInspection';
+import { getResourceBreakdown, summarizeResourceBreakdown } from './resourceBreakdown';
+import { getImageAudit, summarizeImageAudit } from './imageAudit';
+import { getStructuredDataAudit, summarizeStructuredData } from './structuredData';
+import { indexabilityService } from './indexability';
+import { socialPreviewService } from './socialPreview';
+import { getContentAnalysis, summarizeContent } from './contentAnalysis';
+
+export const PHASES = ['Vision', 'UI', 'Functionality', 'Performance', 'SEO', 'Content', 'Overall', 'Recommendations'];
+
+// Phases that receive a numeric score and count towards the overall score
+export const SCORED_PHASES = ['Vision', 'UI', 'Functionality', 'Performance', 'SEO', 'Content'];
+
+// Overall and Recommendations summarize the phases before them, so they always run last
+export const SUMMARY_PHASES = ['Overall', 'Recommendations'];
+
+// The selected scored phases in the chosen order, followed by the summary phases
+export const buildPhasePlan = (selectedPhases: string[]): string[] => [
+  ...selectedPhases.filter(phase => SCORED_PHASES.includes(phase)),
+  ...SUMMARY_PHASES
+];
+
+// Average of the phase scores that have been recorded; skipped phases don't count and a re-run replaces the earlier score
+export const getOverallScore = (phaseScores: { [phase: string]: number }): number | null => {
+  const scores = Object.values(phaseScores);
+  return scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null;
+};
+
+// Selects the slice of evaluation metrics each chat phase is scored and analyzed on.
+// Keys are converted to snake_case to keep the payload sent to the model compact.
+// websiteUrl is the evaluated page; the target keyword only affects the Content phase's keyword density.
+export const getPhaseMetrics = (phase: string, allMetrics: any, websiteUrl: string, targetKeyword?: string) => {
+  const wcagAudit = phase === 'UI' ? getAccessibilityAudit(allMetrics) : undefined;
+  const tls = phase === 'Performance' ? getTlsInspection(allMetrics) : undefined;
+  const resourceBreakdown = phase === 'Performance' ? getResourceBreakdown(allMetrics, websiteUrl) : undefined;
+  const imageAudit = phase === 'Performance' ? getImageAudit(allMetrics) : undefined;
+  const structuredData = phase === 'SEO' ? getStructuredDataAudit(allMetrics) : undefined;
+  const indexability = phase === 'SEO' ? indexabilityService.get(allMetrics) : undefined;
+  const socialPreview = phase === 'SEO' ? socialPreviewService.get(allMetrics) : undefined;
+  const content = phase === 'Content' ? getContentAnalysis(allMetrics, websiteUrl, targetKeyword) : undefined;
+  let phaseMetrics;
+  switch (phase) {
+    case 'Vision':
+      phaseMetrics = {}; // Remove all metrics for Vision phase, we only want to analyze the screenshot
+      break;
+    case 'UI':
+      phaseMetrics = {
+        fontSizes: allMetrics.fontSizes,
+        responsiveness: allMetrics.responsiveness,
+        accessibility: allMetrics.accessibility,
+        lighthouse: allMetrics.lighthouse,
+        ...(wcagAudit && { wcagAudit: summarizeAudit(wcagAudit) })
+      };
+      break;
+    case 'Functionality':
+      phaseMetrics = {
+        brokenLinks: summarizeBrokenLinks(allMetrics, websiteUrl),
+        formFunctionality: allMetrics.formFunctionality,
+        bestPractices: allMetrics.bestPractices
+      };
+      break;
+    case 'Performance':
+      phaseMetrics = {
+        loadTime: allMetrics.loadTime,
+        domContentLoaded: allMetrics.domContentLoaded,
+        firstPaint: allMetrics.firstPaint,
+        firstContentfulPaint: allMetrics.firstContentfulPaint,
+        timeToInteractive: allMetrics.timeToInteractive,
+        largestContentfulPaint: allMetrics.largestContentfulPaint,
+        cumulativeLayoutShift: allMetrics.cumulativeLayoutShift,
+        ttfb: allMetrics.ttfb,
+        tbt: allMetrics.tbt,
+        estimatedFid: allMetrics.estimatedFid,
+        domElements: allMetrics.domElements,
+        pageSize: allMetrics.pageSize,
+        requests: allMetrics.requests,
+        ...(resourceBreakdown && { resourceBreakdown: summarizeResourceBreakdown(resourceBreakdown) }),
+        ...(imageAudit?.totalImages && { imageAudit: summarizeImageAudit(imageAudit) }),
+        security: allMetrics.security,
+        ...(allMetrics.security && { securityFindings: summarizeSecurity(analyzeSecurity(allMetrics.security)) }),
+        ...(tls && { tls: summarizeTls(tls) }),
+        lighthouse: allMetrics.lighthouse,
+        ...(allMetrics.deviceProfiles && { deviceProfiles: allMetrics.deviceProfiles })
+      };
+      break;
+    case 'SEO': {
+      // The raw JSON-LD blocks are replaced by the validated entities
+      const { structuredData: structuredDataBlocks, ...seo } = allMetrics.seo || {};
+      phaseMetrics = {
+        ...(indexability && { indexability: indexabilityService.summarize(indexability) }),
+        seo: structuredData ? seo : allMetrics.seo,
+        ...(structuredData && { structuredData: summarizeStructuredData(structuredData) }),
+        ...(socialPreview && { socialPreview: socialPreviewService.summarize(socialPreview) }),
+        lighthouse: allMetrics.lighthouse
+      };
+      break;
+    }
+    case 'Content':
+      phaseMetrics = content ? { content: summarizeContent(content) } : {};
+      break;
+    case 'Recommendations':
+    case 'Overall':
+      phaseMetrics = {};
+      break;
+    default:
+      phaseMetrics = {};
+  }
+  return optimizeMetrics(phaseMetrics);
+};
+
+// Counts plus the broken links themselves; the full inventory is too large for the prompt
+const summarizeBrokenLinks = (allMetrics: any, websiteUrl: string) => {
+  const links = getLinkInventory(allMetrics, websiteUrl);
+  if (!links) return allMetrics.brokenLinks;
+
+  return {
+    totalLinks: allMetrics.brokenLinks?.totalLinks ?? links.length,
+    brokenLinks: allMetrics.brokenLinks?.brokenLinks ?? links.filter(link => link.broken).length,
+    redirectedLinks: links.filter(link => link.redirectChain.length > 0).length,
+    brokenUrls: links
+      .filter(link => link.broken)
+      .slice(0, 20)
+      .map(link => `${formatLinkStatus(link)} ${link.url}${link.anchorText ? ` ("${link.anchorText}")` : ''}`)
+  };
+};
+
+export const optimizeMetrics = (metrics: any): any => {
+  const optimized: any = {};
+  for (const [key, value] of Object.entries(metrics)) {
+    const shortKey = key.replace(/([A-Z])/g, '_$1').toLowerCase();
+    if (typeof value === 'number') {
+      optimized[shortKey] = Number(value.toFixed(2));
+    } else if (typeof value === 'object' && value !== null) {
+      optimized[shortKey] = optimizeMetrics(value);
+    } else {
+      optimized[shortKey] = value;
+    }
+  }
+  return optimized;
+};
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { toast } from 'react-toastify';
 import { paymentService } from './paymentService';
+import { auth } from './firebase';
 
 const API_URL = process.env.REACT_APP_API_URL;
 
@@ -12,38 +13,72 @@ export const SERVICE_COSTS = {
   INITIAL_CREDIT: 5.00
 };
 
+// Who pays for an action: a user's personal balance, or a workspace's pooled balance that can
+// fall back to a member's pay-as-you-go method. Passing a plain user id charges that user.
+export type BillingAccount =
+  | { type: 'user'; userId: string }
+  | { type: 'workspace'; workspaceId: string; payAsYouGoUserId?: string };
+
+const toBillingAccount = (account: string | BillingAccount): BillingAccount =>
+  typeof account === 'string' ? { type: 'user', userId: account } : account;
+
+// Workspace balances are served by the backend, which also keeps them out of reach of client writes:
+//   GET  /api/workspaces/:workspaceId/balance         -> { balance: number }
+//   POST /api/workspaces/:workspaceId/balance/deduct  { amount: number }, negative to refund
+// Both take the caller's Firebase ID token as a bearer token. Reads need workspace membership, deductions
+// the owner or editor role; once the balance is short, deductions go to payAsYouGoUserId's method.
+const getBalanceUrl = (account: string | BillingAccount): string => {
+  const billing = toBillingAccount(account);
+  return billing.type === 'workspace'
+    ? `${API_URL}/api/workspaces/${billing.workspaceId}/balance`
+    : `${API_URL}/api/balance/${billing.userId}`;
+};
+
 export const getUserPoints = async (userId: string): Promise<number> => {
   const response = await axios.get(`${API_URL}/api/balance/${userId}`);
   return response.data.balance;
 };
 
-export const getUserBalance = async (userId: string): Promise<number> => {
-  const response = await axios.get(`${API_URL}/api/balance/${userId}`);
+// Lets the backend check who is asking, e.g. workspace membership before touching the pooled balance
+export const getAuthHeaders = async (): Promise<{ Authorization?: string }> => {
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+export const getUserBalance = async (account: string | BillingAccount): Promise<number> => {
+  const response = await axios.get(getBalanceUrl(account), { headers: await getAuthHeaders() });
   return response.data.balance;
 };
 
-export const decrementUserBalance = async (userId: string, amount: number): Promise<void> => {
-  await axios.post(`${API_URL}/api/balance/${userId}/deduct`, { amount });
+export const decrementUserBalance = async (account: string | BillingAccount, amount: number): Promise<void> => {
+  await axios.post(`${getBalanceUrl(account)}/deduct`, { amount }, { headers: await getAuthHeaders() });
 };
 
-export const hasEnoughBalance = async (userId: string, requiredAmount: number): Promise<boolean> => {
-  const currentBalance = await getUserBalance(userId);
+export const hasEnoughBalance = async (account: string | BillingAccount, requiredAmount: number): Promise<boolean> => {
+  const currentBalance = await getUserBalance(account);
   return currentBalance >= requiredAmount;
 };
 
+// Enough balance, or a pay-as-you-go method to fall back on. Shows nothing, so background runs
+// such as scheduled monitors can check without toasting the user.
+export const canChargeAccount = async (account: string | BillingAccount, requiredAmount: number): Promise<boolean> => {
+  const billing = toBillingAccount(account);
+  const payAsYouGoUserId = billing.type === 'user' ? billing.userId : billing.payAsYouGoUserId;
+  const [hasEnough, userData] = await Promise.all([
+    hasEnoughBalance(billing, requiredAmount),
+    payAsYouGoUserId ? paymentService.getUserData(payAsYouGoUserId) : Promise.resolve(null)
+  ]);
+  return hasEnough || Boolean(userData?.isPayAsYouGo && userData.hasAddedPayment);
+};
+
 export const checkCreditsAndShowError = async (
-  userId: string, 
+  account: string | BillingAccount,
   requiredAmount: number,
   onInsufficientBalance: () => void,
   onSuccess: () => void
 ): Promise<void> => {
   try {
-    const [hasEnough, userData] = await Promise.all([
-      hasEnoughBalance(userId, requiredAmount),
-      paymentService.getUserData(userId)
-    ]);
-
-    if (hasEnough || (userData.isPayAsYouGo && userData.hasAddedPayment)) {
+    if (await canChargeAccount(account, requiredAmount)) {
       // If user has enough balance OR is enrolled in pay-as-you-go,
       // let the onSuccess callback handle the balance deduction
       onSuccess();
@@ -51,7 +86,7 @@ export const checkCreditsAndShowError = async (
     }
 
     // Not enough balance and not on pay-as-you-go
-    toast.error(`This action requires $${requiredAmount.toFixed(2)}`);
+    toast.error(`This action requires $${requiredAmount.toFixed(2)}${toBillingAccount(account).type === 'workspace' ? ' in the workspace balance' : ''}`);
     toast.info('Click here to enroll in pay-as-you-go', {
       onClick: () => window.location.href = '/points'
     });
@@ -61,4 +96,4 @@ export const checkCreditsAndShowError = async (
     toast.error('Error checking balance. Please try again.');
     onInsufficientBalance();
   }
-}; 
\ No newline at end of file
+};
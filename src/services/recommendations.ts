@@ -0,0 +1,54 @@
+import { StoredReport } from './reportStorage';
+
+export type RecommendationPriority = 'critical' | 'important' | 'optional';
+
+export const RECOMMENDATION_PRIORITIES: { [priority in RecommendationPriority]: string } = {
+  critical: 'Critical',
+  important: 'Important',
+  optional: 'Optional'
+};
+
+export interface RecommendationItem {
+  id: string;
+  priority: RecommendationPriority;
+  text: string;
+  phase: string;
+}
+
+const PRIORITIES = Object.keys(RECOMMENDATION_PRIORITIES) as RecommendationPriority[];
+
+// Recommendations arrive as plain sentences, so the phase is inferred from the vocabulary they use
+const PHASE_KEYWORDS: [string, RegExp][] = [
+  ['Performance', /\b(performance|speed|load|lcp|fcp|cls|ttfb|tbt|paint|blocking|cache|compress|minif|lazy|bundle|render)/i],
+  ['SEO', /\b(seo|meta|title|description|sitemap|robots|canonical|search|keyword|structured data|schema)/i],
+  ['Content', /\b(copy|copywriting|readab|reading level|word count|thin content|duplicate|paragraph|sentence|wording)/i],
+  ['UI', /\b(accessib|alt text|aria|contrast|keyboard|screen reader|font|layout|responsive|mobile|visual|design)/i],
+  ['Functionality', /\b(link|form|button|javascript|security|https|header|csp|hsts|cookie|semantic)/i]
+];
+
+export const inferRecommendationPhase = (text: string): string =>
+  PHASE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] || 'General';
+
+// Stable across reloads: derived from the recommendation itself rather than its position in the list
+export const getRecommendationId = (priority: RecommendationPriority, text: string): string => {
+  let hash = 5381;
+  const value = `${priority}:${text.trim().toLowerCase()}`;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return `${priority}-${hash.toString(36)}`;
+};
+
+export const getRecommendationItems = (report: StoredReport): RecommendationItem[] => {
+  const recommendations = report.professionalAnalysis?.recommendations;
+  if (!recommendations) return [];
+
+  return PRIORITIES.flatMap(priority =>
+    (recommendations[priority] || []).map(text => ({
+      id: getRecommendationId(priority, text),
+      priority,
+      text,
+      phase: inferRecommendationPhase(text)
+    }))
+  );
+};
@@ -0,0 +1,217 @@
+import { streamEvaluation } from './evaluator';
+import { buildReportMetrics, ReportData } from './reportGenerator';
+import { reportStorage, StoredReport } from './reportStorage';
+import { getMetricValidator, MetricValidator } from './metricValidator';
+import { getRecommendationItems, RecommendationItem } from './recommendations';
+import { SERVICE_COSTS, BillingAccount, checkCreditsAndShowError, decrementUserBalance } from './points';
+import { getWorstFinding } from './securityAnalysis';
+
+export type RemediationStatus = 'open' | 'in-progress' | 'fixed' | 'wont-fix';
+
+export const REMEDIATION_STATUSES: { [status in RemediationStatus]: string } = {
+  open: 'Open',
+  'in-progress': 'In Progress',
+  fixed: 'Fixed',
+  'wont-fix': "Won't Fix"
+};
+
+export type VerificationResult = 'confirmed-fixed' | 'still-failing' | 'unverifiable';
+
+export interface RemediationVerification {
+  result: VerificationResult;
+  checkedAt: Date;
+  // One line per metric the recommendation is tied to, with the re-measured value
+  details: string[];
+}
+
+export interface RemediationEntry {
+  status: RemediationStatus;
+  assignee?: string;
+  notes?: string;
+  updatedAt: Date;
+  verification?: RemediationVerification;
+}
+
+type ReportMetrics = ReportData['metrics'];
+
+interface MetricCheck {
+  label: string;
+  // Matched against the recommendation text to tie it to this metric
+  pattern: RegExp;
+  passes: (metrics: ReportMetrics, validator: MetricValidator) => boolean;
+  describe: (metrics: ReportMetrics) => string;
+}
+
+const ratedGood = (metric: string, value: number, validator: MetricValidator) =>
+  validator.rateMetric(metric, value) === 'good';
+
+const vitalCheck = (label: string, pattern: RegExp, metric: keyof ReportMetrics['performance'], unit = 'ms'): MetricCheck => ({
+  label,
+  pattern,
+  passes: (metrics, validator) => ratedGood(metric, Number(metrics.performance[metric]), validator),
+  describe: metrics => `${label}: ${Number(metrics.performance[metric]).toFixed(unit ? 0 : 3)}${unit ? ` ${unit}` : ''}`
+});
+
+// With parsed values, a header only counts as fixed once it's present without warnings
+const headerCheck = (header: keyof ReportMetrics['security']['securityHeaders'], pattern: RegExp): MetricCheck => {
+  const getAnalysis = (metrics: ReportMetrics) =>
+    metrics.security.analysis?.headers.find(item => item.header === header.toLowerCase());
+
+  return {
+    label: header,
+    pattern,
+    passes: metrics => {
+      const analysis = getAnalysis(metrics);
+      if (!analysis) return Boolean(metrics.security.securityHeaders[header]);
+      return analysis.present && analysis.findings.every(finding => finding.severity === 'pass' || finding.severity === 'info');
+    },
+    describe: metrics => {
+      const analysis = getAnalysis(metrics);
+      const finding = analysis && getWorstFinding(analysis.findings);
+      if (finding) return `${header}: ${finding.message}`;
+      return `${header}: ${metrics.security.securityHeaders[header] ? 'present' : 'missing'}`;
+    }
+  };
+};
+
+const METRIC_CHECKS: MetricCheck[] = [
+  vitalCheck('Largest Contentful Paint', /\b(lcp|largest contentful)/i, 'largestContentfulPaint'),
+  vitalCheck('First Contentful Paint', /\b(fcp|first contentful)/i, 'firstContentfulPaint'),
+  vitalCheck('Cumulative Layout Shift', /\b(cls|layout shift)/i, 'cumulativeLayoutShift', ''),
+  vitalCheck('Time to First Byte', /\b(ttfb|time to first byte|server response)/i, 'ttfb'),
+  vitalCheck('Total Blocking Time', /\b(tbt|blocking time|main[- ]thread)/i, 'tbt'),
+  vitalCheck('Time to Interactive', /\b(tti|time to interactive)/i, 'timeToInteractive'),
+  {
+    label: 'Title length',
+    pattern: /\btitle\b/i,
+    passes: (metrics, validator) => ratedGood('titleLength', metrics.seo.title?.length || 0, validator),
+    describe: metrics => `Title: ${metrics.seo.title?.length || 0} characters`
+  },
+  {
+    label: 'Meta description length',
+    pattern: /\bmeta description|\bdescription\b/i,
+    passes: (metrics, validator) => ratedGood('descriptionLength', metrics.seo.metaDescription?.length || 0, validator),
+    describe: metrics => `Meta description: ${metrics.seo.metaDescription?.length || 0} characters`
+  },
+  {
+    label: 'Alt text coverage',
+    pattern: /\balt\b|alt text|alternative text/i,
+    passes: (metrics, validator) => ratedGood(
+      'altTextRatio',
+      metrics.accessibility.totalImages > 0 ? metrics.accessibility.imagesWithAltText / metrics.accessibility.totalImages : 1,
+      validator
+    ),
+    describe: metrics => `Images with alt text: ${metrics.accessibility.imagesWithAltText} / ${metrics.accessibility.totalImages}`
+  },
+  {
+    label: 'ARIA attributes',
+    pattern: /\baria\b/i,
+    passes: (metrics, validator) =>
+      metrics.accessibility.ariaAttributesCount >= validator.getThresholds().ACCESSIBILITY.ariaAttributesMinimum,
+    describe: metrics => `ARIA attributes: ${metrics.accessibility.ariaAttributesCount}`
+  },
+  {
+    label: 'Keyboard navigation',
+    pattern: /\bkeyboard/i,
+    passes: metrics => metrics.accessibility.keyboardNavigable,
+    describe: metrics => `Keyboard navigable: ${metrics.accessibility.keyboardNavigable ? 'yes' : 'no'}`
+  },
+  {
+    label: 'HTTPS',
+    pattern: /\bhttps\b|\bssl\b|\btls\b/i,
+    passes: metrics => metrics.security.isHttps,
+    describe: metrics => `HTTPS: ${metrics.security.isHttps ? 'yes' : 'no'}`
+  },
+  headerCheck('Content-Security-Policy', /content[- ]security[- ]policy|\bcsp\b/i),
+  headerCheck('Strict-Transport-Security', /strict[- ]transport|\bhsts\b/i),
+  headerCheck('X-Frame-Options', /x-frame-options|clickjacking/i),
+  headerCheck('X-Content-Type-Options', /x-content-type-options|mime sniffing/i),
+  headerCheck('Referrer-Policy', /referrer[- ]policy/i),
+  {
+    label: 'Broken links',
+    pattern: /broken link|dead link|\b404\b/i,
+    passes: metrics => metrics.brokenLinks.brokenLinks === 0,
+    describe: metrics => `Broken links: ${metrics.brokenLinks.brokenLinks} / ${metrics.brokenLinks.totalLinks}`
+  },
+  {
+    label: 'Responsive layout',
+    pattern: /\bresponsive|\bviewport|\bmobile/i,
+    passes: metrics => metrics.responsiveness.isResponsive,
+    describe: metrics => `Responsive layout: ${metrics.responsiveness.isResponsive ? 'yes' : 'no'}`
+  }
+];
+
+// Recommendations that name no specific metric can't be verified: a category score moves for
+// too many reasons to confirm one fix
+export const getMetricChecks = (item: RecommendationItem): MetricCheck[] =>
+  METRIC_CHECKS.filter(check => check.pattern.test(item.text));
+
+export const verifyRecommendation = (
+  item: RecommendationItem,
+  metrics: ReportMetrics,
+  validator: MetricValidator
+): RemediationVerification => {
+  const checks = getMetricChecks(item);
+  const failing = checks.filter(check => !check.passes(metrics, validator));
+
+  return {
+    result: checks.length === 0 ? 'unverifiable' : failing.length === 0 ? 'confirmed-fixed' : 'still-failing',
+    checkedAt: new Date(),
+    details: checks.map(check => `${check.passes(metrics, validator) ? '✓' : '✗'} ${check.describe(metrics)}`)
+  };
+};
+
+class RemediationService {
+  getEntry(report: StoredReport, recommendationId: string): RemediationEntry {
+    return report.remediation?.[recommendationId] || { status: 'open', updatedAt: report.timestamp };
+  }
+
+  // Re-evaluates the site and checks every tracked recommendation against the metrics it is tied to.
+  // Costs one evaluation, charged and refunded on failure like a manual run.
+  async verifyFixes(
+    userId: string,
+    report: StoredReport,
+    account: string | BillingAccount,
+    onStatus?: (status: string) => void
+  ): Promise<{ [recommendationId: string]: RemediationEntry } | null> {
+    const approved = await new Promise<boolean>(resolve => {
+      checkCreditsAndShowError(account, SERVICE_COSTS.EVALUATION, () => resolve(false), () => resolve(true));
+    });
+    if (!approved) return null;
+
+    await decrementUserBalance(account, SERVICE_COSTS.EVALUATION);
+
+    let metrics: ReportMetrics;
+    try {
+      metrics = buildReportMetrics(await streamEvaluation(report.websiteUrl, userId, { onStatus }), report.websiteUrl);
+    } catch (error) {
+      console.error(`Error re-evaluating ${report.websiteUrl}:`, error);
+      await decrementUserBalance(account, -SERVICE_COSTS.EVALUATION);
+      throw new Error('Failed to re-run the evaluation. Credits have been refunded.');
+    }
+
+    const validator = getMetricValidator(report.scoringProfile);
+    const updates: { [recommendationId: string]: RemediationEntry } = {};
+    getRecommendationItems(report).forEach(item => {
+      const entry = this.getEntry(report, item.id);
+      if (entry.status === 'wont-fix') return;
+
+      // Confirmed fixes are closed; items marked fixed that still fail are reopened
+      const verification = verifyRecommendation(item, metrics, validator);
+      const status: RemediationStatus = verification.result === 'confirmed-fixed'
+        ? 'fixed'
+        : verification.result === 'still-failing' && entry.status === 'fixed' ? 'open' : entry.status;
+      updates[item.id] = {
+        ...entry,
+        status,
+        updatedAt: new Date(),
+        verification
+      };
+    });
+
+    await reportStorage.updateRemediation(userId, report.id, updates, report.workspaceId);
+    return updates;
+  }
+}
+
+export const remediationService = new RemediationService();
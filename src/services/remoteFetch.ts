@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { getAuthHeaders } from './points';
+
+const API_URL = process.env.REACT_APP_API_URL;
+
+export interface RemoteTextResponse {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+// Loopback, private, link-local (cloud metadata) and unspecified addresses, written as IP literals
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[(::1?|f[cd][0-9a-f]{2}:.*|fe80:.*|::ffff:.*)\]$/i
+];
+
+// URLs come from pages being evaluated (sitemap entries, og:image, ...), so anything that isn't a
+// public http(s) address is refused before it reaches the proxy
+const isFetchableUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    return ['http:', 'https:'].includes(parsed.protocol)
+      && ['', '80', '443'].includes(parsed.port)
+      && !PRIVATE_HOST_PATTERNS.some(pattern => pattern.test(parsed.hostname));
+  } catch {
+    return false;
+  }
+};
+
+// Fetches a text resource (sitemap.xml, robots.txt, ...) from another origin through the
+// server-side proxy, since the browser cannot read cross-origin responses directly.
+//
+//   GET /api/proxy-text?url=<absolute URL>  -> RemoteTextResponse, with the target's status passed through
+//
+// The proxy takes the caller's Firebase ID token as a bearer token and refuses, with 400:
+// - schemes other than http and https, and ports other than 80 and 443
+// - hosts that resolve to a loopback, private, link-local or otherwise non-public address, checked
+//   again for every redirect hop (at most 5) and pinned for the connection
+// - bodies over 2 MB or responses taking longer than 15 seconds
+export async function fetchRemoteText(url: string): Promise<RemoteTextResponse> {
+  if (!isFetchableUrl(url)) {
+    throw new Error(`Refusing to fetch ${url}: only public http(s) URLs can be fetched`);
+  }
+  const response = await axios.get(`${API_URL}/api/proxy-text?url=${encodeURIComponent(url)}`, {
+    timeout: 20000,
+    headers: await getAuthHeaders()
+  });
+  return response.data;
+}
@@ -0,0 +1,242 @@
+import { StoredReport } from './reportStorage';
+import { getMetricValidator, MetricRating } from './metricValidator';
+import { toPercentScore } from '../utils/scores';
+
+export interface ComparisonRow {
+  label: string;
+  baseline: number | string | boolean | null;
+  current: number | string | boolean | null;
+  delta: number | null;
+  unit: string;
+  baselineRating: MetricRating | null;
+  currentRating: MetricRating | null;
+  trend: 'improved' | 'regressed' | 'unchanged' | null;
+}
+
+export interface ComparisonSection {
+  title: string;
+  rows: ComparisonRow[];
+}
+
+export interface ReportComparison {
+  baseline: StoredReport;
+  current: StoredReport;
+  sections: ComparisonSection[];
+  recommendations: {
+    [priority in 'critical' | 'important' | 'optional']: {
+      baseline: string[];
+      current: string[];
+    };
+  };
+}
+
+interface NumericRowConfig {
+  label: string;
+  unit?: string;
+  ratingKey?: string;
+  ratingScale?: number;
+  higherIsBetter?: boolean;
+  trackTrend?: boolean;
+  getValue: (report: StoredReport) => number | undefined;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !isNaN(value);
+
+const createNumericRow = (baseline: StoredReport, current: StoredReport, config: NumericRowConfig): ComparisonRow => {
+  const baselineValue = config.getValue(baseline);
+  const currentValue = config.getValue(current);
+  const delta = isNumber(baselineValue) && isNumber(currentValue) ? currentValue - baselineValue : null;
+  // Each side is rated against the scoring profile it was generated with
+  const rate = (report: StoredReport, value: number | undefined) =>
+    config.ratingKey && isNumber(value)
+      ? getMetricValidator(report.scoringProfile).rateMetric(config.ratingKey, value * (config.ratingScale ?? 1))
+      : null;
+
+  let trend: ComparisonRow['trend'] = null;
+  if (delta !== null && config.trackTrend !== false) {
+    const improvement = config.higherIsBetter ? delta : -delta;
+    trend = improvement > 0 ? 'improved' : improvement < 0 ? 'regressed' : 'unchanged';
+  }
+
+  return {
+    label: config.label,
+    baseline: isNumber(baselineValue) ? baselineValue : null,
+    current: isNumber(currentValue) ? currentValue : null,
+    delta,
+    unit: config.unit || '',
+    baselineRating: rate(baseline, baselineValue),
+    currentRating: rate(current, currentValue),
+    trend
+  };
+};
+
+const createValueRow = (label: string, baseline: unknown, current: unknown): ComparisonRow => {
+  const normalize = (value: unknown) =>
+    typeof value === 'string' || typeof value === 'boolean' || isNumber(value) ? value : null;
+  const baselineValue = normalize(baseline);
+  const currentValue = normalize(current);
+
+  return {
+    label,
+    baseline: baselineValue,
+    current: currentValue,
+    delta: null,
+    unit: '',
+    baselineRating: null,
+    currentRating: null,
+    trend: baselineValue === currentValue ? 'unchanged' : null
+  };
+};
+
+const createBooleanRow = (label: string, baseline: boolean | undefined, current: boolean | undefined): ComparisonRow => {
+  const row = createValueRow(label, baseline, current);
+  const toRating = (value: boolean | undefined): MetricRating | null =>
+    value === undefined ? null : value ? 'good' : 'poor';
+  row.baselineRating = toRating(baseline);
+  row.currentRating = toRating(current);
+  if (baseline !== undefined && current !== undefined && baseline !== current) {
+    row.trend = current ? 'improved' : 'regressed';
+  }
+  return row;
+};
+
+class ReportComparisonService {
+  // Orders the two reports chronologically so deltas always read as "older -> newer"
+  compare(first: StoredReport, second: StoredReport): ReportComparison {
+    const [baseline, current] = new Date(first.timestamp).getTime() <= new Date(second.timestamp).getTime()
+      ? [first, second]
+      : [second, first];
+
+    const numericRows = (configs: NumericRowConfig[]) =>
+      configs.map(config => createNumericRow(baseline, current, config));
+
+    const phases = Array.from(new Set([
+      ...Object.keys(baseline.phaseScores || {}),
+      ...Object.keys(current.phaseScores || {})
+    ]));
+
+    const securityHeaders = Array.from(new Set([
+      ...Object.keys(baseline.essentialMetrics.security?.securityHeaders || {}),
+      ...Object.keys(current.essentialMetrics.security?.securityHeaders || {})
+    ]));
+
+    const sections: ComparisonSection[] = [
+      {
+        title: 'Scores',
+        rows: numericRows([
+          { label: 'Overall Score', unit: '%', ratingKey: 'score', higherIsBetter: true, getValue: r => r.overallScore },
+          ...phases.map(phase => ({
+            label: phase,
+            unit: '%',
+            ratingKey: 'score',
+            higherIsBetter: true,
+            getValue: (r: StoredReport) => r.phaseScores?.[phase]
+          }))
+        ])
+      },
+      {
+        title: 'Performance',
+        rows: numericRows([
+          { label: 'First Contentful Paint', unit: 'ms', ratingKey: 'firstContentfulPaint', getValue: r => r.essentialMetrics.performance?.firstContentfulPaint },
+          { label: 'Largest Contentful Paint', unit: 'ms', ratingKey: 'largestContentfulPaint', getValue: r => r.essentialMetrics.performance?.largestContentfulPaint },
+          { label: 'Cumulative Layout Shift', ratingKey: 'cumulativeLayoutShift', getValue: r => r.essentialMetrics.performance?.cumulativeLayoutShift },
+          { label: 'Time to Interactive', unit: 'ms', ratingKey: 'timeToInteractive', getValue: r => r.essentialMetrics.performance?.timeToInteractive },
+          { label: 'Time to First Byte', unit: 'ms', ratingKey: 'ttfb', getValue: r => r.essentialMetrics.performance?.ttfb },
+          { label: 'Total Blocking Time', unit: 'ms', ratingKey: 'tbt', getValue: r => r.essentialMetrics.performance?.tbt },
+          { label: 'Estimated FID', unit: 'ms', ratingKey: 'estimatedFid', getValue: r => r.essentialMetrics.performance?.estimatedFid },
+          { label: 'Load Time', unit: 'ms', getValue: r => r.essentialMetrics.performance?.loadTime }
+        ])
+      },
+      {
+        title: 'SEO',
+        rows: [
+          ...numericRows([
+            { label: 'SEO Score', unit: '%', ratingKey: 'score', higherIsBetter: true, getValue: r => toPercentScore(r.essentialMetrics.seo?.score) },
+            { label: 'Title Length', unit: ' chars', ratingKey: 'titleLength', trackTrend: false, getValue: r => r.essentialMetrics.seo?.title?.length },
+            { label: 'Description Length', unit: ' chars', ratingKey: 'descriptionLength', trackTrend: false, getValue: r => r.essentialMetrics.seo?.metaDescription?.length }
+          ]),
+          createValueRow('Title', baseline.essentialMetrics.seo?.title, current.essentialMetrics.seo?.title)
+        ]
+      },
+      {
+        title: 'Accessibility',
+        rows: [
+          ...numericRows([
+            { label: 'Accessibility Score', unit: '%', ratingKey: 'score', higherIsBetter: true, getValue: r => toPercentScore(r.essentialMetrics.accessibility?.score) },
+            {
+              label: 'Alt Text Coverage',
+              unit: '%',
+              ratingKey: 'altTextRatio',
+              ratingScale: 0.01,
+              higherIsBetter: true,
+              getValue: r => {
+                const accessibility = r.essentialMetrics.accessibility;
+                return accessibility?.totalImages ? (accessibility.imagesWithAltText / accessibility.totalImages) * 100 : undefined;
+              }
+            },
+            { label: 'ARIA Attributes', higherIsBetter: true, getValue: r => r.essentialMetrics.accessibility?.ariaAttributesCount }
+          ]),
+          createBooleanRow(
+            'Keyboard Navigable',
+            baseline.essentialMetrics.accessibility?.keyboardNavigable,
+            current.essentialMetrics.accessibility?.keyboardNavigable
+          )
+        ]
+      },
+      {
+        title: 'Lighthouse',
+        rows: numericRows([
+          { label: 'Performance', unit: '%', ratingKey: 'score', higherIsBetter: true, getValue: r => toPercentScore(r.essentialMetrics.lighthouse?.performance) },
+          { label: 'Accessibility', unit: '%', ratingKey: 'score', higherIsBetter: true, getValue: r => toPercentScore(r.essentialMetrics.lighthouse?.accessibility) },
+          { label: 'Best Practices', unit: '%', ratingKey: 'score', higherIsBetter: true, getValue: r => toPercentScore(r.essentialMetrics.lighthouse?.bestPractices) },
+          { label: 'SEO', unit: '%', ratingKey: 'score', higherIsBetter: true, getValue: r => toPercentScore(r.essentialMetrics.lighthouse?.seo) }
+        ])
+      },
+      {
+        title: 'Security',
+        rows: [
+          createBooleanRow('HTTPS', baseline.essentialMetrics.security?.isHttps, current.essentialMetrics.security?.isHttps),
+          createValueRow('TLS Version', baseline.essentialMetrics.security?.tlsVersion, current.essentialMetrics.security?.tlsVersion),
+          ...securityHeaders.map(header => createBooleanRow(
+            header,
+            (baseline.essentialMetrics.security?.securityHeaders as { [key: string]: boolean } | undefined)?.[header],
+            (current.essentialMetrics.security?.securityHeaders as { [key: string]: boolean } | undefined)?.[header]
+          ))
+        ]
+      }
+    ];
+
+    const getRecommendations = (report: StoredReport, priority: 'critical' | 'important' | 'optional') =>
+      report.professionalAnalysis?.recommendations?.[priority] || [];
+
+    return {
+      baseline,
+      current,
+      sections,
+      recommendations: {
+        critical: { baseline: getRecommendations(baseline, 'critical'), current: getRecommendations(current, 'critical') },
+        important: { baseline: getRecommendations(baseline, 'important'), current: getRecommendations(current, 'important') },
+        optional: { baseline: getRecommendations(baseline, 'optional'), current: getRecommendations(current, 'optional') }
+      }
+    };
+  }
+
+  formatValue(row: ComparisonRow, value: ComparisonRow['baseline']): string {
+    if (value === null || value === undefined || value === '') return 'N/A';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'string') return value;
+    const decimals = row.label === 'Cumulative Layout Shift' ? 3 : row.unit === 'ms' ? 0 : 1;
+    return `${Number(value.toFixed(decimals))}${row.unit}`;
+  }
+
+  formatDelta(row: ComparisonRow): string {
+    if (row.delta === null) {
+      return row.trend === 'unchanged' ? '=' : row.trend === 'improved' ? '▲' : row.trend === 'regressed' ? '▼' : '';
+    }
+    if (row.delta === 0) return '=';
+    const decimals = row.label === 'Cumulative Layout Shift' ? 3 : row.unit === 'ms' ? 0 : 1;
+    return `${row.delta > 0 ? '+' : ''}${Number(row.delta.toFixed(decimals))}${row.unit}`;
+  }
+}
+
+export const reportComparison = new ReportComparisonService();
@@ -0,0 +1,571 @@
+import { saveAs } from 'file-saver';
+import { auth } from './firebase';
+import { ReportData, ReportResponse, reportGenerator } from './reportGenerator';
+import { getMetricValidator, MetricRating } from './metricValidator';
+import { brandingService, BrandSettings, DEFAULT_BRAND_SETTINGS } from './branding';
+import { toPercentScore } from '../utils/scores';
+import { describeComplianceLevel, WCAG_LEVELS } from './accessibilityAudit';
+import { getHeaderName, getWorstFinding, scoreSecurity, FindingSeverity } from './securityAnalysis';
+import { getDaysToExpiry, countMixedContent, isWeakProtocol } from './tlsInspection';
+import { formatBytes } from './resourceBreakdown';
+import { getImageRecommendations } from './imageAudit';
+import { INDEXABILITY_VERDICT_LABELS } from './indexability';
+import { SOCIAL_PLATFORM_LABELS } from './socialPreview';
+import { CONTENT_LIMITS } from './contentAnalysis';
+
+export type ExportFormat = 'pdf' | 'html' | 'markdown' | 'json' | 'csv';
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'pdf', label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+  { format: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html;charset=utf-8' },
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' }
+];
+
+// Bump the major version (and publish a new schema file) whenever a field is removed or changes meaning
+export const REPORT_JSON_SCHEMA_VERSION = '1.11.0';
+export const REPORT_JSON_SCHEMA_PATH = '/schemas/report-v1.schema.json';
+
+// One flattened metric, shared by the tabular formats so they always agree
+export interface ExportMetricRow {
+  section: string;
+  metric: string;
+  value: string | number | boolean;
+  unit?: string;
+  rating?: MetricRating | null;
+}
+
+const RATING_LABELS: { [rating in MetricRating]: string } = {
+  good: 'Good',
+  'needs-improvement': 'Needs Improvement',
+  poor: 'Poor'
+};
+
+const formatRating = (rating?: MetricRating | null) => (rating ? RATING_LABELS[rating] : '');
+
+const formatValue = (row: ExportMetricRow): string => {
+  if (typeof row.value === 'boolean') return row.value ? 'Yes' : 'No';
+  if (typeof row.value === 'number') {
+    const rounded = Number.isInteger(row.value) ? row.value : Number(row.value.toFixed(3));
+    return `${rounded}${row.unit ? ` ${row.unit}` : ''}`;
+  }
+  return row.value;
+};
+
+export const buildMetricRows = (data: ReportData): ExportMetricRow[] => {
+  const validator = getMetricValidator(data.scoringProfile);
+  const { performance, seo, accessibility, lighthouse, security, formFunctionality, brokenLinks, responsiveness, bestPractices, content } = data.metrics;
+  const rows: ExportMetricRow[] = [
+    { section: 'Summary', metric: 'Overall Score', value: data.overallScore, unit: '%', rating: validator.rateMetric('score', data.overallScore) }
+  ];
+
+  Object.entries(data.phaseScores).forEach(([phase, score]) => {
+    rows.push({ section: 'Phase Scores', metric: phase, value: score, unit: '%', rating: validator.rateMetric('score', score) });
+  });
+
+  const timing = (metric: string, label: string, value: number | undefined, unit = 'ms') => {
+    if (typeof value !== 'number') return;
+    rows.push({ section: 'Performance', metric: label, value, unit, rating: validator.rateMetric(metric, value) });
+  };
+  timing('loadTime', 'Load Time', performance.loadTime);
+  timing('firstContentfulPaint', 'First Contentful Paint', performance.firstContentfulPaint);
+  timing('largestContentfulPaint', 'Largest Contentful Paint', performance.largestContentfulPaint);
+  timing('cumulativeLayoutShift', 'Cumulative Layout Shift', performance.cumulativeLayoutShift, '');
+  timing('ttfb', 'Time to First Byte', performance.ttfb);
+  timing('timeToInteractive', 'Time to Interactive', performance.timeToInteractive);
+  timing('tbt', 'Total Blocking Time', performance.tbt);
+  timing('estimatedFid', 'Estimated First Input Delay', performance.estimatedFid);
+  if (performance.resourceBreakdown) {
+    const { totals, byType, byParty } = performance.resourceBreakdown;
+    rows.push({ section: 'Performance', metric: 'Page Weight', value: formatBytes(totals.transferSize), rating: validator.rateMetric('pageSize', totals.transferSize) });
+    [...byType, ...byParty].forEach(group => {
+      rows.push({
+        section: 'Resource Weight',
+        metric: group.label,
+        value: `${formatBytes(group.transferSize)} (${Math.round(group.share * 100)}%, ${group.count} requests${group.blockingTime > 0 ? `, ${group.blockingTime} ms blocking` : ''})`
+      });
+    });
+  } else if (typeof performance.pageSize === 'number') {
+    rows.push({ section: 'Performance', metric: 'Page Weight', value: formatBytes(performance.pageSize), rating: validator.rateMetric('pageSize', performance.pageSize) });
+  }
+  timing('speedIndex', 'Speed Index', performance.speedIndex);
+
+  if (lighthouse) {
+    ([
+      ['Performance', lighthouse.performance],
+      ['Accessibility', lighthouse.accessibility],
+      ['Best Practices', lighthouse.bestPractices],
+      ['SEO', lighthouse.seo]
+    ] as [string, number][]).forEach(([label, value]) => {
+      const score = Math.round(toPercentScore(value) || 0);
+      rows.push({ section: 'Lighthouse', metric: label, value: score, unit: '%', rating: validator.rateMetric('score', score) });
+    });
+  }
+
+  rows.push(
+    { section: 'SEO', metric: 'Title', value: seo.title || 'Missing', rating: validator.rateMetric('titleLength', seo.title?.length || 0) },
+    { section: 'SEO', metric: 'Meta Description', value: seo.metaDescription || 'Missing', rating: validator.rateMetric('descriptionLength', seo.metaDescription?.length || 0) }
+  );
+  if (seo.headings) {
+    rows.push({ section: 'SEO', metric: 'H1 Headings', value: seo.headings.h1Count });
+  }
+  if (seo.indexability) {
+    const { indexability } = seo;
+    rows.push({
+      section: 'SEO',
+      metric: 'Indexability',
+      value: INDEXABILITY_VERDICT_LABELS[indexability.verdict],
+      rating: indexability.verdict === 'not-indexable' ? 'poor' : indexability.verdict === 'indexable' ? 'good' : 'needs-improvement'
+    });
+    indexability.issues.forEach(issue => {
+      rows.push({ section: 'Indexability', metric: issue.severity === 'error' ? 'Blocker' : 'Warning', value: issue.message, rating: issue.severity === 'error' ? 'poor' : 'needs-improvement' });
+    });
+  }
+  if (typeof seo.robotsTxt === 'boolean') {
+    rows.push({ section: 'SEO', metric: 'robots.txt', value: seo.robotsTxt });
+  }
+  if (typeof seo.sitemapXml === 'boolean') {
+    rows.push({ section: 'SEO', metric: 'Valid Sitemap', value: seo.sitemapXml, rating: seo.sitemapXml ? 'good' : 'needs-improvement' });
+  }
+  if (seo.canonicalUrl) {
+    rows.push({ section: 'SEO', metric: 'Canonical URL', value: seo.canonicalUrl });
+  }
+  if (typeof seo.mobileResponsive === 'boolean') {
+    rows.push({ section: 'SEO', metric: 'Mobile Responsive', value: seo.mobileResponsive, rating: seo.mobileResponsive ? 'good' : 'poor' });
+  }
+  if (seo.socialPreview) {
+    const { socialPreview } = seo;
+    const errors = socialPreview.issues.filter(issue => issue.severity === 'error').length;
+    rows.push({
+      section: 'SEO',
+      metric: 'Social Sharing Tags',
+      value: socialPreview.issues.length > 0 ? `${socialPreview.issues.length} issue(s)` : 'Complete',
+      rating: errors > 0 ? 'poor' : socialPreview.issues.length > 0 ? 'needs-improvement' : 'good'
+    });
+    socialPreview.issues.forEach(issue => {
+      rows.push({ section: 'Social Sharing', metric: issue.tag, value: issue.message, rating: issue.severity === 'error' ? 'poor' : 'needs-improvement' });
+    });
+    socialPreview.previews.forEach(preview => {
+      rows.push({ section: 'Social Sharing', metric: `${SOCIAL_PLATFORM_LABELS[preview.platform]} Preview`, value: `${preview.layout} card: ${preview.title}` });
+    });
+  }
+  if (seo.structuredDataAudit) {
+    const { structuredDataAudit } = seo;
+    rows.push({
+      section: 'SEO',
+      metric: 'Structured Data Errors',
+      value: structuredDataAudit.errorCount,
+      rating: structuredDataAudit.errorCount > 0 ? 'poor' : structuredDataAudit.entities.length === 0 ? 'needs-improvement' : 'good'
+    });
+    structuredDataAudit.entities.forEach(entity => {
+      rows.push({
+        section: 'Structured Data',
+        metric: `${entity.type} (${entity.source})`,
+        value: entity.issues.length > 0 ? entity.issues.map(issue => issue.message).join('; ') : 'Valid',
+        rating: entity.issues.some(issue => issue.severity === 'error') ? 'poor' : entity.issues.length > 0 ? 'needs-improvement' : 'good'
+      });
+    });
+  }
+
+  const altTextRatio = accessibility.totalImages > 0 ? accessibility.imagesWithAltText / accessibility.totalImages : 1;
+  rows.push(
+    { section: 'Accessibility', metric: 'Images with Alt Text', value: `${accessibility.imagesWithAltText} / ${accessibility.totalImages}`, rating: validator.rateMetric('altTextRatio', altTextRatio) },
+    { section: 'Accessibility', metric: 'ARIA Attributes', value: accessibility.ariaAttributesCount },
+    { section: 'Accessibility', metric: 'Keyboard Navigable', value: accessibility.keyboardNavigable, rating: accessibility.keyboardNavigable ? 'good' : 'poor' }
+  );
+  if (accessibility.audit) {
+    const { audit } = accessibility;
+    rows.push(
+      { section: 'Accessibility', metric: 'WCAG 2.2 Compliance', value: describeComplianceLevel(audit.complianceLevel), rating: audit.complianceLevel ? 'good' : 'poor' },
+      ...WCAG_LEVELS.map(level => ({
+        section: 'Accessibility',
+        metric: `Level ${level} Violations`,
+        value: audit.violationCounts[level],
+        rating: (audit.violationCounts[level] === 0 ? 'good' : level === 'A' ? 'poor' : 'needs-improvement') as MetricRating
+      }))
+    );
+  }
+
+  if (security) {
+    rows.push({ section: 'Security', metric: 'HTTPS', value: security.isHttps, rating: security.isHttps ? 'good' : 'poor' });
+    if (security.tls) {
+      const { tls } = security;
+      if (tls.protocol) {
+        rows.push({ section: 'Security', metric: 'TLS Protocol', value: tls.protocol, rating: isWeakProtocol(tls.protocol) ? 'poor' : 'good' });
+      }
+      if (tls.certificate) {
+        const daysToExpiry = getDaysToExpiry(tls.certificate.validTo);
+        rows.push(
+          { section: 'Security', metric: 'Certificate Issuer', value: tls.certificate.issuer || 'Unknown' },
+          { section: 'Security', metric: 'Certificate Expires In', value: daysToExpiry, unit: 'days', rating: validator.rateMetric('certificateExpiryDays', daysToExpiry) }
+        );
+      }
+      const { active, passive } = countMixedContent(tls);
+      rows.push({ section: 'Security', metric: 'Mixed Content', value: `${active} active, ${passive} passive`, rating: active > 0 ? 'poor' : passive > 0 ? 'needs-improvement' : 'good' });
+    }
+    if (security.analysis) {
+      const severityRatings: { [severity in FindingSeverity]: MetricRating } = {
+        pass: 'good',
+        info: 'good',
+        warning: 'needs-improvement',
+        critical: 'poor'
+      };
+      const headerScore = scoreSecurity(security.analysis, validator.getThresholds()).score;
+      rows.push({ section: 'Security', metric: 'Header Score', value: `${Math.round(headerScore * 100)}%`, rating: validator.rateMetric('securityHeaderScore', headerScore) });
+      security.analysis.headers.forEach(item => {
+        const finding = getWorstFinding(item.findings);
+        rows.push({
+          section: 'Security',
+          metric: getHeaderName(item.header),
+          value: finding ? finding.message : item.present,
+          rating: finding ? severityRatings[finding.severity] : null
+        });
+      });
+    } else {
+      Object.entries(security.securityHeaders || {}).forEach(([header, present]) => {
+        rows.push({ section: 'Security', metric: header, value: Boolean(present), rating: present ? 'good' : 'poor' });
+      });
+    }
+  }
+
+  if (formFunctionality) {
+    rows.push(
+      { section: 'Functionality', metric: 'Forms', value: formFunctionality.totalForms },
+      { section: 'Functionality', metric: 'Forms with Submit Button', value: formFunctionality.formsWithSubmitButton },
+      { section: 'Functionality', metric: 'Interactive Elements', value: formFunctionality.interactiveElementsCount }
+    );
+  }
+  if (brokenLinks) {
+    rows.push(
+      { section: 'Functionality', metric: 'Links', value: brokenLinks.totalLinks },
+      { section: 'Functionality', metric: 'Broken Links', value: brokenLinks.brokenLinks, rating: brokenLinks.brokenLinks > 0 ? 'poor' : 'good' }
+    );
+  }
+  if (responsiveness) {
+    rows.push({ section: 'Functionality', metric: 'Responsive Layout', value: responsiveness.isResponsive, rating: responsiveness.isResponsive ? 'good' : 'poor' });
+  }
+  if (bestPractices?.imageAudit?.totalImages) {
+    const { imageAudit } = bestPractices;
+    rows.push(
+      {
+        section: 'Best Practices',
+        metric: 'Optimized Images',
+        value: `${imageAudit.optimizedImages} / ${imageAudit.totalImages}`,
+        rating: validator.rateMetric('imageOptimizationRatio', imageAudit.optimizedImages / imageAudit.totalImages)
+      },
+      { section: 'Best Practices', metric: 'Estimated Image Savings', value: formatBytes(imageAudit.totalSavings) },
+      { section: 'Best Practices', metric: 'Images Without Dimensions', value: imageAudit.missingDimensions, rating: imageAudit.missingDimensions > 0 ? 'needs-improvement' : 'good' }
+    );
+    getImageRecommendations(imageAudit).forEach(recommendation => {
+      rows.push({ section: 'Image Optimization', metric: 'Recommendation', value: recommendation });
+    });
+  } else if (bestPractices) {
+    rows.push({ section: 'Best Practices', metric: 'Optimized Images', value: `${bestPractices.optimizedImages} / ${bestPractices.totalImages}` });
+  }
+  if (content) {
+    const { readability, keyword } = content;
+    const misalignedHeadings = content.headingAlignment.filter(heading => !heading.aligned).length;
+    rows.push(
+      { section: 'Content', metric: 'Word Count', value: content.wordCount, rating: content.thinContent ? 'poor' : 'good' },
+      {
+        section: 'Content',
+        metric: 'Flesch Reading Ease',
+        value: readability.fleschReadingEase,
+        rating: readability.fleschReadingEase >= 60 ? 'good' : readability.fleschReadingEase >= 30 ? 'needs-improvement' : 'poor'
+      },
+      { section: 'Content', metric: 'Reading Level', value: content.readingLevel },
+      { section: 'Content', metric: 'Flesch-Kincaid Grade', value: readability.fleschKincaidGrade },
+      { section: 'Content', metric: 'Gunning Fog', value: readability.gunningFog },
+      { section: 'Content', metric: 'SMOG Index', value: readability.smogIndex },
+      {
+        section: 'Content',
+        metric: 'Average Sentence Length',
+        value: content.averageSentenceLength,
+        unit: 'words',
+        rating: content.averageSentenceLength > CONTENT_LIMITS.LONG_SENTENCE_WORDS ? 'needs-improvement' : 'good'
+      },
+      { section: 'Content', metric: 'Reading Time', value: content.readingTimeMinutes, unit: 'min' },
+      { section: 'Content', metric: 'Duplicate Paragraphs', value: content.duplicateParagraphs.length, rating: content.duplicateParagraphs.length > 0 ? 'needs-improvement' : 'good' },
+      { section: 'Content', metric: 'Misaligned Headings', value: misalignedHeadings, rating: misalignedHeadings > 0 ? 'needs-improvement' : 'good' }
+    );
+    if (keyword) {
+      rows.push({
+        section: 'Content',
+        metric: `Keyword Density ("${keyword.keyword}")`,
+        value: keyword.density,
+        unit: '%',
+        rating: keyword.status === 'optimal' ? 'good' : keyword.status === 'low' ? 'needs-improvement' : 'poor'
+      });
+    }
+  }
+
+  return rows;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Table cells can't contain raw pipes or line breaks
+const escapeMarkdownCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+// Quotes every field so commas, quotes and line breaks in titles survive spreadsheet import
+const escapeCsv = (value: string | number): string => `"${String(value).replace(/"/g, '""')}"`;
+
+const groupBySection = (rows: ExportMetricRow[]): [string, ExportMetricRow[]][] => {
+  const sections = new Map<string, ExportMetricRow[]>();
+  rows.forEach(row => sections.set(row.section, [...(sections.get(row.section) || []), row]));
+  return Array.from(sections.entries());
+};
+
+// The analysis sections in reading order, with the lists each one renders
+const getAnalysisSections = (analysis: ReportResponse): { title: string; lists: [string, string[]][]; text?: string }[] => [
+  {
+    title: 'Executive Summary',
+    text: analysis.executiveSummary.overallAssessment,
+    lists: [
+      ['Key Strengths', analysis.executiveSummary.keyStrengths],
+      ['Critical Issues', analysis.executiveSummary.criticalIssues]
+    ]
+  },
+  {
+    title: 'Performance Analysis',
+    text: analysis.technicalAnalysis.performance.coreWebVitals.assessment,
+    lists: [
+      ['Insights', analysis.technicalAnalysis.performance.insights],
+      ['Recommendations', analysis.technicalAnalysis.performance.recommendations]
+    ]
+  },
+  {
+    title: 'Accessibility Analysis',
+    text: analysis.technicalAnalysis.accessibility.complianceLevel,
+    lists: [
+      ['Insights', analysis.technicalAnalysis.accessibility.insights],
+      ['Key Issues', analysis.technicalAnalysis.accessibility.keyIssues],
+      ['Recommendations', analysis.technicalAnalysis.accessibility.recommendations]
+    ]
+  },
+  {
+    title: 'SEO Analysis',
+    lists: [
+      ['Insights', analysis.technicalAnalysis.seo.insights],
+      ['Meta Tags', analysis.technicalAnalysis.seo.metaTagAnalysis],
+      ['Structure', analysis.technicalAnalysis.seo.structureAnalysis],
+      ['Recommendations', analysis.technicalAnalysis.seo.recommendations]
+    ]
+  },
+  {
+    title: 'Best Practices Analysis',
+    lists: [
+      ['Insights', analysis.technicalAnalysis.bestPractices.insights],
+      ['Security', analysis.technicalAnalysis.bestPractices.securityAssessment],
+      ['Semantics', analysis.technicalAnalysis.bestPractices.semanticAnalysis],
+      ['Recommendations', analysis.technicalAnalysis.bestPractices.recommendations]
+    ]
+  },
+  ...(analysis.technicalAnalysis.content ? [{
+    title: 'Content Analysis',
+    lists: [
+      ['Readability', analysis.technicalAnalysis.content.readabilityAssessment],
+      ['Keywords', analysis.technicalAnalysis.content.keywordAnalysis],
+      ['Insights', analysis.technicalAnalysis.content.insights],
+      ['Recommendations', analysis.technicalAnalysis.content.recommendations]
+    ] as [string, string[]][]
+  }] : []),
+  {
+    title: 'Recommendations',
+    lists: [
+      ['Critical', analysis.recommendations.critical],
+      ['Important', analysis.recommendations.important],
+      ['Optional', analysis.recommendations.optional]
+    ]
+  }
+];
+
+class ReportExporter {
+  getFormatInfo(format: ExportFormat): ExportFormatInfo {
+    return EXPORT_FORMATS.find(info => info.format === format) || EXPORT_FORMATS[0];
+  }
+
+  getFileName(websiteUrl: string, format: ExportFormat): string {
+    return `${websiteUrl.replace(/[^a-z0-9]/gi, '_')}_report.${this.getFormatInfo(format).extension}`;
+  }
+
+  toJson(data: ReportData): string {
+    return JSON.stringify({
+      $schema: `${window.location.origin}${REPORT_JSON_SCHEMA_PATH}`,
+      schemaVersion: REPORT_JSON_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      report: {
+        websiteUrl: data.websiteUrl,
+        timestamp: data.timestamp.toISOString(),
+        overallScore: data.overallScore,
+        phaseScores: data.phaseScores,
+        completedPhases: data.completedPhases || null,
+        scoringProfile: data.scoringProfile ? { id: data.scoringProfile.id, name: data.scoringProfile.name } : null,
+        metrics: data.metrics,
+        benchmark: data.benchmark || null,
+        analysis: data.professionalAnalysis || null
+      }
+    }, null, 2);
+  }
+
+  toCsv(data: ReportData): string {
+    const header = ['Section', 'Metric', 'Value', 'Unit', 'Rating'];
+    const lines = buildMetricRows(data).map(row => [
+      row.section,
+      row.metric,
+      typeof row.value === 'boolean' ? (row.value ? 'Yes' : 'No') : row.value,
+      row.unit || '',
+      formatRating(row.rating)
+    ]);
+    return [header, ...lines].map(line => line.map(escapeCsv).join(',')).join('\r\n');
+  }
+
+  toMarkdown(data: ReportData): string {
+    const lines: string[] = [
+      `# Website Evaluation Report: ${data.websiteUrl}`,
+      '',
+      `Generated on ${data.timestamp.toLocaleString()}${data.scoringProfile ? ` · Scoring profile: ${data.scoringProfile.name}` : ''}`,
+      '',
+      `**Overall Score:** ${data.overallScore}%`,
+      ''
+    ];
+
+    groupBySection(buildMetricRows(data))
+      .filter(([section]) => section !== 'Summary')
+      .forEach(([section, rows]) => {
+        lines.push(`## ${section}`, '', '| Metric | Value | Rating |', '| --- | --- | --- |');
+        rows.forEach(row => {
+          lines.push(`| ${escapeMarkdownCell(row.metric)} | ${escapeMarkdownCell(formatValue(row))} | ${formatRating(row.rating)} |`);
+        });
+        lines.push('');
+      });
+
+    if (data.professionalAnalysis) {
+      getAnalysisSections(data.professionalAnalysis).forEach(section => {
+        lines.push(`## ${section.title}`, '');
+        if (section.text) {
+          lines.push(section.text, '');
+        }
+        section.lists
+          .filter(([, items]) => items?.length > 0)
+          .forEach(([title, items]) => {
+            lines.push(`### ${title}`, '', ...items.map(item => `- ${item}`), '');
+          });
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  // Produces a single file with inline styles and the logo embedded, so it can be mailed or attached as-is
+  toHtml(data: ReportData, branding: BrandSettings = DEFAULT_BRAND_SETTINGS): string {
+    const ratingColors: { [rating in MetricRating]: string } = {
+      good: '#2e7d32',
+      'needs-improvement': '#ef6c00',
+      poor: '#c62828'
+    };
+
+    const tables = groupBySection(buildMetricRows(data))
+      .filter(([section]) => section !== 'Summary')
+      .map(([section, rows]) => `
+    <h2>${escapeHtml(section)}</h2>
+    <table>
+      <tbody>
+        ${rows.map(row => `<tr><td>${escapeHtml(row.metric)}</td><td${row.rating ? ` style="color:${ratingColors[row.rating]}"` : ''}>${escapeHtml(formatValue(row))}</td><td>${formatRating(row.rating)}</td></tr>`).join('\n        ')}
+      </tbody>
+    </table>`)
+      .join('\n');
+
+    const analysis = data.professionalAnalysis
+      ? getAnalysisSections(data.professionalAnalysis).map(section => `
+    <h2>${escapeHtml(section.title)}</h2>
+    ${section.text ? `<p>${escapeHtml(section.text)}</p>` : ''}
+    ${section.lists
+      .filter(([, items]) => items?.length > 0)
+      .map(([title, items]) => `<h3>${escapeHtml(title)}</h3><ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`)
+      .join('\n    ')}`).join('\n')
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(branding.coverTitle)} - ${escapeHtml(data.websiteUrl)}</title>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; color: #222; max-width: 900px; margin: 40px auto; padding: 0 20px; line-height: 1.5; }
+    h1, h2, h3 { color: ${branding.primaryColor}; }
+    h2 { border-bottom: 1px solid #ddd; padding-bottom: 4px; margin-top: 32px; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 6px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+    td:first-child { color: ${branding.secondaryColor}; width: 40%; }
+    .logo { max-width: 200px; max-height: 80px; }
+    .meta { color: #666; }
+    .score { font-size: 1.4em; font-weight: bold; }
+    footer { margin-top: 40px; color: #888; font-size: 0.85em; }
+  </style>
+</head>
+<body>
+  <header>
+    ${branding.logoDataUrl ? `<img class="logo" src="${branding.logoDataUrl}" alt="${escapeHtml(branding.companyName)}">` : ''}
+    <h1>${escapeHtml(branding.coverTitle)}</h1>
+    <p><strong>${escapeHtml(data.websiteUrl)}</strong></p>
+    <p class="meta">Generated on ${escapeHtml(data.timestamp.toLocaleString())}${data.scoringProfile ? ` · Scoring profile: ${escapeHtml(data.scoringProfile.name)}` : ''}</p>
+    <p class="score">Overall Score: ${data.overallScore}%</p>
+  </header>
+  <main>${tables}
+${analysis}
+  </main>
+  <footer>
+    ${branding.footerContact ? `${escapeHtml(branding.footerContact)}<br>` : ''}
+    ${branding.showAttribution ? 'Generated by Olive' : ''}
+  </footer>
+</body>
+</html>
+`;
+  }
+
+  // Builds the file for any format; PDFs reuse the stored-report pipeline so no analysis is regenerated
+  async createBlob(data: ReportData, format: ExportFormat): Promise<Blob> {
+    const { mimeType } = this.getFormatInfo(format);
+    switch (format) {
+      case 'pdf':
+        return new Blob([await reportGenerator.generatePDFFromStored(data)], { type: mimeType });
+      case 'html': {
+        const branding = await brandingService.getBranding(auth.currentUser?.uid);
+        return new Blob([this.toHtml(data, branding)], { type: mimeType });
+      }
+      case 'markdown':
+        return new Blob([this.toMarkdown(data)], { type: mimeType });
+      case 'json':
+        return new Blob([this.toJson(data)], { type: mimeType });
+      case 'csv':
+        return new Blob([this.toCsv(data)], { type: mimeType });
+    }
+  }
+
+  async download(data: ReportData, format: ExportFormat): Promise<void> {
+    try {
+      saveAs(await this.createBlob(data, format), this.getFileName(data.websiteUrl, format));
+    } catch (error) {
+      console.error(`Error exporting ${format} report:`, error);
+      throw new Error(`Failed to export ${this.getFormatInfo(format).label} report`);
+    }
+  }
+}
+
+export const reportExporter = new ReportExporter();
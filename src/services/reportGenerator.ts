@@ -6,6 +6,42 @@ import vfs from 'pdfmake/build/vfs_fonts';
 import { saveAs } from 'file-saver';
 import { auth } from './firebase';
 import { reportStorage } from './reportStorage';
+import { reportComparison, ReportComparison } from './reportComparison';
+import { getMetricValidator, MetricValidator, MetricRating } from './metricValidator';
+import { ScoringProfileSnapshot, DEFAULT_SCORING_PROFILE_ID } from './scoringProfiles';
+import { benchmarkService, BenchmarkResult } from './benchmark';
+import { deviceProfileService } from './deviceProfiles';
+import { DeviceProfiles } from './evaluator';
+import {
+  SecurityAnalysis,
+  FindingSeverity,
+  analyzeSecurity,
+  hasSecurityHeader,
+  getHeaderName,
+  scoreSecurity
+} from './securityAnalysis';
+import { TlsInspection, getTlsInspection, getDaysToExpiry, countMixedContent } from './tlsInspection';
+import { ResourceBreakdown, ResourceGroup, getResourceBreakdown, formatBytes, RESOURCE_TYPE_LABELS } from './resourceBreakdown';
+import { ImageAudit, getImageAudit, getImageRecommendations } from './imageAudit';
+import { StructuredDataAudit, getStructuredDataAudit, describeStructuredData } from './structuredData';
+import { IndexabilityReport, indexabilityService, isMobileResponsive, isSitemapUnchecked, INDEXABILITY_VERDICT_LABELS } from './indexability';
+import { SocialPreview, SocialPreviewAudit, socialPreviewService, SOCIAL_PLATFORM_LABELS } from './socialPreview';
+import {
+  ContentAnalysis,
+  CONTENT_LIMITS,
+  getContentAnalysis,
+  describeReadability,
+  describeKeyword,
+  getContentRecommendations
+} from './contentAnalysis';
+import { brandingService, BrandSettings, DEFAULT_BRAND_SETTINGS } from './branding';
+import {
+  AccessibilityAudit,
+  WCAG_LEVELS,
+  describeComplianceLevel,
+  getAccessibilityAudit
+} from './accessibilityAudit';
+import { CheckedLink, getLinkInventory, getLinkType, formatLinkStatus } from './linkInventory';
 
 // Initialize pdfMake with fonts
 pdfMake.vfs = vfs;
@@ -17,12 +53,19 @@ pdfMake.fonts = {
   }
 };
 
+// Font family name used for fonts uploaded in the brand settings
+const BRAND_FONT = 'Brand';
+
 export interface ReportData {
   websiteUrl: string;
   timestamp: Date;
   overallScore: number;
   phaseScores: { [phase: string]: number };
+  // Phases the evaluation ran, in the order they were run
+  completedPhases?: string[];
   professionalAnalysis?: ReportResponse;
+  benchmark?: BenchmarkResult;
+  scoringProfile?: ScoringProfileSnapshot;
   metrics: {
     performance: {
       loadTime: number;
@@ -35,6 +78,10 @@ export interface ReportData {
       estimatedFid: number;
       speedIndex?: number;
       totalBlockingTime?: number;
+      // Total bytes transferred and request count
+      pageSize?: number;
+      requests?: number;
+      resourceBreakdown?: ResourceBreakdown;
     };
     seo: {
       score: number;
@@ -49,6 +96,9 @@ export interface ReportData {
       sitemapXml?: boolean;
       canonicalUrl?: string;
       mobileResponsive?: boolean;
+      structuredDataAudit?: StructuredDataAudit;
+      indexability?: IndexabilityReport;
+      socialPreview?: SocialPreviewAudit;
     };
     accessibility: {
       score: number;
@@ -64,6 +114,7 @@ export interface ReportData {
         labeled: number;
         total: number;
       };
+      audit?: AccessibilityAudit;
     };
     lighthouse: {
       performance: number;
@@ -84,6 +135,8 @@ export interface ReportData {
         'Referrer-Policy': boolean;
       };
       tlsVersion: string;
+      analysis?: SecurityAnalysis;
+      tls?: TlsInspection;
       certificateExpiry?: Date;
       mixedContent?: boolean;
       vulnerabilities?: {
@@ -101,6 +154,7 @@ export interface ReportData {
     brokenLinks: {
       totalLinks: number;
       brokenLinks: number;
+      links?: CheckedLink[];
     };
     responsiveness: {
       isResponsive: boolean;
@@ -111,7 +165,10 @@ export interface ReportData {
       semanticUsage: { [key: string]: number };
       optimizedImages: number;
       totalImages: number;
+      imageAudit?: ImageAudit;
     };
+    content?: ContentAnalysis;
+    deviceProfiles?: DeviceProfiles;
   };
 }
 
@@ -149,6 +206,13 @@ export interface ReportResponse {
       securityAssessment: string[];
       semanticAnalysis: string[];
     };
+    // Only present when the evaluation ran the Content phase analysis
+    content?: {
+      insights: string[];
+      recommendations: string[];
+      readabilityAssessment: string[];
+      keywordAnalysis: string[];
+    };
   };
   recommendations: {
     critical: string[];
@@ -157,6 +221,116 @@ export interface ReportResponse {
   };
 }
 
+// robots.txt and sitemap presence come from the indexability check when it has run for these results;
+// left unset when the file couldn't be checked rather than reported as missing
+const buildIndexabilityMetrics = (evaluationResults: any) => {
+  const indexability = indexabilityService.get(evaluationResults);
+  const robotsChecked = indexability && indexability.robotsTxt.status !== null;
+  const sitemapChecked = indexability && !isSitemapUnchecked(indexability.sitemaps);
+  return {
+    robotsTxt: evaluationResults.seo?.robotsTxt ?? (robotsChecked ? indexability.robotsTxt.found : undefined),
+    sitemapXml: evaluationResults.seo?.sitemapXml ?? (sitemapChecked ? indexability.sitemaps.some(sitemap => sitemap.valid) : undefined),
+    canonicalUrl: evaluationResults.seo?.canonicalUrl,
+    mobileResponsive: evaluationResults.seo?.mobileResponsive ?? isMobileResponsive(evaluationResults),
+    indexability
+  };
+};
+
+// Builds the report metrics from raw evaluation results, leaving out HTML content and screenshots
+// TLS details and mixed content fill the certificate fields; header presence ignores the server's casing
+const buildSecurityMetrics = (evaluationResults: any): ReportData['metrics']['security'] => {
+  const security = evaluationResults.security;
+  const tls = getTlsInspection(evaluationResults);
+  return {
+    isHttps: security?.isHttps || false,
+    protocol: security?.protocol || '',
+    securityHeaders: {
+      'Strict-Transport-Security': hasSecurityHeader(security, 'Strict-Transport-Security'),
+      'Content-Security-Policy': hasSecurityHeader(security, 'Content-Security-Policy'),
+      'X-Frame-Options': hasSecurityHeader(security, 'X-Frame-Options'),
+      'X-Content-Type-Options': hasSecurityHeader(security, 'X-Content-Type-Options'),
+      'X-XSS-Protection': hasSecurityHeader(security, 'X-XSS-Protection'),
+      'Referrer-Policy': hasSecurityHeader(security, 'Referrer-Policy')
+    },
+    tlsVersion: tls?.protocol || '',
+    analysis: security ? analyzeSecurity(security) : undefined,
+    tls,
+    certificateExpiry: tls?.certificate ? new Date(tls.certificate.validTo) : undefined,
+    mixedContent: tls ? tls.mixedContent.length > 0 : undefined,
+    vulnerabilities: security?.vulnerabilities
+  };
+};
+
+export const buildReportMetrics = (evaluationResults: any, websiteUrl: string, targetKeyword?: string): ReportData['metrics'] => ({
+  performance: {
+    loadTime: evaluationResults.loadTime || 0,
+    firstContentfulPaint: evaluationResults.firstContentfulPaint || 0,
+    timeToInteractive: evaluationResults.timeToInteractive || 0,
+    largestContentfulPaint: evaluationResults.largestContentfulPaint || 0,
+    cumulativeLayoutShift: evaluationResults.cumulativeLayoutShift || 0,
+    ttfb: evaluationResults.ttfb || 0,
+    tbt: evaluationResults.tbt || 0,
+    estimatedFid: evaluationResults.estimatedFid || 0,
+    speedIndex: evaluationResults.speedIndex,
+    totalBlockingTime: evaluationResults.totalBlockingTime,
+    pageSize: evaluationResults.pageSize,
+    requests: evaluationResults.requests,
+    resourceBreakdown: getResourceBreakdown(evaluationResults, websiteUrl)
+  },
+  seo: {
+    score: evaluationResults.lighthouse?.seo || 0,
+    title: evaluationResults.seo?.title || '',
+    metaDescription: evaluationResults.seo?.metaDescription || '',
+    headings: evaluationResults.seo?.headings,
+    ...buildIndexabilityMetrics(evaluationResults),
+    structuredDataAudit: getStructuredDataAudit(evaluationResults),
+    socialPreview: socialPreviewService.get(evaluationResults)
+  },
+  accessibility: {
+    score: evaluationResults.lighthouse?.accessibility || 0,
+    imagesWithAltText: evaluationResults.accessibility?.imagesWithAltText || 0,
+    totalImages: evaluationResults.accessibility?.totalImages || 0,
+    ariaAttributesCount: evaluationResults.accessibility?.ariaAttributesCount || 0,
+    keyboardNavigable: evaluationResults.accessibility?.keyboardNavigable || false,
+    contrastRatio: evaluationResults.accessibility?.contrastRatio,
+    formLabels: evaluationResults.accessibility?.formLabels,
+    audit: getAccessibilityAudit(evaluationResults)
+  },
+  lighthouse: {
+    performance: evaluationResults.lighthouse?.performance || 0,
+    accessibility: evaluationResults.lighthouse?.accessibility || 0,
+    seo: evaluationResults.lighthouse?.seo || 0,
+    bestPractices: evaluationResults.lighthouse?.bestPractices || 0,
+    pwa: evaluationResults.lighthouse?.pwa
+  },
+  security: buildSecurityMetrics(evaluationResults),
+  formFunctionality: {
+    totalForms: evaluationResults.formFunctionality?.totalForms || 0,
+    formsWithSubmitButton: evaluationResults.formFunctionality?.formsWithSubmitButton || 0,
+    interactiveElementsCount: evaluationResults.formFunctionality?.interactiveElementsCount || 0,
+    inputFieldsCount: evaluationResults.formFunctionality?.inputFieldsCount || 0,
+    javascriptEnabled: evaluationResults.formFunctionality?.javascriptEnabled || false
+  },
+  brokenLinks: {
+    totalLinks: evaluationResults.brokenLinks?.totalLinks || 0,
+    brokenLinks: evaluationResults.brokenLinks?.brokenLinks || 0,
+    links: getLinkInventory(evaluationResults, websiteUrl)
+  },
+  responsiveness: {
+    isResponsive: evaluationResults.responsiveness?.isResponsive || false,
+    viewportWidth: evaluationResults.responsiveness?.viewportWidth || 0,
+    pageWidth: evaluationResults.responsiveness?.pageWidth || 0
+  },
+  bestPractices: {
+    semanticUsage: evaluationResults.bestPractices?.semanticUsage || {},
+    optimizedImages: evaluationResults.bestPractices?.optimizedImages || 0,
+    totalImages: evaluationResults.bestPractices?.totalImages || 0,
+    imageAudit: getImageAudit(evaluationResults)
+  },
+  content: getContentAnalysis(evaluationResults, websiteUrl, targetKeyword),
+  deviceProfiles: evaluationResults.deviceProfiles
+});
+
 interface Vulnerability {
   severity: string;
   count: number;
@@ -171,14 +345,14 @@ class ReportGenerator {
     return pdfMake;
   }
 
-  private createPerformanceChart(metrics: any) {
+  private createPerformanceChart(metrics: any, validator: MetricValidator) {
     // Create performance metrics visualization
     const webVitals = [
-      { name: 'FCP', value: metrics.firstContentfulPaint, threshold: 1800, unit: 'ms' },
-      { name: 'LCP', value: metrics.largestContentfulPaint, threshold: 2500, unit: 'ms' },
-      { name: 'CLS', value: metrics.cumulativeLayoutShift, threshold: 0.1, unit: '' },
-      { name: 'TTFB', value: metrics.ttfb, threshold: 600, unit: 'ms' },
-      { name: 'TTI', value: metrics.timeToInteractive, threshold: 3800, unit: 'ms' }
+      { name: 'FCP', key: 'firstContentfulPaint', value: metrics.firstContentfulPaint, unit: 'ms' },
+      { name: 'LCP', key: 'largestContentfulPaint', value: metrics.largestContentfulPaint, unit: 'ms' },
+      { name: 'CLS', key: 'cumulativeLayoutShift', value: metrics.cumulativeLayoutShift, unit: '' },
+      { name: 'TTFB', key: 'ttfb', value: metrics.ttfb, unit: 'ms' },
+      { name: 'TTI', key: 'timeToInteractive', value: metrics.timeToInteractive, unit: 'ms' }
     ];
 
     return webVitals.map(metric => ({
@@ -188,11 +362,33 @@ class ReportGenerator {
       displayValue: typeof metric.value === 'number' ? 
         `${metric.name === 'CLS' ? Number(metric.value.toFixed(3)) : Number(metric.value.toFixed(1))}${metric.unit}` : 'N/A',
       status: !metric.value || metric.value === 'N/A' ? 'N/A' :
-        metric.value <= metric.threshold ? 'Good' : 'Needs Improvement'
+        this.getRatingLabel(validator.rateMetric(metric.key, metric.value)),
+      style: this.getRatingStyle(validator.rateMetric(metric.key, metric.value))
     }));
   }
 
-  private createSecurityTable(security: any) {
+  private getRatingLabel(rating: MetricRating | null): string {
+    switch (rating) {
+      case 'good':
+        return 'Good';
+      case 'needs-improvement':
+        return 'Needs Improvement';
+      case 'poor':
+        return 'Poor';
+      default:
+        return 'N/A';
+    }
+  }
+
+  // Describes the "good" bands of the active scoring profile for the threshold notes
+  private describeThreshold(validator: MetricValidator, metric: string, label: string, unit: string = ''): string {
+    const band = validator.getThresholdBand(metric);
+    if (!band) return label;
+    const value = unit === '%' ? band.good * (band.good <= 1 ? 100 : 1) : band.good;
+    return `${label} ${band.higherIsBetter ? '>=' : '<='} ${value}${unit} (Good)`;
+  }
+
+  private createSecurityTable(security: any, validator: MetricValidator) {
     if (!security) {
       return {
         headers: ['Security Feature', 'Status'],
@@ -208,6 +404,27 @@ class ReportGenerator {
       ['TLS Version', security?.tlsVersion ? security.tlsVersion.toUpperCase() : 'Unknown'],
     ];
 
+    const tls: TlsInspection | undefined = security?.tls;
+    if (tls) {
+      if (tls.cipher) rows.push(['Cipher Suite', tls.cipher]);
+      if (tls.certificate) {
+        const { certificate } = tls;
+        const daysToExpiry = getDaysToExpiry(certificate.validTo);
+        rows.push(
+          ['Certificate Issuer', certificate.issuer || 'Unknown'],
+          [
+            `Certificate Expiry (${new Date(certificate.validTo).toLocaleDateString()})`,
+            daysToExpiry < 0 ? 'Expired' : `${daysToExpiry} days (${this.getRatingLabel(validator.rateMetric('certificateExpiryDays', daysToExpiry))})`
+          ],
+          ['Certificate Chain', certificate.chain.length > 0
+            ? certificate.chain.map(entry => entry.subject).join(' -> ')
+            : certificate.selfSigned ? 'Self-signed' : 'Not Available']
+        );
+      }
+      const { active, passive } = countMixedContent(tls);
+      rows.push(['Mixed Content', active + passive === 0 ? 'None' : `${active} active, ${passive} passive`]);
+    }
+
     if (security?.securityHeaders) {
       Object.entries(security.securityHeaders).forEach(([header, present]) => {
         rows.push([header, getStatus(present as boolean)]);
@@ -217,7 +434,7 @@ class ReportGenerator {
     return { headers, rows };
   }
 
-  private createAccessibilityScorecard(metrics: any) {
+  private createAccessibilityScorecard(metrics: any, validator: MetricValidator) {
     const altTextRatio = metrics.imagesWithAltText && metrics.totalImages ? 
       (metrics.imagesWithAltText / metrics.totalImages) : 0;
     const altTextScore = metrics.totalImages === 0 ? 'N/A' : 
@@ -226,8 +443,8 @@ class ReportGenerator {
     
     return [
       ['Feature', 'Score', 'Status'],
-      ['Alt Text Coverage', altTextScore, altTextRatio >= 0.9 ? 'Good' : altTextRatio > 0 ? 'Needs Improvement' : 'Poor'],
-      ['Lighthouse Score', lighthouseScore, (metrics.score || 0) >= 90 ? 'Good' : (metrics.score || 0) >= 70 ? 'Needs Improvement' : 'Poor'],
+      ['Alt Text Coverage', altTextScore, metrics.totalImages === 0 ? 'N/A' : this.getRatingLabel(validator.rateMetric('altTextRatio', altTextRatio))],
+      ['Lighthouse Score', lighthouseScore, this.getRatingLabel(validator.rateMetric('score', metrics.score || 0))],
       ['ARIA Usage', metrics.ariaAttributesCount ? `${metrics.ariaAttributesCount} attributes` : 'Not Found', metrics.ariaAttributesCount > 0 ? 'Present' : 'Missing'],
       ['Keyboard Navigation', metrics.keyboardNavigable ? 'Supported' : 'Not Supported', metrics.keyboardNavigable ? 'Good' : 'Poor']
     ];
@@ -358,7 +575,10 @@ class ReportGenerator {
     } as Content;
   }
 
-  private async createDocumentDefinition(data: ReportData): Promise<TDocumentDefinitions> {
+  private async createDocumentDefinition(
+    data: ReportData,
+    branding: BrandSettings = DEFAULT_BRAND_SETTINGS
+  ): Promise<TDocumentDefinitions> {
     // Add fallbacks for missing data
     const executiveSummary = data.professionalAnalysis?.executiveSummary || {
       keyStrengths: [],
@@ -374,19 +594,30 @@ class ReportGenerator {
       optional: []
     };
 
-    const performanceChart = this.createPerformanceChart(data.metrics.performance);
-    const securityTable = this.createSecurityTable(data.metrics.security);
-    const accessibilityScorecard = this.createAccessibilityScorecard(data.metrics.accessibility);
+    // Every rating in the document follows the scoring profile the evaluation was generated with
+    const validator = getMetricValidator(data.scoringProfile);
+    const securityHeaderGroups = validator.getThresholds().SECURITY.headers;
+    const performanceChart = this.createPerformanceChart(data.metrics.performance, validator);
+    const securityTable = this.createSecurityTable(data.metrics.security, validator);
+    const accessibilityScorecard = this.createAccessibilityScorecard(data.metrics.accessibility, validator);
+    // Phase sections are left out when the phase wasn't run; older reports don't record phases and include everything
+    const hasPhase = (phase: string) => !data.completedPhases || data.completedPhases.includes(phase);
 
     const content: Content[] = [
       // Cover Page
       {
         stack: [
+          ...(branding.logoDataUrl ? [{
+            image: branding.logoDataUrl,
+            fit: [200, 80],
+            alignment: 'center',
+            margin: [0, 40, 0, 0]
+          } as Content] : []),
           {
-            text: 'Website Evaluation Report',
+            text: branding.coverTitle,
             style: 'coverHeader',
             alignment: 'center',
-            margin: [0, 100, 0, 20]
+            margin: [0, branding.logoDataUrl ? 40 : 100, 0, 20]
           } as ContentText,
           {
             text: data.websiteUrl,
@@ -406,6 +637,18 @@ class ReportGenerator {
             alignment: 'center',
             margin: [0, 0, 0, 10]
           } as ContentText,
+          ...(data.scoringProfile && data.scoringProfile.id !== DEFAULT_SCORING_PROFILE_ID ? [{
+            text: `Scoring profile: ${data.scoringProfile.name}`,
+            style: 'coverDate',
+            alignment: 'center',
+            margin: [0, 0, 0, 10]
+          } as ContentText] : []),
+          ...(branding.coverText ? [{
+            text: branding.coverText,
+            style: 'coverText',
+            alignment: 'center',
+            margin: [0, 20, 0, 20]
+          } as ContentText] : []),
           {
             text: 'Note: Automated analysis may have limitations. Please verify critical findings.',
             style: 'disclaimer',
@@ -500,7 +743,7 @@ class ReportGenerator {
               { text: category, style: 'metric' },
               { 
                 text: `${score}%`,
-                style: score >= 90 ? 'good' : score >= 70 ? 'warning' : 'critical'
+                style: this.getRatingStyle(validator.rateMetric('score', score))
               }
             ])
           ]
@@ -508,79 +751,120 @@ class ReportGenerator {
         margin: [0, 0, 0, 30]
       } as Content,
 
-      // Core Web Vitals
-      {
-        text: 'Core Web Vitals',
-        style: 'subheader',
-        margin: [0, 0, 0, 10]
-      } as ContentText,
-      {
-        text: 'Thresholds: FCP < 1800ms (Good), LCP < 2500ms (Good), CLS < 0.1 (Good), TTI < 3800ms (Good)',
-        style: 'thresholdInfo',
-        margin: [0, 0, 0, 10]
-      } as ContentText,
-      {
-        table: {
-          headerRows: 1,
-          widths: ['*', '*', '*'],
-          body: [
-            [
-              { text: 'Metric', style: 'tableHeader' },
-              { text: 'Value', style: 'tableHeader' },
-              { text: 'Status', style: 'tableHeader' }
-            ],
-            ...performanceChart.map(metric => [
-              { text: metric.name, style: 'metric' },
-              { text: metric.displayValue, style: 'metric' },
-              { 
-                text: metric.status,
-                style: metric.status === 'Good' ? 'good' : 'warning'
-              }
-            ])
-          ]
-        },
-        margin: [0, 0, 0, 30]
-      } as Content,
+      ...(hasPhase('Performance') ? [
+        // Core Web Vitals
+        {
+          text: 'Core Web Vitals',
+          style: 'subheader',
+          margin: [0, 0, 0, 10]
+        } as ContentText,
+        {
+          text: `Thresholds: ${[
+            this.describeThreshold(validator, 'firstContentfulPaint', 'FCP', 'ms'),
+            this.describeThreshold(validator, 'largestContentfulPaint', 'LCP', 'ms'),
+            this.describeThreshold(validator, 'cumulativeLayoutShift', 'CLS'),
+            this.describeThreshold(validator, 'ttfb', 'TTFB', 'ms'),
+            this.describeThreshold(validator, 'timeToInteractive', 'TTI', 'ms')
+          ].join(', ')}`,
+          style: 'thresholdInfo',
+          margin: [0, 0, 0, 10]
+        } as ContentText,
+        {
+          table: {
+            headerRows: 1,
+            widths: ['*', '*', '*'],
+            body: [
+              [
+                { text: 'Metric', style: 'tableHeader' },
+                { text: 'Value', style: 'tableHeader' },
+                { text: 'Status', style: 'tableHeader' }
+              ],
+              ...performanceChart.map(metric => [
+                { text: metric.name, style: 'metric' },
+                { text: metric.displayValue, style: 'metric' },
+                { 
+                  text: metric.status,
+                  style: metric.style
+                }
+              ])
+            ]
+          },
+          margin: [0, 0, 0, 30]
+        } as Content,
 
-      // Security Analysis
-      {
-        text: 'Security Analysis',
-        style: 'sectionHeader',
-        margin: [0, 20, 0, 10]
-      } as ContentText,
-      {
-        text: 'Critical headers: Strict-Transport-Security, Content-Security-Policy\nImportant headers: X-Frame-Options, X-Content-Type-Options',
-        style: 'thresholdInfo',
-        margin: [0, 0, 0, 10]
-      } as ContentText,
-      {
-        table: {
-          headerRows: 1,
-          widths: ['*', 100],
-          body: [securityTable.headers, ...securityTable.rows]
-        },
-        margin: [0, 0, 0, 30]
-      } as Content,
+        // Mobile vs Desktop
+        ...(data.metrics.deviceProfiles ? this.createDeviceProfilesSection(data.metrics.deviceProfiles, validator) : []),
 
-      // Accessibility Scorecard
-      {
-        text: 'Accessibility Scorecard',
-        style: 'sectionHeader',
-        margin: [0, 20, 0, 10]
-      } as ContentText,
-      {
-        text: 'Thresholds: Alt Text Coverage > 90% (Good), Lighthouse Score > 90% (Good)',
-        style: 'thresholdInfo',
-        margin: [0, 0, 0, 10]
-      } as ContentText,
-      {
-        table: {
-          headerRows: 1,
-          widths: ['*', 100, 50],
-          body: accessibilityScorecard
-        },
-        margin: [0, 0, 0, 30]
-      } as Content,
+        // Resource Weight
+        ...(data.metrics.performance.resourceBreakdown ? this.createResourceBreakdownSection(data.metrics.performance.resourceBreakdown) : []),
+
+        // Image Optimization
+        ...(data.metrics.bestPractices.imageAudit?.totalImages ? this.createImageAuditSection(data.metrics.bestPractices.imageAudit) : []),
+
+        // Security Analysis
+        {
+          text: 'Security Analysis',
+          style: 'sectionHeader',
+          margin: [0, 20, 0, 10]
+        } as ContentText,
+        {
+          text: `Critical headers: ${Object.keys(securityHeaderGroups.critical).join(', ')}\nImportant headers: ${Object.keys(securityHeaderGroups.important).join(', ')}`,
+          style: 'thresholdInfo',
+          margin: [0, 0, 0, 10]
+        } as ContentText,
+        {
+          table: {
+            headerRows: 1,
+            widths: ['*', 100],
+            body: [securityTable.headers, ...securityTable.rows]
+          },
+          margin: [0, 0, 0, 30]
+        } as Content,
+        ...(data.metrics.security.analysis ? this.createSecurityFindingsSection(data.metrics.security.analysis, validator) : []),
+        ...(data.metrics.security.tls?.mixedContent.length ? this.createMixedContentSection(data.metrics.security.tls) : [])
+      ] : []),
+
+      ...(hasPhase('UI') ? [
+        // Accessibility Scorecard
+        {
+          text: 'Accessibility Scorecard',
+          style: 'sectionHeader',
+          margin: [0, 20, 0, 10]
+        } as ContentText,
+        {
+          text: `Thresholds: ${this.describeThreshold(validator, 'altTextRatio', 'Alt Text Coverage', '%')}, ${this.describeThreshold(validator, 'score', 'Lighthouse Score', '%')}`,
+          style: 'thresholdInfo',
+          margin: [0, 0, 0, 10]
+        } as ContentText,
+        {
+          table: {
+            headerRows: 1,
+            widths: ['*', 100, 50],
+            body: accessibilityScorecard
+          },
+          margin: [0, 0, 0, 30]
+        } as Content,
+
+        // WCAG 2.2 Audit
+        ...(data.metrics.accessibility.audit ? this.createAccessibilityAuditSection(data.metrics.accessibility.audit) : [])
+      ] : []),
+
+      // Indexability
+      ...(hasPhase('SEO') && data.metrics.seo.indexability ? this.createIndexabilitySection(data.metrics.seo.indexability) : []),
+
+      // Structured Data
+      ...(hasPhase('SEO') && data.metrics.seo.structuredDataAudit
+        ? this.createStructuredDataSection(data.metrics.seo.structuredDataAudit, data.professionalAnalysis?.technicalAnalysis?.seo?.structureAnalysis)
+        : []),
+
+      // Content Quality
+      ...(hasPhase('Content') && data.metrics.content ? this.createContentSection(data.metrics.content, data.professionalAnalysis?.technicalAnalysis?.content) : []),
+
+      // Social Sharing Previews
+      ...(hasPhase('SEO') && data.metrics.seo.socialPreview ? this.createSocialPreviewSection(data.metrics.seo.socialPreview) : []),
+
+      // Competitor Benchmark
+      ...(data.benchmark ? this.createBenchmarkSection(data.benchmark) : []),
 
       // Recommendations
       {
@@ -591,82 +875,155 @@ class ReportGenerator {
       this.createRecommendationsSection(data.metrics),
 
       // Technical Details
-      this.createTechnicalDetailsSection(data.metrics)
+      this.createTechnicalDetailsSection(data.metrics),
+
+      // Broken Links Appendix
+      ...(hasPhase('Functionality') && data.metrics.brokenLinks?.links ? this.createBrokenLinksAppendix(data.metrics.brokenLinks.links) : [])
     ];
 
     return {
       content,
       defaultStyle: {
-        font: 'Times'  // Use Times font
+        font: this.getFontName(branding)
       },
-      styles: {
-        coverHeader: {
-          fontSize: 28,
-          color: '#2c3e50'
-        },
-        coverUrl: {
-          fontSize: 20,
-          color: '#34495e'
-        },
-        coverDate: {
-          fontSize: 14,
-          color: '#7f8c8d'
-        },
-        coverScore: {
-          fontSize: 24,
-          color: '#27ae60'
-        },
-        disclaimer: {
-          fontSize: 12,
-          color: '#7f8c8d'
-        },
-        sectionHeader: {
-          fontSize: 20,
-          color: '#2c3e50',
-          margin: [0, 20, 0, 10]
-        },
-        subheader: {
-          fontSize: 16,
-          color: '#34495e',
-          margin: [0, 15, 0, 5]
-        },
-        tableHeader: {
-          fontSize: 14,
-          color: '#ffffff',
-          fillColor: '#34495e',
-          margin: [0, 5]
-        },
-        metric: {
-          fontSize: 12,
-          color: '#2c3e50',
-          margin: [0, 2]
-        },
-        good: {
-          color: '#27ae60'
-        },
-        warning: {
-          color: '#f39c12'
-        },
-        critical: {
-          color: '#c0392b'
-        },
-        thresholdInfo: {
-          fontSize: 11,
-          color: '#666666'
-        },
-        listItem: {
-          fontSize: 11,
-          lineHeight: 1.3
+      styles: this.getReportStyles(branding),
+      footer: this.createFooter(branding),
+      pageMargins: [40, 60, 40, 60],
+      pageSize: 'A4',
+      info: {
+        title: `${branding.coverTitle} - ${data.websiteUrl}`,
+        author: branding.companyName
+      }
+    };
+  }
+
+  private getFontName(branding: BrandSettings): string {
+    return branding.font ? BRAND_FONT : 'Times';
+  }
+
+  // Embeds the uploaded brand font into a per-document vfs so the global Times setup stays untouched
+  private getBrandFonts(branding: BrandSettings) {
+    if (!branding.font) {
+      return { fonts: pdfMake.fonts, vfs: pdfMake.vfs };
+    }
+
+    const normalFile = `brand-${branding.font.name}-normal.ttf`;
+    const boldFile = branding.font.bold ? `brand-${branding.font.name}-bold.ttf` : normalFile;
+    return {
+      fonts: {
+        ...pdfMake.fonts,
+        [BRAND_FONT]: {
+          normal: normalFile,
+          bold: boldFile,
+          italics: normalFile,
+          bolditalics: boldFile
         }
       },
-      footer: (currentPage, pageCount) => ({
-        text: `Page ${currentPage} of ${pageCount}`,
-        alignment: 'center',
-        margin: [0, 20],
-        color: '#95a5a6'
-      }),
-      pageMargins: [40, 60, 40, 60],
-      pageSize: 'A4'
+      vfs: {
+        ...pdfMake.vfs,
+        [normalFile]: branding.font.normal,
+        ...(branding.font.bold && { [boldFile]: branding.font.bold })
+      }
+    };
+  }
+
+  private createPdf(docDefinition: TDocumentDefinitions, branding: BrandSettings) {
+    const pdfMake = this.loadPdfMake();
+    const { fonts, vfs } = this.getBrandFonts(branding);
+    return pdfMake.createPdf(docDefinition, undefined, fonts, vfs);
+  }
+
+  private createFooter(branding: BrandSettings): TDocumentDefinitions['footer'] {
+    return (currentPage, pageCount) => ({
+      stack: [
+        ...(branding.footerContact ? [{ text: branding.footerContact, style: 'footerContact' }] : []),
+        {
+          text: [
+            `Page ${currentPage} of ${pageCount}`,
+            ...(branding.showAttribution ? ['  ·  Generated by Olive'] : [])
+          ]
+        }
+      ],
+      alignment: 'center',
+      margin: [40, 20, 40, 0],
+      fontSize: 9,
+      color: '#95a5a6'
+    });
+  }
+
+  private getReportStyles(branding: BrandSettings = DEFAULT_BRAND_SETTINGS): TDocumentDefinitions['styles'] {
+    return {
+      coverHeader: {
+        fontSize: 28,
+        color: branding.primaryColor
+      },
+      coverUrl: {
+        fontSize: 20,
+        color: branding.secondaryColor
+      },
+      coverText: {
+        fontSize: 13,
+        color: branding.secondaryColor,
+        lineHeight: 1.3
+      },
+      coverDate: {
+        fontSize: 14,
+        color: '#7f8c8d'
+      },
+      coverScore: {
+        fontSize: 24,
+        color: '#27ae60'
+      },
+      disclaimer: {
+        fontSize: 12,
+        color: '#7f8c8d'
+      },
+      sectionHeader: {
+        fontSize: 20,
+        color: branding.primaryColor,
+        margin: [0, 20, 0, 10]
+      },
+      subheader: {
+        fontSize: 16,
+        color: branding.secondaryColor,
+        margin: [0, 15, 0, 5]
+      },
+      tableHeader: {
+        fontSize: 14,
+        color: '#ffffff',
+        fillColor: branding.secondaryColor,
+        margin: [0, 5]
+      },
+      metric: {
+        fontSize: 12,
+        color: '#2c3e50',
+        margin: [0, 2]
+      },
+      good: {
+        color: '#27ae60'
+      },
+      warning: {
+        color: '#f39c12'
+      },
+      critical: {
+        color: '#c0392b'
+      },
+      thresholdInfo: {
+        fontSize: 11,
+        color: '#666666'
+      },
+      listItem: {
+        fontSize: 11,
+        lineHeight: 1.3
+      },
+      recommendationHeader: {
+        fontSize: 12,
+        margin: [0, 10, 0, 5]
+      },
+      footerContact: {
+        fontSize: 9,
+        margin: [0, 0, 0, 2]
+      }
     };
   }
 
@@ -709,7 +1066,8 @@ class ReportGenerator {
       margin: [0, 20, 0, 5]
     } as ContentText);
 
-    if (!metrics.seo?.structuredData) {
+    const structuredData = metrics.seo?.structuredDataAudit;
+    if (!structuredData?.entities.length) {
       recommendations.push({
         text: 'SEO - Structured Data:',
         style: 'recommendationHeader'
@@ -718,6 +1076,15 @@ class ReportGenerator {
         text: 'Implement relevant schemas to enhance search result appearance and provide context to search engines',
         margin: [0, 0, 0, 10]
       } as ContentText);
+    } else if (structuredData.errorCount > 0) {
+      recommendations.push({
+        text: 'SEO - Structured Data:',
+        style: 'recommendationHeader'
+      } as ContentText,
+      {
+        text: `Fix the ${structuredData.errorCount} structured data error(s) listed in the Structured Data section so the entities qualify for rich results`,
+        margin: [0, 0, 0, 10]
+      } as ContentText);
     }
 
     if (!metrics.accessibility?.keyboardNavigable) {
@@ -752,24 +1119,16 @@ class ReportGenerator {
     return recommendations;
   }
 
-  private createPerformanceMetricsRows(metrics: any) {
-    const thresholds = {
-      firstContentfulPaint: { good: 1800, poor: 3000 },
-      largestContentfulPaint: { good: 2500, poor: 4000 },
-      timeToInteractive: { good: 3800, poor: 7300 },
-      ttfb: { good: 600, poor: 1800 },
-      tbt: { good: 200, poor: 600 }
-    };
+  private createPerformanceMetricsRows(metrics: any, validator: MetricValidator) {
+    const ratedMetrics = ['firstContentfulPaint', 'largestContentfulPaint', 'timeToInteractive', 'ttfb', 'tbt'];
 
     return Object.entries(metrics)
-      .filter(([key]) => key in thresholds)
+      .filter(([key]) => ratedMetrics.includes(key))
       .map(([key, value]) => {
-        const threshold = thresholds[key as keyof typeof thresholds];
         const numericValue = typeof value === 'number' ? Number(value.toFixed(2)) : 0;
-        const status = numericValue <= threshold.good ? 'Good' :
-          numericValue <= threshold.poor ? 'Needs Improvement' : 'Poor';
-        const style = numericValue <= threshold.good ? 'good' :
-          numericValue <= threshold.poor ? 'warning' : 'critical';
+        const rating = validator.rateMetric(key, numericValue);
+        const status = this.getRatingLabel(rating);
+        const style = this.getRatingStyle(rating);
 
         return [
           { text: key, style: 'metric' },
@@ -779,30 +1138,75 @@ class ReportGenerator {
       });
   }
 
-  async generatePDF(data: ReportData): Promise<Uint8Array> {
+  // Checks the report limit and fills in the professional analysis that every export format renders
+  async prepareReport(data: ReportData, workspaceId?: string): Promise<ReportData> {
     // TEST VARIABLE: Set to true to simulate having 100 reports
     const SIMULATE_REPORT_LIMIT = false;
 
-    try {
-      // Check report limit
-      const userReports = await reportStorage.getUserReports(auth.currentUser?.uid || '');
-      const reportCount = SIMULATE_REPORT_LIMIT ? 100 : userReports.length;
-      
-      if (reportCount >= 100) {
-        throw new Error('Report limit reached (100 reports). Please delete some reports from your profile page to generate new ones.');
-      }
+    // Check report limit against the collection the report will be saved to
+    const existingReports = workspaceId
+      ? await reportStorage.getWorkspaceReports(workspaceId)
+      : await reportStorage.getUserReports(auth.currentUser?.uid || '');
+    const reportCount = SIMULATE_REPORT_LIMIT ? 100 : existingReports.length;
+    
+    if (reportCount >= 100) {
+      throw new Error(workspaceId
+        ? 'Report limit reached (100 reports) for this workspace. Please delete some of its reports to generate new ones.'
+        : 'Report limit reached (100 reports). Please delete some reports from your profile page to generate new ones.');
+    }
+
+    data.professionalAnalysis = await this.generateProfessionalAnalysis(data);
+
+    // The compliance level comes from the audit rather than the model's estimate
+    const audit = data.metrics.accessibility.audit;
+    if (audit && data.professionalAnalysis.technicalAnalysis?.accessibility) {
+      data.professionalAnalysis.technicalAnalysis.accessibility.complianceLevel = describeComplianceLevel(audit.complianceLevel);
+    }
+
+    // Structure analysis states what the structured data validation found rather than the model's guess
+    const structuredData = data.metrics.seo.structuredDataAudit;
+    if (structuredData && data.professionalAnalysis.technicalAnalysis?.seo) {
+      data.professionalAnalysis.technicalAnalysis.seo.structureAnalysis = describeStructuredData(structuredData);
+    }
+
+    // The images with the largest estimated savings lead the Performance recommendations
+    const imageAudit = data.metrics.bestPractices.imageAudit;
+    const performanceAnalysis = data.professionalAnalysis.technicalAnalysis?.performance;
+    if (imageAudit && performanceAnalysis) {
+      performanceAnalysis.recommendations = [
+        ...getImageRecommendations(imageAudit),
+        ...(performanceAnalysis.recommendations || [])
+      ];
+    }
+
+    // Readability and keyword lines come from the content analysis, and its findings lead the content recommendations
+    const contentAnalysis = data.metrics.content;
+    const technicalAnalysis = data.professionalAnalysis.technicalAnalysis;
+    if (contentAnalysis && technicalAnalysis) {
+      technicalAnalysis.content = {
+        insights: technicalAnalysis.content?.insights || [],
+        recommendations: [
+          ...getContentRecommendations(contentAnalysis),
+          ...(technicalAnalysis.content?.recommendations || [])
+        ],
+        readabilityAssessment: describeReadability(contentAnalysis),
+        keywordAnalysis: describeKeyword(contentAnalysis)
+      };
+    }
+    return data;
+  }
 
+  async generatePDF(data: ReportData): Promise<Uint8Array> {
+    try {
       // Move professional analysis before PDF creation
-      data.professionalAnalysis = await this.generateProfessionalAnalysis(data);
+      await this.prepareReport(data);
       
-      // Get initialized pdfMake instance
-      const pdfMake = this.loadPdfMake();
-      
-      const docDefinition = await this.createDocumentDefinition(data);
+      const branding = await brandingService.getBranding(auth.currentUser?.uid);
+      const docDefinition = await this.createDocumentDefinition(data, branding);
       
       return new Promise((resolve, reject) => {
         try {
-          const pdfDoc = pdfMake.createPdf(docDefinition);
+          const pdfDoc = this.createPdf(docDefinition, branding);
           pdfDoc.getBuffer((buffer: Uint8Array) => {
             if (buffer) {
               resolve(buffer);
@@ -969,54 +1373,892 @@ class ReportGenerator {
     }
   }
 
-  private getDocumentStyles() {
-    return {
-      header: {
-        fontSize: 24,
-        margin: [0, 0, 0, 20]
-      },
-      subheader: {
-        fontSize: 16,
-        margin: [0, 10, 0, 5]
-      },
-      tableHeader: {
-        fontSize: 12,
-        color: '#ffffff',
-        fillColor: '#34495e'
-      },
-      metric: {
-        fontSize: 11
-      },
-      good: {
-        color: '#2e7d32'
-      },
-      warning: {
-        color: '#ed6c02'
-      },
-      critical: {
-        color: '#d32f2f'
-      },
-      recommendation: {
-        fontSize: 11,
-        margin: [0, 2, 0, 2]
-      },
-      recommendationHeader: {
-        fontSize: 12,
-        margin: [0, 10, 0, 5]
-      }
-    };
-  }
+  private createDeviceProfilesSection(profiles: DeviceProfiles, validator: MetricValidator): Content[] {
+    const metadata = validator.generateTestingMetadata([profiles.mobile.settings, profiles.desktop.settings]);
+    const getStyle = (ratingKey: string | null, value: number) =>
+      this.getRatingStyle(ratingKey ? validator.rateMetric(ratingKey, value) : null);
 
-  async generatePDFFromStored(data: ReportData): Promise<Uint8Array> {
-    // Get initialized pdfMake instance
-    const pdfMake = this.loadPdfMake();
-    
+    return [
+      {
+        text: 'Mobile vs Desktop',
+        style: 'sectionHeader',
+        margin: [0, 20, 0, 10]
+      } as ContentText,
+      {
+        text: `Device: ${metadata.environment.device}\nConnection: ${metadata.environment.connection}`,
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      {
+        table: {
+          headerRows: 1,
+          widths: ['*', 90, 90, 80],
+          body: [
+            [
+              { text: 'Metric', style: 'tableHeader' },
+              { text: 'Mobile', style: 'tableHeader' },
+              { text: 'Desktop', style: 'tableHeader' },
+              { text: 'Delta', style: 'tableHeader' }
+            ],
+            ...deviceProfileService.getDeltas(profiles).map(delta => {
+              const ratingKey = deviceProfileService.getRatingKey(delta);
+              const mobileIsWorse = delta.higherIsBetter ? delta.delta < 0 : delta.delta > 0;
+              return [
+                { text: delta.label, style: 'metric' },
+                { text: deviceProfileService.formatValue(delta, delta.mobile), style: getStyle(ratingKey, delta.mobile) },
+                { text: deviceProfileService.formatValue(delta, delta.desktop), style: getStyle(ratingKey, delta.desktop) },
+                {
+                  text: deviceProfileService.formatValue(delta, delta.delta, true),
+                  style: delta.delta === 0 ? 'metric' : mobileIsWorse ? 'critical' : 'good'
+                }
+              ];
+            })
+          ]
+        },
+        margin: [0, 0, 0, 30]
+      } as Content
+    ];
+  }
+
+  // Per-header findings from the parsed header values, plus cookie flags when the server sent them
+  private createSecurityFindingsSection(analysis: SecurityAnalysis, validator: MetricValidator): Content[] {
+    const { score, headers } = scoreSecurity(analysis, validator.getThresholds());
+    const severityStyles: { [severity in FindingSeverity]: string } = {
+      pass: 'good',
+      info: 'metric',
+      warning: 'warning',
+      critical: 'critical'
+    };
+    const findingStack = (findings: SecurityAnalysis['headers'][number]['findings']) => ({
+      stack: findings.map(finding => ({ text: `${finding.severity.toUpperCase()}: ${finding.message}`, fontSize: 8, style: severityStyles[finding.severity] }))
+    });
+
+    return [
+      {
+        text: `Header score: ${Math.round(score * 100)}% (${this.getRatingLabel(validator.rateMetric('securityHeaderScore', score))})`,
+        style: 'metric',
+        margin: [0, 0, 0, 5]
+      } as ContentText,
+      ...(!analysis.valuesCaptured ? [{
+        text: 'Header values were not captured for this evaluation; only presence was checked.',
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 5]
+      } as ContentText] : []),
+      {
+        table: {
+          headerRows: 1,
+          widths: [110, 35, '*'],
+          body: [
+            [
+              { text: 'Header', style: 'tableHeader' },
+              { text: 'Score', style: 'tableHeader' },
+              { text: 'Findings', style: 'tableHeader' }
+            ],
+            ...analysis.headers.map(item => {
+              const covered = headers.find(scored => scored.header === item.header)?.coveredBy;
+              return [
+                {
+                  stack: [
+                    { text: getHeaderName(item.header), fontSize: 9 },
+                    ...(item.value ? [{ text: item.value, fontSize: 7, color: '#666666' }] : []),
+                    ...(covered ? [{ text: `Covered by ${getHeaderName(covered)}`, fontSize: 7, color: '#666666' }] : [])
+                  ]
+                },
+                { text: item.present ? `${Math.round(item.score * 100)}%` : '-', fontSize: 9 },
+                findingStack(item.findings)
+              ];
+            })
+          ]
+        },
+        margin: [0, 0, 0, 15]
+      } as Content,
+      ...(analysis.cookies.length > 0 ? [
+        {
+          table: {
+            headerRows: 1,
+            widths: [110, 35, '*'],
+            body: [
+              [
+                { text: 'Cookie', style: 'tableHeader' },
+                { text: 'SameSite', style: 'tableHeader' },
+                { text: 'Findings', style: 'tableHeader' }
+              ],
+              ...analysis.cookies.map(cookie => [
+                { text: cookie.name, fontSize: 9 },
+                { text: cookie.sameSite || '-', fontSize: 9 },
+                findingStack(cookie.findings)
+              ])
+            ]
+          },
+          margin: [0, 0, 0, 30]
+        } as Content
+      ] : [])
+    ];
+  }
+
+  // Treemap-style tables: each group's share of the transferred bytes is drawn as a proportional bar
+  private createResourceBreakdownSection(breakdown: ResourceBreakdown): Content[] {
+    const BAR_WIDTH = 90;
+    const groupTable = (title: string, groups: ResourceGroup[]): Content[] => groups.length === 0 ? [] : [
+      { text: title, style: 'subheader', margin: [0, 10, 0, 5] } as ContentText,
+      {
+        table: {
+          headerRows: 1,
+          widths: ['*', 40, 60, 60, 55, BAR_WIDTH + 8],
+          body: [
+            [
+              { text: 'Group', style: 'tableHeader' },
+              { text: 'Requests', style: 'tableHeader' },
+              { text: 'Transfer', style: 'tableHeader' },
+              { text: 'Decoded', style: 'tableHeader' },
+              { text: 'Blocking', style: 'tableHeader' },
+              { text: 'Share', style: 'tableHeader' }
+            ],
+            ...groups.map(group => [
+              { text: group.label, fontSize: 9 },
+              { text: String(group.count), fontSize: 9 },
+              { text: formatBytes(group.transferSize), fontSize: 9 },
+              { text: formatBytes(group.decodedSize), fontSize: 9 },
+              { text: group.blockingTime > 0 ? `${group.blockingTime} ms` : '-', fontSize: 9 },
+              {
+                stack: [
+                  { canvas: [{ type: 'rect', x: 0, y: 0, w: Math.max(1, group.share * BAR_WIDTH), h: 6, color: '#7f8c8d' }] },
+                  { text: `${Math.round(group.share * 100)}%`, fontSize: 7 }
+                ]
+              }
+            ])
+          ]
+        },
+        margin: [0, 0, 0, 10]
+      } as Content
+    ];
+
+    return [
+      {
+        text: 'Resource Weight',
+        style: 'sectionHeader',
+        margin: [0, 20, 0, 10]
+      } as ContentText,
+      {
+        text: `${breakdown.totals.count} requests, ${formatBytes(breakdown.totals.transferSize)} transferred (${formatBytes(breakdown.totals.decodedSize)} decoded), ${breakdown.totals.blockingTime} ms of main-thread blocking attributed to scripts`,
+        style: 'metric',
+        margin: [0, 0, 0, 5]
+      } as ContentText,
+      ...groupTable('By Resource Type', breakdown.byType),
+      ...groupTable('First vs Third Party', breakdown.byParty),
+      ...groupTable('Third-Party Vendors', breakdown.byVendor),
+      ...(breakdown.topResources.length > 0 ? [
+        { text: 'Largest Resources', style: 'subheader', margin: [0, 10, 0, 5] } as ContentText,
+        {
+          table: {
+            headerRows: 1,
+            widths: ['*', 35, 55, 55],
+            body: [
+              [
+                { text: 'URL', style: 'tableHeader' },
+                { text: 'Type', style: 'tableHeader' },
+                { text: 'Transfer', style: 'tableHeader' },
+                { text: 'Blocking', style: 'tableHeader' }
+              ],
+              ...breakdown.topResources.map(resource => [
+                { text: resource.url, fontSize: 7 },
+                { text: RESOURCE_TYPE_LABELS[resource.type], fontSize: 8 },
+                { text: formatBytes(resource.transferSize), fontSize: 8 },
+                { text: resource.blockingTime > 0 ? `${Math.round(resource.blockingTime)} ms` : '-', fontSize: 8 }
+              ])
+            ]
+          },
+          margin: [0, 0, 0, 30]
+        } as Content
+      ] : [])
+    ];
+  }
+
+  private createMixedContentSection(tls: TlsInspection): Content[] {
+    return [
+      {
+        text: 'Mixed Content',
+        style: 'subheader',
+        margin: [0, 10, 0, 5]
+      } as ContentText,
+      {
+        text: 'Browsers block active mixed content (scripts, stylesheets, frames, form targets) and flag passive content such as images.',
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 5]
+      } as ContentText,
+      {
+        table: {
+          headerRows: 1,
+          widths: [45, '*', 120],
+          body: [
+            [
+              { text: 'Type', style: 'tableHeader' },
+              { text: 'Resource', style: 'tableHeader' },
+              { text: 'Element', style: 'tableHeader' }
+            ],
+            ...tls.mixedContent.map(resource => [
+              { text: resource.type, fontSize: 9, style: resource.type === 'active' ? 'critical' : 'warning' },
+              { text: resource.url, fontSize: 8 },
+              { text: resource.selector, fontSize: 8 }
+            ])
+          ]
+        },
+        margin: [0, 0, 0, tls.truncated ? 5 : 30]
+      } as Content,
+      ...(tls.truncated ? [{
+        text: 'Only the first resources are listed.',
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 30]
+      } as ContentText] : [])
+    ];
+  }
+
+  private createIndexabilitySection(report: IndexabilityReport): Content[] {
+    const readSitemaps = report.sitemaps.filter(sitemap => sitemap.status !== null && sitemap.status < 400);
+    const checks: [string, string, string][] = [
+      [
+        'robots.txt',
+        report.robotsTxt.found
+          ? `${report.robotsTxt.allowed === false ? 'Blocks' : 'Allows'} this URL${report.robotsTxt.matchingLine ? ` (line ${report.robotsTxt.matchingLine})` : ''}`
+          : report.robotsTxt.status === null ? 'Could not be checked' : 'Not found (everything allowed)',
+        report.robotsTxt.allowed === false || (report.robotsTxt.status !== null && report.robotsTxt.status >= 500) ? 'critical' : 'good'
+      ],
+      [
+        'Robots directives',
+        report.robotsDirectives.length > 0 ? report.robotsDirectives.join('; ') : 'None',
+        report.noindex ? 'critical' : 'good'
+      ],
+      [
+        'Canonical URL',
+        report.canonicalUrl || 'Not set',
+        report.canonicalizedElsewhere ? 'critical' : report.canonicalUrl ? 'good' : 'warning'
+      ],
+      [
+        'Sitemap',
+        readSitemaps.length === 0
+          ? 'Not found'
+          : `${report.inSitemap ? 'Lists' : 'Does not list'} this URL`,
+        readSitemaps.length > 0 && report.inSitemap ? 'good' : 'warning'
+      ],
+      ...readSitemaps.map(sitemap => [
+        sitemap.url,
+        sitemap.valid ? `${sitemap.urlCount} ${sitemap.isIndex ? 'sitemaps' : 'URLs'}` : sitemap.errors.join(', '),
+        sitemap.valid ? 'good' : 'warning'
+      ] as [string, string, string]),
+      ['Mobile responsive', report.mobileResponsive ? 'Yes' : 'No', report.mobileResponsive ? 'good' : 'warning']
+    ];
+
+    return [
+      {
+        text: 'Indexability',
+        style: 'sectionHeader',
+        margin: [0, 20, 0, 10]
+      } as ContentText,
+      {
+        text: `Verdict: ${INDEXABILITY_VERDICT_LABELS[report.verdict]}`,
+        style: report.verdict === 'indexable' ? 'good' : report.verdict === 'not-indexable' ? 'critical' : 'warning',
+        margin: [0, 0, 0, 5]
+      } as ContentText,
+      ...(report.issues.length > 0 ? [{
+        ul: report.issues.map(issue => ({ text: issue.message, style: issue.severity === 'error' ? 'critical' : 'warning' })),
+        margin: [0, 0, 0, 10]
+      } as Content] : []),
+      {
+        table: {
+          headerRows: 1,
+          widths: [110, '*'],
+          body: [
+            [{ text: 'Check', style: 'tableHeader' }, { text: 'Result', style: 'tableHeader' }],
+            ...checks.map(([check, result, style]) => [
+              { text: check, style: 'metric' },
+              { text: result, fontSize: 9, style }
+            ])
+          ]
+        },
+        margin: [0, 0, 0, 30]
+      } as Content
+    ];
+  }
+
+  private createContentSection(analysis: ContentAnalysis, contentAnalysis?: ReportResponse['technicalAnalysis']['content']): Content[] {
+    const { keyword } = analysis;
+    const alignedHeadings = analysis.headingAlignment.filter(heading => heading.aligned).length;
+    const recommendations = contentAnalysis?.recommendations || getContentRecommendations(analysis);
+    const rows: [string, string, string][] = [
+      ['Word count', `${analysis.wordCount}`, analysis.thinContent ? 'critical' : 'good'],
+      ['Reading level', `${analysis.readingLevel} (Flesch ${analysis.readability.fleschReadingEase})`, analysis.readability.fleschReadingEase >= 60 ? 'good' : analysis.readability.fleschReadingEase >= 30 ? 'warning' : 'critical'],
+      ['Flesch-Kincaid grade', `${analysis.readability.fleschKincaidGrade}`, 'metric'],
+      ['Gunning fog / SMOG', `${analysis.readability.gunningFog} / ${analysis.readability.smogIndex}`, 'metric'],
+      ['Average sentence length', `${analysis.averageSentenceLength} words`, analysis.averageSentenceLength > CONTENT_LIMITS.LONG_SENTENCE_WORDS ? 'warning' : 'good'],
+      ['Reading time', `${analysis.readingTimeMinutes} min`, 'metric'],
+      ['Duplicate paragraphs', `${analysis.duplicateParagraphs.length}`, analysis.duplicateParagraphs.length > 0 ? 'warning' : 'good'],
+      ['Headings matching their copy', `${alignedHeadings} of ${analysis.headingAlignment.length}`, alignedHeadings < analysis.headingAlignment.length ? 'warning' : 'good'],
+      ...(keyword ? [[
+        `Keyword "${keyword.keyword}"`,
+        `${keyword.occurrences} uses, ${keyword.density}% density`,
+        keyword.status === 'optimal' ? 'good' : keyword.status === 'low' ? 'warning' : 'critical'
+      ] as [string, string, string]] : [])
+    ];
+
+    return [
+      {
+        text: 'Content Quality',
+        style: 'sectionHeader',
+        margin: [0, 20, 0, 10]
+      } as ContentText,
+      {
+        table: {
+          headerRows: 1,
+          widths: ['*', '*'],
+          body: [
+            [
+              { text: 'Metric', style: 'tableHeader' },
+              { text: 'Value', style: 'tableHeader' }
+            ],
+            ...rows.map(([label, value, style]) => [
+              { text: label, style: 'metric' },
+              { text: value, style }
+            ])
+          ]
+        },
+        margin: [0, 0, 0, 10]
+      } as Content,
+      {
+        ul: (contentAnalysis?.keywordAnalysis || describeKeyword(analysis)).map(line => ({ text: line, style: 'metric' })),
+        margin: [0, 0, 0, 10]
+      } as Content,
+      ...(contentAnalysis?.insights.length ? [{
+        ul: contentAnalysis.insights.map(insight => ({ text: insight, style: 'listItem' })),
+        margin: [0, 0, 0, 10]
+      } as Content] : []),
+      {
+        text: 'Content Recommendations',
+        style: 'subheader',
+        margin: [0, 10, 0, 5]
+      } as ContentText,
+      {
+        ul: recommendations.length > 0
+          ? recommendations.map(recommendation => ({ text: recommendation, style: 'listItem' }))
+          : [{ text: 'No content issues found', style: 'good' }],
+        margin: [0, 0, 0, 30]
+      } as Content
+    ];
+  }
+
+  // Approximates each platform's link card: image area (or thumbnail), then domain, title and description
+  private createSocialPreviewCard(preview: SocialPreview, imageSize: string): Content {
+    const text = {
+      stack: [
+        { text: (preview.siteName || preview.domain).toUpperCase(), fontSize: 7, color: '#7f8c8d' },
+        { text: preview.title || preview.domain, fontSize: 10, bold: true, color: '#2c3e50', margin: [0, 2, 0, 2] },
+        ...(preview.description ? [{ text: preview.description, fontSize: 8, color: '#2c3e50' }] : [])
+      ],
+      margin: [4, 4, 4, 4]
+    };
+    const image = {
+      text: imageSize,
+      fontSize: 7,
+      color: '#7f8c8d',
+      alignment: 'center',
+      fillColor: '#dfe6e9',
+      margin: preview.layout === 'large' ? [0, 40, 0, 40] : [0, 20, 0, 20]
+    };
+
+    return {
+      stack: [
+        { text: SOCIAL_PLATFORM_LABELS[preview.platform], style: 'metric', bold: true },
+        {
+          table: preview.layout === 'large'
+            ? { widths: ['*'], body: [[image], [text]] }
+            : preview.layout === 'small'
+              ? { widths: [60, '*'], body: [[image, text]] }
+              : { widths: ['*'], body: [[text]] },
+          layout: {
+            hLineWidth: (i: number, node: any) => (i === 0 || i === node.table.body.length ? 0.5 : 0),
+            vLineWidth: (i: number, node: any) => (i === 0 || i === node.table.widths.length ? 0.5 : 0),
+            hLineColor: () => '#bdc3c7',
+            vLineColor: () => '#bdc3c7'
+          }
+        }
+      ],
+      margin: [0, 0, 0, 15],
+      unbreakable: true
+    } as Content;
+  }
+
+  private createSocialPreviewSection(audit: SocialPreviewAudit): Content[] {
+    const { image } = audit.metadata;
+    const width = image?.width ?? image?.declaredWidth;
+    const height = image?.height ?? image?.declaredHeight;
+    const imageSize = width && height ? `Share image ${width}x${height}` : 'Share image';
+    const cards = audit.previews.map(preview => this.createSocialPreviewCard(preview, imageSize));
+    const rows: Content[] = [];
+    for (let i = 0; i < cards.length; i += 2) {
+      rows.push({ columns: [cards[i], cards[i + 1] || { text: '' }], columnGap: 15 } as Content);
+    }
+
+    return [
+      {
+        text: 'Social Sharing Previews',
+        style: 'sectionHeader',
+        pageBreak: 'before',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      {
+        text: `Simulated link previews built from the page's Open Graph and Twitter Card tags${image ? ` (image: ${image.url})` : ''}.`,
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      ...(audit.issues.length > 0 ? [{
+        ul: audit.issues.map(issue => ({ text: issue.message, fontSize: 9, style: issue.severity === 'error' ? 'critical' : 'warning' })),
+        margin: [0, 0, 0, 15]
+      } as Content] : []),
+      ...rows
+    ];
+  }
+
+  private createStructuredDataSection(audit: StructuredDataAudit, structureAnalysis: string[] = describeStructuredData(audit)): Content[] {
+    return [
+      {
+        text: 'Structured Data',
+        style: 'sectionHeader',
+        margin: [0, 20, 0, 10]
+      } as ContentText,
+      {
+        ul: structureAnalysis.map(line => ({ text: line, style: 'metric' })),
+        margin: [0, 0, 0, 10]
+      } as Content,
+      ...(audit.entities.length > 0 ? [
+        {
+          table: {
+            headerRows: 1,
+            widths: [90, 55, 90, '*'],
+            body: [
+              [
+                { text: 'Type', style: 'tableHeader' },
+                { text: 'Source', style: 'tableHeader' },
+                { text: 'Rich result', style: 'tableHeader' },
+                { text: 'Issues', style: 'tableHeader' }
+              ],
+              ...audit.entities.map(entity => [
+                { text: entity.type, fontSize: 9 },
+                { text: entity.source, fontSize: 9 },
+                {
+                  text: entity.richResult ? `${entity.richResult}${entity.eligible ? '' : ' (not eligible)'}` : '-',
+                  fontSize: 9,
+                  style: entity.richResult ? (entity.eligible ? 'good' : 'critical') : undefined
+                },
+                entity.issues.length > 0
+                  ? {
+                    stack: entity.issues.map(issue => ({
+                      text: issue.message,
+                      fontSize: 8,
+                      style: issue.severity === 'error' ? 'critical' : 'warning'
+                    }))
+                  }
+                  : { text: 'None', fontSize: 8, style: 'good' }
+              ])
+            ]
+          },
+          margin: [0, 0, 0, audit.truncated ? 5 : 30]
+        } as Content,
+        ...(audit.truncated ? [{
+          text: 'Only the first entities are listed, starting with those that have issues.',
+          style: 'thresholdInfo',
+          margin: [0, 0, 0, 30]
+        } as ContentText] : [])
+      ] : [])
+    ];
+  }
+
+  private createImageAuditSection(audit: ImageAudit): Content[] {
+    const formatDimensions = (width: number | null, height: number | null) => (width && height ? `${width}x${height}` : '-');
+
+    return [
+      {
+        text: 'Image Optimization',
+        style: 'subheader',
+        margin: [0, 10, 0, 5]
+      } as ContentText,
+      {
+        text: `${audit.optimizedImages} of ${audit.totalImages} images need no changes. Estimated savings: ${formatBytes(audit.totalSavings)} of ${formatBytes(audit.totalBytes)} (modern formats and correct sizing).`,
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 5]
+      } as ContentText,
+      {
+        table: {
+          headerRows: 1,
+          widths: ['*', 35, 55, 55, 45, 30, 30, 50],
+          body: [
+            [
+              { text: 'Image', style: 'tableHeader' },
+              { text: 'Format', style: 'tableHeader' },
+              { text: 'Intrinsic', style: 'tableHeader' },
+              { text: 'Rendered', style: 'tableHeader' },
+              { text: 'Size', style: 'tableHeader' },
+              { text: 'Lazy', style: 'tableHeader' },
+              { text: 'W/H', style: 'tableHeader' },
+              { text: 'Savings', style: 'tableHeader' }
+            ],
+            ...audit.images.map(image => [
+              { text: image.url, fontSize: 8 },
+              { text: image.format, fontSize: 8 },
+              { text: formatDimensions(image.intrinsicWidth, image.intrinsicHeight), fontSize: 8 },
+              { text: formatDimensions(image.renderedWidth, image.renderedHeight), fontSize: 8 },
+              { text: image.bytes !== null ? formatBytes(image.bytes) : '-', fontSize: 8 },
+              { text: image.lazy ? 'Yes' : 'No', fontSize: 8, style: image.offscreen && !image.lazy ? 'warning' : undefined },
+              { text: image.hasDimensions ? 'Yes' : 'No', fontSize: 8, style: image.hasDimensions ? undefined : 'warning' },
+              { text: image.totalSavings > 0 ? formatBytes(image.totalSavings) : '-', fontSize: 8, style: image.totalSavings > 0 ? 'warning' : 'good' }
+            ])
+          ]
+        },
+        margin: [0, 0, 0, audit.truncated ? 5 : 30]
+      } as Content,
+      ...(audit.truncated ? [{
+        text: 'Only the images with the largest savings are listed.',
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 30]
+      } as ContentText] : [])
+    ];
+  }
+
+  private createAccessibilityAuditSection(audit: AccessibilityAudit): Content[] {
+    const totalViolations = WCAG_LEVELS.reduce((total, level) => total + audit.violationCounts[level], 0);
+
+    return [
+      {
+        text: 'WCAG 2.2 Audit',
+        style: 'sectionHeader',
+        margin: [0, 20, 0, 10]
+      } as ContentText,
+      {
+        text: `Compliance: ${describeComplianceLevel(audit.complianceLevel)}`,
+        style: audit.complianceLevel ? 'good' : 'critical',
+        margin: [0, 0, 0, 5]
+      } as ContentText,
+      {
+        text: 'Automated checks cover markup-level criteria only; a manual review is still needed to claim conformance.',
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      {
+        table: {
+          headerRows: 1,
+          widths: ['*', 100],
+          body: [
+            [{ text: 'Level', style: 'tableHeader' }, { text: 'Violations', style: 'tableHeader' }],
+            ...WCAG_LEVELS.map(level => [
+              { text: `Level ${level}`, style: 'metric' },
+              { text: String(audit.violationCounts[level]), style: audit.violationCounts[level] === 0 ? 'good' : 'critical' }
+            ])
+          ]
+        },
+        margin: [0, 0, 0, 15]
+      } as Content,
+      ...(audit.violations.length > 0 ? [
+        {
+          table: {
+            headerRows: 1,
+            widths: [90, 30, 120, '*'],
+            body: [
+              [
+                { text: 'Criterion', style: 'tableHeader' },
+                { text: 'Level', style: 'tableHeader' },
+                { text: 'Element', style: 'tableHeader' },
+                { text: 'Issue', style: 'tableHeader' }
+              ],
+              ...audit.violations.map(violation => [
+                { text: violation.criterion, fontSize: 9 },
+                { text: violation.level, fontSize: 9, style: violation.level === 'A' ? 'critical' : 'warning' },
+                { text: violation.selector, fontSize: 8 },
+                {
+                  stack: [
+                    { text: violation.message, fontSize: 9 },
+                    ...(violation.snippet ? [{ text: violation.snippet, fontSize: 7, color: '#666666' }] : [])
+                  ]
+                }
+              ])
+            ]
+          },
+          margin: [0, 0, 0, 10]
+        } as Content
+      ] : []),
+      ...(audit.truncated ? [{
+        text: `Showing the first ${audit.violations.length} of ${totalViolations} violations.`,
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 20]
+      } as ContentText] : [])
+    ];
+  }
+
+  private createBrokenLinksAppendix(links: CheckedLink[]): Content[] {
+    const brokenLinks = links.filter(link => link.broken);
+    const redirectedCount = links.filter(link => link.redirectChain.length > 0).length;
+
+    return [
+      {
+        text: 'Appendix: Broken Links',
+        style: 'sectionHeader',
+        pageBreak: 'before',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      {
+        text: `${brokenLinks.length} of ${links.length} checked links are broken; ${redirectedCount} redirect before resolving.`,
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      brokenLinks.length > 0 ? {
+        table: {
+          headerRows: 1,
+          widths: ['*', 45, 50, 130],
+          body: [
+            [
+              { text: 'URL', style: 'tableHeader' },
+              { text: 'Status', style: 'tableHeader' },
+              { text: 'Type', style: 'tableHeader' },
+              { text: 'Source', style: 'tableHeader' }
+            ],
+            ...brokenLinks.map(link => [
+              {
+                stack: [
+                  { text: link.url, fontSize: 9 },
+                  ...(link.redirectChain.length > 0
+                    ? [{ text: `Redirects: ${link.redirectChain.join(' -> ')}`, fontSize: 7, color: '#666666' }]
+                    : [])
+                ]
+              },
+              { text: formatLinkStatus(link), fontSize: 9, style: 'critical' },
+              { text: getLinkType(link), fontSize: 9 },
+              {
+                stack: [
+                  { text: link.anchorText || '(no anchor text)', fontSize: 9 },
+                  ...(link.selector ? [{ text: link.selector, fontSize: 7, color: '#666666' }] : [])
+                ]
+              }
+            ])
+          ]
+        },
+        margin: [0, 0, 0, 20]
+      } as Content : {
+        text: 'No broken links were found.',
+        style: 'good',
+        margin: [0, 0, 0, 20]
+      } as ContentText
+    ];
+  }
+
+  private createBenchmarkSection(benchmark: BenchmarkResult): Content[] {
+    const evaluatedUrls = benchmark.standings.map(standing => standing.url);
+    const formatHost = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+    const categories = Array.from(new Set(benchmark.dimensions.map(dimension => dimension.category)));
+    const failedSites = benchmark.sites.filter(site => site.error);
+
+    const content: Content[] = [
+      {
+        text: 'Competitor Benchmark',
+        style: 'sectionHeader',
+        pageBreak: 'before',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      {
+        text: 'Sites are ranked on every collected metric (1 = best). The overall standing is the average rank across all metrics.',
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      {
+        table: {
+          headerRows: 1,
+          widths: [40, '*', 80, 60],
+          body: [
+            [
+              { text: 'Rank', style: 'tableHeader' },
+              { text: 'Site', style: 'tableHeader' },
+              { text: 'Average Rank', style: 'tableHeader' },
+              { text: 'First Places', style: 'tableHeader' }
+            ],
+            ...benchmark.standings.map(standing => [
+              { text: `#${standing.overallRank}`, style: standing.overallRank === 1 ? 'good' : 'metric' },
+              { text: `${standing.url}${standing.isUserSite ? ' (evaluated site)' : ''}`, style: 'metric', bold: standing.isUserSite },
+              { text: standing.averageRank.toFixed(1), style: 'metric' },
+              { text: String(standing.firstPlaces), style: 'metric' }
+            ])
+          ]
+        },
+        margin: [0, 0, 0, 20]
+      } as Content
+    ];
+
+    categories.forEach(category => {
+      content.push(
+        {
+          text: category,
+          style: 'subheader',
+          margin: [0, 10, 0, 10]
+        } as ContentText,
+        {
+          table: {
+            headerRows: 1,
+            widths: ['*', ...evaluatedUrls.map(() => 75)],
+            body: [
+              [
+                { text: 'Metric', style: 'tableHeader' },
+                ...evaluatedUrls.map(url => ({ text: formatHost(url), style: 'tableHeader' }))
+              ],
+              ...benchmark.dimensions
+                .filter(dimension => dimension.category === category)
+                .map(dimension => [
+                  { text: dimension.label, style: 'metric' },
+                  ...evaluatedUrls.map(url => {
+                    const entry = dimension.entries.find(item => item.url === url);
+                    return {
+                      text: `${benchmarkService.formatValue(dimension, entry?.value ?? null)}${entry?.rank ? ` (#${entry.rank})` : ''}`,
+                      style: entry?.rank === 1 ? 'good' : 'metric',
+                      bold: url === benchmark.siteUrl
+                    };
+                  })
+                ])
+            ]
+          },
+          fontSize: 9,
+          margin: [0, 0, 0, 15]
+        } as Content
+      );
+    });
+
+    if (failedSites.length > 0) {
+      content.push({
+        text: `Not evaluated: ${failedSites.map(site => site.url).join(', ')}`,
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 10]
+      } as ContentText);
+    }
+
+    return content;
+  }
+
+  private getRatingStyle(rating: MetricRating | null): string {
+    if (rating === 'good') return 'good';
+    if (rating === 'needs-improvement') return 'warning';
+    if (rating === 'poor') return 'critical';
+    return 'metric';
+  }
+
+  createComparisonSection(comparison: ReportComparison): Content[] {
+    const { baseline, current } = comparison;
+    const describe = (report: typeof baseline) =>
+      `${report.websiteUrl} (${new Date(report.timestamp).toLocaleDateString()})`;
+
+    const content: Content[] = [
+      {
+        text: 'Report Comparison',
+        style: 'sectionHeader',
+        margin: [0, 0, 0, 10]
+      } as ContentText,
+      {
+        text: `Baseline: ${describe(baseline)}\nCompared: ${describe(current)}`,
+        style: 'thresholdInfo',
+        margin: [0, 0, 0, 20]
+      } as ContentText
+    ];
+
+    comparison.sections.forEach(section => {
+      content.push(
+        {
+          text: section.title,
+          style: 'subheader',
+          margin: [0, 10, 0, 10]
+        } as ContentText,
+        {
+          table: {
+            headerRows: 1,
+            widths: ['*', 90, 90, 70],
+            body: [
+              [
+                { text: 'Metric', style: 'tableHeader' },
+                { text: 'Baseline', style: 'tableHeader' },
+                { text: 'Compared', style: 'tableHeader' },
+                { text: 'Change', style: 'tableHeader' }
+              ],
+              ...section.rows.map(row => [
+                { text: row.label, style: 'metric' },
+                { text: reportComparison.formatValue(row, row.baseline), style: this.getRatingStyle(row.baselineRating) },
+                { text: reportComparison.formatValue(row, row.current), style: this.getRatingStyle(row.currentRating) },
+                {
+                  text: reportComparison.formatDelta(row),
+                  style: row.trend === 'improved' ? 'good' : row.trend === 'regressed' ? 'critical' : 'metric'
+                }
+              ])
+            ]
+          },
+          margin: [0, 0, 0, 15]
+        } as Content
+      );
+    });
+
+    content.push({
+      text: 'Recommendations',
+      style: 'subheader',
+      margin: [0, 20, 0, 10]
+    } as ContentText);
+
+    (['critical', 'important', 'optional'] as const).forEach(priority => {
+      const { baseline: baselineItems, current: currentItems } = comparison.recommendations[priority];
+      if (baselineItems.length === 0 && currentItems.length === 0) return;
+
+      content.push({
+        table: {
+          headerRows: 1,
+          widths: ['*', '*'],
+          body: [
+            [
+              { text: `${priority.charAt(0).toUpperCase()}${priority.slice(1)} (Baseline)`, style: 'tableHeader' },
+              { text: `${priority.charAt(0).toUpperCase()}${priority.slice(1)} (Compared)`, style: 'tableHeader' }
+            ],
+            [
+              { ul: baselineItems.map(item => ({ text: item, style: 'listItem' })) },
+              { ul: currentItems.map(item => ({ text: item, style: 'listItem' })) }
+            ]
+          ]
+        },
+        margin: [0, 0, 0, 15]
+      } as Content);
+    });
+
+    return content;
+  }
+
+  async generateComparisonPDF(comparison: ReportComparison): Promise<Uint8Array> {
+    try {
+      const branding = await brandingService.getBranding(auth.currentUser?.uid);
+      const docDefinition: TDocumentDefinitions = {
+        content: this.createComparisonSection(comparison),
+        defaultStyle: {
+          font: this.getFontName(branding)
+        },
+        styles: this.getReportStyles(branding),
+        footer: this.createFooter(branding),
+        pageMargins: [40, 60, 40, 60],
+        pageSize: 'A4'
+      };
+
+      return new Promise((resolve) => {
+        const pdfDoc = this.createPdf(docDefinition, branding);
+        pdfDoc.getBuffer(resolve);
+      });
+    } catch (error) {
+      console.error('Comparison PDF generation failed:', error);
+      throw error;
+    }
+  }
+
+  async generatePDFFromStored(data: ReportData): Promise<Uint8Array> {
     try {
       // Skip analysis generation and use existing data
-      const docDefinition = await this.createDocumentDefinition(data);
+      const branding = await brandingService.getBranding(auth.currentUser?.uid);
+      const docDefinition = await this.createDocumentDefinition(data, branding);
       
       return new Promise((resolve) => {
-        const pdfDoc = pdfMake.createPdf(docDefinition);
+        const pdfDoc = this.createPdf(docDefinition, branding);
         pdfDoc.getBuffer(resolve);
       });
     } catch (error) {
@@ -0,0 +1,248 @@
+import { collection, doc, getDoc, getDocs, deleteDoc, query, where, writeBatch, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { StoredReport } from './reportStorage';
+
+export interface ReportShare {
+  id: string;
+  reportId: string;
+  websiteUrl: string;
+  createdAt: Date;
+  expiresAt?: Date;
+  passwordProtected: boolean;
+}
+
+export interface ShareOptions {
+  expiresAt?: Date;
+  password?: string;
+}
+
+// What a signed-out visitor can learn about a link before opening it
+export interface ShareInfo {
+  websiteUrl: string;
+  expired: boolean;
+  passwordProtected: boolean;
+}
+
+interface EncryptedPayload {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+const PBKDF2_ITERATIONS = 100000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (password: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Password-protected links store the report encrypted with a key derived from the password,
+// so the snapshot can't be read from Firestore without it
+const encrypt = async (plaintext: string, password: string): Promise<EncryptedPayload> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(password, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decrypt = async (payload: EncryptedPayload, password: string): Promise<string> => {
+  const key = await deriveKey(password, fromBase64(payload.salt));
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return new TextDecoder().decode(data);
+};
+
+const createToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Reports are stored as JSON, so dates come back as ISO strings
+const reviveReport = (json: string): StoredReport => {
+  const report = JSON.parse(json);
+  return {
+    ...report,
+    timestamp: new Date(report.timestamp),
+    benchmark: report.benchmark ? { ...report.benchmark, timestamp: new Date(report.benchmark.timestamp) } : undefined
+  };
+};
+
+class ReportSharingService {
+  // Top-level so signed-out visitors can read a single share by its unguessable token
+  private sharesRef() {
+    return collection(db, 'sharedReports');
+  }
+
+  // The snapshot lives apart from the link's metadata, so the security rules can stop serving it once
+  // the link expires while visitors can still be told why
+  private contentRef(shareId: string) {
+    return doc(db, 'sharedReports', shareId, 'content', 'report');
+  }
+
+  getShareUrl(shareId: string): string {
+    return `${window.location.origin}/shared/${shareId}`;
+  }
+
+  isExpired(share: Pick<ReportShare, 'expiresAt'>): boolean {
+    return Boolean(share.expiresAt && share.expiresAt.getTime() <= Date.now());
+  }
+
+  async createShare(userId: string, report: StoredReport, options: ShareOptions = {}): Promise<ReportShare> {
+    try {
+      const shareId = createToken();
+      const createdAt = new Date();
+      const serialized = JSON.stringify(report);
+      const password = options.password?.trim();
+
+      const expiresAt = options.expiresAt ? Timestamp.fromDate(options.expiresAt) : null;
+
+      const batch = writeBatch(db);
+      batch.set(doc(this.sharesRef(), shareId), {
+        ownerId: userId,
+        reportId: report.id,
+        websiteUrl: report.websiteUrl,
+        createdAt: Timestamp.fromDate(createdAt),
+        expiresAt,
+        passwordProtected: Boolean(password)
+      });
+      // Password-protected links only ever store the encrypted copy
+      batch.set(this.contentRef(shareId), {
+        ownerId: userId,
+        expiresAt,
+        report: password ? null : serialized,
+        encryptedReport: password ? await encrypt(serialized, password) : null
+      });
+      await batch.commit();
+
+      return {
+        id: shareId,
+        reportId: report.id,
+        websiteUrl: report.websiteUrl,
+        createdAt,
+        expiresAt: options.expiresAt,
+        passwordProtected: Boolean(password)
+      };
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      throw new Error('Failed to create share link');
+    }
+  }
+
+  async getShares(userId: string): Promise<ReportShare[]> {
+    try {
+      const querySnapshot = await getDocs(query(this.sharesRef(), where('ownerId', '==', userId)));
+      const shares = querySnapshot.docs
+        .map(doc => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            reportId: data.reportId,
+            websiteUrl: data.websiteUrl,
+            createdAt: data.createdAt?.toDate() || new Date(),
+            expiresAt: data.expiresAt?.toDate() || undefined,
+            passwordProtected: data.passwordProtected ?? Boolean(data.encryptedReport)
+          };
+        })
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+      // Expired links keep their metadata for the owner's list, but their snapshot is deleted
+      await Promise.all(shares.filter(share => this.isExpired(share)).map(share => this.clearContent(share.id)));
+      return shares;
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+      throw new Error('Failed to fetch share links');
+    }
+  }
+
+  private async clearContent(shareId: string): Promise<void> {
+    try {
+      await deleteDoc(this.contentRef(shareId));
+    } catch (error) {
+      console.error('Error clearing expired share link:', error);
+    }
+  }
+
+  async revokeShare(shareId: string): Promise<void> {
+    try {
+      const batch = writeBatch(db);
+      batch.delete(this.contentRef(shareId));
+      batch.delete(doc(this.sharesRef(), shareId));
+      await batch.commit();
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      throw new Error('Failed to revoke share link');
+    }
+  }
+
+  // Revokes every link pointing at a report, e.g. when the report itself is deleted
+  async revokeSharesForReport(userId: string, reportId: string): Promise<void> {
+    const shares = await this.getShares(userId);
+    await Promise.all(shares.filter(share => share.reportId === reportId).map(share => this.revokeShare(share.id)));
+  }
+
+  // Reuses an open, unprotected link for the report when there is one, e.g. when linking it from a ticket
+  async getOrCreateReportLink(userId: string, report: StoredReport): Promise<string> {
+    const shares = await this.getShares(userId);
+    const existing = shares.find(share =>
+      share.reportId === report.id && !share.passwordProtected && !share.expiresAt
+    );
+    const share = existing || await this.createShare(userId, report);
+    return this.getShareUrl(share.id);
+  }
+
+  async getShareInfo(shareId: string): Promise<ShareInfo | null> {
+    const snapshot = await getDoc(doc(this.sharesRef(), shareId));
+    if (!snapshot.exists()) return null;
+
+    const data = snapshot.data();
+    return {
+      websiteUrl: data.websiteUrl,
+      expired: this.isExpired({ expiresAt: data.expiresAt?.toDate() }),
+      passwordProtected: data.passwordProtected ?? Boolean(data.encryptedReport)
+    };
+  }
+
+  async getSharedReport(shareId: string, password?: string): Promise<StoredReport> {
+    const snapshot = await getDoc(doc(this.sharesRef(), shareId));
+    if (!snapshot.exists()) {
+      throw new Error('This link does not exist or has been revoked');
+    }
+
+    if (this.isExpired({ expiresAt: snapshot.data().expiresAt?.toDate() })) {
+      throw new Error('This link has expired');
+    }
+
+    // Links created before the snapshot moved out of the share document still carry it inline
+    const contentSnapshot = await getDoc(this.contentRef(shareId));
+    const data = contentSnapshot.exists() ? contentSnapshot.data() : snapshot.data();
+    if (data.report) {
+      return reviveReport(data.report);
+    }
+    if (!data.encryptedReport) {
+      throw new Error('This link does not exist or has been revoked');
+    }
+
+    try {
+      return reviveReport(await decrypt(data.encryptedReport, password || ''));
+    } catch (error) {
+      throw new Error('Incorrect password');
+    }
+  }
+}
+
+export const reportSharingService = new ReportSharingService();
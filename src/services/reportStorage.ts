@@ -1,7 +1,24 @@
-import { collection, addDoc, query, where, getDocs, doc, Timestamp, deleteDoc } from 'firebase/firestore';
+import { collection, addDoc, query, where, getDocs, doc, Timestamp, deleteDoc, updateDoc, CollectionReference } from 'firebase/firestore';
 import { db } from './firebase';
 import { ReportData, reportGenerator, ReportResponse } from './reportGenerator';
 import { saveAs } from 'file-saver';
+import { BenchmarkResult } from './benchmark';
+import { DeviceProfiles } from './evaluator';
+import { ScoringProfileSnapshot, scoringProfileService } from './scoringProfiles';
+import { reportExporter } from './reportExporters';
+import { ExportedIssue } from './issueExporters';
+import { RemediationEntry } from './remediation';
+import { AccessibilityAudit } from './accessibilityAudit';
+import { SecurityAnalysis } from './securityAnalysis';
+import { TlsInspection } from './tlsInspection';
+import { ResourceBreakdown } from './resourceBreakdown';
+import { ImageAudit } from './imageAudit';
+import { StructuredDataAudit } from './structuredData';
+import { IndexabilityReport } from './indexability';
+import { SocialPreviewAudit } from './socialPreview';
+import { ContentAnalysis } from './contentAnalysis';
+import { CheckedLink, getStoredLinks } from './linkInventory';
+import { createZip, ZipEntry } from '../utils/zip';
 
 export interface StoredReport {
   id: string;
@@ -9,7 +26,17 @@ export interface StoredReport {
   timestamp: Date;
   overallScore: number;
   phaseScores: { [phase: string]: number };
+  completedPhases?: string[];
   professionalAnalysis?: ReportResponse;
+  benchmark?: BenchmarkResult;
+  scoringProfile?: ScoringProfileSnapshot;
+  // Set for reports created inside a team workspace
+  workspaceId?: string;
+  createdBy?: string;
+  // Recommendations already filed in an issue tracker, keyed by recommendation id
+  exportedIssues?: { [recommendationId: string]: ExportedIssue };
+  // Remediation status, owner and last fix verification, keyed by recommendation id
+  remediation?: { [recommendationId: string]: RemediationEntry };
   essentialMetrics: {
     performance: {
       loadTime: number;
@@ -20,11 +47,21 @@ export interface StoredReport {
       ttfb: number;
       tbt: number;
       estimatedFid: number;
+      pageSize?: number;
+      requests?: number;
+      resourceBreakdown?: ResourceBreakdown;
     };
     seo: {
       score: number;
       title: string;
       metaDescription: string;
+      structuredDataAudit?: StructuredDataAudit;
+      indexability?: IndexabilityReport;
+      socialPreview?: SocialPreviewAudit;
+      robotsTxt?: boolean;
+      sitemapXml?: boolean;
+      canonicalUrl?: string;
+      mobileResponsive?: boolean;
     };
     accessibility: {
       score: number;
@@ -32,6 +69,7 @@ export interface StoredReport {
       totalImages: number;
       ariaAttributesCount: number;
       keyboardNavigable: boolean;
+      audit?: AccessibilityAudit;
     };
     lighthouse: {
       performance: number;
@@ -51,6 +89,8 @@ export interface StoredReport {
         'Referrer-Policy': boolean;
       };
       tlsVersion: string;
+      analysis?: SecurityAnalysis;
+      tls?: TlsInspection;
     };
     formFunctionality: {
       totalForms: number;
@@ -62,6 +102,7 @@ export interface StoredReport {
     brokenLinks: {
       totalLinks: number;
       brokenLinks: number;
+      links?: CheckedLink[];
     };
     responsiveness: {
       isResponsive: boolean;
@@ -72,18 +113,52 @@ export interface StoredReport {
       semanticUsage: { [key: string]: number };
       optimizedImages: number;
       totalImages: number;
+      imageAudit?: ImageAudit;
     };
+    content?: ContentAnalysis;
+    deviceProfiles?: DeviceProfiles;
   };
 }
 
+export type BulkDownloadStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+export interface BulkDownloadOptions {
+  // Adds the versioned JSON export next to each PDF
+  includeJson?: boolean;
+  onProgress?: (reportId: string, status: BulkDownloadStatus, error?: string) => void;
+}
+
+export interface BulkDownloadResult {
+  succeeded: number;
+  failed: { report: StoredReport; error: string }[];
+}
+
+interface BulkDownloadManifestEntry {
+  websiteUrl: string;
+  timestamp: string;
+  overallScore: number;
+  phaseScores: { [phase: string]: number };
+  pdfFile: string | null;
+  jsonFile: string | null;
+  error: string | null;
+}
+
 class ReportStorageService {
-  async saveReport(userId: string, reportData: ReportData): Promise<string> {
+  // Personal reports live under the user, workspace reports under the workspace
+  private reportsRef(userId: string, workspaceId?: string) {
+    return workspaceId
+      ? collection(db, 'workspaces', workspaceId, 'reports')
+      : collection(db, 'users', userId, 'reports');
+  }
+
+  async saveReport(userId: string, reportData: ReportData, workspaceId?: string): Promise<string> {
     try {
       const storedData = {
         websiteUrl: reportData.websiteUrl,
         timestamp: Timestamp.fromDate(reportData.timestamp),
         overallScore: reportData.overallScore,
         phaseScores: reportData.phaseScores,
+        completedPhases: reportData.completedPhases || null,
         professionalAnalysis: {
           executiveSummary: reportData.professionalAnalysis?.executiveSummary || {
             keyStrengths: [],
@@ -113,11 +188,21 @@ class ReportStorageService {
             ttfb: reportData.metrics.performance.ttfb,
             tbt: reportData.metrics.performance.tbt,
             estimatedFid: reportData.metrics.performance.estimatedFid,
+            pageSize: reportData.metrics.performance.pageSize ?? null,
+            requests: reportData.metrics.performance.requests ?? null,
+            resourceBreakdown: reportData.metrics.performance.resourceBreakdown || null,
           },
           seo: {
             score: reportData.metrics.seo.score,
             title: reportData.metrics.seo.title,
             metaDescription: reportData.metrics.seo.metaDescription,
+            structuredDataAudit: reportData.metrics.seo.structuredDataAudit || null,
+            indexability: reportData.metrics.seo.indexability || null,
+            socialPreview: reportData.metrics.seo.socialPreview || null,
+            robotsTxt: reportData.metrics.seo.robotsTxt ?? null,
+            sitemapXml: reportData.metrics.seo.sitemapXml ?? null,
+            canonicalUrl: reportData.metrics.seo.canonicalUrl || null,
+            mobileResponsive: reportData.metrics.seo.mobileResponsive ?? null,
           },
           accessibility: {
             score: reportData.metrics.accessibility.score,
@@ -125,6 +210,7 @@ class ReportStorageService {
             totalImages: reportData.metrics.accessibility.totalImages,
             ariaAttributesCount: reportData.metrics.accessibility.ariaAttributesCount,
             keyboardNavigable: reportData.metrics.accessibility.keyboardNavigable,
+            audit: reportData.metrics.accessibility.audit || null
           },
           lighthouse: {
             performance: reportData.metrics.lighthouse.performance,
@@ -137,6 +223,8 @@ class ReportStorageService {
             protocol: reportData.metrics.security.protocol,
             securityHeaders: reportData.metrics.security.securityHeaders,
             tlsVersion: reportData.metrics.security.tlsVersion,
+            analysis: reportData.metrics.security.analysis || null,
+            tls: reportData.metrics.security.tls || null,
           },
           formFunctionality: {
             totalForms: reportData.metrics.formFunctionality.totalForms,
@@ -147,7 +235,8 @@ class ReportStorageService {
           },
           brokenLinks: {
             totalLinks: reportData.metrics.brokenLinks.totalLinks,
-            brokenLinks: reportData.metrics.brokenLinks.brokenLinks
+            brokenLinks: reportData.metrics.brokenLinks.brokenLinks,
+            links: reportData.metrics.brokenLinks.links ? getStoredLinks(reportData.metrics.brokenLinks.links) : null
           },
           responsiveness: {
             isResponsive: reportData.metrics.responsiveness.isResponsive,
@@ -157,15 +246,24 @@ class ReportStorageService {
           bestPractices: {
             semanticUsage: reportData.metrics.bestPractices.semanticUsage,
             optimizedImages: reportData.metrics.bestPractices.optimizedImages,
-            totalImages: reportData.metrics.bestPractices.totalImages
-          }
+            totalImages: reportData.metrics.bestPractices.totalImages,
+            imageAudit: reportData.metrics.bestPractices.imageAudit || null
+          },
+          content: reportData.metrics.content || null,
+          deviceProfiles: reportData.metrics.deviceProfiles || null
         },
+        // Firestore rejects undefined fields, so optional values are stored as null
+        benchmark: reportData.benchmark ? {
+          ...reportData.benchmark,
+          timestamp: Timestamp.fromDate(new Date(reportData.benchmark.timestamp)),
+          sites: reportData.benchmark.sites.map(site => ({ ...site, error: site.error || null }))
+        } : null,
+        scoringProfile: reportData.scoringProfile || null,
+        createdBy: userId,
         createdAt: Timestamp.fromDate(new Date())
       };
 
-      // Create a reference to the user's reports subcollection
-      const userReportsRef = collection(db, 'users', userId, 'reports');
-      const reportRef = await addDoc(userReportsRef, storedData);
+      const reportRef = await addDoc(this.reportsRef(userId, workspaceId), storedData);
       return reportRef.id;
     } catch (error) {
       console.error('Error saving report:', error);
@@ -175,110 +273,177 @@ class ReportStorageService {
 
   async getUserReports(userId: string): Promise<StoredReport[]> {
     try {
-      // Get reports from the user's subcollection
-      const userReportsRef = collection(db, 'users', userId, 'reports');
-      const querySnapshot = await getDocs(userReportsRef);
-      
-      return querySnapshot.docs.map(doc => {
-        const data = doc.data();
-        // Ensure all required fields are present and properly typed
-        const report: StoredReport = {
-          id: doc.id,
-          websiteUrl: data.websiteUrl,
-          timestamp: data.timestamp?.toDate() || new Date(),
-          overallScore: data.overallScore,
-          phaseScores: data.phaseScores || {},
-          professionalAnalysis: data.professionalAnalysis || undefined,
-          essentialMetrics: {
-            performance: {
-              loadTime: data.essentialMetrics?.performance?.loadTime,
-              firstContentfulPaint: data.essentialMetrics?.performance?.firstContentfulPaint,
-              timeToInteractive: data.essentialMetrics?.performance?.timeToInteractive,
-              largestContentfulPaint: data.essentialMetrics?.performance?.largestContentfulPaint,
-              cumulativeLayoutShift: data.essentialMetrics?.performance?.cumulativeLayoutShift,
-              ttfb: data.essentialMetrics?.performance?.ttfb,
-              tbt: data.essentialMetrics?.performance?.tbt,
-              estimatedFid: data.essentialMetrics?.performance?.estimatedFid,
-            },
-            seo: {
-              score: data.essentialMetrics?.seo?.score,
-              title: data.essentialMetrics?.seo?.title,
-              metaDescription: data.essentialMetrics?.seo?.metaDescription,
-            },
-            accessibility: {
-              score: data.essentialMetrics?.accessibility?.score,
-              imagesWithAltText: data.essentialMetrics?.accessibility?.imagesWithAltText,
-              totalImages: data.essentialMetrics?.accessibility?.totalImages,
-              ariaAttributesCount: data.essentialMetrics?.accessibility?.ariaAttributesCount,
-              keyboardNavigable: data.essentialMetrics?.accessibility?.keyboardNavigable,
-            },
-            lighthouse: {
-              performance: data.essentialMetrics?.lighthouse?.performance,
-              accessibility: data.essentialMetrics?.lighthouse?.accessibility,
-              seo: data.essentialMetrics?.lighthouse?.seo,
-              bestPractices: data.essentialMetrics?.lighthouse?.bestPractices,
-            },
-            security: {
-              isHttps: data.essentialMetrics?.security?.isHttps,
-              protocol: data.essentialMetrics?.security?.protocol,
-              securityHeaders: data.essentialMetrics?.security?.securityHeaders,
-              tlsVersion: data.essentialMetrics?.security?.tlsVersion,
-            },
-            formFunctionality: {
-              totalForms: data.essentialMetrics?.formFunctionality?.totalForms,
-              formsWithSubmitButton: data.essentialMetrics?.formFunctionality?.formsWithSubmitButton,
-              interactiveElementsCount: data.essentialMetrics?.formFunctionality?.interactiveElementsCount,
-              inputFieldsCount: data.essentialMetrics?.formFunctionality?.inputFieldsCount,
-              javascriptEnabled: data.essentialMetrics?.formFunctionality?.javascriptEnabled
-            },
-            brokenLinks: {
-              totalLinks: data.essentialMetrics?.brokenLinks?.totalLinks,
-              brokenLinks: data.essentialMetrics?.brokenLinks?.brokenLinks
-            },
-            responsiveness: {
-              isResponsive: data.essentialMetrics?.responsiveness?.isResponsive,
-              viewportWidth: data.essentialMetrics?.responsiveness?.viewportWidth,
-              pageWidth: data.essentialMetrics?.responsiveness?.pageWidth
-            },
-            bestPractices: {
-              semanticUsage: data.essentialMetrics?.bestPractices?.semanticUsage,
-              optimizedImages: data.essentialMetrics?.bestPractices?.optimizedImages,
-              totalImages: data.essentialMetrics?.bestPractices?.totalImages
-            }
-          },
-        };
-        return report;
-      });
+      return await this.fetchReports(this.reportsRef(userId));
     } catch (error) {
       console.error('Error fetching user reports:', error);
       throw new Error('Failed to fetch reports');
     }
   }
 
-  async regenerateAndDownloadReport(report: StoredReport): Promise<void> {
+  async getWorkspaceReports(workspaceId: string): Promise<StoredReport[]> {
     try {
-      // Create report data from stored values without regeneration
-      const reportData: ReportData = {
-        websiteUrl: report.websiteUrl,
-        timestamp: report.timestamp,
-        overallScore: report.overallScore,
-        phaseScores: report.phaseScores,
-        professionalAnalysis: report.professionalAnalysis,
-        metrics: {
-          performance: report.essentialMetrics.performance,
-          seo: report.essentialMetrics.seo,
-          accessibility: report.essentialMetrics.accessibility,
-          lighthouse: report.essentialMetrics.lighthouse,
-          security: report.essentialMetrics.security,
-          formFunctionality: report.essentialMetrics.formFunctionality,
-          brokenLinks: report.essentialMetrics.brokenLinks,
-          responsiveness: report.essentialMetrics.responsiveness,
-          bestPractices: report.essentialMetrics.bestPractices
-        }
+      const reports = await this.fetchReports(this.reportsRef('', workspaceId));
+      return reports.map(report => ({ ...report, workspaceId }));
+    } catch (error) {
+      console.error('Error fetching workspace reports:', error);
+      throw new Error('Failed to fetch workspace reports');
+    }
+  }
+
+  private async fetchReports(reportsRef: CollectionReference): Promise<StoredReport[]> {
+    const querySnapshot = await getDocs(reportsRef);
+
+    return querySnapshot.docs.map(doc => {
+      const data = doc.data();
+      // Ensure all required fields are present and properly typed
+      const report: StoredReport = {
+        id: doc.id,
+        websiteUrl: data.websiteUrl,
+        timestamp: data.timestamp?.toDate() || new Date(),
+        overallScore: data.overallScore,
+        phaseScores: data.phaseScores || {},
+        completedPhases: data.completedPhases || undefined,
+        professionalAnalysis: data.professionalAnalysis || undefined,
+        benchmark: data.benchmark ? {
+          ...data.benchmark,
+          timestamp: data.benchmark.timestamp?.toDate() || new Date(),
+          sites: (data.benchmark.sites || []).map((site: any) => ({ ...site, error: site.error || undefined }))
+        } : undefined,
+        scoringProfile: data.scoringProfile ? {
+          ...data.scoringProfile,
+          thresholds: scoringProfileService.resolveThresholds(data.scoringProfile.thresholds)
+        } : undefined,
+        essentialMetrics: {
+          performance: {
+            loadTime: data.essentialMetrics?.performance?.loadTime,
+            firstContentfulPaint: data.essentialMetrics?.performance?.firstContentfulPaint,
+            timeToInteractive: data.essentialMetrics?.performance?.timeToInteractive,
+            largestContentfulPaint: data.essentialMetrics?.performance?.largestContentfulPaint,
+            cumulativeLayoutShift: data.essentialMetrics?.performance?.cumulativeLayoutShift,
+            ttfb: data.essentialMetrics?.performance?.ttfb,
+            tbt: data.essentialMetrics?.performance?.tbt,
+            estimatedFid: data.essentialMetrics?.performance?.estimatedFid,
+            pageSize: data.essentialMetrics?.performance?.pageSize ?? undefined,
+            requests: data.essentialMetrics?.performance?.requests ?? undefined,
+            resourceBreakdown: data.essentialMetrics?.performance?.resourceBreakdown || undefined,
+          },
+          seo: {
+            score: data.essentialMetrics?.seo?.score,
+            title: data.essentialMetrics?.seo?.title,
+            metaDescription: data.essentialMetrics?.seo?.metaDescription,
+            structuredDataAudit: data.essentialMetrics?.seo?.structuredDataAudit || undefined,
+            indexability: data.essentialMetrics?.seo?.indexability || undefined,
+            socialPreview: data.essentialMetrics?.seo?.socialPreview || undefined,
+            robotsTxt: data.essentialMetrics?.seo?.robotsTxt ?? undefined,
+            sitemapXml: data.essentialMetrics?.seo?.sitemapXml ?? undefined,
+            canonicalUrl: data.essentialMetrics?.seo?.canonicalUrl || undefined,
+            mobileResponsive: data.essentialMetrics?.seo?.mobileResponsive ?? undefined,
+          },
+          accessibility: {
+            score: data.essentialMetrics?.accessibility?.score,
+            imagesWithAltText: data.essentialMetrics?.accessibility?.imagesWithAltText,
+            totalImages: data.essentialMetrics?.accessibility?.totalImages,
+            ariaAttributesCount: data.essentialMetrics?.accessibility?.ariaAttributesCount,
+            keyboardNavigable: data.essentialMetrics?.accessibility?.keyboardNavigable,
+            audit: data.essentialMetrics?.accessibility?.audit || undefined
+          },
+          lighthouse: {
+            performance: data.essentialMetrics?.lighthouse?.performance,
+            accessibility: data.essentialMetrics?.lighthouse?.accessibility,
+            seo: data.essentialMetrics?.lighthouse?.seo,
+            bestPractices: data.essentialMetrics?.lighthouse?.bestPractices,
+          },
+          security: {
+            isHttps: data.essentialMetrics?.security?.isHttps,
+            protocol: data.essentialMetrics?.security?.protocol,
+            securityHeaders: data.essentialMetrics?.security?.securityHeaders,
+            tlsVersion: data.essentialMetrics?.security?.tlsVersion,
+            analysis: data.essentialMetrics?.security?.analysis || undefined,
+            tls: data.essentialMetrics?.security?.tls || undefined,
+          },
+          formFunctionality: {
+            totalForms: data.essentialMetrics?.formFunctionality?.totalForms,
+            formsWithSubmitButton: data.essentialMetrics?.formFunctionality?.formsWithSubmitButton,
+            interactiveElementsCount: data.essentialMetrics?.formFunctionality?.interactiveElementsCount,
+            inputFieldsCount: data.essentialMetrics?.formFunctionality?.inputFieldsCount,
+            javascriptEnabled: data.essentialMetrics?.formFunctionality?.javascriptEnabled
+          },
+          brokenLinks: {
+            totalLinks: data.essentialMetrics?.brokenLinks?.totalLinks,
+            brokenLinks: data.essentialMetrics?.brokenLinks?.brokenLinks,
+            links: data.essentialMetrics?.brokenLinks?.links || undefined
+          },
+          responsiveness: {
+            isResponsive: data.essentialMetrics?.responsiveness?.isResponsive,
+            viewportWidth: data.essentialMetrics?.responsiveness?.viewportWidth,
+            pageWidth: data.essentialMetrics?.responsiveness?.pageWidth
+          },
+          bestPractices: {
+            semanticUsage: data.essentialMetrics?.bestPractices?.semanticUsage,
+            optimizedImages: data.essentialMetrics?.bestPractices?.optimizedImages,
+            totalImages: data.essentialMetrics?.bestPractices?.totalImages,
+            imageAudit: data.essentialMetrics?.bestPractices?.imageAudit || undefined
+          },
+          content: data.essentialMetrics?.content || undefined,
+          deviceProfiles: data.essentialMetrics?.deviceProfiles || undefined
+        },
+        createdBy: data.createdBy || undefined,
+        exportedIssues: data.exportedIssues
+          ? Object.fromEntries(Object.entries(data.exportedIssues).map(([id, issue]: [string, any]) => [
+              id,
+              { ...issue, url: issue.url || undefined, exportedAt: issue.exportedAt?.toDate() || new Date() }
+            ]))
+          : undefined,
+        remediation: data.remediation
+          ? Object.fromEntries(Object.entries(data.remediation).map(([id, entry]: [string, any]) => [
+              id,
+              {
+                status: entry.status,
+                assignee: entry.assignee || undefined,
+                notes: entry.notes || undefined,
+                updatedAt: entry.updatedAt?.toDate() || new Date(),
+                verification: entry.verification
+                  ? { ...entry.verification, checkedAt: entry.verification.checkedAt?.toDate() || new Date() }
+                  : undefined
+              }
+            ]))
+          : undefined,
       };
+      return report;
+    });
+  }
 
+  // Rebuilds the report data from stored values without regeneration
+  toReportData(report: StoredReport): ReportData {
+    return {
+      websiteUrl: report.websiteUrl,
+      timestamp: report.timestamp,
+      overallScore: report.overallScore,
+      phaseScores: report.phaseScores,
+      completedPhases: report.completedPhases,
+      professionalAnalysis: report.professionalAnalysis,
+      benchmark: report.benchmark,
+      scoringProfile: report.scoringProfile,
+      metrics: {
+        performance: report.essentialMetrics.performance,
+        seo: report.essentialMetrics.seo,
+        accessibility: report.essentialMetrics.accessibility,
+        lighthouse: report.essentialMetrics.lighthouse,
+        security: report.essentialMetrics.security,
+        formFunctionality: report.essentialMetrics.formFunctionality,
+        brokenLinks: report.essentialMetrics.brokenLinks,
+        responsiveness: report.essentialMetrics.responsiveness,
+        bestPractices: report.essentialMetrics.bestPractices,
+        content: report.essentialMetrics.content,
+        deviceProfiles: report.essentialMetrics.deviceProfiles
+      }
+    };
+  }
+
+  async regenerateAndDownloadReport(report: StoredReport): Promise<void> {
+    try {
       // Generate PDF using existing analysis
-      const pdfBuffer = await reportGenerator.generatePDFFromStored(reportData);
+      const pdfBuffer = await reportGenerator.generatePDFFromStored(this.toReportData(report));
       const blob = new Blob([pdfBuffer], { type: 'application/pdf' });
       saveAs(blob, `${report.websiteUrl.replace(/[^a-z0-9]/gi, '_')}_report.pdf`);
     } catch (error) {
@@ -305,9 +470,9 @@ class ReportStorageService {
     }
   }
 
-  async deleteReport(userId: string, reportId: string): Promise<void> {
+  async deleteReport(userId: string, reportId: string, workspaceId?: string): Promise<void> {
     try {
-      const reportRef = doc(db, 'users', userId, 'reports', reportId);
+      const reportRef = doc(this.reportsRef(userId, workspaceId), reportId);
       await deleteDoc(reportRef);
     } catch (error) {
       console.error('Error deleting report:', error);
@@ -315,10 +480,61 @@ class ReportStorageService {
     }
   }
 
-  async deleteMultipleReports(userId: string, reportIds: string[]): Promise<void> {
+  async markIssuesExported(
+    userId: string,
+    reportId: string,
+    issues: { [recommendationId: string]: ExportedIssue },
+    workspaceId?: string
+  ): Promise<void> {
+    if (Object.keys(issues).length === 0) return;
+
+    try {
+      // Merges per item so concurrent exports of other recommendations aren't overwritten
+      await updateDoc(doc(this.reportsRef(userId, workspaceId), reportId), Object.fromEntries(
+        Object.entries(issues).map(([id, issue]) => [
+          `exportedIssues.${id}`,
+          { key: issue.key, url: issue.url || null, tracker: issue.tracker, exportedAt: Timestamp.fromDate(issue.exportedAt) }
+        ])
+      ));
+    } catch (error) {
+      console.error('Error marking issues as exported:', error);
+      throw new Error('Failed to record exported issues');
+    }
+  }
+
+  async updateRemediation(
+    userId: string,
+    reportId: string,
+    entries: { [recommendationId: string]: RemediationEntry },
+    workspaceId?: string
+  ): Promise<void> {
+    if (Object.keys(entries).length === 0) return;
+
+    try {
+      await updateDoc(doc(this.reportsRef(userId, workspaceId), reportId), Object.fromEntries(
+        Object.entries(entries).map(([id, entry]) => [
+          `remediation.${id}`,
+          {
+            status: entry.status,
+            assignee: entry.assignee?.trim() || null,
+            notes: entry.notes?.trim() || null,
+            updatedAt: Timestamp.fromDate(entry.updatedAt),
+            verification: entry.verification
+              ? { ...entry.verification, checkedAt: Timestamp.fromDate(entry.verification.checkedAt) }
+              : null
+          }
+        ])
+      ));
+    } catch (error) {
+      console.error('Error updating remediation status:', error);
+      throw new Error('Failed to update remediation status');
+    }
+  }
+
+  async deleteMultipleReports(userId: string, reportIds: string[], workspaceId?: string): Promise<void> {
     try {
       const deletePromises = reportIds.map(reportId => 
-        this.deleteReport(userId, reportId)
+        this.deleteReport(userId, reportId, workspaceId)
       );
       await Promise.all(deletePromises);
     } catch (error) {
@@ -327,16 +543,69 @@ class ReportStorageService {
     }
   }
 
-  async downloadMultipleReports(reports: StoredReport[]): Promise<void> {
-    try {
-      const downloadPromises = reports.map(report => 
-        this.regenerateAndDownloadReport(report)
-      );
-      await Promise.all(downloadPromises);
-    } catch (error) {
-      console.error('Error downloading multiple reports:', error);
+  // Regenerates each PDF in turn and bundles them into one ZIP, so a single failure doesn't lose the rest
+  async downloadMultipleReports(reports: StoredReport[], options: BulkDownloadOptions = {}): Promise<BulkDownloadResult> {
+    const entries: ZipEntry[] = [];
+    const manifest: BulkDownloadManifestEntry[] = [];
+    const failed: BulkDownloadResult['failed'] = [];
+    const usedNames = new Set<string>();
+
+    for (const report of reports) {
+      options.onProgress?.(report.id, 'generating');
+      const baseName = this.getArchiveFileName(report, usedNames);
+      const entry: BulkDownloadManifestEntry = {
+        websiteUrl: report.websiteUrl,
+        timestamp: report.timestamp.toISOString(),
+        overallScore: report.overallScore,
+        phaseScores: report.phaseScores,
+        pdfFile: null,
+        jsonFile: null,
+        error: null
+      };
+
+      try {
+        const reportData = this.toReportData(report);
+        const pdfBuffer = await reportGenerator.generatePDFFromStored(reportData);
+        entries.push({ name: `${baseName}.pdf`, data: pdfBuffer, date: report.timestamp });
+        entry.pdfFile = `${baseName}.pdf`;
+
+        if (options.includeJson) {
+          entries.push({ name: `${baseName}.json`, data: reportExporter.toJson(reportData), date: report.timestamp });
+          entry.jsonFile = `${baseName}.json`;
+        }
+        options.onProgress?.(report.id, 'done');
+      } catch (error) {
+        console.error(`Error regenerating report for ${report.websiteUrl}:`, error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        entry.error = message;
+        failed.push({ report, error: message });
+        options.onProgress?.(report.id, 'failed', message);
+      }
+      manifest.push(entry);
+    }
+
+    if (failed.length === reports.length) {
       throw new Error('Failed to download multiple reports');
     }
+
+    entries.push({
+      name: 'manifest.json',
+      data: JSON.stringify({ generatedAt: new Date().toISOString(), reports: manifest }, null, 2)
+    });
+    saveAs(createZip(entries), `olive_reports_${new Date().toISOString().slice(0, 10)}.zip`);
+
+    return { succeeded: reports.length - failed.length, failed };
+  }
+
+  // Same-site reports are distinguished by date, then by a counter if they share a day too
+  private getArchiveFileName(report: StoredReport, usedNames: Set<string>): string {
+    const base = `${report.websiteUrl.replace(/[^a-z0-9]/gi, '_')}_${report.timestamp.toISOString().slice(0, 10)}`;
+    let name = base;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    usedNames.add(name);
+    return name;
   }
 }
 
@@ -1,4 +1,4 @@
-import { metricValidator } from './metricValidator';
+import { getMetricValidator, MetricValidator } from './metricValidator';
 
 interface ValidationResult {
   isValid: boolean;
@@ -14,6 +14,7 @@ interface ReportValidation {
     seo: ValidationResult;
     accessibility: ValidationResult;
     bestPractices: ValidationResult;
+    security: ValidationResult;
   };
 }
 
@@ -24,7 +25,9 @@ interface HeadingStructure {
 }
 
 class ReportValidator {
+  // Ratings and confidence penalties follow the scoring profile the report was generated with
   validateReport(reportData: any): ReportValidation {
+    const validator = getMetricValidator(reportData.scoringProfile);
     const validation: ReportValidation = {
       overall: {
         isValid: true,
@@ -33,10 +36,11 @@ class ReportValidator {
         warnings: []
       },
       sections: {
-        performance: this.validatePerformanceSection(reportData),
-        seo: this.validateSEOSection(reportData),
-        accessibility: this.validateAccessibilitySection(reportData),
-        bestPractices: this.validateBestPracticesSection(reportData)
+        performance: this.validatePerformanceSection(reportData, validator),
+        seo: this.validateSEOSection(reportData, validator),
+        accessibility: this.validateAccessibilitySection(reportData, validator),
+        bestPractices: this.validateBestPracticesSection(reportData, validator),
+        security: this.validateSecuritySection(reportData, validator)
       }
     };
 
@@ -70,7 +74,8 @@ class ReportValidator {
     return validation;
   }
 
-  private validatePerformanceSection(reportData: any): ValidationResult {
+  private validatePerformanceSection(reportData: any, validator: MetricValidator): ValidationResult {
+    const { CONFIDENCE } = validator.getThresholds();
     const result: ValidationResult = {
       isValid: true,
       confidence: 1.0,
@@ -86,18 +91,19 @@ class ReportValidator {
     }
 
     // Validate performance metrics
-    const validations = metricValidator.validatePerformanceMetrics(metrics);
+    const validations = validator.validatePerformanceMetrics(metrics, reportData.websiteUrl);
     validations.forEach(validation => {
       if (validation.rating === 'poor') {
         result.issues.push(`Performance metric ${validation.value} is outside acceptable range`);
-        result.confidence *= 0.8; // Reduce confidence for poor ratings
+        result.confidence *= CONFIDENCE.poorRating; // Reduce confidence for poor ratings
       }
     });
 
     return result;
   }
 
-  private validateSEOSection(reportData: any): ValidationResult {
+  private validateSEOSection(reportData: any, validator: MetricValidator): ValidationResult {
+    const { CONFIDENCE } = validator.getThresholds();
     const result: ValidationResult = {
       isValid: true,
       confidence: 1.0,
@@ -113,11 +119,11 @@ class ReportValidator {
     }
 
     // Validate SEO metrics
-    const validations = metricValidator.validateSEOMetrics(metrics);
+    const validations = validator.validateSEOMetrics(metrics);
     validations.forEach(validation => {
       if (validation.rating === 'poor') {
         result.issues.push(`SEO metric ${validation.value} is outside acceptable range`);
-        result.confidence *= 0.8;
+        result.confidence *= CONFIDENCE.poorRating;
       }
     });
 
@@ -129,13 +135,14 @@ class ReportValidator {
 
     if (!metrics.metaDescription) {
       result.warnings.push('Missing meta description');
-      result.confidence *= 0.9;
+      result.confidence *= CONFIDENCE.missingData;
     }
 
     return result;
   }
 
-  private validateAccessibilitySection(reportData: any): ValidationResult {
+  private validateAccessibilitySection(reportData: any, validator: MetricValidator): ValidationResult {
+    const { CONFIDENCE } = validator.getThresholds();
     const result: ValidationResult = {
       isValid: true,
       confidence: 1.0,
@@ -151,11 +158,11 @@ class ReportValidator {
     }
 
     // Validate accessibility metrics
-    const validations = metricValidator.validateAccessibilityMetrics(metrics);
+    const validations = validator.validateAccessibilityMetrics(metrics);
     validations.forEach(validation => {
       if (validation.rating === 'poor') {
         result.issues.push('Accessibility standards not met');
-        result.confidence *= 0.8;
+        result.confidence *= CONFIDENCE.poorRating;
       }
     });
 
@@ -165,14 +172,15 @@ class ReportValidator {
       const hasH1 = headings.some((h: HeadingStructure) => h.level === 1);
       if (!hasH1) {
         result.warnings.push('Missing H1 heading');
-        result.confidence *= 0.9;
+        result.confidence *= CONFIDENCE.missingData;
       }
     }
 
     return result;
   }
 
-  private validateBestPracticesSection(reportData: any): ValidationResult {
+  private validateBestPracticesSection(reportData: any, validator: MetricValidator): ValidationResult {
+    const { CONFIDENCE } = validator.getThresholds();
     const result: ValidationResult = {
       isValid: true,
       confidence: 1.0,
@@ -184,16 +192,45 @@ class ReportValidator {
     if (!metrics) {
       result.isValid = false;
       result.issues.push('Missing best practices metrics');
-      result.confidence *= 0.9; // Reduce confidence if metrics are missing
+      result.confidence *= CONFIDENCE.missingData; // Reduce confidence if metrics are missing
       return result;
     }
 
     // Validate best practices metrics
-    const validations = metricValidator.validateBestPracticesMetrics(metrics);
+    const validations = validator.validateBestPracticesMetrics(metrics);
     validations.forEach(validation => {
       if (validation.rating === 'poor') {
         result.issues.push(`Best practice metric ${validation.value} is outside acceptable range`);
-        result.confidence *= 0.8;
+        result.confidence *= CONFIDENCE.poorRating;
+      }
+    });
+
+    return result;
+  }
+
+  // HTTPS, header score, certificate expiry, TLS protocol and mixed content
+  private validateSecuritySection(reportData: any, validator: MetricValidator): ValidationResult {
+    const { CONFIDENCE } = validator.getThresholds();
+    const result: ValidationResult = {
+      isValid: true,
+      confidence: 1.0,
+      issues: [],
+      warnings: []
+    };
+
+    if (!reportData.metrics?.security) {
+      result.warnings.push('Missing security metrics');
+      result.confidence *= CONFIDENCE.missingData;
+      return result;
+    }
+
+    const validations = validator.validateSecurityMetrics(reportData.metrics);
+    validations.forEach(validation => {
+      if (validation.rating === 'poor') {
+        result.issues.push(`Security metric ${validation.value} is outside acceptable range`);
+        result.confidence *= CONFIDENCE.poorRating;
+      } else if (validation.rating === 'needs-improvement') {
+        result.warnings.push(`Security metric ${validation.value} needs improvement`);
       }
     });
 
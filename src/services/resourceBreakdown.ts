@@ -0,0 +1,271 @@
+export type ResourceType = 'document' | 'script' | 'stylesheet' | 'image' | 'font' | 'media' | 'other';
+export type ResourceParty = 'first' | 'third';
+export type VendorCategory = 'analytics' | 'advertising' | 'chat' | 'social' | 'tag-manager' | 'cdn' | 'video';
+
+export interface ResourceEntry {
+  url: string;
+  type: ResourceType;
+  // Bytes over the network (compressed, headers included) vs. bytes after decompression
+  transferSize: number;
+  decodedSize: number;
+  // Main-thread blocking time attributed to the resource, in ms; only scripts have any
+  blockingTime: number;
+  party: ResourceParty;
+  vendor: string | null;
+  vendorCategory: VendorCategory | null;
+}
+
+export interface ResourceGroup {
+  key: string;
+  label: string;
+  count: number;
+  transferSize: number;
+  decodedSize: number;
+  blockingTime: number;
+  // Fraction of the page's total transfer size
+  share: number;
+}
+
+export interface ResourceBreakdown {
+  totals: Omit<ResourceGroup, 'key' | 'label' | 'share'>;
+  documentSize: number;
+  byType: ResourceGroup[];
+  byParty: ResourceGroup[];
+  // Largest vendors by transfer size, capped at MAX_STORED_VENDORS
+  byVendor: ResourceGroup[];
+  // Largest resources by transfer size, capped at MAX_STORED_RESOURCES
+  topResources: ResourceEntry[];
+}
+
+export type ResourceGrouping = 'byType' | 'byParty' | 'byVendor';
+
+export const RESOURCE_GROUPINGS: { [grouping in ResourceGrouping]: string } = {
+  byType: 'By type',
+  byParty: 'First vs third party',
+  byVendor: 'By vendor'
+};
+
+export const RESOURCE_TYPE_LABELS: { [type in ResourceType]: string } = {
+  document: 'HTML',
+  script: 'JS',
+  stylesheet: 'CSS',
+  image: 'Image',
+  font: 'Font',
+  media: 'Media',
+  other: 'Other'
+};
+
+export const VENDOR_CATEGORY_LABELS: { [category in VendorCategory]: string } = {
+  analytics: 'Analytics',
+  advertising: 'Advertising',
+  chat: 'Chat widget',
+  social: 'Social',
+  'tag-manager': 'Tag manager',
+  cdn: 'CDN',
+  video: 'Video'
+};
+
+export const MAX_STORED_RESOURCES = 25;
+export const MAX_STORED_VENDORS = 25;
+
+// Matched against the request hostname and its parent domains
+const KNOWN_VENDORS: { name: string; category: VendorCategory; domains: string[] }[] = [
+  { name: 'Google Analytics', category: 'analytics', domains: ['google-analytics.com', 'analytics.google.com'] },
+  { name: 'Google Tag Manager', category: 'tag-manager', domains: ['googletagmanager.com'] },
+  { name: 'Google Ads', category: 'advertising', domains: ['doubleclick.net', 'googlesyndication.com', 'googleadservices.com', 'adservice.google.com'] },
+  { name: 'Google Fonts', category: 'cdn', domains: ['fonts.googleapis.com', 'fonts.gstatic.com'] },
+  { name: 'Meta', category: 'social', domains: ['connect.facebook.net', 'facebook.com', 'facebook.net'] },
+  { name: 'LinkedIn', category: 'social', domains: ['licdn.com', 'linkedin.com'] },
+  { name: 'X (Twitter)', category: 'social', domains: ['platform.twitter.com', 'ads-twitter.com', 'twimg.com'] },
+  { name: 'TikTok', category: 'advertising', domains: ['analytics.tiktok.com'] },
+  { name: 'Microsoft Ads', category: 'advertising', domains: ['bat.bing.com'] },
+  { name: 'Amazon Ads', category: 'advertising', domains: ['amazon-adsystem.com'] },
+  { name: 'Criteo', category: 'advertising', domains: ['criteo.com', 'criteo.net'] },
+  { name: 'Taboola', category: 'advertising', domains: ['taboola.com'] },
+  { name: 'Hotjar', category: 'analytics', domains: ['hotjar.com', 'hotjar.io'] },
+  { name: 'Microsoft Clarity', category: 'analytics', domains: ['clarity.ms'] },
+  { name: 'Segment', category: 'analytics', domains: ['segment.com', 'segment.io'] },
+  { name: 'Mixpanel', category: 'analytics', domains: ['mixpanel.com', 'mxpnl.com'] },
+  { name: 'HubSpot', category: 'analytics', domains: ['hs-scripts.com', 'hs-analytics.net', 'hsforms.net', 'hubspot.com'] },
+  { name: 'Intercom', category: 'chat', domains: ['intercom.io', 'intercomcdn.com', 'widget.intercom.io'] },
+  { name: 'Drift', category: 'chat', domains: ['drift.com', 'driftt.com'] },
+  { name: 'Zendesk', category: 'chat', domains: ['zdassets.com', 'zendesk.com', 'zopim.com'] },
+  { name: 'Crisp', category: 'chat', domains: ['crisp.chat'] },
+  { name: 'Tawk.to', category: 'chat', domains: ['tawk.to'] },
+  { name: 'YouTube', category: 'video', domains: ['youtube.com', 'ytimg.com', 'youtube-nocookie.com'] },
+  { name: 'Vimeo', category: 'video', domains: ['vimeo.com', 'vimeocdn.com'] },
+  { name: 'cdnjs', category: 'cdn', domains: ['cdnjs.cloudflare.com'] },
+  { name: 'jsDelivr', category: 'cdn', domains: ['cdn.jsdelivr.net'] },
+  { name: 'unpkg', category: 'cdn', domains: ['unpkg.com'] }
+];
+
+const EXTENSION_TYPES: { pattern: RegExp; type: ResourceType }[] = [
+  { pattern: /\.(m?js)$/i, type: 'script' },
+  { pattern: /\.css$/i, type: 'stylesheet' },
+  { pattern: /\.(png|jpe?g|gif|webp|avif|svg|ico|bmp)$/i, type: 'image' },
+  { pattern: /\.(woff2?|ttf|otf|eot)$/i, type: 'font' },
+  { pattern: /\.(mp4|webm|ogg|mp3|wav|m4a|mov)$/i, type: 'media' },
+  { pattern: /\.html?$/i, type: 'document' }
+];
+
+const getHostname = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+// Approximates the registrable domain: the last two labels, or three under country SLDs like co.uk
+const getSiteDomain = (hostname: string): string => {
+  const labels = hostname.replace(/^www\./, '').split('.');
+  const countrySld = labels.length > 2 && labels[labels.length - 1].length === 2 && labels[labels.length - 2].length <= 3;
+  return labels.slice(countrySld ? -3 : -2).join('.');
+};
+
+const matchesDomain = (hostname: string, domain: string) => hostname === domain || hostname.endsWith(`.${domain}`);
+
+export const getVendor = (url: string) => {
+  const hostname = getHostname(url);
+  if (!hostname) return null;
+  return KNOWN_VENDORS.find(vendor => vendor.domains.some(domain => matchesDomain(hostname, domain))) || null;
+};
+
+const normalizeType = (type: string | undefined, url: string): ResourceType => {
+  switch ((type || '').toLowerCase()) {
+    case 'document':
+      return 'document';
+    case 'script':
+    case 'javascript':
+      return 'script';
+    case 'stylesheet':
+    case 'css':
+      return 'stylesheet';
+    case 'image':
+    case 'img':
+      return 'image';
+    case 'font':
+      return 'font';
+    case 'media':
+    case 'video':
+    case 'audio':
+      return 'media';
+  }
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // Keep the raw URL for relative or malformed values
+  }
+  return EXTENSION_TYPES.find(({ pattern }) => pattern.test(path))?.type || 'other';
+};
+
+const buildGroups = (
+  resources: ResourceEntry[],
+  totalTransfer: number,
+  getGroup: (resource: ResourceEntry) => { key: string; label: string }
+): ResourceGroup[] => {
+  const groups = new Map<string, ResourceGroup>();
+  resources.forEach(resource => {
+    const { key, label } = getGroup(resource);
+    const group = groups.get(key) || { key, label, count: 0, transferSize: 0, decodedSize: 0, blockingTime: 0, share: 0 };
+    group.count += 1;
+    group.transferSize += resource.transferSize;
+    group.decodedSize += resource.decodedSize;
+    group.blockingTime += resource.blockingTime;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      blockingTime: Math.round(group.blockingTime),
+      share: totalTransfer > 0 ? Number((group.transferSize / totalTransfer).toFixed(3)) : 0
+    }))
+    .sort((a, b) => b.transferSize - a.transferSize);
+};
+
+const breakdownCache = new WeakMap<object, ResourceBreakdown | undefined>();
+
+// Groups the per-request list the evaluation server records (resource timing plus attributed
+// long tasks). pageUrl is the evaluated URL, whose site domain counts as first party.
+// Undefined when the server only reported the scalar page size and request count.
+export const getResourceBreakdown = (evaluationResults: any, pageUrl: string): ResourceBreakdown | undefined => {
+  if (!evaluationResults) return undefined;
+  if (breakdownCache.has(evaluationResults)) return breakdownCache.get(evaluationResults);
+
+  const rawResources: any[] | undefined = evaluationResults.resources;
+  let breakdown: ResourceBreakdown | undefined;
+  if (Array.isArray(rawResources)) {
+    const pageHost = getHostname(pageUrl);
+    const siteDomain = pageHost ? getSiteDomain(pageHost) : null;
+
+    const resources: ResourceEntry[] = rawResources.map(resource => {
+      const url: string = resource.url || '';
+      const hostname = getHostname(url);
+      const vendor = getVendor(url);
+      const transferSize = Number(resource.transferSize) || 0;
+      return {
+        url,
+        type: normalizeType(resource.type, url),
+        transferSize,
+        // Cached or opaque responses report no decoded size; fall back to what was transferred
+        decodedSize: Number(resource.decodedSize) || transferSize,
+        blockingTime: Number(resource.blockingTime) || 0,
+        // Relative URLs and unknown origins count as first party
+        party: hostname && siteDomain && getSiteDomain(hostname) !== siteDomain ? 'third' : 'first',
+        vendor: vendor?.name || null,
+        vendorCategory: vendor?.category || null
+      };
+    });
+
+    const totalTransfer = resources.reduce((total, resource) => total + resource.transferSize, 0);
+    const documentResource = resources.find(resource => resource.type === 'document');
+
+    breakdown = {
+      totals: {
+        count: resources.length,
+        transferSize: totalTransfer,
+        decodedSize: resources.reduce((total, resource) => total + resource.decodedSize, 0),
+        blockingTime: Math.round(resources.reduce((total, resource) => total + resource.blockingTime, 0))
+      },
+      documentSize: documentResource?.transferSize || 0,
+      byType: buildGroups(resources, totalTransfer, resource => ({ key: resource.type, label: RESOURCE_TYPE_LABELS[resource.type] })),
+      byParty: buildGroups(resources, totalTransfer, resource => ({
+        key: resource.party,
+        label: resource.party === 'first' ? 'First party' : 'Third party'
+      })),
+      // Third-party requests from unknown vendors are grouped by their site domain
+      byVendor: buildGroups(resources.filter(resource => resource.party === 'third'), totalTransfer, resource => {
+        if (resource.vendor) {
+          return { key: resource.vendor, label: `${resource.vendor} (${VENDOR_CATEGORY_LABELS[resource.vendorCategory!]})` };
+        }
+        const domain = getSiteDomain(getHostname(resource.url) || 'unknown');
+        return { key: domain, label: domain };
+      }).slice(0, MAX_STORED_VENDORS),
+      topResources: [...resources].sort((a, b) => b.transferSize - a.transferSize).slice(0, MAX_STORED_RESOURCES)
+    };
+  }
+
+  breakdownCache.set(evaluationResults, breakdown);
+  return breakdown;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+const describeGroup = (group: ResourceGroup) =>
+  `${group.label}: ${group.count} requests, ${formatBytes(group.transferSize)} transferred (${Math.round(group.share * 100)}%), ${formatBytes(group.decodedSize)} decoded${group.blockingTime > 0 ? `, ${group.blockingTime} ms blocking` : ''}`;
+
+// Compact form for the chat prompts
+export const summarizeResourceBreakdown = (breakdown: ResourceBreakdown) => ({
+  totalTransfer: formatBytes(breakdown.totals.transferSize),
+  totalDecoded: formatBytes(breakdown.totals.decodedSize),
+  totalBlockingTime: breakdown.totals.blockingTime,
+  byType: breakdown.byType.map(describeGroup),
+  byParty: breakdown.byParty.map(describeGroup),
+  byVendor: breakdown.byVendor.slice(0, 10).map(describeGroup)
+});
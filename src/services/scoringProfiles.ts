@@ -0,0 +1,265 @@
+import { collection, addDoc, getDocs, doc, updateDoc, deleteDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+
+export interface RatingBand {
+  good: number;
+  poor: number;
+}
+
+export interface LengthRange {
+  min: number;
+  max: number;
+}
+
+export interface SecurityHeaderWeight {
+  alternatives: string[];
+  weight: number;
+}
+
+export type HeaderImportance = 'critical' | 'important' | 'optional';
+
+export interface ScoringThresholds {
+  PERFORMANCE: {
+    FCP: RatingBand;
+    LCP: RatingBand;
+    CLS: RatingBand;
+    FID: RatingBand;
+    TTI: RatingBand;
+    TTFB: RatingBand;
+    TBT: RatingBand;
+    PAGE_SIZE: {
+      total: RatingBand;
+      document: RatingBand;
+    };
+  };
+  SEO: {
+    titleLength: LengthRange;
+    descriptionLength: LengthRange;
+    h1Count: LengthRange;
+  };
+  ACCESSIBILITY: {
+    altTextRatio: RatingBand;
+    ariaAttributesMinimum: number;
+    keyboardNav: RatingBand;
+  };
+  BEST_PRACTICES: {
+    imageOptimization: RatingBand;
+    securityHeaders: RatingBand;
+    jsErrors: { max: number };
+    deprecatedAPIs: { max: number };
+  };
+  SECURITY: {
+    // Headers grouped by importance; an alternative header counts as the header being present
+    headers: { [importance in HeaderImportance]: { [header: string]: SecurityHeaderWeight } };
+    // Bands for the weighted share of present headers (higher is better)
+    headerScore: RatingBand;
+    // Days until the TLS certificate expires (higher is better)
+    certificateExpiryDays: RatingBand;
+  };
+  // Bands for 0-100 scores (phase scores, Lighthouse categories), higher is better
+  SCORE: RatingBand;
+  // Multipliers applied to the report confidence by reportValidator
+  CONFIDENCE: {
+    poorRating: number;
+    missingData: number;
+  };
+}
+
+export const DEFAULT_SCORING_THRESHOLDS: ScoringThresholds = {
+  PERFORMANCE: {
+    FCP: { good: 1800, poor: 3000 },
+    LCP: { good: 2500, poor: 4000 },
+    CLS: { good: 0.1, poor: 0.25 },
+    FID: { good: 100, poor: 300 },
+    TTI: { good: 3800, poor: 7300 },
+    TTFB: { good: 600, poor: 1800 },
+    TBT: { good: 200, poor: 600 },
+    PAGE_SIZE: {
+      total: { good: 2000000, poor: 5000000 }, // 2MB and 5MB thresholds
+      document: { good: 100000, poor: 250000 }  // 100KB and 250KB thresholds
+    }
+  },
+  SEO: {
+    titleLength: { min: 30, max: 60 },
+    descriptionLength: { min: 120, max: 160 },
+    h1Count: { min: 1, max: 1 }
+  },
+  ACCESSIBILITY: {
+    altTextRatio: { good: 1, poor: 0.8 },
+    ariaAttributesMinimum: 5,
+    keyboardNav: { good: 0.9, poor: 0.6 }
+  },
+  BEST_PRACTICES: {
+    imageOptimization: { good: 0.85, poor: 0.6 },
+    securityHeaders: { good: 0.8, poor: 0.5 },
+    jsErrors: { max: 0 },
+    deprecatedAPIs: { max: 0 }
+  },
+  SECURITY: {
+    headers: {
+      critical: {
+        'strict-transport-security': {
+          alternatives: ['content-security-policy-report-only'],
+          weight: 2.0
+        },
+        'content-security-policy': {
+          alternatives: ['content-security-policy-report-only'],
+          weight: 2.0
+        }
+      },
+      important: {
+        'x-frame-options': {
+          alternatives: ['content-security-policy'],  // CSP can replace X-Frame-Options
+          weight: 1.5
+        },
+        'x-content-type-options': {
+          alternatives: [],  // No real alternatives
+          weight: 1.5
+        }
+      },
+      optional: {
+        'referrer-policy': {
+          alternatives: [],
+          weight: 1.0
+        },
+        'permissions-policy': {
+          alternatives: ['feature-policy'],  // Legacy header
+          weight: 1.0
+        }
+      }
+    },
+    headerScore: { good: 0.6, poor: 0.4 },
+    certificateExpiryDays: { good: 30, poor: 7 }
+  },
+  SCORE: { good: 90, poor: 70 },
+  CONFIDENCE: {
+    poorRating: 0.8,
+    missingData: 0.9
+  }
+};
+
+export const DEFAULT_SCORING_PROFILE_ID = 'default';
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  thresholds: ScoringThresholds;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Snapshot of the profile an evaluation was scored with, stored alongside the report
+export type ScoringProfileSnapshot = Pick<ScoringProfile, 'id' | 'name' | 'thresholds'>;
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: DEFAULT_SCORING_PROFILE_ID,
+  name: 'Default',
+  thresholds: DEFAULT_SCORING_THRESHOLDS
+};
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Overlays stored values on the defaults so profiles saved before a threshold existed keep working
+const mergeThresholds = (defaults: any, overrides: any): any => {
+  if (!isPlainObject(overrides)) return defaults;
+  const merged: any = { ...defaults };
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (isPlainObject(value) && isPlainObject(defaults?.[key])) {
+      merged[key] = mergeThresholds(defaults[key], value);
+    } else if (value !== undefined && value !== null) {
+      merged[key] = value;
+    }
+  });
+  return merged;
+};
+
+class ScoringProfileService {
+  private profilesRef(userId: string) {
+    return collection(db, 'users', userId, 'scoringProfiles');
+  }
+
+  resolveThresholds(thresholds?: Partial<ScoringThresholds> | null): ScoringThresholds {
+    return mergeThresholds(DEFAULT_SCORING_THRESHOLDS, thresholds);
+  }
+
+  toSnapshot(profile: ScoringProfile): ScoringProfileSnapshot {
+    return { id: profile.id, name: profile.name, thresholds: profile.thresholds };
+  }
+
+  // The built-in default profile is always listed first and cannot be edited or deleted
+  async getProfiles(userId: string): Promise<ScoringProfile[]> {
+    try {
+      const querySnapshot = await getDocs(this.profilesRef(userId));
+      const profiles = querySnapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          name: data.name,
+          thresholds: this.resolveThresholds(data.thresholds),
+          createdAt: data.createdAt?.toDate() || new Date(),
+          updatedAt: data.updatedAt?.toDate() || new Date()
+        };
+      });
+      profiles.sort((a, b) => a.name.localeCompare(b.name));
+      return [DEFAULT_SCORING_PROFILE, ...profiles];
+    } catch (error) {
+      console.error('Error fetching scoring profiles:', error);
+      throw new Error('Failed to fetch scoring profiles');
+    }
+  }
+
+  async createProfile(
+    userId: string,
+    name: string,
+    thresholds: ScoringThresholds = DEFAULT_SCORING_THRESHOLDS
+  ): Promise<string> {
+    try {
+      const now = Timestamp.fromDate(new Date());
+      const profileRef = await addDoc(this.profilesRef(userId), {
+        name: name.trim(),
+        thresholds,
+        createdAt: now,
+        updatedAt: now
+      });
+      return profileRef.id;
+    } catch (error) {
+      console.error('Error creating scoring profile:', error);
+      throw new Error('Failed to create scoring profile');
+    }
+  }
+
+  async updateProfile(
+    userId: string,
+    profileId: string,
+    updates: Partial<Pick<ScoringProfile, 'name' | 'thresholds'>>
+  ): Promise<void> {
+    if (profileId === DEFAULT_SCORING_PROFILE_ID) {
+      throw new Error('The default scoring profile cannot be modified');
+    }
+    try {
+      await updateDoc(doc(this.profilesRef(userId), profileId), {
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.thresholds && { thresholds: updates.thresholds }),
+        updatedAt: Timestamp.fromDate(new Date())
+      });
+    } catch (error) {
+      console.error('Error updating scoring profile:', error);
+      throw new Error('Failed to update scoring profile');
+    }
+  }
+
+  async deleteProfile(userId: string, profileId: string): Promise<void> {
+    if (profileId === DEFAULT_SCORING_PROFILE_ID) {
+      throw new Error('The default scoring profile cannot be deleted');
+    }
+    try {
+      await deleteDoc(doc(this.profilesRef(userId), profileId));
+    } catch (error) {
+      console.error('Error deleting scoring profile:', error);
+      throw new Error('Failed to delete scoring profile');
+    }
+  }
+}
+
+export const scoringProfileService = new ScoringProfileService();
@@ -0,0 +1,413 @@
+import { ScoringThresholds, HeaderImportance } from './scoringProfiles';
+
+export type FindingSeverity = 'pass' | 'info' | 'warning' | 'critical';
+
+export interface SecurityFinding {
+  severity: FindingSeverity;
+  message: string;
+}
+
+export interface HeaderAnalysis {
+  // Lower-case header name, matching the scoring profile keys
+  header: string;
+  present: boolean;
+  value?: string;
+  // 0-1 quality of the configured value; 0 when missing
+  score: number;
+  findings: SecurityFinding[];
+}
+
+export interface CookieAnalysis {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: string | null;
+  findings: SecurityFinding[];
+}
+
+export interface SecurityAnalysis {
+  headers: HeaderAnalysis[];
+  cookies: CookieAnalysis[];
+  // False when the server only reported header presence, so values could not be checked
+  valuesCaptured: boolean;
+}
+
+export interface HeaderScore {
+  header: string;
+  importance: HeaderImportance;
+  weight: number;
+  score: number;
+  // Alternative header that satisfied this one, e.g. CSP frame-ancestors for X-Frame-Options
+  coveredBy?: string;
+}
+
+export interface SecurityScore {
+  // Weighted 0-1 score across the profile's headers and the cookie flags
+  score: number;
+  totalScore: number;
+  maxScore: number;
+  headers: HeaderScore[];
+}
+
+export const ANALYZED_HEADERS = [
+  'content-security-policy',
+  'strict-transport-security',
+  'x-frame-options',
+  'x-content-type-options',
+  'referrer-policy',
+  'permissions-policy',
+  'x-xss-protection'
+];
+
+// Display names for the headers above; everything else is shown as received
+const HEADER_NAMES: { [header: string]: string } = {
+  'content-security-policy': 'Content-Security-Policy',
+  'content-security-policy-report-only': 'Content-Security-Policy-Report-Only',
+  'strict-transport-security': 'Strict-Transport-Security',
+  'x-frame-options': 'X-Frame-Options',
+  'x-content-type-options': 'X-Content-Type-Options',
+  'referrer-policy': 'Referrer-Policy',
+  'permissions-policy': 'Permissions-Policy',
+  'feature-policy': 'Feature-Policy',
+  'x-xss-protection': 'X-XSS-Protection'
+};
+
+export const getHeaderName = (header: string) => HEADER_NAMES[header.toLowerCase()] || header;
+
+const ONE_YEAR = 31536000;
+const SIX_MONTHS = 15552000;
+
+const REFERRER_POLICIES = [
+  'no-referrer',
+  'no-referrer-when-downgrade',
+  'origin',
+  'origin-when-cross-origin',
+  'same-origin',
+  'strict-origin',
+  'strict-origin-when-cross-origin',
+  'unsafe-url'
+];
+
+const POWERFUL_FEATURES = ['camera', 'microphone', 'geolocation', 'payment', 'usb', 'serial', 'bluetooth', 'display-capture'];
+
+const pass = (message: string): SecurityFinding => ({ severity: 'pass', message });
+const info = (message: string): SecurityFinding => ({ severity: 'info', message });
+const warning = (message: string): SecurityFinding => ({ severity: 'warning', message });
+const critical = (message: string): SecurityFinding => ({ severity: 'critical', message });
+
+const clampScore = (score: number) => Math.max(0, Math.min(1, Number(score.toFixed(2))));
+
+export const parseCsp = (value: string): { [directive: string]: string[] } => {
+  const directives: { [directive: string]: string[] } = {};
+  value.split(';').forEach(part => {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    // The first occurrence of a directive wins, as in browsers
+    if (name && !directives[name.toLowerCase()]) {
+      directives[name.toLowerCase()] = sources;
+    }
+  });
+  return directives;
+};
+
+const analyzeCsp = (value: string): Pick<HeaderAnalysis, 'score' | 'findings'> => {
+  const directives = parseCsp(value);
+  const findings: SecurityFinding[] = [];
+  let score = 1;
+
+  const scriptDirective = directives['script-src'] ? 'script-src' : directives['default-src'] ? 'default-src' : null;
+  if (!scriptDirective) {
+    findings.push(warning('No script-src or default-src directive, so scripts are unrestricted'));
+    score -= 0.4;
+  } else {
+    const sources = directives[scriptDirective].map(source => source.toLowerCase());
+    const usesNonceOrHash = sources.some(source => /^'(nonce|sha256|sha384|sha512)-/.test(source));
+    if (sources.includes("'unsafe-inline'") && !usesNonceOrHash && !sources.includes("'strict-dynamic'")) {
+      findings.push(critical(`${scriptDirective} allows 'unsafe-inline', which defeats XSS protection`));
+      score -= 0.3;
+    }
+    if (sources.includes("'unsafe-eval'")) {
+      findings.push(warning(`${scriptDirective} allows 'unsafe-eval'`));
+      score -= 0.2;
+    }
+    const wildcards = sources.filter(source => source === '*' || source === 'http:' || source === 'https:' || source === 'data:');
+    if (wildcards.length > 0) {
+      findings.push(critical(`${scriptDirective} allows scripts from any source (${wildcards.join(', ')})`));
+      score -= 0.3;
+    }
+  }
+
+  const objectSources = directives['object-src'] || directives['default-src'];
+  if (!objectSources || !objectSources.includes("'none'")) {
+    findings.push(info("object-src is not 'none'; plugins can still be embedded"));
+  }
+  if (!directives['frame-ancestors']) {
+    findings.push(info('No frame-ancestors directive; clickjacking protection relies on X-Frame-Options'));
+  }
+  if (!directives['base-uri']) {
+    findings.push(info('No base-uri directive'));
+  }
+
+  if (findings.every(finding => finding.severity === 'info')) {
+    findings.unshift(pass('Script sources are restricted without unsafe keywords or wildcards'));
+  }
+  return { score: clampScore(score), findings };
+};
+
+const formatMaxAge = (seconds: number) =>
+  seconds < 86400 ? `${seconds} seconds` : `${Math.round(seconds / 86400)} days`;
+
+const analyzeHsts = (value: string): Pick<HeaderAnalysis, 'score' | 'findings'> => {
+  const directives = value.toLowerCase().split(';').map(part => part.trim());
+  const maxAgeMatch = value.match(/max-age\s*=\s*"?(\d+)"?/i);
+  const maxAge = maxAgeMatch ? Number(maxAgeMatch[1]) : null;
+  const includeSubDomains = directives.includes('includesubdomains');
+  const preload = directives.includes('preload');
+  const findings: SecurityFinding[] = [];
+  let score = 1;
+
+  if (maxAge === null) {
+    return { score: 0, findings: [critical('max-age is missing, so the header has no effect')] };
+  }
+  if (maxAge === 0) {
+    return { score: 0, findings: [critical('max-age=0 disables HSTS')] };
+  }
+  if (maxAge < SIX_MONTHS) {
+    findings.push(warning(`max-age is ${formatMaxAge(maxAge)}; at least 180 days is recommended`));
+    score -= 0.4;
+  } else if (maxAge < ONE_YEAR) {
+    findings.push(info(`max-age is ${formatMaxAge(maxAge)}; one year is needed for preloading`));
+    score -= 0.1;
+  } else {
+    findings.push(pass(`max-age is ${formatMaxAge(maxAge)}`));
+  }
+
+  if (!includeSubDomains) {
+    findings.push(warning('includeSubDomains is missing, so subdomains can be downgraded to HTTP'));
+    score -= 0.2;
+  }
+  if (preload) {
+    findings.push(maxAge >= ONE_YEAR && includeSubDomains
+      ? pass('Eligible for the HSTS preload list')
+      : warning('preload is set but the preload list requires max-age of one year and includeSubDomains'));
+  } else {
+    findings.push(info('Not marked for the HSTS preload list'));
+  }
+  return { score: clampScore(score), findings };
+};
+
+const analyzeFrameOptions = (value: string): Pick<HeaderAnalysis, 'score' | 'findings'> => {
+  const normalized = value.trim().toUpperCase();
+  if (normalized === 'DENY' || normalized === 'SAMEORIGIN') {
+    return { score: 1, findings: [pass(`Framing restricted (${normalized})`)] };
+  }
+  if (normalized.startsWith('ALLOW-FROM')) {
+    return { score: 0.5, findings: [warning('ALLOW-FROM is ignored by modern browsers; use CSP frame-ancestors')] };
+  }
+  return { score: 0, findings: [critical(`Invalid value "${value}"; use DENY or SAMEORIGIN`)] };
+};
+
+const analyzeContentTypeOptions = (value: string): Pick<HeaderAnalysis, 'score' | 'findings'> =>
+  value.trim().toLowerCase() === 'nosniff'
+    ? { score: 1, findings: [pass('MIME sniffing disabled')] }
+    : { score: 0, findings: [critical(`Invalid value "${value}"; the only valid value is nosniff`)] };
+
+const analyzeReferrerPolicy = (value: string): Pick<HeaderAnalysis, 'score' | 'findings'> => {
+  const tokens = value.split(',').map(token => token.trim().toLowerCase()).filter(Boolean);
+  const invalid = tokens.filter(token => !REFERRER_POLICIES.includes(token));
+  // Browsers apply the last policy they understand
+  const policy = tokens.filter(token => REFERRER_POLICIES.includes(token)).pop();
+  const findings: SecurityFinding[] = invalid.map(token => warning(`Unknown policy "${token}" is ignored`));
+
+  if (!policy) {
+    return { score: 0, findings: [...findings, critical('No valid policy; the browser default applies')] };
+  }
+  if (policy === 'unsafe-url') {
+    return { score: 0.2, findings: [...findings, critical('unsafe-url sends the full URL, including over HTTP')] };
+  }
+  if (policy === 'no-referrer-when-downgrade') {
+    return { score: 0.6, findings: [...findings, warning('no-referrer-when-downgrade leaks full URLs to other origins')] };
+  }
+  return { score: invalid.length > 0 ? 0.8 : 1, findings: [...findings, pass(`Policy is ${policy}`)] };
+};
+
+const analyzePermissionsPolicy = (value: string): Pick<HeaderAnalysis, 'score' | 'findings'> => {
+  const findings: SecurityFinding[] = [];
+  let score = 1;
+  const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+  entries.forEach(entry => {
+    const match = entry.match(/^([a-z0-9-]+)\s*=\s*(\*|\(([^)]*)\))$/i);
+    if (!match) {
+      findings.push(warning(`"${entry}" is not valid Permissions-Policy syntax (feature=(allowlist))`));
+      score -= 0.2;
+      return;
+    }
+    const [, feature, allowlist] = match;
+    const allowsAll = allowlist === '*' || /(^|\s)\*(\s|$)/.test(match[3] || '');
+    if (allowsAll && POWERFUL_FEATURES.includes(feature.toLowerCase())) {
+      findings.push(warning(`${feature} is allowed for every origin`));
+      score -= 0.15;
+    }
+  });
+
+  const restricted = POWERFUL_FEATURES.filter(feature => entries.some(entry => entry.toLowerCase().startsWith(`${feature}=`)));
+  if (restricted.length === 0) {
+    findings.push(info('No powerful features (camera, microphone, geolocation, ...) are restricted'));
+  } else if (findings.every(finding => finding.severity === 'info')) {
+    findings.push(pass(`Restricts ${restricted.join(', ')}`));
+  }
+  return { score: clampScore(score), findings };
+};
+
+const analyzeXssProtection = (value: string): Pick<HeaderAnalysis, 'score' | 'findings'> =>
+  value.trim().startsWith('0')
+    ? { score: 1, findings: [pass('Legacy XSS auditor disabled, as recommended')] }
+    : { score: 1, findings: [info('X-XSS-Protection is deprecated; set it to 0 and rely on CSP')] };
+
+const HEADER_ANALYZERS: { [header: string]: (value: string) => Pick<HeaderAnalysis, 'score' | 'findings'> } = {
+  'content-security-policy': analyzeCsp,
+  'strict-transport-security': analyzeHsts,
+  'x-frame-options': analyzeFrameOptions,
+  'x-content-type-options': analyzeContentTypeOptions,
+  'referrer-policy': analyzeReferrerPolicy,
+  'permissions-policy': analyzePermissionsPolicy,
+  'content-security-policy-report-only': () => ({ score: 0.5, findings: [warning('Report-only policies are not enforced')] }),
+  'feature-policy': () => ({ score: 0.8, findings: [info('Feature-Policy is the legacy name; send Permissions-Policy instead')] }),
+  'x-xss-protection': analyzeXssProtection
+};
+
+const parseCookie = (setCookie: string, isHttps: boolean): CookieAnalysis => {
+  const [pair, ...attributes] = setCookie.split(';').map(part => part.trim());
+  const flags = attributes.map(attribute => attribute.toLowerCase());
+  const sameSiteAttribute = attributes.find(attribute => /^samesite\s*=/i.test(attribute));
+  const sameSite = sameSiteAttribute ? sameSiteAttribute.split('=')[1].trim() : null;
+  const secure = flags.includes('secure');
+  const httpOnly = flags.includes('httponly');
+  const findings: SecurityFinding[] = [];
+
+  if (!secure && isHttps) findings.push(critical('Missing Secure flag; the cookie can be sent over HTTP'));
+  if (!httpOnly) findings.push(warning('Missing HttpOnly flag; scripts can read the cookie'));
+  if (!sameSite) {
+    findings.push(warning('No SameSite attribute; browsers default to Lax'));
+  } else if (sameSite.toLowerCase() === 'none' && !secure) {
+    findings.push(critical('SameSite=None requires the Secure flag'));
+  }
+  if (findings.length === 0) findings.push(pass('Secure, HttpOnly and SameSite are set'));
+
+  return { name: pair.split('=')[0], secure, httpOnly, sameSite, findings };
+};
+
+// Raw header values keyed by lower-case name, from the server's header capture when available
+const getRawHeaders = (security: any): { [header: string]: string } | null => {
+  const raw = security?.headers || security?._debug?.rawHeaders;
+  if (!raw) return null;
+  return Object.fromEntries(Object.entries(raw).map(([name, value]) => [name.toLowerCase(), String(value)]));
+};
+
+// Header presence regardless of the casing the server used for securityHeaders
+export const hasSecurityHeader = (security: any, header: string): boolean => {
+  const wanted = header.toLowerCase();
+  const rawHeaders = getRawHeaders(security);
+  if (rawHeaders) return wanted in rawHeaders;
+  return Object.entries(security?.securityHeaders || {}).some(([name, present]) => name.toLowerCase() === wanted && Boolean(present));
+};
+
+export const analyzeSecurity = (security: any): SecurityAnalysis => {
+  const rawHeaders = getRawHeaders(security);
+  const presenceNames = Object.keys(security?.securityHeaders || {}).map(name => name.toLowerCase());
+  const headerNames = Array.from(new Set([
+    ...ANALYZED_HEADERS,
+    ...presenceNames,
+    ...(rawHeaders ? Object.keys(rawHeaders).filter(name => name in HEADER_ANALYZERS) : [])
+  ]));
+
+  const headers = headerNames.map((header): HeaderAnalysis => {
+    const present = hasSecurityHeader(security, header);
+    if (!present) {
+      return { header, present, score: 0, findings: [critical('Header is missing')] };
+    }
+    if (!rawHeaders) {
+      return { header, present, score: 1, findings: [info('Value not captured; only presence was checked')] };
+    }
+    const value = rawHeaders[header];
+    const analyzer = HEADER_ANALYZERS[header];
+    return { header, present, value, ...(analyzer ? analyzer(value) : { score: 1, findings: [pass('Present')] }) };
+  });
+
+  // X-XSS-Protection is deprecated, so leaving it out is not a finding
+  const xssProtection = headers.find(item => item.header === 'x-xss-protection');
+  if (xssProtection && !xssProtection.present) {
+    xssProtection.findings = [info('Not set; the header is deprecated and not needed')];
+  }
+
+  const isHttps = Boolean(security?.isHttps);
+  const setCookies: string[] = Array.isArray(security?.cookies) ? security.cookies : [];
+  return {
+    headers,
+    cookies: setCookies.filter(cookie => typeof cookie === 'string' && cookie.includes('=')).map(cookie => parseCookie(cookie, isHttps)),
+    valuesCaptured: Boolean(rawHeaders)
+  };
+};
+
+// Weights each header of the scoring profile by importance; an alternative header counts in its place
+export const scoreSecurity = (analysis: SecurityAnalysis, thresholds: ScoringThresholds): SecurityScore => {
+  const findHeader = (header: string) => analysis.headers.find(item => item.header === header.toLowerCase());
+  const headers: HeaderScore[] = [];
+
+  (Object.entries(thresholds.SECURITY.headers) as [HeaderImportance, ScoringThresholds['SECURITY']['headers'][HeaderImportance]][])
+    .forEach(([importance, group]) => {
+      Object.entries(group).forEach(([header, config]) => {
+        const own = findHeader(header);
+        let score = own?.present ? own.score : 0;
+        let coveredBy: string | undefined;
+        config.alternatives.forEach(alternative => {
+          const alt = findHeader(alternative);
+          if (!alt?.present) return;
+          let altScore = alt.score;
+          if (header.toLowerCase() === 'x-frame-options' && alt.value) {
+            // CSP replaces X-Frame-Options through frame-ancestors alone, whatever the rest of the policy says
+            altScore = 'frame-ancestors' in parseCsp(alt.value) ? 1 : 0;
+          }
+          if (altScore > score) {
+            score = altScore;
+            coveredBy = alternative;
+          }
+        });
+        headers.push({ header, importance, weight: config.weight, score, ...(coveredBy && { coveredBy }) });
+      });
+    });
+
+  let totalScore = headers.reduce((total, item) => total + item.weight * item.score, 0);
+  let maxScore = headers.reduce((total, item) => total + item.weight, 0);
+
+  // Cookies count as one optional-weight item: the share of cookies with no warnings
+  if (analysis.cookies.length > 0) {
+    const cleanCookies = analysis.cookies.filter(cookie => cookie.findings.every(finding => finding.severity === 'pass'));
+    totalScore += cleanCookies.length / analysis.cookies.length;
+    maxScore += 1;
+  }
+
+  return {
+    score: maxScore > 0 ? Number((totalScore / maxScore).toFixed(3)) : 0,
+    totalScore,
+    maxScore,
+    headers
+  };
+};
+
+const SEVERITY_ORDER: FindingSeverity[] = ['critical', 'warning', 'info', 'pass'];
+
+export const getWorstFinding = (findings: SecurityFinding[]): SecurityFinding | undefined =>
+  [...findings].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))[0];
+
+// Compact form for the chat prompts: one line per header or cookie with its worst finding
+export const summarizeSecurity = (analysis: SecurityAnalysis): string[] => [
+  ...analysis.headers.map(item => {
+    const finding = getWorstFinding(item.findings);
+    return `${getHeaderName(item.header)}: ${finding ? `${finding.severity} - ${finding.message}` : 'ok'}`;
+  }),
+  ...analysis.cookies.map(cookie => {
+    const finding = getWorstFinding(cookie.findings);
+    return `Cookie ${cookie.name}: ${finding ? `${finding.severity} - ${finding.message}` : 'ok'}`;
+  })
+];
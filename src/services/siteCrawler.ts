@@ -0,0 +1,326 @@
+import { EvaluationResult, streamEvaluation } from './evaluator';
+import { fetchRemoteText } from './remoteFetch';
+import { toPercentScore, getLighthouseScore } from '../utils/scores';
+import { hasSecurityHeader } from './securityAnalysis';
+
+export const CRAWL_LIMITS = {
+  MAX_PAGES: 50,
+  MAX_DEPTH: 5,
+  MAX_CHILD_SITEMAPS: 5
+};
+
+export interface CrawlOptions {
+  maxPages: number;
+  maxDepth: number;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  source: 'start' | 'sitemap' | 'link';
+  result: EvaluationResult;
+}
+
+export interface CrawlFailure {
+  url: string;
+  error: string;
+}
+
+export interface MetricDistribution {
+  min: number;
+  median: number;
+  p75: number;
+  max: number;
+  mean: number;
+}
+
+export interface PageScore {
+  url: string;
+  score: number;
+  issueCount: number;
+}
+
+export interface SharedIssue {
+  id: string;
+  description: string;
+  pages: string[];
+  templates: string[];
+}
+
+export interface SiteSummary {
+  pagesEvaluated: number;
+  pagesFailed: number;
+  averageScore: number;
+  worstPages: PageScore[];
+  distributions: { [metric: string]: MetricDistribution };
+  sharedIssues: SharedIssue[];
+}
+
+export interface SiteCrawlResult {
+  startUrl: string;
+  pages: CrawledPage[];
+  failures: CrawlFailure[];
+  summary: SiteSummary;
+}
+
+interface QueuedPage {
+  url: string;
+  depth: number;
+  source: CrawledPage['source'];
+}
+
+interface PageIssueCheck {
+  id: string;
+  description: string;
+  test: (result: EvaluationResult) => boolean;
+}
+
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|zip|gz|mp4|mp3|webm|docx?|xlsx?|pptx?|css|js|json|xml|txt)$/i;
+
+const PAGE_ISSUE_CHECKS: PageIssueCheck[] = [
+  { id: 'missing-title', description: 'Missing page title', test: r => !r.seo?.title },
+  { id: 'missing-meta-description', description: 'Missing meta description', test: r => !r.seo?.metaDescription },
+  { id: 'missing-h1', description: 'Missing H1 heading', test: r => !r.seo?.h1 },
+  {
+    id: 'missing-alt-text',
+    description: 'Images without alt text',
+    test: r => (r.accessibility?.totalImages || 0) > (r.accessibility?.imagesWithAltText || 0)
+  },
+  { id: 'broken-links', description: 'Broken links', test: r => (r.brokenLinks?.brokenLinks || 0) > 0 },
+  { id: 'not-responsive', description: 'Layout is not responsive', test: r => r.responsiveness?.isResponsive === false },
+  { id: 'missing-csp', description: 'No Content-Security-Policy header', test: r => !hasSecurityHeader(r.security, 'Content-Security-Policy') },
+  { id: 'missing-hsts', description: 'No Strict-Transport-Security header', test: r => !hasSecurityHeader(r.security, 'Strict-Transport-Security') },
+  { id: 'slow-lcp', description: 'Largest Contentful Paint above 2.5s', test: r => r.largestContentfulPaint > 2500 },
+  { id: 'high-cls', description: 'Cumulative Layout Shift above 0.1', test: r => r.cumulativeLayoutShift > 0.1 },
+  { id: 'slow-ttfb', description: 'Time to First Byte above 600ms', test: r => r.ttfb > 600 }
+];
+
+const DISTRIBUTION_METRICS: { [metric: string]: (result: EvaluationResult) => number | undefined } = {
+  largestContentfulPaint: r => r.largestContentfulPaint,
+  firstContentfulPaint: r => r.firstContentfulPaint,
+  cumulativeLayoutShift: r => r.cumulativeLayoutShift,
+  ttfb: r => r.ttfb,
+  tbt: r => r.tbt,
+  pageSize: r => r.pageSize,
+  lighthousePerformance: r => toPercentScore(r.lighthouse?.performance),
+  lighthouseAccessibility: r => toPercentScore(r.lighthouse?.accessibility),
+  lighthouseBestPractices: r => toPercentScore(r.lighthouse?.bestPractices),
+  lighthouseSeo: r => toPercentScore(r.lighthouse?.seo)
+};
+
+const percentile = (sorted: number[], p: number): number => {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+};
+
+class SiteCrawler {
+  normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return parsed.toString();
+  }
+
+  // Groups pages that most likely share a template, e.g. /blog/post-1 and /blog/post-2 -> /blog/*
+  getTemplateKey(url: string): string {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    if (segments.length <= 1) {
+      return `/${segments.join('/')}`;
+    }
+    return `/${segments.slice(0, -1).join('/')}/*`;
+  }
+
+  extractInternalLinks(htmlContent: string, pageUrl: string): string[] {
+    if (!htmlContent) return [];
+
+    const origin = new URL(pageUrl).origin;
+    const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+    const links = new Set<string>();
+
+    doc.querySelectorAll('a[href]').forEach(anchor => {
+      const href = anchor.getAttribute('href');
+      if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) return;
+      try {
+        const resolved = new URL(href, pageUrl);
+        if (resolved.origin !== origin || NON_HTML_EXTENSIONS.test(resolved.pathname)) return;
+        links.add(this.normalizeUrl(resolved.toString()));
+      } catch {
+        // Ignore malformed hrefs
+      }
+    });
+
+    return Array.from(links);
+  }
+
+  async discoverSitemapUrls(origin: string): Promise<string[]> {
+    const parseLocs = (xml: string, tagName: string): string[] => {
+      const doc = new DOMParser().parseFromString(xml, 'application/xml');
+      return Array.from(doc.getElementsByTagName(tagName))
+        .map(node => node.getElementsByTagName('loc')[0]?.textContent?.trim() || '')
+        .filter(Boolean);
+    };
+
+    try {
+      const sitemap = await fetchRemoteText(`${origin}/sitemap.xml`);
+      if (sitemap.status >= 400 || !sitemap.body) return [];
+
+      const childSitemaps = parseLocs(sitemap.body, 'sitemap').slice(0, CRAWL_LIMITS.MAX_CHILD_SITEMAPS);
+      if (childSitemaps.length === 0) {
+        return parseLocs(sitemap.body, 'url');
+      }
+
+      const childResults = await Promise.all(
+        childSitemaps.map(childUrl =>
+          fetchRemoteText(childUrl)
+            .then(child => (child.status < 400 ? parseLocs(child.body, 'url') : []))
+            .catch(() => [])
+        )
+      );
+      return childResults.flat();
+    } catch (error) {
+      console.warn('Unable to read sitemap.xml, falling back to link discovery:', error);
+      return [];
+    }
+  }
+
+  async crawl(
+    startUrl: string,
+    userId: string,
+    options: CrawlOptions,
+    onStatus: (status: string) => void
+  ): Promise<SiteCrawlResult> {
+    const maxPages = Math.min(Math.max(1, options.maxPages), CRAWL_LIMITS.MAX_PAGES);
+    const maxDepth = Math.min(Math.max(0, options.maxDepth), CRAWL_LIMITS.MAX_DEPTH);
+    const normalizedStart = this.normalizeUrl(startUrl);
+    const origin = new URL(normalizedStart).origin;
+
+    const queue: QueuedPage[] = [{ url: normalizedStart, depth: 0, source: 'start' }];
+    const seen = new Set<string>([normalizedStart]);
+    const pages: CrawledPage[] = [];
+    const failures: CrawlFailure[] = [];
+
+    const enqueue = (url: string, depth: number, source: QueuedPage['source']) => {
+      if (depth > maxDepth || seen.has(url)) return;
+      seen.add(url);
+      queue.push({ url, depth, source });
+    };
+
+    if (maxDepth > 0 && maxPages > 1) {
+      onStatus('Reading sitemap.xml...');
+      const sitemapUrls = await this.discoverSitemapUrls(origin);
+      sitemapUrls.forEach(url => {
+        try {
+          if (new URL(url).origin === origin) {
+            enqueue(this.normalizeUrl(url), 1, 'sitemap');
+          }
+        } catch {
+          // Ignore malformed sitemap entries
+        }
+      });
+    }
+
+    while (queue.length > 0 && pages.length + failures.length < maxPages) {
+      const next = queue.shift()!;
+      const pageNumber = pages.length + failures.length + 1;
+      const path = new URL(next.url).pathname;
+      const prefix = `Page ${pageNumber} of up to ${maxPages} (${path})`;
+      onStatus(`${prefix}: starting evaluation...`);
+
+      try {
+        const result = await streamEvaluation(next.url, userId, {
+          onStatus: status => onStatus(`${prefix}: ${status}`)
+        });
+        pages.push({ ...next, result });
+
+        if (next.depth < maxDepth) {
+          this.extractInternalLinks(result.htmlContent, next.url)
+            .forEach(link => enqueue(link, next.depth + 1, 'link'));
+        }
+      } catch (error) {
+        console.error(`Error evaluating ${next.url} during crawl:`, error);
+        failures.push({
+          url: next.url,
+          error: error instanceof Error ? error.message : 'An unknown error occurred'
+        });
+      }
+    }
+
+    onStatus('Summarizing site results...');
+    return {
+      startUrl: normalizedStart,
+      pages,
+      failures,
+      summary: this.summarize(pages, failures)
+    };
+  }
+
+  getPageScore(result: EvaluationResult): number {
+    return getLighthouseScore(result.lighthouse);
+  }
+
+  getPageIssues(result: EvaluationResult): PageIssueCheck[] {
+    return PAGE_ISSUE_CHECKS.filter(check => check.test(result));
+  }
+
+  summarize(pages: CrawledPage[], failures: CrawlFailure[] = []): SiteSummary {
+    const pageScores: PageScore[] = pages.map(page => ({
+      url: page.url,
+      score: this.getPageScore(page.result),
+      issueCount: this.getPageIssues(page.result).length
+    }));
+
+    const distributions: SiteSummary['distributions'] = {};
+    Object.entries(DISTRIBUTION_METRICS).forEach(([metric, getValue]) => {
+      const values = pages
+        .map(page => getValue(page.result))
+        .filter((value): value is number => typeof value === 'number' && !isNaN(value))
+        .sort((a, b) => a - b);
+      if (values.length === 0) return;
+
+      distributions[metric] = {
+        min: values[0],
+        median: percentile(values, 0.5),
+        p75: percentile(values, 0.75),
+        max: values[values.length - 1],
+        mean: values.reduce((a, b) => a + b, 0) / values.length
+      };
+    });
+
+    const issuePages = new Map<string, SharedIssue>();
+    pages.forEach(page => {
+      this.getPageIssues(page.result).forEach(issue => {
+        const entry = issuePages.get(issue.id) || {
+          id: issue.id,
+          description: issue.description,
+          pages: [],
+          templates: []
+        };
+        entry.pages.push(page.url);
+        const template = this.getTemplateKey(page.url);
+        if (!entry.templates.includes(template)) {
+          entry.templates.push(template);
+        }
+        issuePages.set(issue.id, entry);
+      });
+    });
+
+    const sharedIssues = Array.from(issuePages.values())
+      .filter(issue => issue.pages.length > 1)
+      .sort((a, b) => b.pages.length - a.pages.length);
+
+    return {
+      pagesEvaluated: pages.length,
+      pagesFailed: failures.length,
+      averageScore: pageScores.length > 0
+        ? Math.round(pageScores.reduce((sum, page) => sum + page.score, 0) / pageScores.length)
+        : 0,
+      worstPages: [...pageScores].sort((a, b) => a.score - b.score || b.issueCount - a.issueCount).slice(0, 5),
+      distributions,
+      sharedIssues
+    };
+  }
+}
+
+export const siteCrawler = new SiteCrawler();
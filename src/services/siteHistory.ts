@@ -0,0 +1,145 @@
+import { StoredReport } from './reportStorage';
+import { getMetricValidator, MetricRating, ThresholdBand } from './metricValidator';
+import { toPercentScore } from '../utils/scores';
+
+export interface HistoryPoint {
+  reportId: string;
+  timestamp: Date;
+  value: number;
+  rating: MetricRating | null;
+  // True when the value fell into a worse threshold band than the previous evaluation
+  regression: boolean;
+}
+
+export interface HistorySeries {
+  key: string;
+  label: string;
+  unit: string;
+  band: ThresholdBand | null;
+  points: HistoryPoint[];
+}
+
+export interface SiteHistory {
+  siteKey: string;
+  displayUrl: string;
+  reports: StoredReport[];
+}
+
+interface SeriesConfig {
+  key: string;
+  label: string;
+  unit: string;
+  ratingKey?: string;
+  getValue: (report: StoredReport) => number | undefined;
+}
+
+const RATING_ORDER: { [rating in MetricRating]: number } = {
+  good: 0,
+  'needs-improvement': 1,
+  poor: 2
+};
+
+const BASE_SERIES: SeriesConfig[] = [
+  { key: 'overallScore', label: 'Overall Score', unit: '%', ratingKey: 'score', getValue: r => r.overallScore },
+  { key: 'largestContentfulPaint', label: 'Largest Contentful Paint', unit: 'ms', ratingKey: 'largestContentfulPaint', getValue: r => r.essentialMetrics?.performance?.largestContentfulPaint },
+  { key: 'cumulativeLayoutShift', label: 'Cumulative Layout Shift', unit: '', ratingKey: 'cumulativeLayoutShift', getValue: r => r.essentialMetrics?.performance?.cumulativeLayoutShift },
+  { key: 'ttfb', label: 'Time to First Byte', unit: 'ms', ratingKey: 'ttfb', getValue: r => r.essentialMetrics?.performance?.ttfb },
+  { key: 'lighthousePerformance', label: 'Lighthouse Performance', unit: '%', ratingKey: 'score', getValue: r => toPercentScore(r.essentialMetrics?.lighthouse?.performance) },
+  { key: 'lighthouseAccessibility', label: 'Lighthouse Accessibility', unit: '%', ratingKey: 'score', getValue: r => toPercentScore(r.essentialMetrics?.lighthouse?.accessibility) },
+  { key: 'lighthouseBestPractices', label: 'Lighthouse Best Practices', unit: '%', ratingKey: 'score', getValue: r => toPercentScore(r.essentialMetrics?.lighthouse?.bestPractices) },
+  { key: 'lighthouseSeo', label: 'Lighthouse SEO', unit: '%', ratingKey: 'score', getValue: r => toPercentScore(r.essentialMetrics?.lighthouse?.seo) }
+];
+
+class SiteHistoryService {
+  // Treats http/https, "www." and trailing slashes as the same site so repeated evaluations line up
+  normalizeSiteUrl(url: string): string {
+    try {
+      const parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+      const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+      const path = parsed.pathname.replace(/\/+$/, '');
+      return `${host}${path}`;
+    } catch {
+      return url.trim().toLowerCase();
+    }
+  }
+
+  groupReportsBySite(reports: StoredReport[]): SiteHistory[] {
+    const groups = new Map<string, StoredReport[]>();
+    reports.forEach(report => {
+      const siteKey = this.normalizeSiteUrl(report.websiteUrl);
+      groups.set(siteKey, [...(groups.get(siteKey) || []), report]);
+    });
+
+    return Array.from(groups.entries())
+      .map(([siteKey, siteReports]) => {
+        const sorted = [...siteReports].sort(
+          (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        );
+        return {
+          siteKey,
+          displayUrl: sorted[sorted.length - 1].websiteUrl,
+          reports: sorted
+        };
+      })
+      .sort((a, b) => a.siteKey.localeCompare(b.siteKey));
+  }
+
+  getSiteHistory(reports: StoredReport[], websiteUrl: string): SiteHistory | null {
+    const siteKey = this.normalizeSiteUrl(websiteUrl);
+    return this.groupReportsBySite(reports).find(history => history.siteKey === siteKey) || null;
+  }
+
+  buildSeries(history: SiteHistory): HistorySeries[] {
+    const phases = Array.from(new Set(history.reports.flatMap(report => Object.keys(report.phaseScores || {}))));
+    const configs: SeriesConfig[] = [
+      ...BASE_SERIES,
+      ...phases.map(phase => ({
+        key: `phase:${phase}`,
+        label: `${phase} Phase`,
+        unit: '%',
+        ratingKey: 'score',
+        getValue: (report: StoredReport) => report.phaseScores?.[phase]
+      }))
+    ];
+
+    return configs
+      .map(config => this.createSeries(history.reports, config))
+      .filter(series => series.points.length > 0);
+  }
+
+  private createSeries(reports: StoredReport[], config: SeriesConfig): HistorySeries {
+    const points: HistoryPoint[] = [];
+
+    reports.forEach(report => {
+      const value = config.getValue(report);
+      if (typeof value !== 'number' || isNaN(value)) return;
+
+      const rating = config.ratingKey ? getMetricValidator(report.scoringProfile).rateMetric(config.ratingKey, value) : null;
+      const previous = points[points.length - 1];
+      const regression = Boolean(
+        previous?.rating && rating && RATING_ORDER[rating] > RATING_ORDER[previous.rating]
+      );
+
+      points.push({
+        reportId: report.id,
+        timestamp: new Date(report.timestamp),
+        value,
+        rating,
+        regression
+      });
+    });
+
+    // Bands follow the most recent report's scoring profile
+    const latestProfile = reports[reports.length - 1]?.scoringProfile;
+
+    return {
+      key: config.key,
+      label: config.label,
+      unit: config.unit,
+      band: config.ratingKey ? getMetricValidator(latestProfile).getThresholdBand(config.ratingKey) : null,
+      points
+    };
+  }
+}
+
+export const siteHistory = new SiteHistoryService();
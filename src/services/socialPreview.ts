@@ -0,0 +1,341 @@
+import { fetchRemoteText } from './remoteFetch';
+
+export type SocialPlatform = 'facebook' | 'x' | 'linkedin' | 'slack' | 'discord' | 'whatsapp';
+
+// large: full-width image above the text; small: thumbnail beside it; text: no image at all
+export type PreviewLayout = 'large' | 'small' | 'text';
+
+export interface SocialImage {
+  url: string;
+  // Declared through og:image:width/height, when present
+  declaredWidth: number | null;
+  declaredHeight: number | null;
+  // Measured by loading the image; null when it couldn't be loaded
+  width: number | null;
+  height: number | null;
+  // null until the image has been probed
+  reachable: boolean | null;
+}
+
+export interface IconLink {
+  url: string;
+  rel: string;
+  sizes: string | null;
+}
+
+export interface SocialMetadata {
+  openGraph: { [property: string]: string };
+  twitter: { [name: string]: string };
+  // Resolved values, falling back from Open Graph to Twitter to the plain page tags
+  title: string;
+  description: string;
+  siteName: string;
+  url: string;
+  image: SocialImage | null;
+  twitterCard: string | null;
+  icons: IconLink[];
+  manifestUrl: string | null;
+  themeColor: string | null;
+}
+
+export interface SocialIssue {
+  severity: 'error' | 'warning';
+  tag: string;
+  message: string;
+}
+
+export interface SocialPreview {
+  platform: SocialPlatform;
+  layout: PreviewLayout;
+  title: string;
+  description: string;
+  domain: string;
+  siteName: string;
+  imageUrl: string | null;
+}
+
+export interface SocialPreviewAudit {
+  metadata: SocialMetadata;
+  issues: SocialIssue[];
+  previews: SocialPreview[];
+}
+
+export const SOCIAL_PLATFORM_LABELS: { [platform in SocialPlatform]: string } = {
+  facebook: 'Facebook',
+  x: 'X (Twitter)',
+  linkedin: 'LinkedIn',
+  slack: 'Slack',
+  discord: 'Discord',
+  whatsapp: 'WhatsApp'
+};
+
+// Recommended share image size (1.91:1) and the smallest images the platforms accept for a large card
+export const SOCIAL_IMAGE_SIZES = {
+  recommended: { width: 1200, height: 630 },
+  largeCard: { width: 600, height: 315 },
+  minimum: { width: 200, height: 200 }
+};
+
+interface PlatformRules {
+  // Characters shown before the platform truncates with an ellipsis; 0 hides the field
+  titleLength: number;
+  descriptionLength: number;
+  // X only shows a large image for summary_large_image cards
+  largeImageNeedsCard?: boolean;
+  largeImage: { width: number; height: number };
+}
+
+const PLATFORM_RULES: { [platform in SocialPlatform]: PlatformRules } = {
+  facebook: { titleLength: 88, descriptionLength: 0, largeImage: SOCIAL_IMAGE_SIZES.largeCard },
+  x: { titleLength: 70, descriptionLength: 0, largeImageNeedsCard: true, largeImage: { width: 300, height: 157 } },
+  linkedin: { titleLength: 120, descriptionLength: 0, largeImage: { width: 400, height: 209 } },
+  slack: { titleLength: 100, descriptionLength: 300, largeImage: SOCIAL_IMAGE_SIZES.largeCard },
+  discord: { titleLength: 256, descriptionLength: 350, largeImage: { width: 400, height: 209 } },
+  whatsapp: { titleLength: 65, descriptionLength: 80, largeImage: SOCIAL_IMAGE_SIZES.largeCard }
+};
+
+const REQUIRED_OPEN_GRAPH = ['og:title', 'og:type', 'og:image', 'og:url'];
+const RECOMMENDED_OPEN_GRAPH = ['og:description', 'og:site_name'];
+const IMAGE_PROBE_TIMEOUT = 10000;
+
+const toNumber = (value: string | undefined): number | null => {
+  const number = Number(value);
+  return value && !isNaN(number) && number > 0 ? number : null;
+};
+
+const resolveUrl = (url: string, base: string): string => {
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return url;
+  }
+};
+
+const getDomain = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 3).trimEnd()}...` : text;
+
+// Reads Open Graph, Twitter Card, icon and manifest tags from the captured page
+export const extractSocialMetadata = (htmlContent: string, pageUrl: string, seo: any = {}): SocialMetadata => {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const openGraph: { [property: string]: string } = {};
+  const twitter: { [name: string]: string } = {};
+
+  doc.querySelectorAll('meta[property], meta[name]').forEach(meta => {
+    const key = (meta.getAttribute('property') || meta.getAttribute('name') || '').trim().toLowerCase();
+    const content = meta.getAttribute('content')?.trim() || '';
+    // Only the first value of a repeated tag counts, as on the platforms themselves
+    if (key.startsWith('og:') && !(key in openGraph)) openGraph[key] = content;
+    if (key.startsWith('twitter:') && !(key in twitter)) twitter[key] = content;
+  });
+
+  const imageUrl = openGraph['og:image'] || openGraph['og:image:url'] || openGraph['og:image:secure_url'] || twitter['twitter:image'];
+  const icons = Array.from(doc.querySelectorAll('link[rel][href]'))
+    .filter(link => /(^|\s)(icon|apple-touch-icon|mask-icon)(\s|$)/i.test(link.getAttribute('rel') || ''))
+    .map(link => ({
+      url: resolveUrl(link.getAttribute('href') || '', pageUrl),
+      rel: (link.getAttribute('rel') || '').toLowerCase(),
+      sizes: link.getAttribute('sizes')
+    }));
+  const manifestHref = doc.querySelector('link[rel="manifest"][href]')?.getAttribute('href');
+
+  return {
+    openGraph,
+    twitter,
+    title: openGraph['og:title'] || twitter['twitter:title'] || seo.title || doc.title || '',
+    description: openGraph['og:description'] || twitter['twitter:description'] || seo.metaDescription || '',
+    siteName: openGraph['og:site_name'] || '',
+    url: openGraph['og:url'] ? resolveUrl(openGraph['og:url'], pageUrl) : seo.canonicalUrl || pageUrl,
+    image: imageUrl ? {
+      url: resolveUrl(imageUrl, pageUrl),
+      declaredWidth: toNumber(openGraph['og:image:width']),
+      declaredHeight: toNumber(openGraph['og:image:height']),
+      width: null,
+      height: null,
+      reachable: null
+    } : null,
+    twitterCard: twitter['twitter:card'] || null,
+    icons,
+    manifestUrl: manifestHref ? resolveUrl(manifestHref, pageUrl) : null,
+    themeColor: doc.querySelector('meta[name="theme-color"]')?.getAttribute('content') || null
+  };
+};
+
+const getImageSize = (image: SocialImage | null) => {
+  const width = image?.width ?? image?.declaredWidth ?? null;
+  const height = image?.height ?? image?.declaredHeight ?? null;
+  return width && height ? { width, height } : null;
+};
+
+export const validateSocialMetadata = (metadata: SocialMetadata): SocialIssue[] => {
+  const issues: SocialIssue[] = [];
+
+  REQUIRED_OPEN_GRAPH
+    .filter(tag => !metadata.openGraph[tag] && !(tag === 'og:image' && metadata.image))
+    .forEach(tag => issues.push({ severity: 'error', tag, message: `Missing ${tag}` }));
+  RECOMMENDED_OPEN_GRAPH
+    .filter(tag => !metadata.openGraph[tag])
+    .forEach(tag => issues.push({ severity: 'warning', tag, message: `Missing ${tag}` }));
+  if (!metadata.twitterCard) {
+    issues.push({ severity: 'warning', tag: 'twitter:card', message: 'Missing twitter:card, so X shows a small summary card' });
+  }
+
+  const image = metadata.image;
+  if (image) {
+    const rawImage = metadata.openGraph['og:image'] || metadata.twitter['twitter:image'] || '';
+    if (rawImage && !/^https?:\/\//i.test(rawImage)) {
+      issues.push({ severity: 'warning', tag: 'og:image', message: 'og:image should be an absolute URL; some platforms do not resolve relative paths' });
+    }
+    if (image.reachable === false) {
+      issues.push({ severity: 'error', tag: 'og:image', message: `Share image could not be loaded (${image.url})` });
+    }
+
+    const size = getImageSize(image);
+    const { recommended, largeCard, minimum } = SOCIAL_IMAGE_SIZES;
+    if (size) {
+      if (size.width < minimum.width || size.height < minimum.height) {
+        issues.push({ severity: 'error', tag: 'og:image', message: `Share image is ${size.width}x${size.height}; platforms ignore images below ${minimum.width}x${minimum.height}` });
+      } else if (size.width < largeCard.width || size.height < largeCard.height) {
+        issues.push({ severity: 'warning', tag: 'og:image', message: `Share image is ${size.width}x${size.height}, so it shows as a small thumbnail; use ${recommended.width}x${recommended.height}` });
+      }
+      const ratio = size.width / size.height;
+      if (ratio < 1.6 || ratio > 2.2) {
+        issues.push({ severity: 'warning', tag: 'og:image', message: `Share image ratio is ${ratio.toFixed(2)}:1 and will be cropped; 1.91:1 is recommended` });
+      }
+    }
+    if (image.width && image.declaredWidth && (image.width !== image.declaredWidth || image.height !== image.declaredHeight)) {
+      issues.push({
+        severity: 'warning',
+        tag: 'og:image:width',
+        message: `Declared size ${image.declaredWidth}x${image.declaredHeight} does not match the image (${image.width}x${image.height})`
+      });
+    }
+  }
+
+  if (!metadata.icons.some(icon => icon.rel.split(/\s+/).includes('icon'))) {
+    issues.push({ severity: 'warning', tag: 'favicon', message: 'No favicon link; browsers fall back to /favicon.ico' });
+  }
+  if (!metadata.icons.some(icon => icon.rel === 'apple-touch-icon')) {
+    issues.push({ severity: 'warning', tag: 'apple-touch-icon', message: 'No apple-touch-icon for home screen bookmarks and iMessage previews' });
+  }
+  if (!metadata.manifestUrl) {
+    issues.push({ severity: 'warning', tag: 'manifest', message: 'No web app manifest' });
+  }
+
+  return issues;
+};
+
+// How each platform lays out the shared link, including where it truncates text
+export const buildSocialPreviews = (metadata: SocialMetadata): SocialPreview[] => {
+  const size = metadata.image?.reachable === false ? null : getImageSize(metadata.image);
+  const hasImage = Boolean(metadata.image && metadata.image.reachable !== false);
+
+  return (Object.keys(PLATFORM_RULES) as SocialPlatform[]).map(platform => {
+    const rules = PLATFORM_RULES[platform];
+    const largeImage = hasImage &&
+      (!size || (size.width >= rules.largeImage.width && size.height >= rules.largeImage.height)) &&
+      (!rules.largeImageNeedsCard || metadata.twitterCard === 'summary_large_image');
+
+    return {
+      platform,
+      layout: !hasImage ? 'text' : largeImage ? 'large' : 'small',
+      title: truncate(metadata.title, rules.titleLength),
+      description: rules.descriptionLength > 0 ? truncate(metadata.description, rules.descriptionLength) : '',
+      domain: getDomain(metadata.url),
+      siteName: metadata.siteName,
+      imageUrl: hasImage ? metadata.image!.url : null
+    };
+  });
+};
+
+// Loads the image the way a browser would to measure it; falls back to the proxy for pages the
+// browser can't load from here (mixed content, hotlink protection), which confirms reachability only
+const probeImage = async (url: string): Promise<{ reachable: boolean; width: number | null; height: number | null }> => {
+  const loaded = await new Promise<{ width: number; height: number } | null>(resolve => {
+    const image = new Image();
+    const timeoutId = setTimeout(() => resolve(null), IMAGE_PROBE_TIMEOUT);
+    image.onload = () => {
+      clearTimeout(timeoutId);
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    };
+    image.onerror = () => {
+      clearTimeout(timeoutId);
+      resolve(null);
+    };
+    image.src = url;
+  });
+  if (loaded) return { reachable: true, ...loaded };
+
+  try {
+    const response = await fetchRemoteText(url);
+    return { reachable: response.status < 400, width: null, height: null };
+  } catch {
+    return { reachable: false, width: null, height: null };
+  }
+};
+
+class SocialPreviewService {
+  private audits = new WeakMap<object, SocialPreviewAudit>();
+  private checks = new WeakMap<object, Promise<SocialPreviewAudit | undefined>>();
+
+  async analyze(url: string, evaluationResults: any): Promise<SocialPreviewAudit | undefined> {
+    if (!evaluationResults?.htmlContent) return undefined;
+
+    const metadata = extractSocialMetadata(evaluationResults.htmlContent, url, evaluationResults.seo);
+    if (metadata.image) {
+      const probe = await probeImage(metadata.image.url);
+      metadata.image = { ...metadata.image, ...probe };
+    }
+    return {
+      metadata,
+      issues: validateSocialMetadata(metadata),
+      previews: buildSocialPreviews(metadata)
+    };
+  }
+
+  // Runs once per evaluation; the SEO phase and the report share the result
+  check(url: string, evaluationResults: any): Promise<SocialPreviewAudit | undefined> {
+    let pending = this.checks.get(evaluationResults);
+    if (!pending) {
+      pending = this.analyze(url, evaluationResults).then(audit => {
+        if (audit) this.audits.set(evaluationResults, audit);
+        return audit;
+      });
+      this.checks.set(evaluationResults, pending);
+    }
+    return pending;
+  }
+
+  get(evaluationResults: any): SocialPreviewAudit | undefined {
+    return evaluationResults ? this.audits.get(evaluationResults) : undefined;
+  }
+
+  // Compact form for the chat prompts
+  summarize(audit: SocialPreviewAudit) {
+    const { metadata } = audit;
+    const size = getImageSize(metadata.image);
+    return {
+      title: metadata.title,
+      description: metadata.description,
+      image: metadata.image && {
+        url: metadata.image.url,
+        size: size ? `${size.width}x${size.height}` : null,
+        reachable: metadata.image.reachable
+      },
+      twitterCard: metadata.twitterCard,
+      icons: metadata.icons.length,
+      manifest: Boolean(metadata.manifestUrl),
+      issues: audit.issues.map(issue => `${issue.severity}: ${issue.message}`),
+      previews: audit.previews.map(preview => `${SOCIAL_PLATFORM_LABELS[preview.platform]}: ${preview.layout} card`)
+    };
+  }
+}
+
+export const socialPreviewService = new SocialPreviewService();
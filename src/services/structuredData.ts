@@ -0,0 +1,290 @@
+import { getSelector } from '../utils/domSelectors';
+
+export type StructuredDataSource = 'json-ld' | 'microdata';
+
+export type StructuredDataIssueSeverity = 'error' | 'warning';
+
+export interface StructuredDataIssue {
+  severity: StructuredDataIssueSeverity;
+  // Dotted path for nested properties, e.g. "mainEntity[0].acceptedAnswer"
+  property: string;
+  message: string;
+}
+
+export interface StructuredDataEntity {
+  type: string;
+  source: StructuredDataSource;
+  // Script or itemscope element the entity was read from, when parsed from the page
+  selector: string;
+  properties: string[];
+  issues: StructuredDataIssue[];
+  // Google rich result the entity can produce, or null when the type has none
+  richResult: string | null;
+  eligible: boolean;
+}
+
+export interface StructuredDataAudit {
+  // Entities with issues first, capped at MAX_STORED_ENTITIES
+  entities: StructuredDataEntity[];
+  // JSON-LD blocks that couldn't be parsed
+  parseErrors: number;
+  errorCount: number;
+  warningCount: number;
+  eligibleRichResults: string[];
+  // Set when the entity list was cut down to MAX_STORED_ENTITIES
+  truncated?: boolean;
+}
+
+// Keeps stored reports well under Firestore's document size limit
+export const MAX_STORED_ENTITIES = 30;
+
+interface TypeRequirements {
+  required: string[];
+  recommended: string[];
+  // At least one of these has to be present, e.g. a Product needs offers, a review or a rating
+  requiredOneOf?: string[];
+  richResult?: string;
+  // Extra checks on nested values such as breadcrumb items or FAQ answers
+  validate?: (entity: any) => StructuredDataIssue[];
+}
+
+const asArray = (value: any): any[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const hasValue = (value: any): boolean => {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.some(hasValue);
+  return true;
+};
+
+const getPath = (value: any, path: string): any =>
+  path.split('.').reduce((current, key) => (current && typeof current === 'object' ? current[key] : undefined), value);
+
+const checkItems = (entity: any, property: string, itemRequired: string[], label: string): StructuredDataIssue[] =>
+  asArray(entity[property]).flatMap((item, index) =>
+    itemRequired
+      .filter(key => !hasValue(typeof item === 'object' ? getPath(item, key) : undefined))
+      .map(key => ({
+        severity: 'error' as StructuredDataIssueSeverity,
+        property: `${property}[${index}].${key}`,
+        message: `${label} ${index + 1} is missing "${key}"`
+      }))
+  );
+
+const ARTICLE_REQUIREMENTS: TypeRequirements = {
+  required: ['headline'],
+  recommended: ['image', 'datePublished', 'dateModified', 'author'],
+  richResult: 'Article'
+};
+
+// Required and recommended properties follow Google's rich result documentation
+export const STRUCTURED_DATA_TYPES: { [type: string]: TypeRequirements } = {
+  Organization: { required: ['name'], recommended: ['url', 'logo', 'sameAs', 'contactPoint'], richResult: 'Organization logo' },
+  LocalBusiness: { required: ['name', 'address'], recommended: ['telephone', 'url', 'openingHoursSpecification', 'geo', 'priceRange'], richResult: 'Local business' },
+  Person: { required: ['name'], recommended: ['url', 'sameAs', 'image'] },
+  WebSite: { required: ['name', 'url'], recommended: ['potentialAction'] },
+  WebPage: { required: ['name'], recommended: ['description', 'url'] },
+  Product: {
+    required: ['name'],
+    requiredOneOf: ['offers', 'review', 'aggregateRating'],
+    recommended: ['image', 'description', 'sku', 'brand'],
+    richResult: 'Product snippet',
+    validate: entity => checkItems(entity, 'offers', ['price', 'priceCurrency'], 'Offer')
+  },
+  Article: ARTICLE_REQUIREMENTS,
+  NewsArticle: ARTICLE_REQUIREMENTS,
+  BlogPosting: ARTICLE_REQUIREMENTS,
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+    richResult: 'Breadcrumb',
+    validate: entity => checkItems(entity, 'itemListElement', ['position', 'name'], 'Breadcrumb item')
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+    richResult: 'FAQ',
+    validate: entity => checkItems(entity, 'mainEntity', ['name', 'acceptedAnswer.text'], 'Question')
+  },
+  Event: { required: ['name', 'startDate', 'location'], recommended: ['endDate', 'description', 'image', 'offers', 'organizer', 'eventStatus'], richResult: 'Event' },
+  Recipe: { required: ['name', 'image'], recommended: ['author', 'datePublished', 'description', 'recipeIngredient', 'recipeInstructions', 'totalTime'], richResult: 'Recipe' },
+  Review: { required: ['itemReviewed', 'reviewRating', 'author'], recommended: ['datePublished'], richResult: 'Review snippet' },
+  VideoObject: { required: ['name', 'thumbnailUrl', 'uploadDate'], recommended: ['description', 'duration', 'contentUrl'], richResult: 'Video' },
+  JobPosting: { required: ['title', 'description', 'datePosted', 'hiringOrganization', 'jobLocation'], recommended: ['validThrough', 'employmentType', 'baseSalary'], richResult: 'Job posting' }
+};
+
+// "https://schema.org/Product" and "schema:Product" both become "Product"
+const normalizeType = (type: any): string => String(type).replace(/^.*[/#:]/, '');
+
+const getTypes = (node: any): string[] => asArray(node?.['@type']).map(normalizeType);
+
+// Top-level entities of a JSON-LD document, including the members of an @graph
+const getJsonLdNodes = (document: any): any[] =>
+  asArray(document).flatMap(node => (node && typeof node === 'object' && node['@graph'] ? getJsonLdNodes(node['@graph']) : [node]))
+    .filter(node => node && typeof node === 'object' && node['@type']);
+
+const getMicrodataValue = (element: Element): any => {
+  if (element.hasAttribute('itemscope')) return readMicrodataItem(element);
+  return element.getAttribute('content') ??
+    element.getAttribute('href') ??
+    element.getAttribute('src') ??
+    element.getAttribute('datetime') ??
+    element.textContent?.trim() ?? '';
+};
+
+// Microdata item as a JSON-LD-like object, only reading properties that belong to this itemscope
+const readMicrodataItem = (item: Element): any => {
+  const result: any = { '@type': (item.getAttribute('itemtype') || '').split(/\s+/).filter(Boolean) };
+  item.querySelectorAll('[itemprop]').forEach(element => {
+    const owner = element.parentElement?.closest('[itemscope]');
+    if (owner !== item) return;
+    (element.getAttribute('itemprop') || '').split(/\s+/).filter(Boolean).forEach(name => {
+      const value = getMicrodataValue(element);
+      result[name] = result[name] === undefined ? value : [...asArray(result[name]), value];
+    });
+  });
+  return result;
+};
+
+const validateEntity = (node: any, source: StructuredDataSource, selector: string): StructuredDataEntity => {
+  const types = getTypes(node);
+  const type = types.find(candidate => STRUCTURED_DATA_TYPES[candidate]) || types[0] || 'Thing';
+  const requirements = STRUCTURED_DATA_TYPES[type];
+  const properties = Object.keys(node).filter(key => !key.startsWith('@'));
+  const issues: StructuredDataIssue[] = [];
+
+  if (requirements) {
+    requirements.required
+      .filter(property => !hasValue(node[property]))
+      .forEach(property => issues.push({ severity: 'error', property, message: `Missing required property "${property}"` }));
+    if (requirements.requiredOneOf && !requirements.requiredOneOf.some(property => hasValue(node[property]))) {
+      issues.push({
+        severity: 'error',
+        property: requirements.requiredOneOf.join('|'),
+        message: `Needs one of ${requirements.requiredOneOf.map(property => `"${property}"`).join(', ')}`
+      });
+    }
+    if (requirements.validate) {
+      issues.push(...requirements.validate(node));
+    }
+    requirements.recommended
+      .filter(property => !hasValue(node[property]))
+      .forEach(property => issues.push({ severity: 'warning', property, message: `Missing recommended property "${property}"` }));
+  }
+
+  const richResult = requirements?.richResult || null;
+  return {
+    type,
+    source,
+    selector,
+    properties,
+    issues,
+    richResult,
+    eligible: Boolean(richResult) && !issues.some(issue => issue.severity === 'error')
+  };
+};
+
+const buildAudit = (entities: StructuredDataEntity[], parseErrors: number): StructuredDataAudit => {
+  const issues = entities.flatMap(entity => entity.issues);
+  // Stable sort, so entities keep their page order within each group
+  const sorted = [...entities].sort((a, b) => Number(b.issues.length > 0) - Number(a.issues.length > 0));
+  return {
+    entities: sorted.slice(0, MAX_STORED_ENTITIES),
+    parseErrors,
+    errorCount: issues.filter(issue => issue.severity === 'error').length + parseErrors,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+    eligibleRichResults: Array.from(new Set(entities.filter(entity => entity.eligible).map(entity => entity.richResult as string))),
+    ...(sorted.length > MAX_STORED_ENTITIES && { truncated: true })
+  };
+};
+
+// Validates raw JSON-LD blocks, e.g. the evaluation server's seo.structuredData
+export const auditJsonLd = (blocks: string[]): StructuredDataAudit => {
+  let parseErrors = 0;
+  const entities = blocks.flatMap(block => {
+    try {
+      return getJsonLdNodes(JSON.parse(block)).map(node => validateEntity(node, 'json-ld', ''));
+    } catch {
+      parseErrors++;
+      return [];
+    }
+  });
+  return buildAudit(entities, parseErrors);
+};
+
+// Reads JSON-LD scripts and top-level microdata items from the page markup
+export const auditStructuredDataHtml = (htmlContent: string): StructuredDataAudit => {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  let parseErrors = 0;
+  const entities: StructuredDataEntity[] = [];
+
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      getJsonLdNodes(JSON.parse(script.textContent || ''))
+        .forEach(node => entities.push(validateEntity(node, 'json-ld', getSelector(script))));
+    } catch {
+      parseErrors++;
+    }
+  });
+
+  // Items with an itemprop are values of another item, not entities of their own
+  doc.querySelectorAll('[itemscope][itemtype]:not([itemprop])').forEach(item => {
+    entities.push(validateEntity(readMicrodataItem(item), 'microdata', getSelector(item)));
+  });
+
+  return buildAudit(entities, parseErrors);
+};
+
+const auditCache = new WeakMap<object, StructuredDataAudit | undefined>();
+
+// Prefers the captured HTML, which covers microdata as well; falls back to the server's JSON-LD blocks
+export const getStructuredDataAudit = (evaluationResults: any): StructuredDataAudit | undefined => {
+  if (!evaluationResults) return undefined;
+  if (auditCache.has(evaluationResults)) return auditCache.get(evaluationResults);
+
+  const blocks = evaluationResults.seo?.structuredData;
+  const audit = evaluationResults.htmlContent
+    ? auditStructuredDataHtml(evaluationResults.htmlContent)
+    : Array.isArray(blocks) ? auditJsonLd(blocks) : undefined;
+
+  auditCache.set(evaluationResults, audit);
+  return audit;
+};
+
+// Plain-language lines for technicalAnalysis.seo.structureAnalysis
+export const describeStructuredData = (audit: StructuredDataAudit): string[] => {
+  if (audit.entities.length === 0) {
+    return [
+      audit.parseErrors > 0
+        ? `${audit.parseErrors} JSON-LD block(s) could not be parsed, so no structured data is available to search engines`
+        : 'No structured data found; the page is not eligible for rich results'
+    ];
+  }
+
+  return [
+    `Structured data: ${audit.entities.map(entity => `${entity.type} (${entity.source})`).join(', ')}`,
+    audit.eligibleRichResults.length > 0
+      ? `Eligible for rich results: ${audit.eligibleRichResults.join(', ')}`
+      : 'No entity is currently eligible for rich results',
+    ...audit.entities.flatMap(entity =>
+      entity.issues
+        .filter(issue => issue.severity === 'error')
+        .map(issue => `${entity.type}: ${issue.message}${entity.richResult ? ` (blocks the ${entity.richResult} rich result)` : ''}`)
+    ),
+    ...(audit.parseErrors > 0 ? [`${audit.parseErrors} JSON-LD block(s) contain invalid JSON and are ignored by search engines`] : []),
+    ...(audit.warningCount > 0 ? [`${audit.warningCount} recommended propert${audit.warningCount === 1 ? 'y is' : 'ies are'} missing`] : [])
+  ];
+};
+
+// Compact form for the chat prompts
+export const summarizeStructuredData = (audit: StructuredDataAudit) => ({
+  entities: audit.entities.map(entity => ({
+    type: entity.type,
+    source: entity.source,
+    richResult: entity.richResult,
+    eligible: entity.eligible,
+    issues: entity.issues.map(issue => `${issue.severity}: ${issue.message}`)
+  })),
+  parseErrors: audit.parseErrors,
+  eligibleRichResults: audit.eligibleRichResults
+});
@@ -0,0 +1,196 @@
+import { getSelector } from '../utils/domSelectors';
+import { StoredReport } from './reportStorage';
+import { siteHistory } from './siteHistory';
+import { getMetricValidator, MetricRating } from './metricValidator';
+
+export interface CertificateChainEntry {
+  subject: string;
+  issuer: string;
+  // ISO date strings so the inspection can be stored as-is
+  validTo: string;
+}
+
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  validFrom: string | null;
+  validTo: string;
+  // Leaf certificate first, then intermediates up to the root
+  chain: CertificateChainEntry[];
+  selfSigned: boolean;
+}
+
+// Active content (scripts, frames, stylesheets, form targets) is blocked by browsers; passive content only warns
+export type MixedContentType = 'active' | 'passive';
+
+export interface MixedContentResource {
+  url: string;
+  type: MixedContentType;
+  selector: string;
+}
+
+export interface TlsInspection {
+  protocol: string | null;
+  cipher: string | null;
+  certificate: CertificateInfo | null;
+  mixedContent: MixedContentResource[];
+  // Set when the mixed-content list was cut down to MAX_STORED_MIXED_CONTENT
+  truncated?: boolean;
+}
+
+export interface CertificateWarning {
+  websiteUrl: string;
+  reportId: string;
+  validTo: string;
+  daysToExpiry: number;
+  rating: MetricRating;
+}
+
+export const MAX_STORED_MIXED_CONTENT = 50;
+
+const WEAK_PROTOCOLS = /^(ssl|tlsv?1(\.0|\.1)?$)/i;
+
+const MIXED_CONTENT_SOURCES: { selector: string; attribute: string; type: MixedContentType }[] = [
+  { selector: 'script[src]', attribute: 'src', type: 'active' },
+  { selector: 'link[rel~="stylesheet"][href]', attribute: 'href', type: 'active' },
+  { selector: 'iframe[src]', attribute: 'src', type: 'active' },
+  { selector: 'object[data]', attribute: 'data', type: 'active' },
+  { selector: 'embed[src]', attribute: 'src', type: 'active' },
+  { selector: 'form[action]', attribute: 'action', type: 'active' },
+  { selector: 'img[src]', attribute: 'src', type: 'passive' },
+  { selector: 'audio[src]', attribute: 'src', type: 'passive' },
+  { selector: 'video[src]', attribute: 'src', type: 'passive' },
+  { selector: 'video[poster]', attribute: 'poster', type: 'passive' },
+  { selector: 'source[src]', attribute: 'src', type: 'passive' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getDaysToExpiry = (validTo: string, now: Date = new Date()): number =>
+  Math.floor((new Date(validTo).getTime() - now.getTime()) / DAY_MS);
+
+export const isWeakProtocol = (protocol: string | null) => Boolean(protocol && WEAK_PROTOCOLS.test(protocol.replace(/\s+/g, '')));
+
+const toIsoDate = (value: any): string | null => {
+  if (!value) return null;
+  const date = typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Plain http:// subresources of an HTTPS page. Relative URLs inherit https and are never mixed.
+export const findMixedContent = (htmlContent: string): MixedContentResource[] => {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const seen = new Set<string>();
+  const resources: MixedContentResource[] = [];
+
+  MIXED_CONTENT_SOURCES.forEach(({ selector, attribute, type }) => {
+    doc.querySelectorAll(selector).forEach(element => {
+      const url = element.getAttribute(attribute)?.trim() || '';
+      if (!/^http:\/\//i.test(url) || seen.has(`${type}:${url}`)) return;
+      seen.add(`${type}:${url}`);
+      resources.push({ url, type, selector: getSelector(element) });
+    });
+  });
+
+  doc.querySelectorAll('img[srcset], source[srcset]').forEach(element => {
+    (element.getAttribute('srcset') || '').split(',').forEach(candidate => {
+      const url = candidate.trim().split(/\s+/)[0];
+      if (!/^http:\/\//i.test(url) || seen.has(`passive:${url}`)) return;
+      seen.add(`passive:${url}`);
+      resources.push({ url, type: 'passive', selector: getSelector(element) });
+    });
+  });
+
+  return resources;
+};
+
+const getCertificate = (security: any): CertificateInfo | null => {
+  const certificate = security?.certificate;
+  const validTo = toIsoDate(certificate?.validTo) || toIsoDate(security?.certificateExpiry);
+  if (!validTo) return null;
+
+  const chain: CertificateChainEntry[] = Array.isArray(certificate?.chain)
+    ? certificate.chain
+      .map((entry: any) => ({ subject: entry.subject || '', issuer: entry.issuer || '', validTo: toIsoDate(entry.validTo) || '' }))
+    : [];
+  const subject = certificate?.subject || '';
+  const issuer = certificate?.issuer || '';
+
+  return {
+    subject,
+    issuer,
+    validFrom: toIsoDate(certificate?.validFrom),
+    validTo,
+    chain,
+    selfSigned: Boolean(subject && subject === issuer)
+  };
+};
+
+const inspectionCache = new WeakMap<object, TlsInspection | undefined>();
+
+// Certificate and protocol details come from the evaluation server's TLS handshake; mixed content
+// uses the server's list when it has one, otherwise the captured HTML of HTTPS pages is scanned here.
+export const getTlsInspection = (evaluationResults: any): TlsInspection | undefined => {
+  if (!evaluationResults) return undefined;
+  if (inspectionCache.has(evaluationResults)) return inspectionCache.get(evaluationResults);
+
+  const security = evaluationResults.security;
+  let inspection: TlsInspection | undefined;
+  if (security) {
+    const serverResources: MixedContentResource[] | undefined = security.mixedContentResources;
+    const mixedContent = serverResources
+      ? [...serverResources]
+      : security.isHttps && evaluationResults.htmlContent ? findMixedContent(evaluationResults.htmlContent) : [];
+    // Active resources first so truncation keeps the ones browsers block
+    mixedContent.sort((a, b) => (a.type === b.type ? 0 : a.type === 'active' ? -1 : 1));
+
+    inspection = {
+      protocol: security.tlsVersion || (/tls|ssl/i.test(security.protocol || '') ? security.protocol : null),
+      cipher: security.cipher || null,
+      certificate: getCertificate(security),
+      mixedContent: mixedContent.slice(0, MAX_STORED_MIXED_CONTENT),
+      ...(mixedContent.length > MAX_STORED_MIXED_CONTENT && { truncated: true })
+    };
+  }
+
+  inspectionCache.set(evaluationResults, inspection);
+  return inspection;
+};
+
+export const countMixedContent = (inspection: TlsInspection) => ({
+  active: inspection.mixedContent.filter(resource => resource.type === 'active').length,
+  passive: inspection.mixedContent.filter(resource => resource.type === 'passive').length
+});
+
+// Compact form for the chat prompts
+export const summarizeTls = (inspection: TlsInspection, now: Date = new Date()) => ({
+  protocol: inspection.protocol,
+  cipher: inspection.cipher,
+  certificate: inspection.certificate && {
+    issuer: inspection.certificate.issuer,
+    validTo: inspection.certificate.validTo,
+    daysToExpiry: getDaysToExpiry(inspection.certificate.validTo, now),
+    chainLength: inspection.certificate.chain.length,
+    selfSigned: inspection.certificate.selfSigned
+  },
+  mixedContent: {
+    ...countMixedContent(inspection),
+    urls: inspection.mixedContent.slice(0, 10).map(resource => `${resource.type}: ${resource.url}`)
+  }
+});
+
+// Sites whose most recent report has a certificate inside the profile's expiry warning window.
+// Days are counted from now, so a report stored weeks ago still warns as the date approaches.
+export const getCertificateWarnings = (reports: StoredReport[], now: Date = new Date()): CertificateWarning[] =>
+  siteHistory.groupReportsBySite(reports)
+    .flatMap(site => {
+      const latest = site.reports[site.reports.length - 1];
+      const validTo = latest.essentialMetrics?.security?.tls?.certificate?.validTo;
+      if (!validTo) return [];
+
+      const daysToExpiry = getDaysToExpiry(validTo, now);
+      const rating = getMetricValidator(latest.scoringProfile).rateMetric('certificateExpiryDays', daysToExpiry);
+      if (!rating || rating === 'good') return [];
+      return [{ websiteUrl: latest.websiteUrl, reportId: latest.id, validTo, daysToExpiry, rating }];
+    })
+    .sort((a, b) => a.daysToExpiry - b.daysToExpiry);
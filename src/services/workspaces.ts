@@ -0,0 +1,246 @@
+import {
+  collection,
+  addDoc,
+  getDocs,
+  doc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { BillingAccount } from './points';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export const WORKSPACE_ROLES: { [role in WorkspaceRole]: string } = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+export interface WorkspaceMember {
+  role: WorkspaceRole;
+  email: string;
+  // Invite the member joined with; the security rules check the role against it
+  inviteId?: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  members: { [userId: string]: WorkspaceMember };
+  // Member whose pay-as-you-go method is charged once the pooled balance runs out
+  payAsYouGoUserId?: string;
+  createdAt: Date;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: string;
+  createdAt: Date;
+}
+
+class WorkspaceService {
+  private workspacesRef() {
+    return collection(db, 'workspaces');
+  }
+
+  private invitesRef() {
+    return collection(db, 'workspaceInvites');
+  }
+
+  getRole(workspace: Workspace, userId: string): WorkspaceRole | null {
+    return workspace.members[userId]?.role || null;
+  }
+
+  // Owners and editors can run evaluations and manage reports; viewers only read them
+  canEdit(workspace: Workspace, userId: string): boolean {
+    const role = this.getRole(workspace, userId);
+    return role === 'owner' || role === 'editor';
+  }
+
+  getBillingAccount(workspace: Workspace): BillingAccount {
+    return {
+      type: 'workspace',
+      workspaceId: workspace.id,
+      payAsYouGoUserId: workspace.payAsYouGoUserId
+    };
+  }
+
+  async createWorkspace(userId: string, email: string, name: string): Promise<string> {
+    try {
+      const workspaceRef = await addDoc(this.workspacesRef(), {
+        name: name.trim(),
+        ownerId: userId,
+        members: { [userId]: { role: 'owner', email } },
+        // Mirrors the member keys so workspaces can be queried with array-contains
+        memberIds: [userId],
+        payAsYouGoUserId: null,
+        createdAt: Timestamp.fromDate(new Date())
+      });
+      return workspaceRef.id;
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      throw new Error('Failed to create workspace');
+    }
+  }
+
+  async getWorkspaces(userId: string): Promise<Workspace[]> {
+    try {
+      const querySnapshot = await getDocs(query(this.workspacesRef(), where('memberIds', 'array-contains', userId)));
+      return querySnapshot.docs
+        .map(doc => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            name: data.name,
+            ownerId: data.ownerId,
+            members: data.members || {},
+            payAsYouGoUserId: data.payAsYouGoUserId || undefined,
+            createdAt: data.createdAt?.toDate() || new Date()
+          };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+      throw new Error('Failed to fetch workspaces');
+    }
+  }
+
+  async deleteWorkspace(workspaceId: string): Promise<void> {
+    try {
+      const reportsSnapshot = await getDocs(collection(db, 'workspaces', workspaceId, 'reports'));
+      await Promise.all(reportsSnapshot.docs.map(report => deleteDoc(report.ref)));
+      await deleteDoc(doc(this.workspacesRef(), workspaceId));
+    } catch (error) {
+      console.error('Error deleting workspace:', error);
+      throw new Error('Failed to delete workspace');
+    }
+  }
+
+  // Members can only offer their own pay-as-you-go method as the fallback; the owner can clear
+  // anyone's, but never pick a member to be charged
+  async setPayAsYouGoUser(workspace: Workspace, actingUserId: string, userId: string | null): Promise<void> {
+    if (userId !== null && userId !== actingUserId) {
+      throw new Error('Members can only opt in their own pay-as-you-go method');
+    }
+    if (userId !== null && !this.canEdit(workspace, userId)) {
+      throw new Error('Viewers cannot pay for workspace evaluations');
+    }
+    if (userId === null && actingUserId !== workspace.ownerId && actingUserId !== workspace.payAsYouGoUserId) {
+      throw new Error('Only the owner or the paying member can remove the fallback');
+    }
+    try {
+      await updateDoc(doc(this.workspacesRef(), workspace.id), { payAsYouGoUserId: userId });
+    } catch (error) {
+      console.error('Error updating workspace billing:', error);
+      throw new Error('Failed to update workspace billing');
+    }
+  }
+
+  // Members are added by email; the invite is accepted once the invitee signs in
+  async inviteMember(workspace: Workspace, email: string, role: WorkspaceRole, invitedBy: string): Promise<void> {
+    if (role === 'owner') {
+      throw new Error('Workspaces have a single owner');
+    }
+    try {
+      await addDoc(this.invitesRef(), {
+        workspaceId: workspace.id,
+        workspaceName: workspace.name,
+        email: email.trim().toLowerCase(),
+        role,
+        invitedBy,
+        createdAt: Timestamp.fromDate(new Date())
+      });
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      throw new Error('Failed to invite member');
+    }
+  }
+
+  async getPendingInvites(email: string): Promise<WorkspaceInvite[]> {
+    try {
+      const querySnapshot = await getDocs(query(this.invitesRef(), where('email', '==', email.toLowerCase())));
+      return querySnapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          workspaceId: data.workspaceId,
+          workspaceName: data.workspaceName,
+          email: data.email,
+          role: data.role,
+          invitedBy: data.invitedBy,
+          createdAt: data.createdAt?.toDate() || new Date()
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching workspace invites:', error);
+      throw new Error('Failed to fetch workspace invites');
+    }
+  }
+
+  async acceptInvite(invite: WorkspaceInvite, userId: string, email: string): Promise<void> {
+    try {
+      await updateDoc(doc(this.workspacesRef(), invite.workspaceId), {
+        [`members.${userId}`]: { role: invite.role, email, inviteId: invite.id },
+        memberIds: arrayUnion(userId)
+      });
+      await deleteDoc(doc(this.invitesRef(), invite.id));
+    } catch (error) {
+      console.error('Error accepting workspace invite:', error);
+      throw new Error('Failed to accept workspace invite');
+    }
+  }
+
+  async declineInvite(inviteId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(this.invitesRef(), inviteId));
+    } catch (error) {
+      console.error('Error declining workspace invite:', error);
+      throw new Error('Failed to decline workspace invite');
+    }
+  }
+
+  async updateMemberRole(workspace: Workspace, userId: string, role: WorkspaceRole): Promise<void> {
+    if (userId === workspace.ownerId || role === 'owner') {
+      throw new Error('The workspace owner cannot be changed');
+    }
+    try {
+      await updateDoc(doc(this.workspacesRef(), workspace.id), {
+        [`members.${userId}.role`]: role
+      });
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      throw new Error('Failed to update member role');
+    }
+  }
+
+  // Also used by members leaving a workspace themselves
+  async removeMember(workspace: Workspace, userId: string): Promise<void> {
+    if (userId === workspace.ownerId) {
+      throw new Error('The workspace owner cannot be removed');
+    }
+    try {
+      await updateDoc(doc(this.workspacesRef(), workspace.id), {
+        [`members.${userId}`]: deleteField(),
+        memberIds: arrayRemove(userId),
+        ...(workspace.payAsYouGoUserId === userId && { payAsYouGoUserId: null })
+      });
+    } catch (error) {
+      console.error('Error removing member:', error);
+      throw new Error('Failed to remove member');
+    }
+  }
+}
+
+export const workspaceService = new WorkspaceService();
@@ -0,0 +1,32 @@
+// Short CSS selector for an element in a parsed document: stops at the nearest id and
+// adds :nth-of-type only where siblings share a tag, so it stays readable in reports
+export function getSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current.tagName.toLowerCase() !== 'html' && parts.length < 4) {
+    if (current.id) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+
+    let part = current.tagName.toLowerCase();
+    const classes = Array.from(current.classList).slice(0, 2);
+    if (classes.length > 0) {
+      part += classes.map(className => `.${CSS.escape(className)}`).join('');
+    }
+
+    const tagName = current.tagName;
+    const siblings: Element[] = current.parentElement
+      ? Array.from(current.parentElement.children).filter(sibling => sibling.tagName === tagName)
+      : [];
+    if (siblings.length > 1) {
+      part += `:nth-of-type(${siblings.indexOf(current) + 1})`;
+    }
+
+    parts.unshift(part);
+    current = current.parentElement;
+  }
+
+  return parts.length > 0 ? parts.join(' > ') : element.tagName.toLowerCase();
+}
@@ -0,0 +1,23 @@
+// Lighthouse scores arrive either as 0-1 fractions or as 0-100 percentages
+export function toPercentScore(value: number | undefined | null): number | undefined {
+  if (typeof value !== 'number' || isNaN(value)) return undefined;
+  return value <= 1 ? value * 100 : value;
+}
+
+// Average of the four Lighthouse categories on a 0-100 scale, or 0 when none were reported
+export function getLighthouseScore(lighthouse?: {
+  performance?: number;
+  accessibility?: number;
+  bestPractices?: number;
+  seo?: number;
+}): number {
+  const scores = [
+    lighthouse?.performance,
+    lighthouse?.accessibility,
+    lighthouse?.bestPractices,
+    lighthouse?.seo
+  ].map(toPercentScore).filter((score): score is number => typeof score === 'number');
+
+  if (scores.length === 0) return 0;
+  return Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
+}
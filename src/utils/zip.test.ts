@@ -0,0 +1,70 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { createZip } from './zip';
+
+// jsdom doesn't provide the encoding API
+Object.assign(global, { TextEncoder, TextDecoder });
+
+const readBlob = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// Reads the archive back through its central directory, the way unzip tools do
+const readEntries = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const entries: { name: string; crc: number; data: string; date: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const size = view.getUint32(offset + 20, true);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const dataStart = localOffset + 30 + localNameLength;
+    entries.push({
+      name: new TextDecoder().decode(bytes.slice(offset + 46, offset + 46 + nameLength)),
+      crc: view.getUint32(offset + 16, true),
+      data: new TextDecoder().decode(bytes.slice(dataStart, dataStart + size)),
+      date: view.getUint16(offset + 14, true)
+    });
+    offset += 46 + nameLength;
+  }
+  return { view, entries };
+};
+
+describe('createZip', () => {
+  it('writes every entry with its name, contents and CRC-32', async () => {
+    const bytes = await readBlob(createZip([
+      { name: 'report.json', data: '{"score":90}' },
+      { name: 'notes/übersicht.txt', data: new TextEncoder().encode('The quick brown fox jumps over the lazy dog') }
+    ]));
+    const { view, entries } = readEntries(bytes);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(entries.map(entry => entry.name)).toEqual(['report.json', 'notes/übersicht.txt']);
+    expect(entries[0].data).toBe('{"score":90}');
+    expect(entries[1].data).toBe('The quick brown fox jumps over the lazy dog');
+    expect(entries[1].crc).toBe(0x414fa339);
+  });
+
+  it('stores the entry date in MS-DOS format', async () => {
+    const bytes = await readBlob(createZip([{ name: 'a.txt', data: 'a', date: new Date(2024, 2, 15, 10, 30, 0) }]));
+    const { entries } = readEntries(bytes);
+
+    expect(entries[0].date).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+  });
+
+  it('produces a valid empty archive', async () => {
+    const bytes = await readBlob(createZip([]));
+    const view = new DataView(bytes.buffer);
+
+    expect(bytes.length).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054b50);
+    expect(view.getUint16(10, true)).toBe(0);
+  });
+});